@@ -1,4 +1,4 @@
-import { AgentConfig, ToolResult } from '../types/sdk';
+import { AgentConfig, AgentTaskOptions, ToolResult } from '../types/sdk';
 import { LLMHandler } from '../llm/handler';
 import { Logger } from '../utils/logger';
 
@@ -57,14 +57,18 @@ export abstract class BaseAgent {
         this.memory = createMemory({ type: 'short_term' });
     }
 
-    abstract executeTask(task: string): Promise<ToolResult>;
+    abstract executeTask(task: string, options?: AgentTaskOptions): Promise<ToolResult>;
 
-    async run(task: string): Promise<ToolResult> {
+    getConfig(): AgentConfig {
+        return this.config;
+    }
+
+    async run(task: string, options?: AgentTaskOptions): Promise<ToolResult> {
         const startTime = Date.now();
         
         try {
             this.logger.info('Agent', `Starting task: ${task}`);
-            const result = await this.executeTask(task);
+            const result = await this.executeTask(task, options);
             
             const metrics = {
                 duration: Date.now() - startTime,
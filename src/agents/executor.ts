@@ -1,15 +1,44 @@
 import { BaseAgent } from './base';
-import { AgentConfig, ToolResult, ToolChain } from '../types/sdk';
+import { AgentConfig, AgentTaskOptions, AgentStreamEvent, AgentStreamEventPayload, ToolResult, ToolChain, CostScope } from '../types/sdk';
 import { SystemPromptService } from './sysprompt';
 import { ToolRegistry } from '../tools/standard/registry';
 import { ChainExecutor } from '../tools/executor';
-import { LLMRequest, LLMMessage, LLMConfig as RichLLMAgentConfig } from '../llm/types'; // Commented out LLMFunctionDefinition
+import { LLMRequest, LLMResponse, LLMMessage, LLMConfig as RichLLMAgentConfig } from '../llm/types'; // Commented out LLMFunctionDefinition
+import { StreamingService } from '../streaming/service';
+import { CostTracker, BudgetViolation } from '../llm/costs';
+import { isCancellation, toCancellationError } from '../utils/cancellation';
+
+export const DEFAULT_MAX_ITERATIONS = 10;
+
+type ToolLoopStopReason = 'completed' | 'max_iterations' | 'token_budget' | 'cost_budget' | 'invalid_response' | 'cancelled';
+
+interface ExecutedTool {
+    name: string;
+    success: boolean;
+    result?: any;
+    error?: string;
+}
+
+interface TaskAnalysisResult {
+    response: string;
+    reasoning: string;
+    agent: string;
+    timestamp: string;
+    model: string;
+    tokenUsage: { prompt_tokens: number; completion_tokens: number; total_tokens: number };
+    toolsExecuted?: ExecutedTool[];
+    iterations: number;
+    stopReason: ToolLoopStopReason;
+    cost: number; // USD spent on LLM calls for this task
+    budgetViolation?: BudgetViolation;
+}
 
 export class AgentExecutor extends BaseAgent {
     public readonly name: string;
     private systemPromptService: SystemPromptService;
     private chainExecutor: ChainExecutor;
     private registry: ToolRegistry;
+    private costTracker: CostTracker;
 
     constructor(config: AgentConfig, sharedRegistry?: ToolRegistry) {
         super(config);
@@ -21,6 +50,7 @@ export class AgentExecutor extends BaseAgent {
         this.registry = sharedRegistry || ToolRegistry.getInstance();
         this.systemPromptService = new SystemPromptService();
         this.chainExecutor = ChainExecutor.getInstance();
+        this.costTracker = CostTracker.getInstance();
     }
 
     async executeToolChain(chain: ToolChain, input: Record<string, any> = {}): Promise<ToolResult> {
@@ -117,8 +147,58 @@ export class AgentExecutor extends BaseAgent {
         return response;
     }
 
+    /**
+     * Runs a task while yielding token deltas, tool start/finish events and finally the ToolResult.
+     * The same events are published on the StreamingService stream `streamId` for UI subscribers.
+     */
+    async *runStream(task: string, options: { streamId?: string } = {}): AsyncGenerator<AgentStreamEvent> {
+        const streamId = options.streamId || `agent_${this.name}_${Date.now()}`;
+        const streamingService = StreamingService.getInstance();
+        await streamingService.initialize();
+        streamingService.createStream({ id: streamId, type: 'agent', metadata: { agent: this.name, task } });
+
+        const pending: AgentStreamEvent[] = [];
+        let wake: (() => void) | null = null;
+        let finished = false;
+
+        const emit = (payload: AgentStreamEventPayload) => {
+            const event = { ...payload, streamId } as AgentStreamEvent;
+            pending.push(event);
+            if (payload.type !== 'result') {
+                streamingService.updateProgress(streamId, { status: 'progress', message: payload.type, data: event });
+            }
+            wake?.();
+        };
+
+        const execution = this.run(task, { onEvent: emit, stream: true })
+            .then(result => {
+                emit({ type: 'result', result });
+                if (result.success) {
+                    streamingService.completeStream(streamId, result);
+                } else {
+                    streamingService.errorStream(streamId, new Error(result.error || 'Agent task failed'));
+                }
+            })
+            .finally(() => {
+                finished = true;
+                wake?.();
+            });
+
+        while (true) {
+            if (pending.length > 0) {
+                yield pending.shift()!;
+                continue;
+            }
+            if (finished) break;
+            await new Promise<void>(resolve => { wake = resolve; });
+            wake = null;
+        }
+
+        await execution;
+    }
+
     // Simplified task execution - context intelligence handles complexity
-    async executeTask(task: string): Promise<ToolResult> {
+    async executeTask(task: string, options: AgentTaskOptions = {}): Promise<ToolResult> {
         try {
             this.logger.info('AgentExecutor', `Executing task: ${task}`);
 
@@ -142,51 +222,50 @@ export class AgentExecutor extends BaseAgent {
             });
 
             // Analyze task with LLM - simplified approach
-            const analysisResult = await this.analyzeAndExecuteTask(task, systemPrompt);
+            const analysisResult = await this.analyzeAndExecuteTask(task, systemPrompt, options);
             
-            // Determine overall success based on tool executions within analysisResult
-            let overallTaskSuccess = true; // Assume success unless a tool failed or analysisResult indicates issues
+            // Determine overall success based on how the tool-use loop ended and on the tools it executed
+            let overallTaskSuccess = true; // Assume success unless the loop was cut short or a tool failure went unresolved
             let primaryError: string | undefined;
             let finalResponse = analysisResult.response;
 
-            if (analysisResult.toolsExecuted && analysisResult.toolsExecuted.length > 0) {
-                const firstFailedTool = analysisResult.toolsExecuted.find(t => !t.success);
-                if (firstFailedTool) {
+            if (analysisResult.stopReason === 'cancelled') {
+                overallTaskSuccess = false;
+                primaryError = `Agent ${this.config.name} was cancelled: ${options.signal ? toCancellationError(options.signal).message : 'Operation cancelled'}`;
+                this.logger.warn('AgentExecutor', primaryError, { agentName: this.config.name, iterations: analysisResult.iterations });
+            } else if (analysisResult.stopReason === 'cost_budget' && analysisResult.budgetViolation) {
+                const { scope, spend, limit } = analysisResult.budgetViolation;
+                overallTaskSuccess = false;
+                primaryError = `Hard budget exceeded for ${scope.type} ${scope.id} ($${spend.toFixed(4)} spent, limit $${limit}); agent ${this.config.name} stopped before its next LLM call.`;
+                this.logger.warn('AgentExecutor', primaryError, { agentName: this.config.name, stopReason: analysisResult.stopReason });
+            } else if (analysisResult.stopReason === 'max_iterations' || analysisResult.stopReason === 'token_budget') {
+                overallTaskSuccess = false;
+                primaryError = analysisResult.stopReason === 'max_iterations'
+                    ? `Agent ${this.config.name} reached the maximum of ${analysisResult.iterations} iterations without producing a final answer.`
+                    : `Agent ${this.config.name} exhausted its token budget (${analysisResult.tokenUsage.total_tokens}/${this.config.tokenBudget} tokens) before producing a final answer.`;
+                this.logger.warn('AgentExecutor', primaryError, { agentName: this.config.name, stopReason: analysisResult.stopReason });
+            } else if (analysisResult.toolsExecuted && analysisResult.toolsExecuted.length > 0) {
+                // A failed tool only fails the task if the model never recovered by re-running that tool successfully.
+                const executed = analysisResult.toolsExecuted;
+                const unresolvedFailure = executed.find((t, index) =>
+                    !t.success && !executed.slice(index + 1).some(later => later.name === t.name && later.success)
+                );
+                if (unresolvedFailure) {
                     overallTaskSuccess = false;
-                    primaryError = `Tool '${firstFailedTool.name}' failed: ${firstFailedTool.error || 'Unknown tool error'}`;
-                    // Optionally, adjust finalResponse if a tool failed critically
-                    // finalResponse = `Agent task failed due to tool error: ${primaryError}`;
+                    primaryError = `Tool '${unresolvedFailure.name}' failed: ${unresolvedFailure.error || 'Unknown tool error'}`;
                 }
             } else {
                 // No tools were executed.
                 const agentHasTools = this.config.tools && this.config.tools.length > 0;
 
-                if (agentHasTools) {
-                    // Agent has tools configured, but none were selected or executed by the LLM.
-                    // Check if the LLM explicitly said "no tool" in its JSON response.
-                    let llmIndicatedNoToolViaJson = false;
-                    if (analysisResult.response) { 
-                        try {
-                            // analysisResult.response should be the direct content from LLM if no tool was called
-                            const parsedResponse = JSON.parse(analysisResult.response);
-                            if (parsedResponse.tool_name === 'none' || parsedResponse.toolName === 'none') {
-                                llmIndicatedNoToolViaJson = true;
-                            }
-                        } catch (e) {
-                            // Not a valid JSON response, or not a tool_name:none structure.
-                            this.logger.debug('AgentExecutor', 'executeTask: Could not parse analysisResult.response as JSON or no explicit "none" tool found when checking no-tool case.', { response: analysisResult.response, error: e instanceof Error ? e.message : String(e) });
-                        }
-                    }
-
-                    if (!llmIndicatedNoToolViaJson) {
-                        overallTaskSuccess = false;
-                        primaryError = `Agent ${this.config.name} has tools configured but did not select or execute any tool. The LLM response also did not explicitly indicate 'no tool' in the expected JSON format. Task may be incomplete.`;
-                        // finalResponse remains analysisResult.response (which could be non-JSON or malformed JSON in this failure case)
-                        this.logger.warn('AgentExecutor', primaryError, { agentName: this.config.name, configuredTools: this.config.tools.length, llmResponse: analysisResult.response });
-                    } else {
-                         this.logger.info('AgentExecutor', `Agent ${this.config.name} explicitly indicated no tool was needed via JSON response. Task considered successful based on LLM decision.`, { agentName: this.config.name });
-                         // overallTaskSuccess remains true
-                    }
+                // Agent has tools configured, but the LLM neither selected a tool nor explicitly said "none".
+                if (agentHasTools && analysisResult.stopReason !== 'completed') {
+                    overallTaskSuccess = false;
+                    primaryError = `Agent ${this.config.name} has tools configured but did not select or execute any tool. The LLM response also did not explicitly indicate 'no tool' in the expected JSON format. Task may be incomplete.`;
+                    // finalResponse remains analysisResult.response (which could be non-JSON or malformed JSON in this failure case)
+                    this.logger.warn('AgentExecutor', primaryError, { agentName: this.config.name, configuredTools: this.config.tools.length, llmResponse: analysisResult.response });
+                } else if (agentHasTools) {
+                    this.logger.info('AgentExecutor', `Agent ${this.config.name} explicitly indicated no tool was needed. Task considered successful based on LLM decision.`, { agentName: this.config.name });
                 }
                 // If agent has no tools configured, then overallTaskSuccess remains true by default.
             }
@@ -213,7 +292,10 @@ export class AgentExecutor extends BaseAgent {
                     timestamp: analysisResult.timestamp,
                     model: analysisResult.model,
                     tokenUsage: analysisResult.tokenUsage,
-                    toolsExecuted: analysisResult.toolsExecuted
+                    toolsExecuted: analysisResult.toolsExecuted,
+                    iterations: analysisResult.iterations,
+                    stopReason: analysisResult.stopReason,
+                    cost: analysisResult.cost
                 },
                 error: primaryError
             };
@@ -236,14 +318,25 @@ export class AgentExecutor extends BaseAgent {
         }
     }
 
-    // Simplified analysis and execution - let LLM handle tool selection through registry
-    private async analyzeAndExecuteTask(task: string, systemPrompt: string) {
+    // Multi-turn tool-use loop: the LLM selects a tool, its result is fed back as a `tool` message,
+    // and the loop continues until the LLM answers with tool_name "none" (or a limit is reached).
+    private async analyzeAndExecuteTask(task: string, systemPrompt: string, options: AgentTaskOptions = {}): Promise<TaskAnalysisResult> {
         const agentLLMConfig = typeof this.config.llm === 'object' ? this.config.llm as RichLLMAgentConfig : null;
+        const llmRouting = typeof this.config.llm === 'object' ? this.config.llm : undefined;
         const agentHasTools = this.config.tools && this.config.tools.length > 0;
+        // Native mode sends the registry's function definitions as provider tools instead of the JSON contract
+        // Backends without native tool calling or JSON mode fall back to the prompt-based protocol
+        const capabilities = this.llm.getProviderCapabilities(agentLLMConfig?.provider);
+        const useNativeTools = agentHasTools && !!this.config.useFunctionCalling && capabilities.toolCalling;
+        if (agentHasTools && this.config.useFunctionCalling && !capabilities.toolCalling) {
+            this.logger.warn('AgentExecutor', 'Provider does not support native tool calling; falling back to the JSON tool protocol.', { provider: agentLLMConfig?.provider });
+        }
 
         let finalSystemPrompt = systemPrompt;
 
-        if (agentHasTools) {
+        if (useNativeTools) {
+            this.logger.info('AgentExecutor', 'Agent uses native tool calling; skipping JSON structural instructions.');
+        } else if (agentHasTools) {
             let jsonInstruction = "";
             const baseInstruction = "\n\n--- BEGIN SDK JSON REQUIREMENTS ---";
             const endInstruction = "\n--- END SDK JSON REQUIREMENTS ---";
@@ -252,7 +345,8 @@ export class AgentExecutor extends BaseAgent {
             // Tool guidance is always included if agentHasTools, as a tool_name is always expected.
             toolGuidance = `
 YOU HAVE TOOLS. TO USE A TOOL: your JSON object MUST contain a "tool_name" (string) key AND a "parameters" (object) key. The value for "tool_name" MUST be the EXACT name of the tool. The "parameters" object MUST contain the arguments for the tool.
-IF NO TOOL IS NEEDED: your JSON object MUST contain a "tool_name" (string) key set EXPLICITLY to "none", AND a "response" (string) key with your direct textual answer.`;
+YOU MAY USE SEVERAL TOOLS ONE AFTER ANOTHER: after each tool call you will receive its result in a "tool" message, then respond with your next JSON object.
+IF NO TOOL IS NEEDED (OR THE TASK IS COMPLETE): your JSON object MUST contain a "tool_name" (string) key set EXPLICITLY to "none", AND a "response" (string) key with your final textual answer.`;
             
             jsonInstruction = `${baseInstruction}
 YOUR ENTIRE RESPONSE MUST BE A SINGLE VALID JSON OBJECT. DO NOT ADD ANY TEXT BEFORE OR AFTER THIS JSON OBJECT.
@@ -261,95 +355,303 @@ FAILURE TO ADHERE TO THIS JSON STRUCTURE WILL RESULT IN AN ERROR.${endInstructio
             
             finalSystemPrompt += jsonInstruction;
             this.logger.info('AgentExecutor', 'Appended VERY EXPLICIT JSON structural instruction to system prompt as agent has tools.');
+        } else {
+            this.logger.info('AgentExecutor', 'Agent has no tools; expecting standard text response.');
         }
 
-        const initialMessages: LLMMessage[] = [
+        const messages: LLMMessage[] = [
             { role: 'system', content: finalSystemPrompt }, 
             { role: 'user', content: task }
         ];
 
         // agentLLMConfig is derived from this.config.llm, which could be a string (model name)
         // or an LLMBaseConfig object. LLMBaseConfig no longer has useFunctionCalling.
+        // Without a model the provider's own configured model (or first served model) is used.
         const baseLlmSettings = {
-            model: agentLLMConfig?.model || (typeof this.config.llm === 'string' ? this.config.llm : 'default-model'),
+            model: agentLLMConfig?.model || (typeof this.config.llm === 'string' ? this.config.llm : undefined),
             temperature: agentLLMConfig?.temperature ?? 0.7,
             maxTokens: agentLLMConfig?.maxTokens ?? 2048,
         };
 
-        const llmRequest: LLMRequest = {
-            messages: initialMessages,
-            llmConfig: baseLlmSettings // Assign the cleaned settings
-        };
+        const maxIterations = this.config.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+        const tokenBudget = this.config.tokenBudget;
+        const tokenUsage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+        const toolResults: ExecutedTool[] = [];
+        let actualResponseContent: string | null = null;
+        let stopReason: ToolLoopStopReason = 'max_iterations';
+        let model = baseLlmSettings.model || '';
+        let iterations = 0;
+        const functionDefinitions = useNativeTools ? this.registry.getAllLLMFunctionDefinitions(this.config.tools) : undefined;
+        // Spend counts against this agent plus any team/pipeline the task runs under
+        const costScopes: CostScope[] = [
+            { type: 'agent', id: this.config.name, budget: this.config.budget },
+            ...(options.costScopes || [])
+        ];
+        let cost = 0;
+        let budgetViolation: BudgetViolation | undefined;
 
-        if (agentHasTools) {
-            llmRequest.expectsJsonResponse = true;
-            this.logger.info('AgentExecutor', 'Agent has tools, setting expectsJsonResponse = true in LLMRequest.');
-            // No longer setting response_format here; OpenAIProvider will handle it if expectsJsonResponse is true.
-        } else {
-            // Fallback for agents without tools: ensure no legacy TOOL_CALL instructions interfere if system prompt is reused.
-            // This part might be simplified or removed if agents without tools have different prompt generation.
-            if (initialMessages[0].content?.includes('TOOL_CALL:')) {
-                 this.logger.warn('AgentExecutor', 'Agent has no tools, but system prompt contains TOOL_CALL. This might be from a shared/old system prompt.');
+        while (iterations < maxIterations) {
+            if (options.signal?.aborted) {
+                stopReason = 'cancelled';
+                break;
+            }
+            budgetViolation = this.costTracker.checkBudgets(costScopes);
+            if (budgetViolation) {
+                stopReason = 'cost_budget';
+                break;
             }
-            this.logger.info('AgentExecutor', 'Agent has no tools; expecting standard text response.');
-        }
 
-        this.logger.info('AgentExecutor', 'Analyzing task with LLM', { agentHasTools });
-        const llmResponse = await this.llm.complete(llmRequest);
+            const remainingBudget = tokenBudget !== undefined ? tokenBudget - tokenUsage.total_tokens : undefined;
+            if (remainingBudget !== undefined && remainingBudget <= 0) {
+                stopReason = 'token_budget';
+                this.logger.warn('AgentExecutor', 'Token budget exhausted, stopping tool-use loop.', { tokenBudget, used: tokenUsage.total_tokens, iterations });
+                break;
+            }
+            iterations++;
 
-        if (!llmResponse) {
-            this.logger.error('AgentExecutor', 'LLM completion returned null/undefined.');
-            throw new Error('LLM completion failed.');
-        }
+            const llmRequest: LLMRequest = {
+                messages,
+                provider: agentLLMConfig?.provider, // Falls back to the handler's default provider when unset
+                fallbacks: llmRouting?.fallbacks,
+                routing: llmRouting?.routing,
+                signal: options.signal,
+                llmConfig: {
+                    ...baseLlmSettings,
+                    // Never ask for more completion tokens than the remaining budget allows
+                    maxTokens: remainingBudget !== undefined ? Math.min(baseLlmSettings.maxTokens, remainingBudget) : baseLlmSettings.maxTokens
+                }
+            };
+            if (useNativeTools) {
+                llmRequest.functions = functionDefinitions;
+                llmRequest.tool_choice = 'auto';
+            } else if (agentHasTools) {
+                // OpenAIProvider enables response_format json_object when this flag is set.
+                llmRequest.expectsJsonResponse = true;
+            }
 
-        let toolResults: any[] = [];
-        let actualResponseContent = llmResponse.content;
-
-        // Parsing logic now primarily depends on agentHasTools to expect JSON
-        if (agentHasTools) { 
-            if (llmResponse.content) {
-                try {
-                    const parsedJson = JSON.parse(llmResponse.content);
-                    const toolName = parsedJson.tool_name || parsedJson.toolName;
-                    const parameters = parsedJson.parameters;
-
-                    if (toolName && toolName !== 'none' && parameters) {
-                        this.logger.info('AgentExecutor', `LLM designated tool (JSON mode): ${toolName}`, { parameters });
-                        const toolResultData = await this.registry.executeTool(toolName, parameters);
-                        toolResults.push({ name: toolName, success: toolResultData.success, result: toolResultData.result, error: toolResultData.error });
-                        actualResponseContent = `Tool ${toolName} executed. Success: ${toolResultData.success}. Result: ${JSON.stringify(toolResultData.result || toolResultData.error)}`;
-                        this.logger.info('AgentExecutor', `JSON mode tool execution summary: ${actualResponseContent}`)
-                    } else if (toolName === 'none') {
-                        this.logger.info('AgentExecutor', 'LLM indicated no tool (JSON mode).');
-                        actualResponseContent = parsedJson.response || "No further action taken as per LLM JSON response.";
-                    } else {
-                        this.logger.warn('AgentExecutor', 'LLM JSON response did not conform to expected {tool_name, parameters} or tool_name was missing.', { parsedJson });
-                        actualResponseContent = llmResponse.content; // Fallback to raw content
+            this.logger.info('AgentExecutor', `Analyzing task with LLM (iteration ${iterations}/${maxIterations})`, { agentHasTools, useNativeTools });
+            let llmResponse: LLMResponse;
+            try {
+                llmResponse = options.stream
+                    ? await this.completeWithStreaming(llmRequest, options)
+                    : await this.llm.complete(llmRequest);
+            } catch (error) {
+                if (isCancellation(error, options.signal)) {
+                    stopReason = 'cancelled';
+                    break;
+                }
+                throw error;
+            }
+
+            if (!llmResponse) {
+                this.logger.error('AgentExecutor', 'LLM completion returned null/undefined.');
+                throw new Error('LLM completion failed.');
+            }
+
+            model = llmResponse.model;
+            tokenUsage.prompt_tokens += llmResponse.usage?.prompt_tokens || 0;
+            tokenUsage.completion_tokens += llmResponse.usage?.completion_tokens || 0;
+            tokenUsage.total_tokens += llmResponse.usage?.total_tokens || 0;
+            cost += await this.costTracker.recordUsage(model, {
+                prompt_tokens: llmResponse.usage?.prompt_tokens || 0,
+                completion_tokens: llmResponse.usage?.completion_tokens || 0
+            }, costScopes);
+            actualResponseContent = llmResponse.content;
+
+            if (!agentHasTools) {
+                // If agent has no tools, the LLM response is the final answer. No JSON parsing expected here.
+                this.logger.info('AgentExecutor', 'Agent has no tools, LLM response treated as direct text.');
+                stopReason = 'completed';
+                break;
+            }
+
+            if (useNativeTools) {
+                const nativeCalls = llmResponse.tool_calls || [];
+                if (nativeCalls.length === 0) {
+                    // No tool calls means the model produced its final answer as plain content
+                    this.logger.info('AgentExecutor', 'LLM returned no tool calls (native mode), treating content as final answer.', { iterations, toolsExecuted: toolResults.length });
+                    actualResponseContent = llmResponse.content || "No further action taken as per LLM response.";
+                    stopReason = 'completed';
+                    break;
+                }
+
+                this.logger.info('AgentExecutor', `LLM requested ${nativeCalls.length} tool call(s) (native mode)`, {
+                    tools: nativeCalls.map(call => call.function.name),
+                    iteration: iterations
+                });
+
+                // Parallel tool calls within one turn are independent by contract, so run them concurrently
+                const callResults = await Promise.all(nativeCalls.map(async call => {
+                    let parameters: Record<string, any>;
+                    try {
+                        parameters = call.function.arguments ? JSON.parse(call.function.arguments) : {};
+                    } catch (e) {
+                        this.logger.warn('AgentExecutor', `Invalid JSON arguments for tool call ${call.function.name}`, { arguments: call.function.arguments });
+                        return { call, result: { success: false, error: `Invalid JSON arguments: ${e instanceof Error ? e.message : String(e)}` } as ToolResult };
                     }
-                } catch (e) {
-                    this.logger.error('AgentExecutor', 'Failed to parse LLM content as JSON, though JSON was expected as agent has tools.', { content: llmResponse.content, error: e });
-                    actualResponseContent = llmResponse.content || "Error: LLM response was not valid JSON despite tools being present."; 
+                    return { call, result: await this.runTool(call.function.name, call.id, parameters, options) };
+                }));
+
+                messages.push({ role: 'assistant', content: llmResponse.content, tool_calls: nativeCalls });
+                for (const { call, result } of callResults) {
+                    toolResults.push({ name: call.function.name, success: result.success, result: result.result, error: result.error });
+                    messages.push(this.createToolMessage(call.id, call.function.name, result));
                 }
-            } else {
-                this.logger.warn('AgentExecutor', 'LLM content was null, though JSON was expected as agent has tools.');
-                actualResponseContent = "LLM response content was null.";
+                actualResponseContent = callResults
+                    .map(({ call, result }) => `Tool ${call.function.name} executed. Success: ${result.success}. Result: ${JSON.stringify(result.result || result.error)}`)
+                    .join('\n');
+                continue;
             }
-        } else {
-            // If agent has no tools, actualResponseContent is already llmResponse.content. No specific JSON parsing expected here.
-            this.logger.info('AgentExecutor', 'Agent has no tools, LLM response treated as direct text.');
+
+            const decision = this.parseToolDecision(llmResponse.content, !capabilities.jsonMode);
+            if (!decision) {
+                // Fall back to the raw content as the answer; executeTask decides whether that counts as success.
+                stopReason = 'invalid_response';
+                actualResponseContent = llmResponse.content || "Error: LLM response was not valid JSON despite tools being present.";
+                break;
+            }
+
+            if (decision.toolName === 'none') {
+                this.logger.info('AgentExecutor', 'LLM indicated no further tool (JSON mode).', { iterations, toolsExecuted: toolResults.length });
+                actualResponseContent = decision.response || "No further action taken as per LLM JSON response.";
+                stopReason = 'completed';
+                break;
+            }
+
+            this.logger.info('AgentExecutor', `LLM designated tool (JSON mode): ${decision.toolName}`, { parameters: decision.parameters, iteration: iterations });
+            const toolCallId = `call_${iterations}_${decision.toolName}`;
+            const toolResultData = await this.runTool(decision.toolName, toolCallId, decision.parameters, options);
+            toolResults.push({ name: decision.toolName, success: toolResultData.success, result: toolResultData.result, error: toolResultData.error });
+            actualResponseContent = `Tool ${decision.toolName} executed. Success: ${toolResultData.success}. Result: ${JSON.stringify(toolResultData.result || toolResultData.error)}`;
+
+            // Feed the call and its result back as plain turns: JSON-mode requests carry no tool definitions,
+            // so native tool_calls/tool messages would be rejected by Anthropic and by many compatible servers
+            messages.push({ role: 'assistant', content: llmResponse.content });
+            messages.push(this.createToolResultTurn(decision.toolName, toolResultData));
+        }
+
+        if (stopReason === 'max_iterations') {
+            this.logger.warn('AgentExecutor', `Tool-use loop stopped after ${iterations} iterations without a final answer.`, { maxIterations });
         }
 
         return {
             response: actualResponseContent ?? '',
             reasoning: toolResults.length > 0 
-                ? `Processed ${toolResults.length} tool actions. First tool: ${toolResults[0].name}, Success: ${toolResults[0].success}` 
-                : (agentHasTools ? 'No tool actions taken as per LLM JSON, or direct LLM response in JSON indicated no tool.' : 'Direct LLM response as agent has no tools.'),
+                ? `Processed ${toolResults.length} tool actions over ${iterations} iterations: ${toolResults.map(t => `${t.name} (${t.success ? 'ok' : 'failed'})`).join(' -> ')}` 
+                : (useNativeTools ? 'LLM answered directly without calling any tool.' : agentHasTools ? 'No tool actions taken as per LLM JSON, or direct LLM response in JSON indicated no tool.' : 'Direct LLM response as agent has no tools.'),
             agent: this.config.name,
             timestamp: new Date().toISOString(),
-            model: llmResponse.model,
-            tokenUsage: llmResponse.usage,
-            toolsExecuted: toolResults.length > 0 ? toolResults : undefined
+            model,
+            tokenUsage,
+            toolsExecuted: toolResults.length > 0 ? toolResults : undefined,
+            iterations,
+            stopReason,
+            cost,
+            budgetViolation
+        };
+    }
+
+    // Executes a registry tool, reporting start/finish to stream listeners
+    private async runTool(toolName: string, toolCallId: string, parameters: Record<string, any>, options: AgentTaskOptions): Promise<ToolResult> {
+        options.onEvent?.({ type: 'tool_start', toolName, toolCallId, parameters });
+        const result = await this.registry.executeTool(toolName, parameters, { signal: options.signal, team: options.team });
+        options.onEvent?.({ type: 'tool_finish', toolName, toolCallId, result });
+        return result;
+    }
+
+    // Consumes a provider stream, forwarding token deltas and assembling the complete response
+    private async completeWithStreaming(request: LLMRequest, options: AgentTaskOptions): Promise<LLMResponse> {
+        let content = '';
+        let model = request.llmConfig?.model || '';
+        const toolCalls: NonNullable<LLMResponse['tool_calls']> = [];
+        const usage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+
+        for await (const chunk of this.llm.completeStream(request)) {
+            model = chunk.model || model;
+            if (chunk.content) {
+                content += chunk.content;
+                options.onEvent?.({ type: 'token', delta: chunk.content });
+            }
+            if (chunk.tool_calls) {
+                toolCalls.push(...chunk.tool_calls);
+            }
+            usage.prompt_tokens += chunk.usage?.prompt_tokens || 0;
+            usage.completion_tokens += chunk.usage?.completion_tokens || 0;
+            usage.total_tokens += chunk.usage?.total_tokens || 0;
+        }
+
+        const response: LLMResponse = {
+            content: content || (toolCalls.length > 0 ? null : ''),
+            model,
+            role: 'assistant',
+            tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
+            usage,
+            toString() {
+                return String(this.content);
+            }
         };
+        return response;
+    }
+
+    private createToolMessage(toolCallId: string, toolName: string, toolResult: ToolResult): LLMMessage {
+        return {
+            role: 'tool',
+            tool_call_id: toolCallId,
+            name: toolName,
+            content: JSON.stringify({
+                success: toolResult.success,
+                result: toolResult.result,
+                error: toolResult.error
+            })
+        };
+    }
+
+    // JSON-mode counterpart of createToolMessage: the result as a user turn, prompting the next decision
+    private createToolResultTurn(toolName: string, toolResult: ToolResult): LLMMessage {
+        return {
+            role: 'user',
+            content: `Result of tool ${toolName}: ${JSON.stringify({
+                success: toolResult.success,
+                result: toolResult.result,
+                error: toolResult.error
+            })}\n\nRespond with the next JSON object: another tool call, or tool_name "none" with your final response.`
+        };
+    }
+
+    // Parses the {tool_name, parameters} / {tool_name: "none", response} JSON contract.
+    // Lenient mode tolerates prose or markdown fences around the object (backends without JSON mode).
+    private parseToolDecision(content: string | null, lenient: boolean = false): { toolName: string; parameters: Record<string, any>; response?: string } | null {
+        if (!content) {
+            this.logger.warn('AgentExecutor', 'LLM content was null, though JSON was expected as agent has tools.');
+            return null;
+        }
+
+        let jsonText = content;
+        if (lenient) {
+            const start = content.indexOf('{');
+            const end = content.lastIndexOf('}');
+            if (start !== -1 && end > start) {
+                jsonText = content.slice(start, end + 1);
+            }
+        }
+
+        try {
+            const parsedJson = JSON.parse(jsonText);
+            const toolName = parsedJson.tool_name || parsedJson.toolName;
+
+            if (toolName === 'none') {
+                return { toolName, parameters: {}, response: parsedJson.response };
+            }
+            if (toolName && parsedJson.parameters) {
+                return { toolName, parameters: parsedJson.parameters };
+            }
+
+            this.logger.warn('AgentExecutor', 'LLM JSON response did not conform to expected {tool_name, parameters} or tool_name was missing.', { parsedJson });
+            return null;
+        } catch (e) {
+            this.logger.error('AgentExecutor', 'Failed to parse LLM content as JSON, though JSON was expected as agent has tools.', { content, error: e });
+            return null;
+        }
     }
 
     // Simplified tool selection for backward compatibility
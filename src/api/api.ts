@@ -152,7 +152,11 @@ export type StandardToolName =
   | 'parseDocument'
   | 'writeCode'
   | 'createPlan'
-  | 'ponder';
+  | 'ponder'
+  | 'postToTeam'
+  | 'readTeamBoard'
+  | 'writeTeamBoard'
+  | 'askAgent';
 
 export interface IToolRegistry {
   getInstance(): IToolRegistry;
@@ -292,7 +296,8 @@ export enum TeamExecutionStrategy {
   SEQUENTIAL = 'sequential',
   PIPELINE = 'pipeline',
   COLLABORATIVE = 'collaborative',
-  ROLE_BASED = 'role_based'
+  ROLE_BASED = 'role_based',
+  DEBATE = 'debate'
 }
 
 export interface Team {
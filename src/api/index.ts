@@ -34,7 +34,11 @@ export type AllToolNames =
   | 'parseDocument'
   | 'writeCode'
   | 'createPlan'
-  | 'ponder';
+  | 'ponder'
+  | 'postToTeam'
+  | 'readTeamBoard'
+  | 'writeTeamBoard'
+  | 'askAgent';
 
 /**
  * All available LLM providers
@@ -54,7 +58,7 @@ export type LifecycleState = 'PENDING' | 'INITIALIZING' | 'READY' | 'ERROR' | 'D
 /**
  * All team execution strategies
  */
-export type ExecutionStrategy = 'parallel' | 'sequential' | 'pipeline' | 'collaborative' | 'role_based';
+export type ExecutionStrategy = 'parallel' | 'sequential' | 'pipeline' | 'collaborative' | 'role_based' | 'debate';
 
 /**
  * All memory types
@@ -257,9 +257,13 @@ CREATE TABLE pipeline_executions (
     steps_total INTEGER NOT NULL,
     
     -- Execution state
+    status TEXT DEFAULT 'pending',            -- pending, running, paused, completed, failed
     current_step INTEGER DEFAULT 0,
     steps_completed INTEGER DEFAULT 0,
     step_results JSON,                        -- Results from each step
+    variables JSON,                           -- Pipeline variables at the last checkpoint
+    error_history JSON,
+    context_state JSON,                       -- Routing decisions and global state needed to resume
     
     -- Performance
     success BOOLEAN,
@@ -272,6 +276,7 @@ CREATE TABLE pipeline_executions (
     output_data JSON,
     
     created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
     completed_at DATETIME,
     
     FOREIGN KEY (session_id) REFERENCES context_sessions(session_id) ON DELETE SET NULL
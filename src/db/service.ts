@@ -15,7 +15,9 @@ import {
   XMLPattern,
   PatternExecution,
   ToolExecution,
-  SessionContext
+  SessionContext,
+  PerformanceMetric,
+  PipelineExecutionRecord
 } from './types';
 import { StoredNlpPattern } from '../types/tool.types';
 import { mapNlpPatternQueryToDbRecord, nlpPatternToDbRecord, dbRecordToNlpPattern } from './mappers';
@@ -26,6 +28,7 @@ export class DatabaseService implements IDatabaseService {
   private config: DatabaseConfig = {};
   private initialized = false;
   private adapters: Map<string, () => DatabaseAdapter> = new Map();
+  private pipelineExecutionColumnsChecked = false;
 
   constructor(config: DatabaseConfig = {}) {
     this.config = config;
@@ -567,7 +570,7 @@ export class DatabaseService implements IDatabaseService {
   }
 
   // Performance metrics
-  async recordMetric(metric: any): Promise<void> {
+  async recordMetric(metric: PerformanceMetric): Promise<void> {
     await this.table('performance_metrics').insert(metric);
   }
 
@@ -579,6 +582,81 @@ export class DatabaseService implements IDatabaseService {
       .find();
   }
 
+  // Pipeline checkpoints
+  async savePipelineExecution(execution: PipelineExecutionRecord): Promise<void> {
+    await this.ensurePipelineExecutionColumns();
+    this.logger.debug('DatabaseService', 'Saving pipeline checkpoint', {
+      executionId: execution.execution_id,
+      status: execution.status,
+      currentStep: execution.current_step
+    });
+
+    // Undefined fields would otherwise overwrite stored values with NULL on update
+    const record: Record<string, any> = { ...execution, updated_at: new Date().toISOString() };
+    Object.keys(record).forEach(key => record[key] === undefined && delete record[key]);
+
+    try {
+      const executions = this.table('pipeline_executions');
+      if (await executions.exists({ execution_id: execution.execution_id })) {
+        const { execution_id, ...updates } = record;
+        await this.table('pipeline_executions').update({ execution_id }, updates);
+      } else {
+        await executions.insert(record);
+      }
+    } catch (error) {
+      this.logger.error('DatabaseService', 'Failed to save pipeline checkpoint', { error, executionId: execution.execution_id });
+      throw error;
+    }
+  }
+
+  async getPipelineExecution(executionId: string): Promise<PipelineExecutionRecord | null> {
+    await this.ensurePipelineExecutionColumns();
+    const row = await this.table('pipeline_executions').where({ execution_id: executionId }).findOne();
+    if (!row) return null;
+
+    return {
+      execution_id: row.execution_id,
+      pipeline_name: row.pipeline_name,
+      pipeline_definition: row.pipeline_definition,
+      status: row.status,
+      steps_total: row.steps_total,
+      current_step: row.current_step || 0,
+      steps_completed: row.steps_completed || 0,
+      step_results: row.step_results || '[]',
+      variables: row.variables || '{}',
+      error_history: row.error_history || '[]',
+      context_state: row.context_state || '{}',
+      retry_count: row.retry_count || 0,
+      success: row.success === null || row.success === undefined ? undefined : Boolean(row.success), // SQLite stores boolean as 0/1
+      total_duration_ms: row.total_duration_ms ?? undefined,
+      input_data: row.input_data ?? undefined,
+      output_data: row.output_data ?? undefined,
+      completed_at: row.completed_at ?? undefined
+    };
+  }
+
+  // Databases created before checkpointing have pipeline_executions without the state columns
+  private async ensurePipelineExecutionColumns(): Promise<void> {
+    this.ensureInitialized();
+    if (this.pipelineExecutionColumnsChecked) return;
+
+    const columns = await this.schema.describe('pipeline_executions');
+    const stateColumns: Record<string, string> = {
+      status: "TEXT DEFAULT 'pending'",
+      variables: 'JSON',
+      error_history: 'JSON',
+      context_state: 'JSON',
+      updated_at: 'DATETIME'
+    };
+    for (const [name, definition] of Object.entries(stateColumns)) {
+      if (!(name in columns)) {
+        this.logger.info('DatabaseService', `Adding column '${name}' to pipeline_executions`);
+        await this.adapter!.query!(`ALTER TABLE pipeline_executions ADD COLUMN ${name} ${definition}`);
+      }
+    }
+    this.pipelineExecutionColumnsChecked = true;
+  }
+
   // Session and Context Methods
   async getSessionContext(sessionId: string): Promise<SessionContext | null> {
     this.logger.info('DatabaseService', 'Getting session context', { sessionId });
@@ -200,6 +200,14 @@ export interface IDatabaseService {
   getToolExecutions(sessionId: string, limit?: number): Promise<ToolExecution[]>;
   getWorkflowExecutions(sessionId: string): Promise<any[]>;
   recordToolExecution(execution: Omit<ToolExecution, 'id'>): Promise<void>;
+
+  // Performance metrics
+  recordMetric(metric: PerformanceMetric): Promise<void>;
+  getMetrics(metricType: string, timePeriod?: string): Promise<any[]>;
+
+  // Pipeline checkpoints
+  savePipelineExecution(execution: PipelineExecutionRecord): Promise<void>;
+  getPipelineExecution(executionId: string): Promise<PipelineExecutionRecord | null>;
   
   // Health check for cache intelligence
   healthCheck(): Promise<{ status: 'healthy' | 'degraded' | 'unhealthy'; [key: string]: any }>;
@@ -321,6 +329,36 @@ export interface ToolExecution {
   created_at?: Date;
 }
 
+export interface PerformanceMetric {
+  metric_type: string;            // tool_performance, llm_cost, etc.
+  metric_name: string;
+  metric_value: number;
+  time_period: 'hour' | 'day' | 'week' | 'month';
+  aggregation_type: 'avg' | 'sum' | 'count' | 'max' | 'min';
+  dimensions?: string;            // JSON-encoded grouping data
+}
+
+// Checkpoint of a pipeline run, upserted by execution_id after every step
+export interface PipelineExecutionRecord {
+  execution_id: string;
+  pipeline_name: string;
+  pipeline_definition: string;    // JSON string version for database storage
+  status: string;                 // PipelineExecutionStatus value
+  steps_total: number;
+  current_step: number;
+  steps_completed: number;
+  step_results: string;           // JSON array of PipelineStepResult
+  variables: string;              // JSON object
+  error_history: string;          // JSON array
+  context_state: string;          // JSON object
+  retry_count: number;
+  success?: boolean;
+  total_duration_ms?: number;
+  input_data?: string;
+  output_data?: string;
+  completed_at?: string;
+}
+
 // Error types
 export class DatabaseError extends Error {
   constructor(message: string, public code: string, public details?: any) {
@@ -0,0 +1,365 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { AgentConfig, TeamConfig, PipelineConfig, Pipeline } from '../types/sdk';
+import { IToolService, IAgentService, ITeamService, IPipelineService } from '../types/interfaces';
+import { AgentExecutor } from '../agents/executor';
+import { TeamCoordinator } from '../teams/coordinator';
+import { Logger } from '../utils/logger';
+import { validateAgentConfig, validateTeamConfig, validatePipelineConfig, ValidationError } from '../utils/validation';
+import { parseYaml, yamlPath, YamlDocument, YamlSyntaxError } from '../utils/yaml';
+
+const MANIFEST_EXTENSIONS = ['.yaml', '.yml', '.json'];
+const DEFINITION_KINDS = ['agent', 'team', 'pipeline'] as const;
+
+export type DefinitionKind = typeof DEFINITION_KINDS[number];
+
+export interface DefinitionIssue {
+    file: string;
+    line: number;
+    message: string;
+}
+
+export interface LoadedDefinitions {
+    files: string[];
+    agents: Record<string, AgentExecutor>;
+    teams: Record<string, TeamCoordinator>;
+    pipelines: Record<string, Pipeline>;
+}
+
+/**
+ * Raised when manifests fail to parse, validate, resolve or register. Nothing is registered in
+ * that case; `issues` holds every problem found, each with its file and line.
+ */
+export class DefinitionError extends Error {
+    readonly issues: DefinitionIssue[];
+
+    constructor(issues: DefinitionIssue[]) {
+        super(`Invalid definitions:\n${issues.map(issue => `  ${issue.file}:${issue.line}: ${issue.message}`).join('\n')}`);
+        this.name = 'DefinitionError';
+        this.issues = issues;
+    }
+}
+
+interface Manifest {
+    kind: DefinitionKind;
+    config: Record<string, any>;
+    file: string;
+    document: YamlDocument;
+    root: string; // Path of the manifest inside its document: '' or '[i]' for a list of manifests
+}
+
+/**
+ * Loads agent, team and pipeline manifests from YAML or JSON files. Each document is a manifest
+ * (`kind: agent | team | pipeline` plus that kind's config fields) or a list of them. Team
+ * members and pipeline steps refer to agents, teams, tools and pipelines by name, either defined
+ * alongside or already registered. Every file is checked before anything is registered.
+ */
+export class DefinitionLoader {
+    private logger: Logger;
+    private toolService: IToolService;
+    private agentService: IAgentService;
+    private teamService: ITeamService;
+    private pipelineService: IPipelineService;
+
+    constructor(
+        toolService: IToolService,
+        agentService: IAgentService,
+        teamService: ITeamService,
+        pipelineService: IPipelineService
+    ) {
+        this.logger = Logger.getInstance('DefinitionLoader');
+        this.toolService = toolService;
+        this.agentService = agentService;
+        this.teamService = teamService;
+        this.pipelineService = pipelineService;
+    }
+
+    // `target` is a directory (searched recursively) or a single manifest file
+    async load(target: string): Promise<LoadedDefinitions> {
+        const files = await this.findManifestFiles(path.resolve(target));
+        this.logger.info('DefinitionLoader', `Loading definitions from ${target}`, { files: files.length });
+
+        const issues: DefinitionIssue[] = [];
+        const manifests: Manifest[] = [];
+        for (const file of files) {
+            manifests.push(...await this.readManifests(file, issues));
+        }
+
+        // References are only followed in manifests whose shape is valid
+        const valid = manifests.filter(manifest => this.validateManifest(manifest, issues));
+        this.checkDuplicateNames(manifests, issues);
+        await this.resolveReferences(manifests, valid, issues);
+
+        if (issues.length > 0) {
+            this.logger.error('DefinitionLoader', `Rejected definitions from ${target}`, { issues: issues.length });
+            issues.sort((a, b) => files.indexOf(a.file) - files.indexOf(b.file) || a.line - b.line);
+            throw new DefinitionError(issues);
+        }
+
+        return this.register(manifests, files);
+    }
+
+    private async findManifestFiles(target: string): Promise<string[]> {
+        const stats = await fs.stat(target);
+        if (stats.isFile()) return [target];
+
+        const files: string[] = [];
+        const entries = await fs.readdir(target, { withFileTypes: true });
+        entries.sort((a, b) => a.name.localeCompare(b.name));
+        for (const entry of entries) {
+            if (entry.name.startsWith('.')) continue;
+            const entryPath = path.join(target, entry.name);
+            if (entry.isDirectory()) {
+                files.push(...await this.findManifestFiles(entryPath));
+            } else if (MANIFEST_EXTENSIONS.includes(path.extname(entry.name).toLowerCase())) {
+                files.push(entryPath);
+            }
+        }
+        return files;
+    }
+
+    private async readManifests(file: string, issues: DefinitionIssue[]): Promise<Manifest[]> {
+        let documents: YamlDocument[];
+        try {
+            // JSON is a subset of the YAML flow syntax, so one parser covers both
+            documents = parseYaml(await fs.readFile(file, 'utf8'));
+        } catch (error) {
+            if (!(error instanceof YamlSyntaxError)) throw error;
+            issues.push({ file, line: error.line, message: error.reason });
+            return [];
+        }
+
+        const manifests: Manifest[] = [];
+        for (const document of documents) {
+            if (document.value === null || document.value === undefined) continue;
+
+            const entries = Array.isArray(document.value)
+                ? document.value.map((value, index) => ({ value, root: yamlPath('', index) }))
+                : [{ value: document.value, root: '' }];
+
+            for (const { value, root } of entries) {
+                const line = document.lines.get(root) ?? document.line;
+                if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+                    issues.push({ file, line, message: 'Expected a manifest object with a kind field' });
+                    continue;
+                }
+
+                const { kind, ...config } = value;
+                if (!DEFINITION_KINDS.includes(kind)) {
+                    issues.push({
+                        file,
+                        line: document.lines.get(yamlPath(root, 'kind')) ?? line,
+                        message: kind === undefined
+                            ? `Manifest is missing 'kind' (one of ${DEFINITION_KINDS.join(', ')})`
+                            : `Unknown kind '${kind}', expected one of ${DEFINITION_KINDS.join(', ')}`
+                    });
+                    continue;
+                }
+                manifests.push({ kind, config, file, document, root });
+            }
+        }
+        return manifests;
+    }
+
+    private validateManifest(manifest: Manifest, issues: DefinitionIssue[]): boolean {
+        const validators: Record<DefinitionKind, (config: any) => void> = {
+            agent: validateAgentConfig,
+            team: validateTeamConfig,
+            pipeline: validatePipelineConfig
+        };
+
+        try {
+            validators[manifest.kind](manifest.config);
+        } catch (error) {
+            if (!(error instanceof ValidationError)) throw error;
+            this.addIssue(issues, manifest, error.path || '', error.message);
+            return false;
+        }
+
+        if (manifest.kind === 'pipeline') {
+            // Step graph and error handling checks live in the executor; run them without registering
+            try {
+                this.pipelineService.validate(manifest.config as PipelineConfig);
+            } catch (error) {
+                this.addIssue(issues, manifest, 'steps', error instanceof Error ? error.message : String(error));
+                return false;
+            }
+        }
+        return true;
+    }
+
+    private checkDuplicateNames(manifests: Manifest[], issues: DefinitionIssue[]): void {
+        const seen = new Map<string, Manifest>();
+        for (const manifest of manifests) {
+            if (typeof manifest.config.name !== 'string') continue;
+            const key = `${manifest.kind}:${manifest.config.name}`;
+            const first = seen.get(key);
+            if (first) {
+                this.addIssue(issues, manifest, 'name',
+                    `Duplicate ${manifest.kind} name, already defined at ${first.file}:${this.lineOf(first, 'name')}`);
+            } else {
+                seen.set(key, manifest);
+            }
+        }
+    }
+
+    private async resolveReferences(manifests: Manifest[], valid: Manifest[], issues: DefinitionIssue[]): Promise<void> {
+        const defined = (kind: DefinitionKind) => new Set(manifests.filter(m => m.kind === kind).map(m => m.config.name));
+        const agents = defined('agent');
+        const teams = defined('team');
+        const pipelines = defined('pipeline');
+        const tools = new Set(this.toolService.getAvailable());
+
+        const hasAgent = async (name: string) => agents.has(name) || !!(await this.agentService.get(name));
+        const hasTeam = async (name: string) => teams.has(name) || !!(await this.teamService.get(name));
+        const hasPipeline = async (name: string) => pipelines.has(name) || !!(await this.pipelineService.get(name));
+
+        const checkTools = (manifest: Manifest, names: string[], field: string) => {
+            names.forEach((tool, index) => {
+                if (!tools.has(tool)) {
+                    this.addIssue(issues, manifest, yamlPath(field, index), `Unknown tool '${tool}'`);
+                }
+            });
+        };
+
+        for (const manifest of valid) {
+            const config = manifest.config;
+
+            if (manifest.kind === 'agent') {
+                checkTools(manifest, config.tools, 'tools');
+            }
+
+            if (manifest.kind === 'team') {
+                for (const [index, member] of (config.agents as any[]).entries()) {
+                    const field = yamlPath('agents', index);
+                    if (typeof member === 'string') {
+                        if (!await hasAgent(member)) this.addIssue(issues, manifest, field, `Unknown agent '${member}'`);
+                    } else if (Array.isArray(member?.tools)) {
+                        checkTools(manifest, member.tools, yamlPath(field, 'tools'));
+                    }
+                }
+            }
+
+            if (manifest.kind === 'pipeline') {
+                for (const [index, step] of (config.steps as any[]).entries()) {
+                    const field = yamlPath('steps', index);
+                    if (step.agent && !await hasAgent(step.agent)) {
+                        this.addIssue(issues, manifest, yamlPath(field, 'agent'), `Unknown agent '${step.agent}'`);
+                    }
+                    if (step.team && !await hasTeam(step.team)) {
+                        this.addIssue(issues, manifest, yamlPath(field, 'team'), `Unknown team '${step.team}'`);
+                    }
+                    if (typeof step.tool === 'string' && !tools.has(step.tool)) {
+                        this.addIssue(issues, manifest, yamlPath(field, 'tool'), `Unknown tool '${step.tool}'`);
+                    }
+                    if (step.pipeline && !await hasPipeline(step.pipeline)) {
+                        this.addIssue(issues, manifest, yamlPath(field, 'pipeline'), `Unknown pipeline '${step.pipeline}'`);
+                    }
+                    if (step.map?.pipeline && !await hasPipeline(step.map.pipeline)) {
+                        this.addIssue(issues, manifest, yamlPath(field, 'map.pipeline'), `Unknown pipeline '${step.map.pipeline}'`);
+                    }
+                }
+
+                const fallback = config.errorHandling?.fallbackPipeline;
+                if (fallback && !await hasPipeline(fallback)) {
+                    this.addIssue(issues, manifest, 'errorHandling.fallbackPipeline', `Unknown pipeline '${fallback}'`);
+                }
+            }
+        }
+    }
+
+    /**
+     * Agents first so teams can pick them up, then teams, then pipelines. If a create fails, what
+     * this load registered is unregistered again and any definitions it replaced are put back.
+     */
+    private async register(manifests: Manifest[], files: string[]): Promise<LoadedDefinitions> {
+        const loaded: LoadedDefinitions = { files, agents: {}, teams: {}, pipelines: {} };
+        const ofKind = (kind: DefinitionKind) => manifests.filter(m => m.kind === kind);
+        const rollback: Array<() => Promise<void>> = [];
+        let current: Manifest | undefined;
+
+        try {
+            const agentConfigs = new Map<string, AgentConfig>();
+            for (const manifest of ofKind('agent')) {
+                current = manifest;
+                const config = manifest.config as AgentConfig;
+                const previous = await this.agentService.get(config.name);
+                agentConfigs.set(config.name, config);
+                loaded.agents[config.name] = await this.agentService.create(config);
+                rollback.push(async () => {
+                    if (previous) this.agentService.register(config.name, previous);
+                    else this.agentService.unregister(config.name);
+                });
+            }
+
+            // Teams take full agent configs; the coordinator adds context tools itself
+            const contextTools = this.toolService.registry.getContextTools();
+            for (const manifest of ofKind('team')) {
+                current = manifest;
+                const members = await Promise.all((manifest.config.agents as any[]).map(async member => {
+                    if (typeof member !== 'string') return member;
+                    const registered = agentConfigs.get(member) || (await this.agentService.get(member))?.getConfig();
+                    if (!registered) return member;
+                    return { ...registered, tools: registered.tools.filter(tool => !contextTools.includes(tool)) };
+                }));
+                const config = { ...manifest.config, agents: members } as TeamConfig;
+                const previous = await this.teamService.get(config.name);
+                const team = await this.teamService.create(config);
+                loaded.teams[config.name] = team;
+                rollback.push(async () => {
+                    await team.shutdown();
+                    if (previous) this.teamService.register(config.name, previous);
+                    else this.teamService.unregister(config.name);
+                });
+            }
+
+            for (const manifest of ofKind('pipeline')) {
+                current = manifest;
+                const config = manifest.config as PipelineConfig;
+                const previous = await this.pipelineService.get(config.name);
+                loaded.pipelines[config.name] = await this.pipelineService.create(config);
+                rollback.push(async () => {
+                    if (previous) this.pipelineService.register(config.name, previous);
+                    else this.pipelineService.unregister(config.name);
+                });
+            }
+        } catch (error) {
+            for (const undo of rollback.reverse()) {
+                await undo();
+            }
+            this.logger.error('DefinitionLoader', 'Registration failed, rolled back definitions from this load', {
+                file: current?.file,
+                rolledBack: rollback.length
+            });
+
+            if (!current) throw error;
+            const issues: DefinitionIssue[] = [];
+            this.addIssue(issues, current, 'name', error instanceof Error ? error.message : String(error));
+            throw new DefinitionError(issues);
+        }
+
+        this.logger.info('DefinitionLoader', 'Registered definitions', {
+            agents: Object.keys(loaded.agents),
+            teams: Object.keys(loaded.teams),
+            pipelines: Object.keys(loaded.pipelines)
+        });
+        return loaded;
+    }
+
+    private addIssue(issues: DefinitionIssue[], manifest: Manifest, field: string, message: string): void {
+        const name = typeof manifest.config.name === 'string' ? ` '${manifest.config.name}'` : '';
+        issues.push({ file: manifest.file, line: this.lineOf(manifest, field), message: `${manifest.kind}${name}: ${message}` });
+    }
+
+    // Line of `field` within the manifest, falling back to its nearest parent that has one
+    private lineOf(manifest: Manifest, field: string): number {
+        let current = field;
+        for (;;) {
+            const key = manifest.root && current ? `${manifest.root}${current.startsWith('[') ? '' : '.'}${current}` : manifest.root || current;
+            const line = manifest.document.lines.get(key);
+            if (line !== undefined) return line;
+            if (!current) return manifest.document.line;
+            current = current.replace(/(\[\d+\]|\.?[^.[\]]+)$/, '');
+        }
+    }
+}
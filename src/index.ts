@@ -7,6 +7,7 @@ export { Symphony, LogLevel };
 // Export concrete implementation classes for advanced typing
 export { AgentExecutor } from './agents/executor';
 export { TeamCoordinator } from './teams/coordinator';
+export type { TeamPlan, TeamPlanSubtask, TeamSynthesis, TeamContribution, TeamDelegation, TeamDebateTurn, TeamDebateConsensus } from './teams/coordinator';
 export { PipelineExecutor } from './pipelines/executor';
 
 // Export types and utilities
@@ -19,8 +20,17 @@ export type {
     PipelineConfig, PipelineStep, LLMBaseConfig, ValidationConfig,
     RetryConfig, ToolResult, AgentResult, TeamResult, PipelineResult,
     ErrorStrategy, ToolLifecycleState, AgentOptions, TeamOptions, PipelineOptions,
-    TeamStrategy, DelegationStrategy, MemoryConfig
+    TeamStrategy, TeamPlannerConfig, TeamSynthesizerConfig, TeamDelegationConfig, TeamDebateConfig, DelegationStrategy, MemoryConfig,
+    AgentTaskOptions, AgentStreamEvent, AgentStreamEventPayload,
+    BudgetConfig, CostScope, ToolExecutionContext
 } from './types/sdk';
+export { CostTracker } from './llm/costs';
+export { CancellationError } from './utils/cancellation';
+export type { SpendRecord, BudgetViolation } from './llm/costs';
+export type { PipelineApproval, ApprovalDecision, PipelinePlan, PipelinePlanStep, PipelinePlanIssue, LLMCallEstimate } from './pipelines/executor';
+export type { ApprovalRequest, ApprovalResolution } from './streaming/service';
+export { DefinitionError } from './definitions/loader';
+export type { LoadedDefinitions, DefinitionIssue, DefinitionKind } from './definitions/loader';
 export type { 
     Component, ComponentConfig, ComponentType
 } from './types/components';
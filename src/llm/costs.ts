@@ -0,0 +1,218 @@
+import { BudgetConfig, CostScope } from '../types/sdk';
+import { IDatabaseService } from '../db/types';
+import { ModelPrice } from './types';
+import { Logger } from '../utils/logger';
+
+// List prices in USD per 1M tokens; override or extend with setPriceTable()
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+    'gpt-4o-mini': { input: 0.15, output: 0.6 },
+    'gpt-4o': { input: 2.5, output: 10 },
+    'gpt-4-turbo': { input: 10, output: 30 },
+    'gpt-4': { input: 30, output: 60 },
+    'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+    'claude-3-5-sonnet': { input: 3, output: 15 },
+    'claude-3-5-haiku': { input: 0.8, output: 4 },
+    'claude-3-opus': { input: 15, output: 75 },
+    'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+    'gemini-1.5-pro': { input: 1.25, output: 5 }
+};
+
+const TOKENS_PER_PRICE_UNIT = 1_000_000;
+
+export interface SpendRecord {
+    cost: number;
+    promptTokens: number;
+    completionTokens: number;
+    calls: number;
+}
+
+export interface BudgetViolation {
+    scope: CostScope;
+    spend: number;
+    limit: number;
+}
+
+/**
+ * Accumulates LLM spend per agent, team, pipeline run and session, enforces budgets
+ * and persists every priced call to the performance_metrics table.
+ */
+export class CostTracker {
+    private static instance: CostTracker;
+    private prices: Map<string, ModelPrice>;
+    private spend: Map<string, SpendRecord>;
+    private warnedScopes: Set<string>;
+    private sessionId: string;
+    private sessionBudget?: BudgetConfig;
+    private database?: IDatabaseService;
+    private logger: Logger;
+
+    private constructor() {
+        this.prices = new Map(Object.entries(DEFAULT_PRICES));
+        this.spend = new Map();
+        this.warnedScopes = new Set();
+        this.sessionId = `session_${Date.now()}`;
+        this.logger = Logger.getInstance('CostTracker');
+    }
+
+    static getInstance(): CostTracker {
+        if (!CostTracker.instance) {
+            CostTracker.instance = new CostTracker();
+        }
+        return CostTracker.instance;
+    }
+
+    setDatabase(database: IDatabaseService): void {
+        this.database = database;
+    }
+
+    // Entries are merged into the table; keys match model names by prefix (e.g. 'llama3' prices 'llama3:8b')
+    setPriceTable(prices: Record<string, ModelPrice>): void {
+        for (const [model, price] of Object.entries(prices)) {
+            this.prices.set(model, price);
+        }
+    }
+
+    getPrice(model: string): ModelPrice | undefined {
+        const exact = this.prices.get(model);
+        if (exact) return exact;
+
+        // Dated or tagged model ids (gpt-4o-2024-08-06, claude-3-5-sonnet-latest) fall back to the longest matching prefix
+        let match: string | undefined;
+        for (const key of this.prices.keys()) {
+            if (model.startsWith(key) && (!match || key.length > match.length)) {
+                match = key;
+            }
+        }
+        return match ? this.prices.get(match) : undefined;
+    }
+
+    calculateCost(model: string, usage: { prompt_tokens: number; completion_tokens: number }): number {
+        const price = this.getPrice(model);
+        if (!price) return 0;
+        return (usage.prompt_tokens * price.input + usage.completion_tokens * price.output) / TOKENS_PER_PRICE_UNIT;
+    }
+
+    startSession(sessionId: string = `session_${Date.now()}`, budget?: BudgetConfig): void {
+        this.sessionId = sessionId;
+        this.sessionBudget = budget;
+        this.logger.info('CostTracker', `Started cost session: ${sessionId}`, { budget });
+    }
+
+    getSessionId(): string {
+        return this.sessionId;
+    }
+
+    /**
+     * Prices one LLM call and adds it to every scope and the current session.
+     * Returns the cost of the call in USD.
+     */
+    async recordUsage(model: string, usage: { prompt_tokens: number; completion_tokens: number }, scopes: CostScope[]): Promise<number> {
+        const cost = this.calculateCost(model, usage);
+        if (!this.getPrice(model)) {
+            this.logger.debug('CostTracker', `No price configured for model ${model}, recording tokens at zero cost`);
+        }
+
+        for (const scope of [...scopes, this.sessionScope()]) {
+            const key = this.scopeKey(scope.type, scope.id);
+            const record = this.spend.get(key) || { cost: 0, promptTokens: 0, completionTokens: 0, calls: 0 };
+            record.cost += cost;
+            record.promptTokens += usage.prompt_tokens;
+            record.completionTokens += usage.completion_tokens;
+            record.calls++;
+            this.spend.set(key, record);
+        }
+
+        await this.persist(model, usage, cost, scopes);
+        return cost;
+    }
+
+    /**
+     * Logs a warning the first time a scope crosses its soft limit and returns the first
+     * scope whose hard limit has been reached, if any.
+     */
+    checkBudgets(scopes: CostScope[]): BudgetViolation | undefined {
+        for (const scope of [...scopes, this.sessionScope()]) {
+            if (!scope.budget) continue;
+            const key = this.scopeKey(scope.type, scope.id);
+            const spend = this.spend.get(key)?.cost || 0;
+
+            if (scope.budget.hard !== undefined && spend >= scope.budget.hard) {
+                return { scope, spend, limit: scope.budget.hard };
+            }
+            if (scope.budget.soft !== undefined && spend >= scope.budget.soft && !this.warnedScopes.has(key)) {
+                this.warnedScopes.add(key);
+                this.logger.warn('CostTracker', `Soft budget exceeded for ${scope.type} ${scope.id}`, {
+                    spend,
+                    softLimit: scope.budget.soft,
+                    hardLimit: scope.budget.hard
+                });
+            }
+        }
+        return undefined;
+    }
+
+    getSpend(type: CostScope['type'], id: string): SpendRecord {
+        return { ...(this.spend.get(this.scopeKey(type, id)) || { cost: 0, promptTokens: 0, completionTokens: 0, calls: 0 }) };
+    }
+
+    getSessionSpend(): SpendRecord {
+        return this.getSpend('session', this.sessionId);
+    }
+
+    getSpendSummary(): Record<string, SpendRecord> {
+        const summary: Record<string, SpendRecord> = {};
+        for (const [key, record] of this.spend) {
+            summary[key] = { ...record };
+        }
+        return summary;
+    }
+
+    resetSpend(type?: CostScope['type'], id?: string): void {
+        if (type && id) {
+            const key = this.scopeKey(type, id);
+            this.spend.delete(key);
+            this.warnedScopes.delete(key);
+            return;
+        }
+        this.spend.clear();
+        this.warnedScopes.clear();
+    }
+
+    private sessionScope(): CostScope {
+        return { type: 'session', id: this.sessionId, budget: this.sessionBudget };
+    }
+
+    private scopeKey(type: CostScope['type'], id: string): string {
+        return `${type}:${id}`;
+    }
+
+    private async persist(model: string, usage: { prompt_tokens: number; completion_tokens: number }, cost: number, scopes: CostScope[]): Promise<void> {
+        if (!this.database) return;
+
+        const dimensions = JSON.stringify({
+            model,
+            promptTokens: usage.prompt_tokens,
+            completionTokens: usage.completion_tokens,
+            sessionId: this.sessionId,
+            ...Object.fromEntries(scopes.map(scope => [scope.type, scope.id]))
+        });
+
+        try {
+            for (const scope of [...scopes, this.sessionScope()]) {
+                await this.database.recordMetric({
+                    metric_type: 'llm_cost',
+                    metric_name: this.scopeKey(scope.type, scope.id),
+                    metric_value: cost,
+                    time_period: 'day',
+                    aggregation_type: 'sum',
+                    dimensions
+                });
+            }
+        } catch (error) {
+            // Spend accounting must never break the LLM call path (e.g. database disabled)
+            this.logger.warn('CostTracker', 'Failed to persist LLM cost metric', {
+                error: error instanceof Error ? error.message : String(error)
+            });
+        }
+    }
+}
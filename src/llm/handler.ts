@@ -2,17 +2,26 @@ import {
     LLMProvider, 
     LLMConfig, 
     LLMRequest, 
-    LLMResponse 
+    LLMResponse,
+    LLMProviderCapabilities,
+    LLMRoute,
+    LLMRoutingRule,
+    LLMRoutingMetrics
 } from './types';
 import { OpenAIProvider } from './providers/openai';
+import { AnthropicProvider } from './providers/anthropic';
+import { GoogleProvider } from './providers/google';
+import { OpenAICompatibleProvider } from './providers/openai-compatible';
 import { logger, LogCategory } from '../utils/logger';
 import { envConfig } from '../utils/env';
+import { throwIfCancelled, raceCancellation, toCancellationError } from '../utils/cancellation';
 
 export class LLMHandler {
     private static instance: LLMHandler;
     private providers: Map<string, LLMProvider>;
     private defaultProvider?: string;
     private cacheService?: any; // ICacheService from Symphony
+    private routingRules: LLMRoutingRule[] = [];
 
     private constructor() {
         this.providers = new Map();
@@ -71,37 +80,78 @@ export class LLMHandler {
                     apiKey: envConfig.openaiApiKey
                 }
             });
-        } else {
-            throw new Error('OpenAI API key is required in environment configuration');
+        }
+
+        // Initialize Anthropic if API key is provided
+        if (envConfig.anthropicApiKey) {
+            await this.registerProvider({
+                provider: 'anthropic',
+                apiKey: envConfig.anthropicApiKey,
+                temperature: envConfig.defaultTemperature,
+                maxTokens: envConfig.defaultMaxTokens,
+                timeout: envConfig.requestTimeoutMs
+            });
+            logger.info(LogCategory.AI, 'Provider registered successfully', {
+                metadata: {
+                    name: 'anthropic',
+                    type: 'AnthropicProvider'
+                }
+            });
+        }
+
+        // Initialize Google Gemini if API key is provided
+        if (envConfig.googleApiKey) {
+            await this.registerProvider({
+                provider: 'google',
+                apiKey: envConfig.googleApiKey,
+                temperature: envConfig.defaultTemperature,
+                maxTokens: envConfig.defaultMaxTokens,
+                timeout: envConfig.requestTimeoutMs
+            });
+            logger.info(LogCategory.AI, 'Provider registered successfully', {
+                metadata: {
+                    name: 'google',
+                    type: 'GoogleProvider'
+                }
+            });
+        }
+
+        if (this.providers.size === 0) {
+            throw new Error('An OpenAI, Anthropic or Google API key is required in environment configuration');
         }
     }
 
     async registerProvider(config: LLMConfig): Promise<void> {
-        const providerName = config.provider?.toLowerCase();
-        if (!providerName) {
+        const providerType = config.provider?.toLowerCase();
+        if (!providerType) {
             throw new Error('Provider name must be specified in LLMConfig');
         }
+        // Providers are stored under their registration name, which defaults to the provider type
+        const providerName = config.name?.toLowerCase() || providerType;
 
-        // For now, only OpenAI is instantiated, extend this for other providers
-        if (providerName !== 'openai') {
-            logger.warn(LogCategory.AI, `Provider ${providerName} not fully supported for dynamic registration, only OpenAI for now.`);
-            // throw new Error(`Provider ${providerName} is not supported for dynamic registration yet.`);
-            // Allow it to proceed if it's just updating an existing openai config
-            if (providerName !== 'openai' && !this.providers.has(providerName)) {
-                 throw new Error(`Provider ${providerName} is not supported for dynamic registration yet.`);
-            }
+        if (providerType !== 'openai' && providerType !== 'anthropic' && providerType !== 'google' && providerType !== 'openai-compatible') {
+            throw new Error(`Provider ${providerName} is not supported for dynamic registration yet.`);
         }
 
         try {
             let finalConfig = { ...config };
-            // Ensure API key from environment for OpenAI for security, can be adapted for other providers
-            if (providerName === 'openai') {
-                if (!envConfig.openaiApiKey) {
-                    throw new Error('OpenAI API key not found in environment for registration.');
+            // Explicit keys win; hosted providers fall back to the key from the environment
+            if (providerType === 'openai') {
+                finalConfig.apiKey = config.apiKey || envConfig.openaiApiKey;
+                if (!finalConfig.apiKey) {
+                    throw new Error('OpenAI API key not found in config or environment for registration.');
+                }
+            } else if (providerType === 'anthropic') {
+                finalConfig.apiKey = config.apiKey || envConfig.anthropicApiKey;
+                if (!finalConfig.apiKey) {
+                    throw new Error('Anthropic API key not found in config or environment for registration.');
+                }
+            } else if (providerType === 'google') {
+                finalConfig.apiKey = config.apiKey || envConfig.googleApiKey;
+                if (!finalConfig.apiKey) {
+                    throw new Error('Google API key not found in config or environment for registration.');
                 }
-                finalConfig.apiKey = envConfig.openaiApiKey;
             }
-            // Add similar logic for other providers if they source API keys from env
 
             // Log what config is being used for provider registration
             logger.debug(LogCategory.AI, `Registering/Updating provider ${providerName} with config:`, {
@@ -111,25 +161,22 @@ export class LLMHandler {
                 provider: finalConfig.provider
             });
 
-            // Instantiate or update provider
-            // This is simplified; a real multi-provider setup would have a factory or switch
-            if (providerName === 'openai') {
-                const providerInstance = new OpenAIProvider(finalConfig);
-                this.providers.set(providerName, providerInstance);
-            } else {
-                // If other providers are pre-registered, this could update them
-                // For now, this branch might not be hit if we throw error above for non-openai
-                const existingProvider = this.providers.get(providerName);
-                if (existingProvider) {
-                    // Providers would need an updateConfig method for this to be clean
-                    logger.warn(LogCategory.AI, `Updating existing provider ${providerName} via re-registration (not ideal).`);
-                    // This creates a new instance, effectively replacing the old one.
-                    // const updatedProvider = new WhatEverProvider(finalConfig);
-                    // this.providers.set(providerName, updatedProvider);
-                } else {
-                     throw new Error(`No existing provider ${providerName} to update and dynamic creation not supported.`);
-                }
+            // Instantiate or replace provider
+            let providerInstance: LLMProvider;
+            switch (providerType) {
+                case 'openai-compatible':
+                    providerInstance = new OpenAICompatibleProvider(finalConfig);
+                    break;
+                case 'anthropic':
+                    providerInstance = new AnthropicProvider(finalConfig);
+                    break;
+                case 'google':
+                    providerInstance = new GoogleProvider(finalConfig);
+                    break;
+                default:
+                    providerInstance = new OpenAIProvider(finalConfig);
             }
+            this.providers.set(providerName, providerInstance);
             
             if (!this.defaultProvider) {
                 this.defaultProvider = providerName;
@@ -145,6 +192,14 @@ export class LLMHandler {
         }
     }
 
+    setDefaultProvider(name: string): void {
+        const providerName = name.toLowerCase();
+        if (!this.providers.has(providerName)) {
+            throw new Error(`Provider not found: ${providerName}`);
+        }
+        this.defaultProvider = providerName;
+    }
+
     getProvider(name?: string): LLMProvider {
         const providerName = name?.toLowerCase() || this.defaultProvider;
         if (!providerName) {
@@ -159,12 +214,207 @@ export class LLMHandler {
         return provider;
     }
 
+    /**
+     * Capabilities of a registered provider. Unknown providers are assumed fully capable
+     * so callers keep their preferred protocol and surface the provider error instead.
+     */
+    getProviderCapabilities(name?: string): LLMProviderCapabilities {
+        const providerName = name?.toLowerCase() || this.defaultProvider;
+        const provider = providerName ? this.providers.get(providerName) : undefined;
+        return provider?.capabilities ?? { jsonMode: true, toolCalling: true, streamUsage: true };
+    }
+
+    // === ROUTING & FAILOVER ===
+
+    /**
+     * Global routing rules, evaluated after any rules carried on the request itself.
+     */
+    setRoutingRules(rules: LLMRoutingRule[]): void {
+        this.routingRules = [...rules];
+    }
+
+    getRoutingRules(): LLMRoutingRule[] {
+        return [...this.routingRules];
+    }
+
     async complete(request: LLMRequest): Promise<LLMResponse> {
-        const targetProviderName = request.provider?.toLowerCase() || this.defaultProvider;
-        if (!targetProviderName) {
+        const { candidates, matchedRule } = this.resolveRoute(request);
+        const attempts: LLMRoutingMetrics['attempts'] = [];
+
+        for (let i = 0; i < candidates.length; i++) {
+            const candidate = candidates[i];
+            throwIfCancelled(request.signal);
+            try {
+                const response = await raceCancellation(
+                    this.completeWithProvider(candidate.provider, this.requestForRoute(request, candidate, i)),
+                    request.signal
+                );
+                return this.withRoutingMetrics(response, candidate, matchedRule, attempts);
+            } catch (error) {
+                // An aborted request surfaces as a provider error, but it must not fail over
+                if (request.signal?.aborted) {
+                    throw toCancellationError(request.signal);
+                }
+                const reason = this.classifyFailoverReason(error);
+                if (!reason || i === candidates.length - 1) {
+                    throw error;
+                }
+                this.recordFailover(attempts, candidate, candidates[i + 1], error, reason);
+            }
+        }
+
+        // Unreachable: resolveRoute always yields at least one candidate and the last failure is rethrown
+        throw new Error('No LLM provider candidates available.');
+    }
+
+    async *completeStream(
+        request: LLMRequest, 
+        providerName?: string // providerName from argument is less common, request.provider takes precedence
+    ): AsyncGenerator<LLMResponse> {
+        const { candidates, matchedRule } = this.resolveRoute({ ...request, provider: request.provider || providerName });
+        const attempts: LLMRoutingMetrics['attempts'] = [];
+
+        for (let i = 0; i < candidates.length; i++) {
+            const candidate = candidates[i];
+            let yielded = false;
+            throwIfCancelled(request.signal);
+            try {
+                for await (const chunk of this.streamWithProvider(candidate.provider, this.requestForRoute(request, candidate, i))) {
+                    throwIfCancelled(request.signal);
+                    yielded = true;
+                    yield this.withRoutingMetrics(chunk, candidate, matchedRule, attempts);
+                }
+                return;
+            } catch (error) {
+                if (request.signal?.aborted) {
+                    throw toCancellationError(request.signal);
+                }
+                // Once tokens reached the caller, switching providers would duplicate output
+                const reason = this.classifyFailoverReason(error);
+                if (yielded || !reason || i === candidates.length - 1) {
+                    throw error;
+                }
+                this.recordFailover(attempts, candidate, candidates[i + 1], error, reason);
+            }
+        }
+    }
+
+    /**
+     * Builds the ordered provider chain: the first matching routing rule (or the requested/default
+     * provider) followed by the request's fallbacks. Unregistered fallbacks are skipped.
+     */
+    private resolveRoute(request: LLMRequest): { candidates: LLMRoute[]; matchedRule?: string } {
+        const primaryName = request.provider?.toLowerCase() || this.defaultProvider;
+        if (!primaryName) {
             throw new Error('No provider specified in request and no default provider set.');
         }
 
+        let primary: LLMRoute = { provider: primaryName };
+        let matchedRule: string | undefined;
+
+        const rule = [...(request.routing || []), ...this.routingRules].find(candidate => this.ruleMatches(candidate, request));
+        if (rule && this.providers.has(rule.provider.toLowerCase())) {
+            primary = { provider: rule.provider.toLowerCase(), model: rule.model };
+            matchedRule = rule.name || `${rule.provider}${rule.model ? `:${rule.model}` : ''}`;
+            logger.info(LogCategory.AI, `Routing rule ${matchedRule} selected provider ${primary.provider}`);
+        } else if (rule) {
+            logger.warn(LogCategory.AI, `Routing rule targets unregistered provider ${rule.provider}, ignoring it.`);
+        }
+
+        const candidates: LLMRoute[] = [primary];
+        for (const fallback of request.fallbacks || []) {
+            const route = typeof fallback === 'string' ? { provider: fallback } : fallback;
+            const name = route.provider.toLowerCase();
+            if (!this.providers.has(name)) {
+                logger.warn(LogCategory.AI, `Fallback provider ${name} is not registered, skipping it.`);
+                continue;
+            }
+            if (candidates.some(existing => existing.provider === name && existing.model === route.model)) {
+                continue;
+            }
+            candidates.push({ provider: name, model: route.model });
+        }
+
+        return { candidates, matchedRule };
+    }
+
+    private ruleMatches(rule: LLMRoutingRule, request: LLMRequest): boolean {
+        const { needsTools, needsJson, minPromptTokens, maxPromptTokens } = rule.when;
+        const hasTools = !!request.functions && request.functions.length > 0;
+        const wantsJson = !!request.expectsJsonResponse || request.response_format?.type === 'json_object';
+
+        if (needsTools !== undefined && needsTools !== hasTools) return false;
+        if (needsJson !== undefined && needsJson !== wantsJson) return false;
+        if (minPromptTokens !== undefined || maxPromptTokens !== undefined) {
+            const promptTokens = this.estimatePromptTokens(request);
+            if (minPromptTokens !== undefined && promptTokens < minPromptTokens) return false;
+            if (maxPromptTokens !== undefined && promptTokens > maxPromptTokens) return false;
+        }
+        return true;
+    }
+
+    // Rough estimate (~4 characters per token), good enough for routing thresholds
+    private estimatePromptTokens(request: LLMRequest): number {
+        const characters = request.messages.reduce((total, message) => total + (message.content?.length || 0), 0)
+            + (request.functions ? JSON.stringify(request.functions).length : 0);
+        return Math.ceil(characters / 4);
+    }
+
+    /**
+     * Returns a failover reason for rate limits, server errors and timeouts, or undefined
+     * when the error is not worth retrying on another provider (e.g. 400/401).
+     */
+    private classifyFailoverReason(error: unknown): string | undefined {
+        const message = error instanceof Error ? `${error.name}: ${error.message}` : String(error);
+        const status = message.match(/\((\d{3})\)/)?.[1];
+
+        if (status === '429') return 'rate_limited (429)';
+        if (status && status.startsWith('5')) return `server_error (${status})`;
+        if (/timed? ?out|timeout|ETIMEDOUT/i.test(message)) return 'timeout';
+        if (/ECONNREFUSED|ECONNRESET|fetch failed|Connection error/i.test(message)) return 'connection_error';
+        return undefined;
+    }
+
+    private recordFailover(attempts: LLMRoutingMetrics['attempts'], failed: LLMRoute, next: LLMRoute, error: unknown, reason: string): void {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        attempts.push({ provider: failed.provider, model: failed.model, error: errorMessage, reason });
+        logger.warn(LogCategory.AI, `Provider ${failed.provider} failed (${reason}), failing over to ${next.provider}`, {
+            metadata: { error: errorMessage, nextModel: next.model }
+        });
+    }
+
+    // Fallbacks must not inherit the primary's model name (e.g. gpt-4o sent to a local server)
+    private requestForRoute(request: LLMRequest, route: LLMRoute, index: number): LLMRequest {
+        if (index === 0 && !route.model) {
+            return request;
+        }
+        return { ...request, provider: route.provider, llmConfig: { ...request.llmConfig, model: route.model } };
+    }
+
+    private withRoutingMetrics(response: LLMResponse, route: LLMRoute, matchedRule: string | undefined, attempts: LLMRoutingMetrics['attempts']): LLMResponse {
+        const now = Date.now();
+        response.metrics = {
+            duration: 0,
+            startTime: now,
+            endTime: now,
+            tokenUsage: {
+                input: response.usage?.prompt_tokens || 0,
+                output: response.usage?.completion_tokens || 0,
+                total: response.usage?.total_tokens || 0
+            },
+            ...response.metrics,
+            routing: {
+                provider: route.provider,
+                model: response.model || route.model,
+                matchedRule,
+                fallbackReason: attempts.length > 0 ? attempts[attempts.length - 1].reason : undefined,
+                attempts: [...attempts]
+            }
+        };
+        return response;
+    }
+
+    private async completeWithProvider(targetProviderName: string, request: LLMRequest): Promise<LLMResponse> {
         let providerInstance = this.providers.get(targetProviderName);
 
         if (!providerInstance) {
@@ -193,7 +443,8 @@ export class LLMHandler {
             // Create a combined config for this request
             const currentProviderConfig = (providerInstance as any).config as LLMConfig; // Cast to access config
             const requestSpecificConfig: LLMConfig = {
-                provider: targetProviderName as any,
+                ...currentProviderConfig, // Keep provider-level settings such as baseURL, name and models
+                provider: currentProviderConfig.provider ?? targetProviderName as any,
                 apiKey: currentProviderConfig.apiKey, // Keep original API key
                 model: request.llmConfig.model || currentProviderConfig.model,
                 temperature: request.llmConfig.temperature ?? currentProviderConfig.temperature,
@@ -210,15 +461,7 @@ export class LLMHandler {
         return providerInstance.complete(request);
     }
 
-    async *completeStream(
-        request: LLMRequest, 
-        providerName?: string // providerName from argument is less common, request.provider takes precedence
-    ): AsyncGenerator<LLMResponse> {
-        const targetProviderName = request.provider?.toLowerCase() || providerName?.toLowerCase() || this.defaultProvider;
-        if (!targetProviderName) {
-            throw new Error('No provider specified in request or argument, and no default provider set.');
-        }
-
+    private async *streamWithProvider(targetProviderName: string, request: LLMRequest): AsyncGenerator<LLMResponse> {
         let providerInstance = this.providers.get(targetProviderName);
 
         if (!providerInstance) {
@@ -241,7 +484,8 @@ export class LLMHandler {
         if (request.llmConfig) {
             const currentProviderConfig = (providerInstance as any).config as LLMConfig;
             const requestSpecificConfig: LLMConfig = {
-                provider: targetProviderName as any,
+                ...currentProviderConfig, // Keep provider-level settings such as baseURL, name and models
+                provider: currentProviderConfig.provider ?? targetProviderName as any,
                 apiKey: currentProviderConfig.apiKey,
                 model: request.llmConfig.model || currentProviderConfig.model,
                 temperature: request.llmConfig.temperature ?? currentProviderConfig.temperature,
@@ -0,0 +1,318 @@
+import { BaseLLMProvider, ExtendedLLMConfig } from './base';
+import { LLMRequest, LLMResponse, LLMMessage } from '../types';
+import { parseSSEStream } from './sse';
+import { logger, LogCategory } from '../../utils/logger';
+import { linkAbortController, linkIdleAbortController } from '../../utils/cancellation';
+
+const DEFAULT_BASE_URL = 'https://api.anthropic.com';
+const DEFAULT_MODEL = 'claude-3-5-sonnet-latest';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+type AnthropicContentBlock =
+    | { type: 'text'; text: string }
+    | { type: 'tool_use'; id: string; name: string; input: any }
+    | { type: 'tool_result'; tool_use_id: string; content: string; is_error?: boolean };
+
+interface AnthropicMessage {
+    role: 'user' | 'assistant';
+    content: AnthropicContentBlock[];
+}
+
+interface AnthropicMessagesResponse {
+    id: string;
+    model: string;
+    role: 'assistant';
+    content: AnthropicContentBlock[];
+    stop_reason: string | null;
+    usage: {
+        input_tokens: number;
+        output_tokens: number;
+    };
+}
+
+export class AnthropicProvider extends BaseLLMProvider {
+    private model: string;
+    private baseURL: string;
+
+    constructor(config: ExtendedLLMConfig) {
+        super({ ...config, provider: 'anthropic' });
+        this.supportsStreaming = true;
+        this.supportsFunctions = true;
+        this.model = this.config.model || DEFAULT_MODEL;
+        this.baseURL = (this.config.baseURL || DEFAULT_BASE_URL).replace(/\/+$/, '');
+        this.validateApiKey();
+    }
+
+    async initialize(): Promise<void> {
+        // Anthropic doesn't require initialization
+    }
+
+    async complete(request: LLMRequest): Promise<LLMResponse> {
+        this.validateRequest(request);
+        const startTime = this.getStartTime();
+        const link = linkAbortController([request.signal], {
+            ms: this.config.timeout!,
+            message: `Anthropic request timed out after ${this.config.timeout}ms`
+        });
+
+        try {
+            logger.info(LogCategory.AI, 'Making Anthropic Messages API request', {
+                metadata: {
+                    model: this.model,
+                    numMessages: request.messages.length,
+                    hasTools: !!request.functions?.length,
+                    expectsJsonResponse: request.expectsJsonResponse
+                }
+            });
+
+            const response = await this.post(this.buildRequestBody(request, false), link.signal);
+            const data = await response.json() as AnthropicMessagesResponse;
+
+            const text = data.content
+                .filter((block): block is { type: 'text'; text: string } => block.type === 'text')
+                .map(block => block.text)
+                .join('');
+            const toolCalls = data.content
+                .filter((block): block is { type: 'tool_use'; id: string; name: string; input: any } => block.type === 'tool_use')
+                .map(block => ({
+                    id: block.id,
+                    type: 'function' as const,
+                    function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) }
+                }));
+
+            return this.formatResponse(
+                request.expectsJsonResponse ? this.stripJsonFences(text) : (text || null),
+                toolCalls,
+                { input: data.usage?.input_tokens || 0, output: data.usage?.output_tokens || 0 },
+                startTime,
+                data.model
+            );
+        } catch (error) {
+            return this.handleError(error);
+        } finally {
+            link.dispose();
+        }
+    }
+
+    async *completeStream(request: LLMRequest): AsyncIterable<LLMResponse> {
+        this.validateRequest(request);
+        const startTime = this.getStartTime();
+        // The timeout covers the wait for headers and then each gap between events, never the whole stream
+        const link = linkIdleAbortController([request.signal], {
+            ms: this.config.timeout!,
+            message: `Anthropic stream timed out after ${this.config.timeout}ms without data`
+        });
+
+        try {
+            let response: Response;
+            try {
+                response = await this.post(this.buildRequestBody(request, true), link.signal);
+            } catch (error) {
+                return await this.handleError(error);
+            }
+            if (!response.body) {
+                return await this.handleError(new Error('No response body received for stream'));
+            }
+
+            // Tool use blocks arrive as partial JSON and are only surfaced once the message completes
+            const toolBlocks = new Map<number, { id: string; name: string; json: string }>();
+            const usage = { input: 0, output: 0 };
+            let model = this.model;
+
+            for await (const event of parseSSEStream(response.body)) {
+                link.touch();
+                let data: any;
+                try {
+                    data = JSON.parse(event.data);
+                } catch {
+                    continue;
+                }
+
+                switch (data.type) {
+                    case 'message_start':
+                        model = data.message?.model || model;
+                        usage.input = data.message?.usage?.input_tokens || 0;
+                        break;
+                    case 'content_block_start':
+                        if (data.content_block?.type === 'tool_use') {
+                            toolBlocks.set(data.index, { id: data.content_block.id, name: data.content_block.name, json: '' });
+                        }
+                        break;
+                    case 'content_block_delta':
+                        if (data.delta?.type === 'text_delta' && data.delta.text) {
+                            yield this.formatResponse(data.delta.text, [], { input: 0, output: 0 }, startTime, model);
+                        } else if (data.delta?.type === 'input_json_delta') {
+                            const block = toolBlocks.get(data.index);
+                            if (block) block.json += data.delta.partial_json || '';
+                        }
+                        break;
+                    case 'message_delta':
+                        usage.output = data.usage?.output_tokens || usage.output;
+                        break;
+                    case 'error':
+                        await this.handleError(new Error(`Anthropic API streaming error: ${data.error?.message || event.data}`));
+                }
+            }
+
+            // Final chunk carries accumulated tool calls and the total usage
+            const toolCalls = Array.from(toolBlocks.values()).map(block => ({
+                id: block.id,
+                type: 'function' as const,
+                function: { name: block.name, arguments: block.json || '{}' }
+            }));
+            yield this.formatResponse('', toolCalls, usage, startTime, model);
+        } finally {
+            link.dispose();
+        }
+    }
+
+    private async post(body: Record<string, any>, signal?: AbortSignal): Promise<Response> {
+        const response = await fetch(`${this.baseURL}/v1/messages`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'x-api-key': this.config.apiKey,
+                'anthropic-version': ANTHROPIC_VERSION
+            },
+            body: JSON.stringify(body),
+            signal
+        });
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            let message = errorText;
+            try {
+                message = JSON.parse(errorText).error?.message || errorText;
+            } catch {
+                // Not JSON, keep raw text
+            }
+            throw new Error(`Anthropic API error (${response.status}): ${message}`);
+        }
+
+        return response;
+    }
+
+    private buildRequestBody(request: LLMRequest, stream: boolean): Record<string, any> {
+        const systemParts = request.messages
+            .filter(message => message.role === 'system' && message.content)
+            .map(message => message.content as string);
+
+        // Anthropic has no JSON response mode, so enforce it through the system prompt
+        if (request.expectsJsonResponse || request.response_format?.type === 'json_object') {
+            systemParts.push('Respond ONLY with a single valid JSON object. Do not wrap it in markdown or add any other text.');
+        }
+
+        const body: Record<string, any> = {
+            model: this.model,
+            messages: this.toAnthropicMessages(request.messages),
+            max_tokens: this.config.maxTokens,
+            temperature: this.config.temperature
+        };
+        if (systemParts.length > 0) {
+            body.system = systemParts.join('\n\n');
+        }
+        if (stream) {
+            body.stream = true;
+        }
+
+        if (request.functions && request.functions.length > 0) {
+            body.tools = request.functions.map(fn => ({
+                name: fn.name,
+                description: fn.description,
+                input_schema: fn.parameters
+            }));
+            if (request.tool_choice === 'none') {
+                body.tool_choice = { type: 'none' };
+            } else if (typeof request.tool_choice === 'object') {
+                body.tool_choice = { type: 'tool', name: request.tool_choice.function.name };
+            } else {
+                body.tool_choice = { type: 'auto' };
+            }
+        }
+
+        return body;
+    }
+
+    /**
+     * Translates Symphony messages into Anthropic turns: tool calls become tool_use blocks,
+     * tool results become user-side tool_result blocks, and consecutive same-role turns are merged.
+     */
+    private toAnthropicMessages(messages: LLMMessage[]): AnthropicMessage[] {
+        const result: AnthropicMessage[] = [];
+
+        const append = (role: 'user' | 'assistant', blocks: AnthropicContentBlock[]) => {
+            if (blocks.length === 0) return;
+            const last = result[result.length - 1];
+            if (last && last.role === role) {
+                last.content.push(...blocks);
+            } else {
+                result.push({ role, content: blocks });
+            }
+        };
+
+        for (const message of messages) {
+            switch (message.role) {
+                case 'system':
+                    break;
+                case 'user':
+                    append('user', message.content ? [{ type: 'text', text: message.content }] : []);
+                    break;
+                case 'assistant': {
+                    const blocks: AnthropicContentBlock[] = [];
+                    if (message.content) {
+                        blocks.push({ type: 'text', text: message.content });
+                    }
+                    for (const call of message.tool_calls || []) {
+                        let input: any = {};
+                        try {
+                            input = call.function.arguments ? JSON.parse(call.function.arguments) : {};
+                        } catch {
+                            input = { raw: call.function.arguments };
+                        }
+                        blocks.push({ type: 'tool_use', id: call.id, name: call.function.name, input });
+                    }
+                    append('assistant', blocks);
+                    break;
+                }
+                case 'tool':
+                case 'function':
+                    append('user', [{
+                        type: 'tool_result',
+                        tool_use_id: message.tool_call_id || message.name || 'unknown',
+                        content: message.content ?? ''
+                    }]);
+                    break;
+            }
+        }
+
+        return result;
+    }
+
+    private stripJsonFences(text: string): string {
+        return text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+    }
+
+    private formatResponse(
+        content: string | null,
+        toolCalls: NonNullable<LLMResponse['tool_calls']>,
+        usage: { input: number; output: number },
+        startTime: number,
+        model: string
+    ): LLMResponse {
+        return {
+            content,
+            model,
+            role: 'assistant',
+            tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
+            usage: {
+                prompt_tokens: usage.input,
+                completion_tokens: usage.output,
+                total_tokens: usage.input + usage.output
+            },
+            metrics: this.createMetrics(startTime, usage) as LLMResponse['metrics'],
+            toString() {
+                return String(this.content);
+            }
+        };
+    }
+}
@@ -3,7 +3,8 @@ import {
     LLMConfig, 
     LLMRequest, 
     LLMResponse,
-    LLMFunctionDefinition
+    LLMFunctionDefinition,
+    LLMProviderCapabilities
 } from '../types';
 import { ExecutionMetrics } from '../../types/sdk';
 import { logger, LogCategory } from '../../utils/logger';
@@ -56,6 +57,10 @@ export abstract class BaseLLMProvider implements LLMProvider {
         };
     }
 
+    get capabilities(): LLMProviderCapabilities {
+        return { jsonMode: true, toolCalling: this.supportsFunctions, streamUsage: true };
+    }
+
     abstract initialize(): Promise<void>;
     abstract complete(request: LLMRequest): Promise<LLMResponse>;
     abstract completeStream(request: LLMRequest): AsyncIterable<LLMResponse>;
@@ -101,7 +106,8 @@ export abstract class BaseLLMProvider implements LLMProvider {
         }
 
         request.messages.forEach((message, index) => {
-            if (!message.role || !message.content) {
+            // Assistant turns that only carry tool calls legitimately have null content
+            if (!message.role || (!message.content && !message.tool_calls?.length)) {
                 throw new Error(`Invalid message at index ${index}: must have role and content`);
             }
         });
@@ -0,0 +1,313 @@
+import { BaseLLMProvider, ExtendedLLMConfig } from './base';
+import { LLMRequest, LLMResponse, LLMMessage } from '../types';
+import { parseSSEStream } from './sse';
+import { logger, LogCategory } from '../../utils/logger';
+import { linkAbortController, linkIdleAbortController } from '../../utils/cancellation';
+
+const DEFAULT_BASE_URL = 'https://generativelanguage.googleapis.com';
+const DEFAULT_MODEL = 'gemini-1.5-flash';
+
+type GeminiPart =
+    | { text: string }
+    | { functionCall: { name: string; args: Record<string, any> } }
+    | { functionResponse: { name: string; response: Record<string, any> } };
+
+interface GeminiContent {
+    role: 'user' | 'model';
+    parts: GeminiPart[];
+}
+
+interface GeminiGenerateContentResponse {
+    candidates?: {
+        content?: { role: string; parts?: GeminiPart[] };
+        finishReason?: string;
+    }[];
+    usageMetadata?: {
+        promptTokenCount?: number;
+        candidatesTokenCount?: number;
+        totalTokenCount?: number;
+    };
+    modelVersion?: string;
+}
+
+export class GoogleProvider extends BaseLLMProvider {
+    private model: string;
+    private baseURL: string;
+
+    constructor(config: ExtendedLLMConfig) {
+        super({ ...config, provider: 'google' });
+        this.supportsStreaming = true;
+        this.supportsFunctions = true;
+        this.model = this.config.model || DEFAULT_MODEL;
+        this.baseURL = (this.config.baseURL || DEFAULT_BASE_URL).replace(/\/+$/, '');
+        this.validateApiKey();
+    }
+
+    async initialize(): Promise<void> {
+        // Gemini doesn't require initialization
+    }
+
+    async complete(request: LLMRequest): Promise<LLMResponse> {
+        this.validateRequest(request);
+        const startTime = this.getStartTime();
+        const link = linkAbortController([request.signal], {
+            ms: this.config.timeout!,
+            message: `Gemini request timed out after ${this.config.timeout}ms`
+        });
+
+        try {
+            logger.info(LogCategory.AI, 'Making Gemini generateContent request', {
+                metadata: {
+                    model: this.model,
+                    numMessages: request.messages.length,
+                    hasTools: !!request.functions?.length,
+                    expectsJsonResponse: request.expectsJsonResponse
+                }
+            });
+
+            const response = await this.post('generateContent', this.buildRequestBody(request), {}, link.signal);
+            const data = await response.json() as GeminiGenerateContentResponse;
+            const { text, toolCalls } = this.extractParts(data, 0);
+
+            return this.formatResponse(text || (toolCalls.length > 0 ? null : ''), toolCalls, this.normalizeUsage(data), startTime);
+        } catch (error) {
+            return this.handleError(error);
+        } finally {
+            link.dispose();
+        }
+    }
+
+    async *completeStream(request: LLMRequest): AsyncIterable<LLMResponse> {
+        this.validateRequest(request);
+        const startTime = this.getStartTime();
+        // The timeout covers the wait for headers and then each gap between events, never the whole stream
+        const link = linkIdleAbortController([request.signal], {
+            ms: this.config.timeout!,
+            message: `Gemini stream timed out after ${this.config.timeout}ms without data`
+        });
+
+        try {
+            let response: Response;
+            try {
+                response = await this.post('streamGenerateContent', this.buildRequestBody(request), { alt: 'sse' }, link.signal);
+            } catch (error) {
+                return await this.handleError(error);
+            }
+            if (!response.body) {
+                return await this.handleError(new Error('No response body received for stream'));
+            }
+
+            // Gemini emits whole function calls per chunk; collect them for the final chunk like other providers
+            const toolCalls: NonNullable<LLMResponse['tool_calls']> = [];
+            let usage = { input: 0, output: 0 };
+
+            for await (const event of parseSSEStream(response.body)) {
+                link.touch();
+                let data: GeminiGenerateContentResponse;
+                try {
+                    data = JSON.parse(event.data);
+                } catch {
+                    continue;
+                }
+
+                const parts = this.extractParts(data, toolCalls.length);
+                toolCalls.push(...parts.toolCalls);
+                if (data.usageMetadata) {
+                    // Usage metadata is cumulative, the last chunk carries the totals
+                    usage = this.normalizeUsage(data);
+                }
+                if (parts.text) {
+                    yield this.formatResponse(parts.text, [], { input: 0, output: 0 }, startTime);
+                }
+            }
+
+            yield this.formatResponse('', toolCalls, usage, startTime);
+        } finally {
+            link.dispose();
+        }
+    }
+
+    private async post(method: 'generateContent' | 'streamGenerateContent', body: Record<string, any>, query: Record<string, string> = {}, signal?: AbortSignal): Promise<Response> {
+        const params = new URLSearchParams(query).toString();
+        const url = `${this.baseURL}/v1beta/models/${encodeURIComponent(this.model)}:${method}${params ? `?${params}` : ''}`;
+        const response = await fetch(url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'x-goog-api-key': this.config.apiKey
+            },
+            body: JSON.stringify(body),
+            signal
+        });
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            let message = errorText;
+            try {
+                message = JSON.parse(errorText).error?.message || errorText;
+            } catch {
+                // Not JSON, keep raw text
+            }
+            throw new Error(`Gemini API error (${response.status}): ${message}`);
+        }
+
+        return response;
+    }
+
+    private buildRequestBody(request: LLMRequest): Record<string, any> {
+        const systemText = request.messages
+            .filter(message => message.role === 'system' && message.content)
+            .map(message => message.content as string)
+            .join('\n\n');
+
+        const generationConfig: Record<string, any> = {
+            temperature: this.config.temperature,
+            maxOutputTokens: this.config.maxTokens,
+            topP: this.config.topP
+        };
+        if (request.expectsJsonResponse || request.response_format?.type === 'json_object') {
+            generationConfig.responseMimeType = 'application/json';
+        }
+
+        const body: Record<string, any> = {
+            contents: this.toGeminiContents(request.messages),
+            generationConfig
+        };
+        if (systemText) {
+            body.systemInstruction = { parts: [{ text: systemText }] };
+        }
+
+        if (request.functions && request.functions.length > 0) {
+            body.tools = [{
+                functionDeclarations: request.functions.map(fn => ({
+                    name: fn.name,
+                    description: fn.description,
+                    parameters: fn.parameters
+                }))
+            }];
+            if (request.tool_choice === 'none') {
+                body.toolConfig = { functionCallingConfig: { mode: 'NONE' } };
+            } else if (typeof request.tool_choice === 'object') {
+                body.toolConfig = { functionCallingConfig: { mode: 'ANY', allowedFunctionNames: [request.tool_choice.function.name] } };
+            } else {
+                body.toolConfig = { functionCallingConfig: { mode: 'AUTO' } };
+            }
+        }
+
+        return body;
+    }
+
+    /**
+     * Translates Symphony messages into Gemini contents: assistant tool calls become functionCall parts,
+     * tool results become functionResponse parts, and consecutive same-role turns are merged.
+     */
+    private toGeminiContents(messages: LLMMessage[]): GeminiContent[] {
+        const contents: GeminiContent[] = [];
+        // Gemini matches function responses by name, so remember which call id belongs to which tool
+        const callNames = new Map<string, string>();
+
+        const append = (role: 'user' | 'model', parts: GeminiPart[]) => {
+            if (parts.length === 0) return;
+            const last = contents[contents.length - 1];
+            if (last && last.role === role) {
+                last.parts.push(...parts);
+            } else {
+                contents.push({ role, parts });
+            }
+        };
+
+        for (const message of messages) {
+            switch (message.role) {
+                case 'system':
+                    break;
+                case 'user':
+                    append('user', message.content ? [{ text: message.content }] : []);
+                    break;
+                case 'assistant': {
+                    const parts: GeminiPart[] = [];
+                    if (message.content) {
+                        parts.push({ text: message.content });
+                    }
+                    for (const call of message.tool_calls || []) {
+                        callNames.set(call.id, call.function.name);
+                        let args: Record<string, any> = {};
+                        try {
+                            args = call.function.arguments ? JSON.parse(call.function.arguments) : {};
+                        } catch {
+                            args = { raw: call.function.arguments };
+                        }
+                        parts.push({ functionCall: { name: call.function.name, args } });
+                    }
+                    append('model', parts);
+                    break;
+                }
+                case 'tool':
+                case 'function': {
+                    const name = message.name || (message.tool_call_id && callNames.get(message.tool_call_id)) || 'unknown';
+                    let response: Record<string, any>;
+                    try {
+                        const parsed = JSON.parse(message.content ?? '');
+                        response = parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : { content: parsed };
+                    } catch {
+                        response = { content: message.content ?? '' };
+                    }
+                    append('user', [{ functionResponse: { name, response } }]);
+                    break;
+                }
+            }
+        }
+
+        return contents;
+    }
+
+    private extractParts(data: GeminiGenerateContentResponse, callOffset: number): { text: string; toolCalls: NonNullable<LLMResponse['tool_calls']> } {
+        const parts = data.candidates?.[0]?.content?.parts || [];
+        let text = '';
+        const toolCalls: NonNullable<LLMResponse['tool_calls']> = [];
+
+        for (const part of parts) {
+            if ('text' in part) {
+                text += part.text;
+            } else if ('functionCall' in part) {
+                // Gemini has no call ids, so synthesize stable ones for the tool message round-trip
+                toolCalls.push({
+                    id: `call_${callOffset + toolCalls.length}_${part.functionCall.name}`,
+                    type: 'function',
+                    function: { name: part.functionCall.name, arguments: JSON.stringify(part.functionCall.args ?? {}) }
+                });
+            }
+        }
+
+        return { text, toolCalls };
+    }
+
+    private normalizeUsage(data: GeminiGenerateContentResponse): { input: number; output: number } {
+        return {
+            input: data.usageMetadata?.promptTokenCount || 0,
+            output: data.usageMetadata?.candidatesTokenCount || 0
+        };
+    }
+
+    private formatResponse(
+        content: string | null,
+        toolCalls: NonNullable<LLMResponse['tool_calls']>,
+        usage: { input: number; output: number },
+        startTime: number
+    ): LLMResponse {
+        return {
+            content,
+            model: this.model,
+            role: 'assistant',
+            tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
+            usage: {
+                prompt_tokens: usage.input,
+                completion_tokens: usage.output,
+                total_tokens: usage.input + usage.output
+            },
+            metrics: this.createMetrics(startTime, usage) as LLMResponse['metrics'],
+            toString() {
+                return String(this.content);
+            }
+        };
+    }
+}
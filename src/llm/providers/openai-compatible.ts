@@ -0,0 +1,44 @@
+import { OpenAIProvider } from './openai';
+import { LLMConfig, LLMProviderCapabilities } from '../types';
+
+// Local servers usually ignore the key, but the OpenAI client refuses to start without one
+const PLACEHOLDER_API_KEY = 'not-needed';
+
+/**
+ * Provider for self-hosted OpenAI-compatible servers (Ollama, vLLM, llama.cpp, LM Studio, ...).
+ * Reuses the OpenAI wire format against a custom baseURL. JSON mode, tool calling and
+ * streamed usage stay off unless `capabilities` enables them, since many backends lack them.
+ */
+export class OpenAICompatibleProvider extends OpenAIProvider {
+    readonly name: string;
+    readonly capabilities: LLMProviderCapabilities;
+    readonly models: string[];
+
+    constructor(config: LLMConfig) {
+        if (!config.baseURL) {
+            throw new Error('OpenAI-compatible provider requires a baseURL (e.g. http://localhost:11434/v1).');
+        }
+
+        const name = config.name || 'openai-compatible';
+        const models = config.models || [];
+        if (config.model && models.length > 0 && !models.includes(config.model)) {
+            throw new Error(`Model ${config.model} is not served by ${name} (available: ${models.join(', ')}).`);
+        }
+
+        super({ ...config, model: config.model || models[0], apiKey: config.apiKey || PLACEHOLDER_API_KEY });
+        this.name = name;
+        this.models = models;
+        this.capabilities = {
+            jsonMode: config.capabilities?.jsonMode ?? false,
+            toolCalling: config.capabilities?.toolCalling ?? false,
+            streamUsage: config.capabilities?.streamUsage ?? false
+        };
+
+        this.logger.info('OpenAICompatibleProvider', 'OpenAI-compatible provider initialized', {
+            name: this.name,
+            baseURL: config.baseURL,
+            model: this.model,
+            capabilities: this.capabilities
+        });
+    }
+}
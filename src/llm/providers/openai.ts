@@ -1,8 +1,10 @@
 import { logger, LogCategory } from '../../utils/logger';
-import { LLMConfig, LLMRequest, LLMResponse, LLMProvider } from '../types';
+import { LLMConfig, LLMRequest, LLMResponse, LLMProvider, LLMProviderCapabilities } from '../types';
 import { createMetricsTracker } from '../../utils/metrics';
 import { Logger } from '../../utils/logger';
 import { envConfig } from '../../utils/env';
+import { parseSSEStream } from './sse';
+import { linkIdleAbortController } from '../../utils/cancellation';
 import OpenAI from 'openai';
 
 interface OpenAICompletion {
@@ -28,20 +30,21 @@ interface OpenAICompletion {
 }
 
 export class OpenAIProvider implements LLMProvider {
-    readonly name = 'openai';
+    readonly name: string = 'openai';
     readonly supportsStreaming = true;
-    private client: OpenAI;
-    private config: LLMConfig;
-    private logger: Logger;
-    private model: string;
+    readonly capabilities: LLMProviderCapabilities = { jsonMode: true, toolCalling: true, streamUsage: true };
+    protected client: OpenAI;
+    protected config: LLMConfig;
+    protected logger: Logger;
+    protected model: string;
 
     constructor(config?: LLMConfig) {
         const openAIKey = config?.apiKey || envConfig.openaiApiKey;
         if (!openAIKey) {
             throw new Error('OpenAI API key is not configured. Please set OPENAI_API_KEY environment variable or provide it in config.');
         }
-        this.client = new OpenAI({ apiKey: openAIKey });
-        this.config = { provider: 'openai', apiKey: openAIKey, ...config };
+        this.client = new OpenAI({ apiKey: openAIKey, baseURL: config?.baseURL });
+        this.config = { provider: 'openai', ...config, apiKey: openAIKey };
         this.logger = Logger.getInstance('OpenAIProvider');
         this.logger.info('OpenAIProvider', 'OpenAIProvider initialized', { model: this.config.model });
         this.model = this.config.model || 'gpt-3.5-turbo';
@@ -71,15 +74,11 @@ export class OpenAIProvider implements LLMProvider {
                 messages: request.messages as OpenAI.Chat.Completions.ChatCompletionMessageParam[],
                 temperature: this.config.temperature ?? 0.7,
                 max_tokens: this.config.maxTokens ?? 2000,
+                ...this.buildRequestOptions(request)
             };
 
-            if (request.expectsJsonResponse) { 
-                completionParams.response_format = { type: 'json_object' };
-                this.logger.info('OpenAIProvider', 'OpenAI request: JSON mode enabled via response_format due to expectsJsonResponse flag.');
-            }
-
             metrics.trackOperation('api_request');
-            const response: OpenAI.Chat.Completions.ChatCompletion = await this.client.chat.completions.create(completionParams);
+            const response: OpenAI.Chat.Completions.ChatCompletion = await this.client.chat.completions.create(completionParams, { signal: request.signal });
 
             metrics.trackOperation('response_processing');
             
@@ -145,88 +144,136 @@ export class OpenAIProvider implements LLMProvider {
     }
 
     async *completeStream(request: LLMRequest): AsyncIterable<LLMResponse> {
-        // If JSON mode is requested, it's better to use the non-streaming complete() method
-        // as the entire JSON object is expected as one coherent unit.
-        if (request.response_format?.type === 'json_object') {
-            logger.warn(LogCategory.AI, 'OpenAI completeStream: JSON mode requested. Falling back to non-streaming complete() call.');
-            const response = await this.complete(request);
-            yield response;
-            return;
-        }
-
-        // Proceed with text streaming if not in JSON mode.
-        // The old check for 'effectiveUseFunctionCalling && request.functions' is removed as that paradigm is gone.
-        logger.info(LogCategory.AI, 'OpenAI completeStream: Proceeding with text streaming.');
+        logger.info(LogCategory.AI, 'OpenAI completeStream: Proceeding with SSE streaming.', {
+            metadata: { provider: this.name, model: this.model, hasTools: !!request.functions?.length }
+        });
+        // The timeout covers the wait for headers and then each gap between chunks, never the whole stream
+        const timeout = this.config.timeout ?? envConfig.requestTimeoutMs;
+        const link = linkIdleAbortController([request.signal], {
+            ms: timeout,
+            message: `OpenAI stream timed out after ${timeout}ms without data`
+        });
 
-        const metrics = createMetricsTracker();
         try {
-            metrics.trackOperation('stream_preparation');
             const apiKey = this.config.apiKey;
             if (!apiKey) throw new Error('OpenAI API key not found in provider config');
 
-            const body: any = {
+            const body: Record<string, any> = {
                 model: this.model,
                 messages: request.messages,
                 temperature: this.config.temperature ?? 0.7,
                 max_tokens: this.config.maxTokens ?? 2000,
-                stream: true
+                stream: true,
+                // Servers without stream_options may reject it; their streams then report no usage
+                ...(this.capabilities.streamUsage ? { stream_options: { include_usage: true } } : {}),
+                ...this.buildRequestOptions(request)
             };
-             logger.info(LogCategory.AI, 'Making OpenAI streaming API request (no function calls)', { model: this.model });
 
-            const response = await fetch('https://api.openai.com/v1/chat/completions', {
+            const response = await fetch(`${this.client.baseURL.replace(/\/+$/, '')}/chat/completions`, {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
                     'Authorization': `Bearer ${apiKey}`
                 },
-                body: JSON.stringify(body)
+                body: JSON.stringify(body),
+                signal: link.signal
             });
 
             if (!response.ok) {
                 const errorText = await response.text();
                 this.logger.error(LogCategory.AI, 'OpenAI API streaming error response:', { status: response.status, errorText });
+                let message = errorText;
                 try {
-                    const errorJson = JSON.parse(errorText);
-                    throw new Error(`OpenAI API streaming error (${response.status}): ${errorJson.error?.message || errorText}`);
-                } catch (e) {
-                    throw new Error(`OpenAI API streaming error (${response.status}): ${errorText}`);
+                    message = JSON.parse(errorText).error?.message || errorText;
+                } catch {
+                    // Not JSON, keep raw text
                 }
+                throw new Error(`OpenAI API streaming error (${response.status}): ${message}`);
             }
             if (!response.body) throw new Error('No response body received for stream');
 
-            const reader = response.body.getReader();
-            const decoder = new TextDecoder();
-            try {
-                while (true) {
-                    const { done, value } = await reader.read();
-                    if (done) break;
-                    const chunk = decoder.decode(value);
-                    const lines = chunk.split('\n').filter(line => line.trim() !== '');
-                    for (const line of lines) {
-                        if (line.startsWith('data: ')) {
-                            const dataStr = line.slice(6);
-                            if (dataStr.trim() === '[DONE]') break;
-                            const data = JSON.parse(dataStr);
-                            if (data.choices?.[0]?.delta?.content) {
-                                yield {
-                                    content: data.choices[0].delta.content,
-                                    model: this.model,
-                                    role: 'assistant',
-                                    usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
-                                    toString() { return String(this.content); }
-                                };
-                            }
-                        }
-                    }
+            // Tool call arguments arrive in fragments keyed by index and are surfaced on the final chunk
+            const toolCalls = new Map<number, { id: string; name: string; arguments: string }>();
+            const usage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+
+            for await (const event of parseSSEStream(response.body)) {
+                link.touch();
+                if (event.data.trim() === '[DONE]') break;
+
+                let data: any;
+                try {
+                    data = JSON.parse(event.data);
+                } catch {
+                    continue;
+                }
+
+                if (data.usage) {
+                    usage.prompt_tokens = data.usage.prompt_tokens || 0;
+                    usage.completion_tokens = data.usage.completion_tokens || 0;
+                    usage.total_tokens = data.usage.total_tokens || 0;
+                }
+
+                const delta = data.choices?.[0]?.delta;
+                if (!delta) continue;
+
+                for (const fragment of delta.tool_calls || []) {
+                    const existing = toolCalls.get(fragment.index) || { id: '', name: '', arguments: '' };
+                    existing.id = fragment.id || existing.id;
+                    existing.name = fragment.function?.name || existing.name;
+                    existing.arguments += fragment.function?.arguments || '';
+                    toolCalls.set(fragment.index, existing);
+                }
+
+                if (delta.content) {
+                    yield this.formatResponse({
+                        content: delta.content,
+                        usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 }
+                    });
                 }
-            } finally {
-                reader.releaseLock();
             }
+
+            const finalToolCalls = Array.from(toolCalls.entries())
+                .sort(([a], [b]) => a - b)
+                .map(([index, call]) => ({
+                    id: call.id || `call_${index}_${call.name}`,
+                    type: 'function' as const,
+                    function: { name: call.name, arguments: call.arguments || '{}' }
+                }));
+
+            yield this.formatResponse({
+                content: '',
+                usage,
+                tool_calls: finalToolCalls.length > 0 ? finalToolCalls : undefined
+            });
         } catch (error) {
             logger.error(LogCategory.AI, 'OpenAI streaming error', {
                 error: error instanceof Error ? error.message : String(error)
             });
             throw error;
+        } finally {
+            link.dispose();
         }
     }
-}
\ No newline at end of file
+
+    // Native tools and JSON mode, shared by complete() and completeStream()
+    private buildRequestOptions(request: LLMRequest): Pick<OpenAI.Chat.Completions.ChatCompletionCreateParams, 'tools' | 'tool_choice' | 'response_format'> {
+        const options: Pick<OpenAI.Chat.Completions.ChatCompletionCreateParams, 'tools' | 'tool_choice' | 'response_format'> = {};
+
+        if (request.functions && request.functions.length > 0 && !this.capabilities.toolCalling) {
+            this.logger.warn('OpenAIProvider', `${this.name} backend does not support tool calling; sending request without tools.`);
+        } else if (request.functions && request.functions.length > 0) {
+            options.tools = request.functions.map(fn => ({ type: 'function' as const, function: fn }));
+            options.tool_choice = request.tool_choice ?? 'auto';
+            this.logger.info('OpenAIProvider', 'OpenAI request: native tool calling enabled.', { tools: request.functions.map(fn => fn.name) });
+        }
+
+        if (request.expectsJsonResponse && !this.capabilities.jsonMode) {
+            this.logger.info('OpenAIProvider', `${this.name} backend does not support JSON mode; relying on prompt instructions for JSON output.`);
+        } else if (request.expectsJsonResponse || request.response_format?.type === 'json_object') { 
+            options.response_format = { type: 'json_object' };
+            this.logger.info('OpenAIProvider', 'OpenAI request: JSON mode enabled via response_format due to expectsJsonResponse flag.');
+        }
+
+        return options;
+    }
+}
@@ -0,0 +1,50 @@
+export interface SSEEvent {
+    event?: string;
+    data: string;
+}
+
+/**
+ * Parses a Server-Sent Events response body into discrete events.
+ * Buffers across network chunks so events split mid-line are reassembled.
+ */
+export async function* parseSSEStream(body: ReadableStream<Uint8Array>): AsyncGenerator<SSEEvent> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let eventName: string | undefined;
+    let dataLines: string[] = [];
+
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true });
+
+            let newlineIndex: number;
+            while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+                const line = buffer.slice(0, newlineIndex).replace(/\r$/, '');
+                buffer = buffer.slice(newlineIndex + 1);
+
+                if (line === '') {
+                    // Blank line terminates the current event
+                    if (dataLines.length > 0) {
+                        yield { event: eventName, data: dataLines.join('\n') };
+                    }
+                    eventName = undefined;
+                    dataLines = [];
+                } else if (line.startsWith('event:')) {
+                    eventName = line.slice(6).trim();
+                } else if (line.startsWith('data:')) {
+                    dataLines.push(line.slice(5).replace(/^ /, ''));
+                }
+                // Comments (":") and unknown fields are ignored
+            }
+        }
+
+        if (dataLines.length > 0) {
+            yield { event: eventName, data: dataLines.join('\n') };
+        }
+    } finally {
+        reader.releaseLock();
+    }
+}
@@ -2,12 +2,23 @@ import { ExecutionMetrics } from '../types/sdk';
 
 // Base configuration that requires API key
 export interface LLMConfig {
-    provider: 'openai' | 'anthropic' | 'google';
-    apiKey: string;  // Required but always sourced from environment
+    provider: 'openai' | 'anthropic' | 'google' | 'openai-compatible';
+    apiKey: string;  // Sourced from environment for hosted providers; may be empty for local endpoints
+    name?: string;   // Registration name, lets several endpoints of the same provider type coexist (e.g. 'ollama')
     model?: string;
     temperature?: number;
     maxTokens?: number;
     timeout?: number;
+    baseURL?: string; // Override the provider's API endpoint (e.g. a proxy or local mock server)
+    models?: string[]; // Models served by an OpenAI-compatible endpoint; the first one is the default, others are rejected
+    capabilities?: Partial<LLMProviderCapabilities>;
+}
+
+// Optional features a backend may lack; callers degrade gracefully when a flag is false
+export interface LLMProviderCapabilities {
+    jsonMode: boolean;    // Honors response_format json_object
+    toolCalling: boolean; // Accepts native tools and returns tool_calls
+    streamUsage: boolean; // Reports token usage on streamed responses (OpenAI: stream_options.include_usage)
 }
 
 // Configuration that can be passed in requests (no API key)
@@ -57,6 +68,42 @@ export interface LLMRequest {
     provider?: string;
     llmConfig?: LLMRequestConfig;  // Only non-sensitive configuration
     expectsJsonResponse?: boolean; // ADDED: Hint that the caller expects a JSON-structured response
+    fallbacks?: Array<LLMRoute | string>; // Ordered providers to fail over to on 429/5xx/timeouts
+    routing?: LLMRoutingRule[]; // Request-level routing rules, evaluated before the handler's global rules
+    signal?: AbortSignal; // Aborts the in-flight provider call; cancelled requests are never failed over
+}
+
+// A provider (registration name) and optional model to send a request to
+export interface LLMRoute {
+    provider: string;
+    model?: string;
+}
+
+// Routes requests whose traits match every condition in `when` to `provider`/`model`
+export interface LLMRoutingRule {
+    name?: string;
+    when: {
+        needsTools?: boolean;      // Request carries native function definitions
+        needsJson?: boolean;       // Request expects a JSON object response
+        minPromptTokens?: number;  // Estimated prompt size is at least N tokens
+        maxPromptTokens?: number;  // Estimated prompt size is at most N tokens
+    };
+    provider: string;
+    model?: string;
+}
+
+export interface LLMRoutingMetrics {
+    provider: string;        // Provider that produced the response
+    model?: string;
+    matchedRule?: string;    // Routing rule that selected the initial provider
+    fallbackReason?: string; // Why the initial provider was abandoned, if it was
+    attempts: Array<{ provider: string; model?: string; error: string; reason: string }>;
+}
+
+// Price of a model in USD per 1M tokens
+export interface ModelPrice {
+    input: number;
+    output: number;
 }
 
 export interface LLMResponse {
@@ -87,6 +134,7 @@ export interface LLMResponse {
             output: number;
             total: number;
         };
+        routing?: LLMRoutingMetrics;
     };
     toString(): string;
 }
@@ -94,6 +142,7 @@ export interface LLMResponse {
 export interface LLMProvider {
     name: string;
     supportsStreaming: boolean;
+    capabilities?: LLMProviderCapabilities;
     initialize(): Promise<void>;
     complete(request: LLMRequest): Promise<LLMResponse>;
     completeStream(request: LLMRequest): AsyncIterable<LLMResponse>;
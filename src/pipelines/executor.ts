@@ -1,9 +1,17 @@
-import { PipelineResult, PipelineStepResult } from '../types/sdk';
+import { PipelineResult, PipelineStepResult, TeamResult, BudgetConfig, CostScope } from '../types/sdk';
 import { Logger } from '../utils/logger';
 import { ChainExecutor, ToolChain } from '../tools/executor';
 import { ToolRegistry } from '../tools/standard/registry';
 import { PipelineIntelligence, PipelinePerformanceProfile, OptimizationRecommendation } from './service';
-import { IAgentService, ITeamService } from '../types/interfaces';
+import { IAgentService, ITeamService, IPipelineService } from '../types/interfaces';
+import { CostTracker } from '../llm/costs';
+import { TeamExecutionStrategy } from '../teams/coordinator';
+import { ExpressionEvaluator, ExpressionScope } from './expressions';
+import { IDatabaseService, PipelineExecutionRecord } from '../db/types';
+import { LinkedAbortController, linkAbortController, cancellableDelay, raceCancellation, throwIfCancelled, toCancellationError, CancellationError } from '../utils/cancellation';
+import { StreamingService } from '../streaming/service';
+import { DEFAULT_MAX_ITERATIONS } from '../agents/executor';
+import { ToolUsageVerifier, ParameterSchema } from '../utils/verification';
 
 // Re-export PipelineStepResult for use by other pipeline modules
 export type { PipelineStepResult };
@@ -14,6 +22,11 @@ export interface PipelineContext {
   variables: Map<string, any>;
   stepResults: Map<string, PipelineStepResult>;
   globalState: Record<string, any>;
+  routing: {
+    pendingSkips: Map<string, string>; // Steps a condition routed around that have not been reached yet
+    loopIterations: Map<string, number>; // Loops taken so far, per condition step
+  };
+  approvals: Map<string, PipelineApproval>; // Approval steps waiting on (or holding) a decision, by step id
   metadata: {
     startTime: number;
     currentStep: number;
@@ -28,18 +41,42 @@ export interface PipelineContext {
   };
 }
 
+export interface PipelineApproval {
+  stepId: string;
+  status: 'pending' | 'approved' | 'rejected' | 'timed_out';
+  message?: string;
+  data?: any;                  // The step's resolved inputs, as presented for review
+  edits?: Record<string, any>; // Changes made by the approver, merged over data
+  requestedAt: number;
+  expiresAt?: number;
+  decidedAt?: number;
+}
+
+export type ApprovalDecision = 'approve' | 'reject';
+
+// Thrown by an approval step that pauses the run; the step stays unfinished until it is decided
+class ApprovalPendingError extends Error {
+  constructor(stepId: string) {
+    super(`Step ${stepId} is waiting for approval`);
+    this.name = 'ApprovalPendingError';
+  }
+}
+
 export interface PipelineStepDefinition {
   id: string;
   name: string;
-  type: 'tool' | 'chain' | 'agent' | 'team' | 'condition' | 'transform' | 'parallel' | 'wait';
+  type: 'tool' | 'chain' | 'agent' | 'team' | 'condition' | 'transform' | 'parallel' | 'wait' | 'map' | 'pipeline' | 'approval';
   tool?: string;
   chain?: ToolChain;
   agent?: string;
   team?: string;
+  strategy?: `${TeamExecutionStrategy}`; // Overrides the team's own strategy selection for team steps
+  pipeline?: string; // Registered pipeline run by a pipeline step; its inputs become the sub-run's input
   condition?: {
     expression: string;
-    ifTrue: string;
-    ifFalse?: string;
+    ifTrue: string;   // Step to route to when the expression is truthy; an earlier step loops back to it
+    ifFalse?: string; // Without ifFalse, a false condition skips ifTrue and carries on
+    maxIterations?: number; // Cap on loops back to an earlier step (default 10)
   };
   transform?: {
     input: string;
@@ -54,6 +91,19 @@ export interface PipelineStepDefinition {
     duration: number;
     condition?: string;
   };
+  map?: {
+    items: string;             // Input name or expression yielding the array to iterate, e.g. '$files'
+    step?: string;             // Step run once per item; like a parallel branch it is not scheduled on its own
+    pipeline?: string;         // Or a registered pipeline run once per item
+    itemVariable?: string;     // Name the item is exposed under, as an input and as $name (default 'item')
+    concurrency?: number;      // Items in flight at once (default concurrency.maxParallelSteps, else 5)
+    continueOnError?: boolean; // Leave failed items as null in the results instead of failing the step
+  };
+  approval?: {
+    message?: string;                // Shown to the approver; {{ }} templates see the step's inputs
+    timeout?: number;                // Milliseconds to wait for a decision; without it the run stays paused until approve()
+    onTimeout?: 'fail' | 'fallback'; // 'fallback' hands the run to errorHandling.fallbackPipeline (default 'fail')
+  };
   inputs?: Record<string, string>;
   inputMap?: (context: PipelineContext) => Record<string, any> | Promise<Record<string, any>>;
   outputs?: Record<string, string>;
@@ -76,15 +126,72 @@ export interface PipelineDefinition {
   variables?: Record<string, any>;
   errorHandling?: {
     strategy: 'stop' | 'continue' | 'retry' | 'fallback';
-    fallbackPipeline?: string;
-    maxGlobalRetries: number;
+    fallbackPipeline?: string; // Pipeline (by name) that takes over a failed run under the 'fallback' strategy
+    maxGlobalRetries?: number; // Retries allowed across all steps of one run, step-level and strategy retries combined
   };
   concurrency?: {
     maxParallelSteps: number;
-    resourceLimits: Record<string, number>;
+    resourceLimits?: Record<string, number>;
   };
+  budget?: BudgetConfig; // LLM spend limit per run
+}
+
+// max is undefined when it cannot be bounded before the run (a map over items not known yet)
+export interface LLMCallEstimate {
+  min: number;
+  max?: number;
+}
+
+export interface PipelinePlanIssue {
+  stepId?: string; // Unset for pipeline-level issues such as a missing fallback pipeline
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface PipelinePlanStep {
+  stepId: string;
+  type: PipelineStepDefinition['type'];
+  target?: string;         // Agent, team, tool or pipeline the step invokes
+  dependencies: string[];  // Steps it waits on
+  runs?: string[];         // Steps it runs itself: parallel branches or a map's per-item step
+  runBy?: string;          // Set on those nested steps: the parallel or map step that runs them
+  level?: number;          // Scheduling wave of a top-level step; steps sharing a level can run side by side
+  estimatedLLMCalls: LLMCallEstimate;
+}
+
+export interface PipelinePlan {
+  pipeline: string;
+  valid: boolean;      // No error-severity issues
+  order: string[];     // Top-level steps in scheduling order
+  levels: string[][];  // Top-level steps grouped by level
+  steps: PipelinePlanStep[];
+  issues: PipelinePlanIssue[];
+  estimatedLLMCalls: LLMCallEstimate;
+}
+
+type PlanReporter = (severity: PipelinePlanIssue['severity'], message: string) => void;
+
+interface PipelineGraph {
+  nodes: Array<{ id: string; label: string[]; shape: 'box' | 'diamond' | 'hexagon' | 'subroutine' | 'stadium' }>;
+  edges: Array<{ from: string; to: string; label?: string; dashed?: boolean }>;
 }
 
+const DEFAULT_MAX_CONDITION_ITERATIONS = 10;
+const DEFAULT_MAX_GLOBAL_RETRIES = 3; // Run-wide retry budget for the 'retry' strategy when maxGlobalRetries is unset
+const DEFAULT_MAP_CONCURRENCY = 5;
+
+const NO_LLM_CALLS: LLMCallEstimate = { min: 0, max: 0 };
+
+const addCalls = (a: LLMCallEstimate, b: LLMCallEstimate): LLMCallEstimate => ({
+  min: a.min + b.min,
+  max: a.max === undefined || b.max === undefined ? undefined : a.max + b.max
+});
+
+const scaleCalls = (calls: LLMCallEstimate, count: number): LLMCallEstimate => ({
+  min: calls.min * count,
+  max: calls.max === undefined ? undefined : calls.max * count
+});
+
 export enum PipelineExecutionStatus {
   PENDING = 'pending',
   RUNNING = 'running',
@@ -95,6 +202,7 @@ export enum PipelineExecutionStatus {
 }
 
 export class PipelineExecutor {
+  private static awaitingApproval = new Map<string, PipelineExecutor>(); // Executors with an approval step waiting, by execution id
   private pipelineId: string;
   private definition: PipelineDefinition;
   private context: PipelineContext;
@@ -106,8 +214,30 @@ export class PipelineExecutor {
   private intelligence: PipelineIntelligence;
   private agentService: IAgentService;
   private teamService: ITeamService;
-
-  constructor(definition: PipelineDefinition, agentService: IAgentService, teamService: ITeamService) {
+  private pipelineService?: IPipelineService;
+  private costTracker: CostTracker;
+  private executionPlan: PipelineStepDefinition[];
+  private expressions: ExpressionEvaluator;
+  private database?: IDatabaseService;
+  private checkpointWrite: Promise<void>;
+  private checkpointFailed: boolean;
+  private runInput?: any;
+  private runAbort?: LinkedAbortController; // Fires when the current run is cancelled
+  private ancestry: string[]; // Pipelines that invoked this one as a sub-pipeline, outermost first
+  private streaming: StreamingService;
+  private activeRun?: Promise<PipelineResult>;
+  private runInFlight: boolean; // Set from the start of run() until it returns, including while a pause settles
+  private approvalWaiters: Map<string, (approval: PipelineApproval) => void>; // Approval steps of the current run waiting on approve()
+  private approvalTimers: Map<string, ReturnType<typeof setTimeout>>; // Timeouts of approvals the run is paused on
+  private fallbackRequested: boolean; // Set when an approval with onTimeout 'fallback' times out
+
+  constructor(
+    definition: PipelineDefinition,
+    agentService: IAgentService,
+    teamService: ITeamService,
+    database?: IDatabaseService,
+    pipelineService?: IPipelineService
+  ) {
     this.pipelineId = `pipeline_${Date.now()}`;
     this.definition = definition;
     this.status = PipelineExecutionStatus.PENDING;
@@ -118,25 +248,47 @@ export class PipelineExecutor {
     this.intelligence = new PipelineIntelligence();
     this.agentService = agentService;
     this.teamService = teamService;
-
-    this.context = {
-      pipelineId: this.pipelineId,
-      executionId: `${this.pipelineId}_${this.generateId()}`,
-      variables: new Map(Object.entries(definition.variables || {})),
-      stepResults: new Map(),
-      globalState: {},
-      metadata: {
-        startTime: Date.now(),
-        currentStep: 0,
-        totalSteps: definition.steps.length,
-        retryCount: 0,
-        errorHistory: []
-      }
-    };
+    this.pipelineService = pipelineService;
+    this.costTracker = CostTracker.getInstance();
+    this.expressions = new ExpressionEvaluator();
+    this.database = database;
+    this.checkpointWrite = Promise.resolve();
+    this.checkpointFailed = false;
+    this.ancestry = [];
+    this.streaming = StreamingService.getInstance();
+    this.approvalWaiters = new Map();
+    this.approvalTimers = new Map();
+    this.fallbackRequested = false;
+    this.runInFlight = false;
+    this.context = this.createContext();
+
+    // Throws on unknown references or dependency cycles, so invalid pipelines are rejected at creation
+    this.validateErrorHandling();
+    this.executionPlan = this.buildExecutionPlan();
   }
 
-  async execute(input?: any): Promise<PipelineResult> {
-    const startTime = Date.now();
+  async execute(input?: any, options: { signal?: AbortSignal } = {}): Promise<PipelineResult> {
+    // A new run would take over the context of one that is still running or waiting on approve()
+    if (this.runInFlight) {
+      throw new Error(`Pipeline ${this.definition.name} is already running execution ${this.context.executionId}`);
+    }
+    const pendingApprovals = Array.from(this.context.approvals.values()).filter(approval => approval.status === 'pending');
+    if (this.isPaused() && pendingApprovals.length > 0) {
+      throw new Error(
+        `Pipeline ${this.definition.name} execution ${this.context.executionId} is waiting for approval of step(s): ` +
+        `${pendingApprovals.map(approval => approval.stepId).join(', ')}; decide them before starting another run`
+      );
+    }
+
+    // Each run gets a fresh context and execution id, so earlier runs stay resumable from their checkpoints
+    this.context = this.createContext();
+    this.runInput = input;
+    if (input) {
+      Object.entries(input).forEach(([key, value]) => {
+        this.context.variables.set(key, value);
+      });
+    }
+
     this.logger.info('PipelineExecutor', `Starting pipeline execution: ${this.definition.name}`, {
       pipelineId: this.pipelineId,
       executionId: this.context.executionId,
@@ -145,25 +297,654 @@ export class PipelineExecutor {
       intelligenceEnabled: true
     });
 
-    this.status = PipelineExecutionStatus.RUNNING;
+    this.activeRun = this.run(options.signal);
+    return this.activeRun;
+  }
+
+  /**
+   * Continues a paused or failed run from its last checkpoint, either the in-memory context of
+   * this executor or the one persisted for `executionId`.
+   */
+  async resume(executionId: string, options: { signal?: AbortSignal } = {}): Promise<PipelineResult> {
+    await this.restoreExecution(executionId);
+
+    this.logger.info('PipelineExecutor', `Resuming pipeline execution: ${this.definition.name}`, {
+      executionId,
+      completedSteps: Array.from(this.context.stepResults.keys()),
+      remainingSteps: this.executionPlan.filter(step => !this.context.stepResults.has(step.id)).map(step => step.id)
+    });
+
+    this.activeRun = this.run(options.signal);
+    return this.activeRun;
+  }
+
+  /**
+   * Records a decision for an approval step. A step waiting in place (in a sub-pipeline run,
+   * parallel branch or map item) carries on; a run paused on the step, or restored from its
+   * checkpoint after a restart, is resumed with the decision applied. Resolves with the run's
+   * result once it finishes or pauses again.
+   */
+  async approve(
+    executionId: string,
+    stepId: string,
+    decision: ApprovalDecision,
+    edits?: Record<string, any>,
+    options: { signal?: AbortSignal } = {}
+  ): Promise<PipelineResult> {
+    if (decision !== 'approve' && decision !== 'reject') {
+      throw new Error(`Invalid approval decision: ${decision}`);
+    }
+
+    const isCurrentRun = this.context.executionId === executionId;
+    const waiter = isCurrentRun ? this.approvalWaiters.get(stepId) : undefined;
+    if (waiter) {
+      const run = this.activeRun!;
+      waiter(this.decideApproval(this.context.approvals.get(stepId)!, decision, edits));
+      return run;
+    }
+
+    return this.resumeWithApproval(executionId, stepId, approval => this.decideApproval(approval, decision, edits), options.signal);
+  }
+
+  // Applies a decision to an approval the run is paused on, or was when it was checkpointed, and resumes the run
+  private async resumeWithApproval(
+    executionId: string,
+    stepId: string,
+    decide: (approval: PipelineApproval) => PipelineApproval,
+    signal?: AbortSignal
+  ): Promise<PipelineResult> {
+    const isCurrentRun = this.context.executionId === executionId;
+    if (isCurrentRun && this.status === PipelineExecutionStatus.RUNNING) {
+      throw new Error(`No pending approval for step ${stepId} in pipeline execution ${executionId}`);
+    }
+    if (isCurrentRun && this.activeRun) {
+      // A run pausing on the approval returns once its other in-flight steps have settled
+      await this.activeRun;
+    }
+
+    await this.restoreExecution(executionId);
+    const approval = this.context.approvals.get(stepId);
+    if (approval?.status !== 'pending') {
+      throw new Error(`No pending approval for step ${stepId} in pipeline execution ${executionId}`);
+    }
+    clearTimeout(this.approvalTimers.get(stepId));
+    this.approvalTimers.delete(stepId);
+    // Expiry goes by the checkpointed expiresAt; the timer does not survive a restart
+    const expired = this.hasExpired(approval);
+    if (expired) {
+      this.logger.warn('PipelineExecutor', `Approval for step ${stepId} expired before it was decided`, { executionId, expiresAt: approval.expiresAt });
+    }
+    const decided = expired ? this.timeOutApproval(approval) : decide(approval);
+    this.context.approvals.set(stepId, decided);
+
+    this.logger.info('PipelineExecutor', `Resuming pipeline execution with approval decision: ${this.definition.name}`, {
+      executionId,
+      stepId,
+      status: decided.status
+    });
+
+    this.activeRun = this.run(signal);
+    return this.activeRun;
+  }
+
+  // Executors whose current run has an approval step waiting in place, so approvals reach sub-pipeline runs too
+  static findAwaitingApproval(executionId: string): PipelineExecutor | undefined {
+    return PipelineExecutor.awaitingApproval.get(executionId);
+  }
+
+  /**
+   * Loads a paused or failed run for resume(): the in-memory context of this executor or the
+   * checkpoint persisted for `executionId`. Steps that succeeded or were skipped keep their
+   * results; failed and unfinished steps run again.
+   */
+  private async restoreExecution(executionId: string): Promise<void> {
+    if (this.runInFlight) {
+      throw new Error(`Pipeline ${this.definition.name} is already running execution ${this.context.executionId}`);
+    }
 
+    if (this.context.executionId !== executionId) {
+      const record = this.database ? await this.database.getPipelineExecution(executionId) : null;
+      if (!record) {
+        throw new Error(`No checkpoint found for pipeline execution: ${executionId}`);
+      }
+      if (record.pipeline_name !== this.definition.name) {
+        throw new Error(`Execution ${executionId} belongs to pipeline ${record.pipeline_name}, not ${this.definition.name}`);
+      }
+      if (record.status === PipelineExecutionStatus.COMPLETED) {
+        throw new Error(`Pipeline execution ${executionId} has already completed`);
+      }
+      this.restoreContext(record);
+    } else if (this.status === PipelineExecutionStatus.COMPLETED) {
+      throw new Error(`Pipeline execution ${executionId} has already completed`);
+    }
+
+    for (const [stepId, stepResult] of this.context.stepResults) {
+      if (!stepResult.success) {
+        this.context.stepResults.delete(stepId);
+      }
+    }
+  }
+
+  /**
+   * Stops launching new steps; steps already running finish and are checkpointed, then the run
+   * returns with status `paused`. Returns false when nothing is running.
+   */
+  pause(): boolean {
+    if (this.status !== PipelineExecutionStatus.RUNNING) {
+      return false;
+    }
+    this.status = PipelineExecutionStatus.PAUSED;
+    this.logger.info('PipelineExecutor', `Pausing pipeline execution: ${this.definition.name}`, {
+      executionId: this.context.executionId,
+      activeSteps: Array.from(this.activeSteps.keys())
+    });
+    return true;
+  }
+
+  /**
+   * Aborts the running execution: in-flight LLM calls, tool handlers and waits are stopped, no
+   * further steps start, and the run returns with status `cancelled`. Returns false when nothing
+   * is running.
+   */
+  cancel(reason?: string): boolean {
+    if (!this.runAbort || this.runAbort.signal.aborted || this.status !== PipelineExecutionStatus.RUNNING) {
+      return false;
+    }
+    this.logger.info('PipelineExecutor', `Cancelling pipeline execution: ${this.definition.name}`, {
+      executionId: this.context.executionId,
+      activeSteps: Array.from(this.activeSteps.keys()),
+      reason
+    });
+    this.runAbort.abort(new CancellationError(reason || `Pipeline execution ${this.context.executionId} cancelled`));
+    return true;
+  }
+
+  getDefinition(): PipelineDefinition {
+    return this.definition;
+  }
+
+  getExecutionId(): string {
+    return this.context.executionId;
+  }
+
+  /**
+   * Dry run against what is registered right now; no step executes. The step graph itself was
+   * resolved at construction, so this checks what can only be known later: the agents, teams,
+   * tools and pipelines steps name, the expressions in their specs and what those read, and
+   * tool inputs known ahead of time against the tool's input schema. LLM calls are estimated
+   * per step, counting condition loops but not retries.
+   */
+  async plan(input: Record<string, any> = {}): Promise<PipelinePlan> {
+    const issues: PipelinePlanIssue[] = [];
+    const variables = new Map<string, any>([...Object.entries(this.definition.variables || {}), ...Object.entries(input)]);
+
+    const ownCalls = new Map<string, LLMCallEstimate>();
+    const mapItems = new Map<string, number | undefined>();
+    for (const step of this.definition.steps) {
+      const report = (severity: PipelinePlanIssue['severity'], message: string) => issues.push({ stepId: step.id, severity, message });
+      this.checkStepExpressions(step, variables, report);
+      ownCalls.set(step.id, await this.checkStepTarget(step, variables, report));
+      if (step.type === 'map' && step.map) {
+        mapItems.set(step.id, this.countMapItems(step, variables, report));
+      }
+    }
+
+    const fallback = this.definition.errorHandling?.fallbackPipeline;
+    if (fallback && !(this.pipelineService && await this.pipelineService.get(fallback))) {
+      issues.push({ severity: 'error', message: `Fallback pipeline ${fallback} is not registered` });
+    }
+
+    // Parallel and map steps are charged for the steps they run
+    const calls = new Map<string, LLMCallEstimate>();
+    const estimate = (step: PipelineStepDefinition): LLMCallEstimate => {
+      const cached = calls.get(step.id);
+      if (cached) return cached;
+
+      let result = ownCalls.get(step.id)!;
+      if (step.type === 'parallel' && step.parallel && step.parallel.steps.length > 0) {
+        const branches = step.parallel.steps.map(id => estimate(this.definition.steps.find(s => s.id === id)!));
+        const total = branches.reduce(addCalls, NO_LLM_CALLS);
+        // Without waitForAll the first successful branch completes the step
+        result = step.parallel.waitForAll ? total : { min: Math.min(...branches.map(branch => branch.min)), max: total.max };
+      } else if (step.type === 'map' && step.map) {
+        const perItem = step.map.step ? estimate(this.definition.steps.find(s => s.id === step.map!.step)!) : result;
+        const items = mapItems.get(step.id);
+        result = items !== undefined ? scaleCalls(perItem, items) : { min: 0, max: perItem.max === 0 ? 0 : undefined };
+      }
+      calls.set(step.id, result);
+      return result;
+    };
+
+    let total = this.executionPlan.map(estimate).reduce(addCalls, NO_LLM_CALLS);
+    // A condition looping back re-runs its loop region up to maxIterations more times
+    for (const step of this.executionPlan) {
+      if (step.type !== 'condition' || !step.condition) continue;
+      const maxIterations = step.condition.maxIterations ?? DEFAULT_MAX_CONDITION_ITERATIONS;
+      const loops = [step.condition.ifTrue, step.condition.ifFalse]
+        .filter((target): target is string => target !== undefined && !this.isForwardTarget(step, target))
+        .map(target => scaleCalls(this.getLoopRegion(this.executionPlan, step, target).map(estimate).reduce(addCalls, NO_LLM_CALLS), maxIterations));
+      if (loops.length > 0) {
+        const longest = loops.some(loop => loop.max === undefined) ? undefined : Math.max(...loops.map(loop => loop.max!));
+        total = addCalls(total, { min: 0, max: longest });
+      }
+    }
+
+    // Plan order is topological, so every dependency already has its level
+    const levelOf = new Map<string, number>();
+    for (const step of this.executionPlan) {
+      const deps = this.getStepDependencies(step).filter(dep => levelOf.has(dep));
+      levelOf.set(step.id, deps.length > 0 ? Math.max(...deps.map(dep => levelOf.get(dep)!)) + 1 : 0);
+    }
+    const levels: string[][] = [];
+    levelOf.forEach((level, stepId) => (levels[level] = levels[level] || []).push(stepId));
+
+    const plan: PipelinePlan = {
+      pipeline: this.definition.name,
+      valid: !issues.some(issue => issue.severity === 'error'),
+      order: this.executionPlan.map(step => step.id),
+      levels,
+      steps: this.definition.steps.map(step => {
+        const owner = this.getNestedStepOwner(step.id);
+        return {
+          stepId: step.id,
+          type: step.type,
+          target: this.getStepTarget(step),
+          dependencies: owner ? [] : this.getStepDependencies(step),
+          runs: step.type === 'parallel' ? step.parallel?.steps : step.map?.step ? [step.map.step] : undefined,
+          runBy: owner?.id,
+          level: levelOf.get(step.id),
+          estimatedLLMCalls: estimate(step)
+        };
+      }),
+      issues,
+      estimatedLLMCalls: total
+    };
+
+    this.logger.info('PipelineExecutor', 'Dry-run plan built', {
+      valid: plan.valid,
+      errors: issues.filter(issue => issue.severity === 'error').length,
+      warnings: issues.filter(issue => issue.severity === 'warning').length,
+      estimatedLLMCalls: total
+    });
+    return plan;
+  }
+
+  /**
+   * Renders the step graph as a Mermaid flowchart. Dependencies are solid arrows, condition
+   * routes are labelled true/false (dashed when they loop back), and the steps a parallel or
+   * map step runs hang off it with dashed arrows.
+   */
+  toMermaid(): string {
+    const graph = this.describeGraph();
+    const nodeIds = new Map(graph.nodes.map((node, index) => [node.id, `s${index}`]));
+    const escape = (text: string) => text.replace(/"/g, '#quot;').replace(/</g, '#lt;').replace(/>/g, '#gt;');
+    const brackets: Record<PipelineGraph['nodes'][number]['shape'], [string, string]> = {
+      box: ['[', ']'], diamond: ['{', '}'], hexagon: ['{{', '}}'], subroutine: ['[[', ']]'], stadium: ['([', '])']
+    };
+
+    const lines = ['flowchart TD'];
+    for (const node of graph.nodes) {
+      const [open, close] = brackets[node.shape];
+      lines.push(`  ${nodeIds.get(node.id)}${open}"${node.label.map(escape).join('<br/>')}"${close}`);
+    }
+    for (const edge of graph.edges) {
+      const label = edge.label ? `|"${escape(edge.label)}"|` : '';
+      lines.push(`  ${nodeIds.get(edge.from)} ${edge.dashed ? '-.->' : '-->'}${label} ${nodeIds.get(edge.to)}`);
+    }
+    return lines.join('\n');
+  }
+
+  // The same graph as toMermaid(), in Graphviz DOT
+  toDot(): string {
+    const graph = this.describeGraph();
+    const quote = (text: string) => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+    const shapes: Record<PipelineGraph['nodes'][number]['shape'], string> = {
+      box: 'box', diamond: 'diamond', hexagon: 'hexagon', subroutine: 'box3d', stadium: 'oval'
+    };
+
+    const lines = [`digraph ${quote(this.definition.name)} {`, '  rankdir=TB;', '  node [shape=box];'];
+    for (const node of graph.nodes) {
+      const attributes = [`label=${quote(node.label.join('\n')).replace(/\n/g, '\\n')}`];
+      if (node.shape !== 'box') attributes.push(`shape=${shapes[node.shape]}`);
+      lines.push(`  ${quote(node.id)} [${attributes.join(', ')}];`);
+    }
+    for (const edge of graph.edges) {
+      const attributes = [...(edge.label ? [`label=${quote(edge.label)}`] : []), ...(edge.dashed ? ['style=dashed'] : [])];
+      lines.push(`  ${quote(edge.from)} -> ${quote(edge.to)}${attributes.length > 0 ? ` [${attributes.join(', ')}]` : ''};`);
+    }
+    lines.push('}');
+    return lines.join('\n');
+  }
+
+  // Parses every expression the step evaluates and checks the variables and steps it reads
+  private checkStepExpressions(step: PipelineStepDefinition, variables: Map<string, any>, report: PlanReporter): void {
+    const owner = this.getNestedStepOwner(step.id);
+    const ancestors = this.collectAncestors((owner || step).id, s => this.getStepDependencies(s));
+    const produced = new Set(this.definition.steps.flatMap(s => Object.keys(s.outputs || {})));
+
+    // $name also finds a map item's variables, and (after input resolution) the step's own inputs
+    const itemLocals = owner?.type === 'map' ? [owner.map!.itemVariable || 'item', 'index'] : [];
+    const inputLocals = typeof step.inputMap === 'function' ? undefined : [...itemLocals, ...Object.keys(step.inputs || {})];
+
+    // `locals` undefined means the step's inputs are unknown ahead of time, so $name reads are not checked
+    const check = (label: string, spec: string, locals: string[] | undefined) => {
+      let references: { variables: string[]; steps: string[] };
+      try {
+        references = this.expressions.references(spec);
+      } catch (error) {
+        report('error', `${label}: ${error instanceof Error ? error.message : String(error)}`);
+        return;
+      }
+      for (const name of references.variables) {
+        if (locals && !locals.includes(name) && !variables.has(name) && !produced.has(name)) {
+          report('warning', `${label} reads $${name}, which no pipeline variable, run input or step output provides`);
+        }
+      }
+      for (const id of references.steps) {
+        if (!this.definition.steps.some(s => s.id === id)) {
+          report('error', `${label} references unknown step @${id}`);
+        } else if (id !== step.id && !ancestors.has(id)) {
+          report('warning', `${label} reads @${id}, which is not guaranteed to have run before this step`);
+        }
+      }
+    };
+
+    if (typeof step.inputMap !== 'function') {
+      Object.entries(step.inputs || {}).forEach(([key, spec]) => check(`Input '${key}'`, spec, itemLocals));
+    }
+    if (step.condition) {
+      check('Condition', `=${step.condition.expression}`, inputLocals);
+    }
+    if (step.transform) {
+      if (!step.inputs || !(step.transform.input in step.inputs)) {
+        check('Transform input', step.transform.input, inputLocals);
+      }
+      // Named transformations and bare identifiers are not expressions
+      const { transformation } = step.transform;
+      if (transformation && !/^[A-Za-z_]\w*$/.test(transformation)) {
+        check('Transformation', this.expressions.isTemplate(transformation) ? transformation : `=${transformation}`, inputLocals && [...inputLocals, 'value']);
+      }
+    }
+    if (step.map && (!step.inputs || !(step.map.items in step.inputs))) {
+      check('Map items', step.map.items, inputLocals);
+    }
+    if (step.approval?.message !== undefined) {
+      check('Approval message', step.approval.message, inputLocals);
+    }
+    for (const [key, spec] of Object.entries(step.outputs || {})) {
+      if (spec === '.' || this.expressions.isPath(spec.startsWith('.') ? spec.substring(1) : spec)) continue;
+      const expression = spec.startsWith('.') ? `=${spec.substring(1)}` : this.expressions.isTemplate(spec) ? spec : `=${spec}`;
+      check(`Output '${key}'`, expression, []);
+    }
+  }
+
+  // Checks that whatever the step invokes is registered; returns the LLM calls of one run of the step itself
+  private async checkStepTarget(step: PipelineStepDefinition, variables: Map<string, any>, report: PlanReporter): Promise<LLMCallEstimate> {
+    const staticInputs = typeof step.inputMap === 'function' ? undefined : step.inputs || {};
+    const requireTask = (kind: string) => {
+      if (staticInputs && !['task', 'prompt', 'query'].some(key => key in staticInputs)) {
+        report('error', `${kind} steps need a 'task', 'prompt' or 'query' input`);
+      }
+    };
+
+    switch (step.type) {
+      case 'agent': {
+        requireTask('Agent');
+        const agent = step.agent && this.agentService ? await this.agentService.get(step.agent) : undefined;
+        if (!agent) {
+          report('error', step.agent ? `Agent ${step.agent} is not registered` : 'Agent step names no agent');
+          return { min: 1, max: DEFAULT_MAX_ITERATIONS };
+        }
+        return { min: 1, max: agent.getConfig().maxIterations ?? DEFAULT_MAX_ITERATIONS };
+      }
+      case 'team': {
+        requireTask('Team');
+        const team = step.team && this.teamService ? await this.teamService.get(step.team) : undefined;
+        if (!team) {
+          report('error', step.team ? `Team ${step.team} is not registered` : 'Team step names no team');
+          return { min: 1 };
+        }
+        // Any member may be handed work, so the upper bound is every member running to its limit
+        const members: Array<{ config: { maxIterations?: number } }> = team.getTeamStatus().members;
+        return { min: 1, max: members.reduce((sum, member) => sum + (member.config.maxIterations ?? DEFAULT_MAX_ITERATIONS), 0) };
+      }
+      case 'tool': {
+        const tool = step.tool ? this.toolRegistry.getToolInfo(step.tool) : null;
+        if (!tool) {
+          report('error', step.tool ? `Tool ${step.tool} is not registered` : 'Tool step names no tool');
+          return NO_LLM_CALLS;
+        }
+        if (staticInputs && tool.inputSchema) {
+          this.checkToolInputs(step.tool!, tool.inputSchema, staticInputs, variables, report);
+        }
+        if (tool.outputs && tool.outputs.length > 0) {
+          for (const [key, spec] of Object.entries(step.outputs || {})) {
+            const field = spec.match(/^\.([A-Za-z_][\w\-]*)/)?.[1];
+            if (field && !tool.outputs.includes(field)) {
+              report('warning', `Output '${key}' reads ${field}, which is not among tool ${step.tool}'s outputs (${tool.outputs.join(', ')})`);
+            }
+          }
+        }
+        return NO_LLM_CALLS;
+      }
+      case 'chain':
+        for (const chainStep of step.chain?.steps || []) {
+          if (!this.toolRegistry.getToolInfo(chainStep.tool)) {
+            report('error', `Chain step ${chainStep.id} uses unregistered tool ${chainStep.tool}`);
+          }
+        }
+        return NO_LLM_CALLS;
+      case 'pipeline':
+        if (!step.pipeline) {
+          report('error', 'Pipeline step names no pipeline');
+          return NO_LLM_CALLS;
+        }
+        return this.planSubPipeline(step.pipeline, this.staticInputValues(staticInputs, variables), report);
+      case 'map':
+        // Per item; plan() scales it by the item count
+        if (!step.map?.pipeline) return NO_LLM_CALLS;
+        return this.planSubPipeline(step.map.pipeline, {
+          ...this.staticInputValues(staticInputs, variables),
+          [step.map.itemVariable || 'item']: undefined,
+          index: undefined
+        }, report);
+      default:
+        return NO_LLM_CALLS;
+    }
+  }
+
+  // Required inputs must be given, and inputs whose values are known before the run must match the schema
+  private checkToolInputs(
+    toolName: string,
+    schema: Record<string, ParameterSchema>,
+    inputs: Record<string, string>,
+    variables: Map<string, any>,
+    report: PlanReporter
+  ): void {
+    for (const [name, rule] of Object.entries(schema)) {
+      if (rule.required && !(name in inputs)) {
+        report('error', `Tool ${toolName} requires input '${name}'`);
+      }
+    }
+
+    const known: Record<string, any> = {};
+    const knownSchema: Record<string, ParameterSchema> = {};
+    for (const [name, spec] of Object.entries(inputs)) {
+      if (!schema[name]) {
+        report('warning', `Tool ${toolName} has no input named '${name}'`);
+        continue;
+      }
+      const value = this.staticValue(spec, variables);
+      if (value !== undefined) {
+        known[name] = value;
+        knownSchema[name] = schema[name];
+      }
+    }
+    ToolUsageVerifier.verifyData(known, knownSchema).errors.forEach(error => report('error', `Input '${error.path}': ${error.message}`));
+  }
+
+  private countMapItems(step: PipelineStepDefinition, variables: Map<string, any>, report: PlanReporter): number | undefined {
+    if (typeof step.inputMap === 'function') return undefined;
+    const itemsSpec = step.map!.items;
+    const items = this.staticValue(step.inputs && itemsSpec in step.inputs ? step.inputs[itemsSpec] : itemsSpec, variables);
+    if (items === undefined) return undefined;
+    if (!Array.isArray(items)) {
+      report('error', `Map items resolve to ${items === null ? 'null' : typeof items}, not an array`);
+      return undefined;
+    }
+    return items.length;
+  }
+
+  // Inputs whose values are known before the run; the rest are present but undefined
+  private staticInputValues(inputs: Record<string, string> | undefined, variables: Map<string, any>): Record<string, any> {
+    return Object.fromEntries(Object.entries(inputs || {}).map(([key, spec]) => [key, this.staticValue(spec, variables)]));
+  }
+
+  // What a spec resolves to before the run, or undefined when it depends on step results or unknown variables
+  private staticValue(spec: any, variables: Map<string, any>): any {
     try {
-      // Initialize pipeline context with input
-      if (input) {
-        Object.entries(input).forEach(([key, value]) => {
-          this.context.variables.set(key, value);
-        });
+      const references = this.expressions.references(spec);
+      if (references.steps.length > 0 || references.variables.some(name => variables.get(name) === undefined)) {
+        return undefined;
       }
+      return this.expressions.resolve(spec, { variables, steps: new Map() });
+    } catch {
+      return undefined;
+    }
+  }
 
-      // Build execution plan
-      const executionPlan = await this.buildExecutionPlan();
-      
+  // Plans a pipeline this one runs on a fresh executor, as runSubPipeline() would run it
+  private async planSubPipeline(name: string, input: Record<string, any>, report: PlanReporter): Promise<LLMCallEstimate> {
+    const lineage = [...this.ancestry, this.definition.name];
+    if (lineage.includes(name)) {
+      report('error', `Pipeline cycle detected: ${[...lineage, name].join(' -> ')}`);
+      return NO_LLM_CALLS;
+    }
+    const registered = this.pipelineService ? await this.pipelineService.get(name) : undefined;
+    if (!registered) {
+      report('error', `Pipeline ${name} is not registered`);
+      return { min: 0 };
+    }
+
+    const child = new PipelineExecutor(registered.getDefinition(), this.agentService, this.teamService, this.database, this.pipelineService);
+    child.ancestry = lineage;
+    const subPlan = await child.plan(input);
+    subPlan.issues.forEach(issue => report(issue.severity, `Pipeline ${name}${issue.stepId ? `, step ${issue.stepId}` : ''}: ${issue.message}`));
+    return subPlan.estimatedLLMCalls;
+  }
+
+  // Nodes and edges shared by toMermaid() and toDot()
+  private describeGraph(): PipelineGraph {
+    const graph: PipelineGraph = { nodes: [], edges: [] };
+    const shapes: Partial<Record<PipelineStepDefinition['type'], PipelineGraph['nodes'][number]['shape']>> = {
+      condition: 'diamond', approval: 'hexagon', parallel: 'subroutine', map: 'subroutine', pipeline: 'subroutine', wait: 'stadium'
+    };
+    const addEdge = (edge: PipelineGraph['edges'][number]) => {
+      if (!graph.edges.some(existing => existing.from === edge.from && existing.to === edge.to)) {
+        graph.edges.push(edge);
+      }
+    };
+
+    for (const step of this.definition.steps) {
+      const target = this.getStepTarget(step);
+      const detail = target ? `${step.type}: ${target}`
+        : step.condition ? `if ${step.condition.expression}`
+        : step.map ? `map over ${step.map.items}`
+        : step.type;
+      graph.nodes.push({ id: step.id, label: [step.name || step.id, detail], shape: shapes[step.type] || 'box' });
+    }
+
+    // Routing edges go first so they keep their labels where a target also declares the dependency
+    for (const step of this.definition.steps) {
+      if (step.type === 'condition' && step.condition) {
+        const routes: Array<[string | undefined, string]> = [[step.condition.ifTrue, 'true'], [step.condition.ifFalse, 'false']];
+        for (const [target, label] of routes) {
+          if (target === undefined) continue;
+          const forward = this.isForwardTarget(step, target);
+          addEdge({ from: step.id, to: target, label: forward ? label : `${label} (loop)`, dashed: !forward });
+        }
+      }
+      if (step.type === 'parallel' && step.parallel) {
+        step.parallel.steps.forEach(branch => addEdge({ from: step.id, to: branch, label: 'branch', dashed: true }));
+      }
+      if (step.type === 'map' && step.map?.step) {
+        addEdge({ from: step.id, to: step.map.step, label: 'each item', dashed: true });
+      }
+    }
+    for (const step of this.definition.steps) {
+      if (this.isNestedStep(step.id)) continue;
+      this.getDeclaredDependencies(step).forEach(dep => addEdge({ from: dep, to: step.id }));
+    }
+    return graph;
+  }
+
+  // Agent, team, tool, chain or pipeline a step invokes
+  private getStepTarget(step: PipelineStepDefinition): string | undefined {
+    switch (step.type) {
+      case 'agent': return step.agent;
+      case 'team': return step.team;
+      case 'tool': return step.tool;
+      case 'chain': return step.chain?.name;
+      case 'pipeline': return step.pipeline;
+      case 'map': return step.map?.pipeline;
+      default: return undefined;
+    }
+  }
+
+  private async run(signal?: AbortSignal): Promise<PipelineResult> {
+    const startTime = Date.now();
+    this.runInFlight = true;
+    this.status = PipelineExecutionStatus.RUNNING;
+    this.runAbort = linkAbortController([signal]);
+    this.fallbackRequested = false;
+    PipelineExecutor.awaitingApproval.delete(this.context.executionId);
+    this.checkpoint();
+
+    try {
       // Execute pipeline steps with intelligence
-      await this.executePipeline(executionPlan);
+      await this.executePipeline(this.executionPlan);
       
       const endTime = Date.now();
       const duration = endTime - startTime;
 
+      if (this.isPaused() && this.executionPlan.some(step => !this.context.stepResults.has(step.id))) {
+        this.checkpoint();
+        await this.checkpointWrite;
+        const awaitingApproval = Array.from(this.context.approvals.values())
+          .filter(approval => approval.status === 'pending')
+          .map(approval => approval.stepId);
+        this.logger.info('PipelineExecutor', `Pipeline execution paused`, {
+          executionId: this.context.executionId,
+          stepsCompleted: this.context.stepResults.size,
+          awaitingApproval
+        });
+        return {
+          success: false,
+          error: awaitingApproval.length > 0
+            ? `Pipeline execution ${this.context.executionId} is waiting for approval of step(s): ${awaitingApproval.join(', ')}`
+            : `Pipeline execution ${this.context.executionId} paused; resume it to continue`,
+          result: {
+            pipelineId: this.pipelineId,
+            executionId: this.context.executionId,
+            status: this.status,
+            steps: Array.from(this.context.stepResults.values()),
+            skippedSteps: this.getSkippedSteps(),
+            context: this.serializeContext()
+          },
+          metrics: {
+            duration,
+            startTime,
+            endTime,
+            stepResults: {
+              stepsExecuted: this.context.stepResults.size,
+              stepsSkipped: this.getSkippedSteps().length,
+              retryCount: this.context.metadata.retryCount
+            },
+            cost: this.costTracker.getSpend('pipeline', this.context.executionId).cost
+          }
+        };
+      }
+
       // Generate performance profile
       const performanceProfile = await this.intelligence.generatePerformanceProfile(
         this.pipelineId, 
@@ -171,6 +952,8 @@ export class PipelineExecutor {
       );
 
       this.status = PipelineExecutionStatus.COMPLETED;
+      this.checkpoint(this.extractPipelineOutput(), duration);
+      await this.checkpointWrite;
 
       this.logger.info('PipelineExecutor', `Pipeline execution completed successfully`, {
         pipelineId: this.pipelineId,
@@ -191,6 +974,7 @@ export class PipelineExecutor {
           executionId: this.context.executionId,
           status: this.status,
           steps: Array.from(this.context.stepResults.values()),
+          skippedSteps: this.getSkippedSteps(),
           output: this.extractPipelineOutput(),
           context: this.serializeContext(),
           performanceProfile
@@ -201,9 +985,11 @@ export class PipelineExecutor {
           endTime,
           stepResults: {
             stepsExecuted: this.context.stepResults.size,
+            stepsSkipped: this.getSkippedSteps().length,
             successRate: this.calculateSuccessRate(),
             retryCount: this.context.metadata.retryCount
           },
+          cost: this.costTracker.getSpend('pipeline', this.context.executionId).cost,
           intelligence: {
             bottlenecksIdentified: performanceProfile.bottlenecks.length,
             optimizationRecommendations: performanceProfile.optimization.parallelizationOpportunities.length,
@@ -216,7 +1002,10 @@ export class PipelineExecutor {
       const endTime = Date.now();
       const duration = endTime - startTime;
 
-      this.status = PipelineExecutionStatus.FAILED;
+      this.status = this.isCancelled() ? PipelineExecutionStatus.CANCELLED : PipelineExecutionStatus.FAILED;
+      this.releasePausedApprovals();
+      this.checkpoint(undefined, duration);
+      await this.checkpointWrite;
 
       // Generate performance profile even for failed executions
       let performanceProfile: PipelinePerformanceProfile | undefined;
@@ -231,19 +1020,29 @@ export class PipelineExecutor {
         });
       }
 
-      this.logger.error('PipelineExecutor', `Pipeline execution failed`, {
-        pipelineId: this.pipelineId,
-        error: error instanceof Error ? error.message : String(error),
-        duration,
-        stepsCompleted: this.context.stepResults.size,
-        totalSteps: this.definition.steps.length,
-        performanceInsights: performanceProfile ? {
-          bottlenecks: performanceProfile.bottlenecks.length,
-          failurePatterns: Object.keys(performanceProfile.trends.errorPatterns).length
-        } : undefined
-      });
+      if (this.isCancelled()) {
+        this.logger.warn('PipelineExecutor', `Pipeline execution cancelled`, {
+          pipelineId: this.pipelineId,
+          executionId: this.context.executionId,
+          reason: error instanceof Error ? error.message : String(error),
+          duration,
+          stepsCompleted: this.context.stepResults.size
+        });
+      } else {
+        this.logger.error('PipelineExecutor', `Pipeline execution failed`, {
+          pipelineId: this.pipelineId,
+          error: error instanceof Error ? error.message : String(error),
+          duration,
+          stepsCompleted: this.context.stepResults.size,
+          totalSteps: this.definition.steps.length,
+          performanceInsights: performanceProfile ? {
+            bottlenecks: performanceProfile.bottlenecks.length,
+            failurePatterns: Object.keys(performanceProfile.trends.errorPatterns).length
+          } : undefined
+        });
+      }
 
-      return {
+      const failure: PipelineResult = {
         success: false,
         error: error instanceof Error ? error.message : String(error),
         result: {
@@ -251,6 +1050,7 @@ export class PipelineExecutor {
           executionId: this.context.executionId,
           status: this.status,
           steps: Array.from(this.context.stepResults.values()),
+          skippedSteps: this.getSkippedSteps(),
           context: this.serializeContext(),
           performanceProfile
         },
@@ -260,35 +1060,203 @@ export class PipelineExecutor {
           endTime,
           stepResults: {
             stepsExecuted: this.context.stepResults.size,
+            stepsSkipped: this.getSkippedSteps().length,
             retryCount: this.context.metadata.retryCount
-          }
+          },
+          cost: this.costTracker.getSpend('pipeline', this.context.executionId).cost
         }
       };
+
+      if ((this.definition.errorHandling?.strategy === 'fallback' || this.fallbackRequested) && !this.isCancelled()) {
+        return await this.runFallback(failure);
+      }
+      return failure;
+    } finally {
+      this.runAbort.dispose();
+      this.runInFlight = false;
     }
   }
 
-  private async buildExecutionPlan(): Promise<PipelineStepDefinition[]> {
-    this.logger.info('PipelineExecutor', 'Building pipeline execution plan', {
-      totalSteps: this.definition.steps.length
+  /**
+   * Hands a failed run to `errorHandling.fallbackPipeline`. The fallback receives this run's
+   * variables plus an `error` object (failed step, error, errorHistory), and its outcome becomes
+   * the outcome of this run; this run's own checkpoint stays `failed`.
+   */
+  private async runFallback(failure: PipelineResult): Promise<PipelineResult> {
+    const fallbackName = this.definition.errorHandling!.fallbackPipeline!;
+    const { errorHistory } = this.context.metadata;
+    const failedStep = errorHistory[errorHistory.length - 1];
+
+    this.logger.info('PipelineExecutor', `Executing fallback pipeline: ${fallbackName}`, {
+      executionId: this.context.executionId,
+      failedStep: failedStep?.step
     });
 
-    // For now, use simple sequential execution
-    // TODO: Implement dependency-based topological sorting
-    const plan = [...this.definition.steps];
+    const input = {
+      ...Object.fromEntries(this.context.variables),
+      error: {
+        pipeline: this.definition.name,
+        executionId: this.context.executionId,
+        step: failedStep?.step,
+        error: failedStep?.error ?? failure.error,
+        message: failure.error,
+        errorHistory
+      }
+    };
+
+    let fallbackResult: PipelineResult;
+    try {
+      fallbackResult = await this.runSubPipeline(fallbackName, input, this.runAbort!.signal);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      this.logger.error('PipelineExecutor', `Cannot execute fallback pipeline: ${fallbackName}`, { reason });
+      return { ...failure, error: `${failure.error}; fallback pipeline ${fallbackName} could not run: ${reason}` };
+    }
+
+    return {
+      success: fallbackResult.success,
+      error: fallbackResult.success ? undefined : `${failure.error}; fallback pipeline ${fallbackName} failed: ${fallbackResult.error}`,
+      fallbackUsed: true,
+      result: {
+        ...failure.result,
+        output: fallbackResult.result?.output,
+        fallback: {
+          pipeline: fallbackName,
+          executionId: fallbackResult.result?.executionId,
+          triggeredBy: failure.error,
+          success: fallbackResult.success,
+          error: fallbackResult.error,
+          output: fallbackResult.result?.output,
+          metrics: fallbackResult.metrics
+        }
+      },
+      metrics: failure.metrics
+    };
+  }
+
+  private validateErrorHandling(): void {
+    const errorHandling = this.definition.errorHandling;
+    if (errorHandling?.strategy === 'fallback' && !errorHandling.fallbackPipeline) {
+      throw new Error(`Pipeline ${this.definition.name} uses the fallback strategy but names no fallbackPipeline`);
+    }
+    if (errorHandling?.fallbackPipeline === this.definition.name) {
+      throw new Error(`Pipeline ${this.definition.name} cannot be its own fallback pipeline`);
+    }
+    const fallsBackOnTimeout = this.definition.steps.find(step => step.approval?.onTimeout === 'fallback');
+    if (fallsBackOnTimeout && !errorHandling?.fallbackPipeline) {
+      throw new Error(`Approval step ${fallsBackOnTimeout.id} falls back on timeout but pipeline ${this.definition.name} names no fallbackPipeline`);
+    }
+    if (errorHandling?.maxGlobalRetries !== undefined && (!Number.isInteger(errorHandling.maxGlobalRetries) || errorHandling.maxGlobalRetries < 0)) {
+      throw new Error(`Pipeline ${this.definition.name} has invalid maxGlobalRetries: ${errorHandling.maxGlobalRetries}`);
+    }
+  }
+
+  /**
+   * Runs a registered pipeline on a fresh executor, so concurrent invocations (map items, or a
+   * pipeline that is also running on its own) never share run state. Cycles through pipeline,
+   * map and fallback references are rejected.
+   */
+  private async runSubPipeline(name: string, input: Record<string, any>, signal?: AbortSignal): Promise<PipelineResult> {
+    const lineage = [...this.ancestry, this.definition.name];
+    if (lineage.includes(name)) {
+      throw new Error(`Pipeline cycle detected: ${[...lineage, name].join(' -> ')}`);
+    }
+    const registered = this.pipelineService ? await this.pipelineService.get(name) : undefined;
+    if (!registered) {
+      throw new Error(`Pipeline ${name} not found`);
+    }
+
+    const child = new PipelineExecutor(registered.getDefinition(), this.agentService, this.teamService, this.database, this.pipelineService);
+    child.ancestry = lineage;
+    return child.execute(input, { signal });
+  }
+
+  /**
+   * Validates the step graph and returns the top-level steps in topological order.
+   * Runs at construction so missing references and dependency cycles fail pipeline creation.
+   */
+  private buildExecutionPlan(): PipelineStepDefinition[] {
+    const steps = this.definition.steps;
+    const stepIds = new Set(steps.map(step => step.id));
 
     // Validate dependencies
-    for (const step of plan) {
-      if (step.dependencies) {
-        for (const dep of step.dependencies) {
-          if (!plan.find(s => s.id === dep)) {
-            throw new Error(`Step ${step.id} depends on non-existent step: ${dep}`);
-          }
+    for (const step of steps) {
+      for (const dep of step.dependencies || []) {
+        if (!stepIds.has(dep)) {
+          throw new Error(`Step ${step.id} depends on non-existent step: ${dep}`);
+        }
+      }
+    }
+
+    // Branches of a parallel step and the per-item step of a map step are run by that step, not by the scheduler
+    const branchIds = new Set<string>();
+    for (const step of steps) {
+      if (step.type !== 'parallel' || !step.parallel) continue;
+      for (const branchId of step.parallel.steps) {
+        if (!stepIds.has(branchId)) {
+          throw new Error(`Parallel step ${step.id} references non-existent step: ${branchId}`);
+        }
+        branchIds.add(branchId);
+      }
+    }
+    for (const step of steps) {
+      if (step.type !== 'map' || !step.map) continue;
+      if (!step.map.step === !step.map.pipeline) {
+        throw new Error(`Map step ${step.id} must name exactly one of map.step or map.pipeline`);
+      }
+      if (step.map.step) {
+        if (!stepIds.has(step.map.step) || step.map.step === step.id) {
+          throw new Error(`Map step ${step.id} references non-existent step: ${step.map.step}`);
         }
+        // Approvals are tracked per step, and a map would need one per item
+        if (steps.find(s => s.id === step.map!.step)!.type === 'approval') {
+          throw new Error(`Map step ${step.id} cannot run approval step ${step.map.step} per item`);
+        }
+        branchIds.add(step.map.step);
+      }
+    }
+
+    for (const step of steps) {
+      const subPipeline = step.type === 'pipeline' ? step.pipeline : step.map?.pipeline;
+      if (subPipeline === this.definition.name) {
+        throw new Error(`Step ${step.id} cannot run its own pipeline: ${subPipeline}`);
       }
     }
 
+    for (const step of steps) {
+      if (step.type !== 'condition' || !step.condition) continue;
+      for (const target of [step.condition.ifTrue, step.condition.ifFalse]) {
+        if (target === undefined) continue;
+        if (!stepIds.has(target)) {
+          throw new Error(`Condition step ${step.id} routes to non-existent step: ${target}`);
+        }
+        if (branchIds.has(target)) {
+          throw new Error(`Condition step ${step.id} cannot route to ${target}, which is run by a parallel or map step`);
+        }
+      }
+    }
+
+    const cycle = this.findDependencyCycle();
+    if (cycle) {
+      throw new Error(`Pipeline ${this.definition.name} has a dependency cycle: ${cycle.join(' -> ')}`);
+    }
+
+    // Kahn's algorithm, breaking ties by declaration order so independent steps keep their listed order
+    const topLevel = steps.filter(step => !branchIds.has(step.id));
+    const remaining = new Map(topLevel.map(step => [step.id, this.getStepDependencies(step).filter(dep => !branchIds.has(dep))]));
+    const plan: PipelineStepDefinition[] = [];
+    while (remaining.size > 0) {
+      const ready = topLevel.find(step => remaining.has(step.id) && remaining.get(step.id)!.every(dep => !remaining.has(dep)));
+      if (!ready) {
+        throw new Error(`Pipeline ${this.definition.name} has steps that can never run: ${Array.from(remaining.keys()).join(', ')}`);
+      }
+      plan.push(ready);
+      remaining.delete(ready.id);
+    }
+
     this.logger.info('PipelineExecutor', 'Execution plan built successfully', {
       planLength: plan.length,
+      order: plan.map(step => step.id),
       parallelSteps: plan.filter(s => s.type === 'parallel').length,
       conditionalSteps: plan.filter(s => s.type === 'condition').length
     });
@@ -296,59 +1264,380 @@ export class PipelineExecutor {
     return plan;
   }
 
+  // Forward condition targets also wait for the condition that routes to them
+  private getStepDependencies(step: PipelineStepDefinition): string[] {
+    const deps = [...this.getDeclaredDependencies(step)];
+    for (const condition of this.definition.steps) {
+      if (condition.type !== 'condition' || !condition.condition || deps.includes(condition.id)) continue;
+      const { ifTrue, ifFalse } = condition.condition;
+      if ((ifTrue === step.id || ifFalse === step.id) && this.isForwardTarget(condition, step.id)) {
+        deps.push(condition.id);
+      }
+    }
+    return deps;
+  }
+
+  // Pipelines that declare no dependencies at all keep their original one-after-another semantics
+  private getDeclaredDependencies(step: PipelineStepDefinition): string[] {
+    if (this.usesDeclaredDependencies()) {
+      return step.dependencies || [];
+    }
+    const topLevel = this.definition.steps.filter(s => !this.isNestedStep(s.id));
+    const index = topLevel.findIndex(s => s.id === step.id);
+    return index > 0 ? [topLevel[index - 1].id] : [];
+  }
+
+  private usesDeclaredDependencies(): boolean {
+    return this.definition.steps.some(s => s.dependencies && s.dependencies.length > 0);
+  }
+
+  // Every step that `stepId` transitively waits on
+  private collectAncestors(stepId: string, depsOf: (step: PipelineStepDefinition) => string[]): Set<string> {
+    const ancestors = new Set<string>();
+    const queue = [stepId];
+    while (queue.length > 0) {
+      const id = queue.shift();
+      const step = this.definition.steps.find(s => s.id === id);
+      for (const dep of step ? depsOf(step) : []) {
+        if (!ancestors.has(dep)) {
+          ancestors.add(dep);
+          queue.push(dep);
+        }
+      }
+    }
+    return ancestors;
+  }
+
+  // A target the condition does not itself wait on is a branch; anything upstream (or the condition itself) is a loop
+  private isForwardTarget(condition: PipelineStepDefinition, targetId: string): boolean {
+    return targetId !== condition.id && !this.collectAncestors(condition.id, s => this.getDeclaredDependencies(s)).has(targetId);
+  }
+
+  // Steps re-run when a condition loops back to `targetId`: those on a path from the target to the condition
+  private getLoopRegion(plan: PipelineStepDefinition[], condition: PipelineStepDefinition, targetId: string): PipelineStepDefinition[] {
+    const conditionAncestors = this.collectAncestors(condition.id, s => this.getStepDependencies(s));
+    return plan.filter(step =>
+      step.id === targetId ||
+      step.id === condition.id ||
+      (conditionAncestors.has(step.id) && this.collectAncestors(step.id, s => this.getStepDependencies(s)).has(targetId))
+    );
+  }
+
+  // Parallel branches and map sub-steps only run inside the step that owns them
+  private isNestedStep(stepId: string): boolean {
+    return this.getNestedStepOwner(stepId) !== undefined;
+  }
+
+  private getNestedStepOwner(stepId: string): PipelineStepDefinition | undefined {
+    return this.definition.steps.find(s =>
+      (s.type === 'parallel' && s.parallel?.steps.includes(stepId)) ||
+      (s.type === 'map' && s.map?.step === stepId)
+    );
+  }
+
+  // A parallel or map step waits on the steps it runs, so those edges take part in cycle detection too
+  private findDependencyCycle(): string[] | undefined {
+    const edges = new Map<string, string[]>();
+    for (const step of this.definition.steps) {
+      edges.set(step.id, [...this.getStepDependencies(step), ...(step.parallel?.steps || []), ...(step.map?.step ? [step.map.step] : [])]);
+    }
+
+    const visiting: string[] = [];
+    const done = new Set<string>();
+    const visit = (id: string): string[] | undefined => {
+      const loopStart = visiting.indexOf(id);
+      if (loopStart !== -1) return [...visiting.slice(loopStart), id];
+      if (done.has(id)) return undefined;
+
+      visiting.push(id);
+      for (const next of edges.get(id) || []) {
+        const cycle = visit(next);
+        if (cycle) return cycle;
+      }
+      visiting.pop();
+      done.add(id);
+      return undefined;
+    };
+
+    for (const step of this.definition.steps) {
+      const cycle = visit(step.id);
+      if (cycle) return cycle;
+    }
+    return undefined;
+  }
+
+  /**
+   * Starts every step as soon as all of its dependencies have succeeded, keeping at most
+   * `concurrency.maxParallelSteps` steps in flight. A step whose dependency failed is recorded
+   * as failed without running.
+   *
+   * Condition steps route execution: the untaken branch is recorded as skipped (along with the
+   * steps a sequential pipeline jumps over), and routing to an earlier step re-runs everything
+   * from that step up to the condition, at most `maxIterations` times.
+   */
   private async executePipeline(plan: PipelineStepDefinition[]): Promise<any> {
+    const maxConcurrent = Math.max(1, this.definition.concurrency?.maxParallelSteps || plan.length);
     this.logger.info('PipelineExecutor', 'Executing pipeline steps', {
-      planLength: plan.length
+      planLength: plan.length,
+      maxConcurrent
     });
 
-    for (let i = 0; i < plan.length; i++) {
-      const step = plan[i];
-      this.context.metadata.currentStep = i + 1;
+    // A resumed run only schedules the steps its checkpoint has no result for
+    const pending = plan.filter(step => !this.context.stepResults.has(step.id));
+    const running = new Map<string, Promise<void>>();
+    const { pendingSkips: skipReasons, loopIterations } = this.context.routing;
+    let started = this.context.metadata.currentStep;
+    let fatalError: Error | undefined;
+
+    // Returns the result to record, or undefined when the condition looped back and will run again
+    const routeCondition = (step: PipelineStepDefinition, stepResult: PipelineStepResult): PipelineStepResult | undefined => {
+      const { ifTrue, ifFalse, maxIterations = DEFAULT_MAX_CONDITION_ITERATIONS } = step.condition!;
+      const nextStep: string | undefined = stepResult.result?.nextStep;
+
+      for (const target of [ifTrue, ifFalse]) {
+        if (target && target !== nextStep && this.isForwardTarget(step, target)) {
+          skipReasons.set(target, `Condition ${step.id} did not route to this step`);
+        }
+      }
+      if (!nextStep) return stepResult;
+
+      if (this.isForwardTarget(step, nextStep)) {
+        if (!this.usesDeclaredDependencies()) {
+          // A sequential pipeline jumps straight to the target, passing over the steps in between
+          const from = plan.findIndex(s => s.id === step.id);
+          const to = plan.findIndex(s => s.id === nextStep);
+          plan.slice(from + 1, to).forEach(s => skipReasons.set(s.id, `Condition ${step.id} jumped to ${nextStep}`));
+        }
+        return stepResult;
+      }
 
-      // Check dependencies
-      if (step.dependencies && !await this.checkDependencies(step.dependencies)) {
-        throw new Error(`Dependencies not met for step: ${step.id}`);
+      const iteration = (loopIterations.get(step.id) || 0) + 1;
+      if (iteration > maxIterations) {
+        return {
+          ...stepResult,
+          success: false,
+          error: `Condition step ${step.id} exceeded maxIterations (${maxIterations}) looping back to ${nextStep}`
+        };
       }
+      loopIterations.set(step.id, iteration);
 
-      // Execute step with retry logic
-      const stepResult = await this.executeStepWithRetry(step);
-      
-      // Store result
-      this.context.stepResults.set(step.id, stepResult);
+      const region = this.getLoopRegion(plan, step, nextStep);
+      this.logger.info('PipelineExecutor', `Condition ${step.id} looping back to ${nextStep}`, {
+        iteration,
+        maxIterations,
+        steps: region.map(s => s.id)
+      });
+      for (const regionStep of region) {
+        this.context.stepResults.delete(regionStep.id);
+        regionStep.parallel?.steps.forEach(branchId => this.context.stepResults.delete(branchId));
+        skipReasons.delete(regionStep.id);
+        if (!pending.includes(regionStep)) pending.push(regionStep);
+      }
+      pending.sort((a, b) => plan.indexOf(a) - plan.indexOf(b));
+      return undefined;
+    };
+
+    // The 'retry' strategy re-queues a failed step while the run's global retry budget lasts
+    const requeueForRetry = (step: PipelineStepDefinition, stepResult: PipelineStepResult): boolean => {
+      const maxGlobalRetries = this.getMaxGlobalRetries();
+      if (stepResult.success || step.continueOnError || this.isCancelled() || this.fallbackRequested ||
+          this.definition.errorHandling?.strategy !== 'retry' ||
+          maxGlobalRetries === undefined || this.context.metadata.retryCount >= maxGlobalRetries) {
+        return false;
+      }
+      this.context.metadata.retryCount++;
+      this.recordError(step, stepResult);
+      this.logger.info('PipelineExecutor', `Retrying failed step: ${step.id}`, {
+        error: stepResult.error,
+        retriesUsed: this.context.metadata.retryCount,
+        maxGlobalRetries
+      });
+      pending.push(step);
+      pending.sort((a, b) => plan.indexOf(a) - plan.indexOf(b));
+      this.checkpoint();
+      return true;
+    };
+
+    const handleResult = (step: PipelineStepDefinition, stepResult: PipelineStepResult) => {
+      if (step.type === 'condition' && step.condition && stepResult.success) {
+        const routed = routeCondition(step, stepResult);
+        if (!routed) {
+          this.checkpoint();
+          return;
+        }
+        stepResult = routed;
+      }
+      this.recordStepResult(step, stepResult);
+
+      // A step cut short by cancellation ends the run as cancelled rather than failed
+      if (!stepResult.success && this.isCancelled()) {
+        fatalError = fatalError || toCancellationError(this.runAbort!.signal);
+      }
 
       // Handle step failure
       if (!stepResult.success && !step.continueOnError) {
-        const errorStrategy = this.definition.errorHandling?.strategy || 'stop';
-        
-        if (errorStrategy === 'stop') {
-          throw new Error(`Pipeline stopped due to step failure: ${step.id}`);
-        } else if (errorStrategy === 'fallback' && this.definition.errorHandling?.fallbackPipeline) {
-          this.logger.info('PipelineExecutor', `Executing fallback pipeline: ${this.definition.errorHandling.fallbackPipeline}`);
-          // TODO: Implement fallback pipeline execution
+        const errorStrategy = this.fallbackRequested ? 'fallback' : this.definition.errorHandling?.strategy || 'stop';
+
+        // 'fallback' stops the same way; run() then hands the failure to the fallback pipeline
+        if (errorStrategy === 'stop' || errorStrategy === 'fallback') {
+          fatalError = fatalError || new Error(`Pipeline stopped due to step failure: ${step.id}`);
+        } else if (errorStrategy === 'retry') {
+          fatalError = fatalError || new Error(`Pipeline stopped due to step failure: ${step.id} (maxGlobalRetries ${this.getMaxGlobalRetries()} exhausted)`);
         }
       }
+    };
 
-      // Update context with step outputs
-      if (stepResult.success && stepResult.outputs) {
-        Object.entries(stepResult.outputs).forEach(([key, value]) => {
-          this.context.variables.set(key, value);
-        });
+    while (!fatalError && (pending.length > 0 || running.size > 0)) {
+      // Launch (or skip) everything whose dependencies have settled, in topological order
+      for (const step of [...pending]) {
+        if (this.isCancelled()) {
+          fatalError = fatalError || toCancellationError(this.runAbort!.signal);
+        }
+        if (fatalError || this.isPaused()) break;
+
+        const deps = this.getStepDependencies(step);
+        const unmetDep = deps.find(dep => this.context.stepResults.has(dep) && !this.context.stepResults.get(dep)!.success);
+        if (unmetDep) {
+          pending.splice(pending.indexOf(step), 1);
+          const now = Date.now();
+          handleResult(step, {
+            stepId: step.id,
+            success: false,
+            error: `Dependencies not met for step: ${step.id} (${unmetDep} did not succeed)`,
+            startTime: now,
+            endTime: now,
+            duration: 0,
+            retryCount: 0
+          });
+          continue;
+        }
+        if (!deps.every(dep => this.context.stepResults.has(dep))) continue;
+
+        // In a DAG, a step downstream of nothing but skipped steps is skipped as well
+        const skipReason = skipReasons.get(step.id) ||
+          (this.usesDeclaredDependencies() && deps.length > 0 && deps.every(dep => this.context.stepResults.get(dep)!.skipped)
+            ? `All dependencies of ${step.id} were skipped`
+            : undefined);
+        if (skipReason) {
+          pending.splice(pending.indexOf(step), 1);
+          skipReasons.delete(step.id);
+          this.skipStep(step, skipReason);
+          // A condition that never ran routes nowhere, so neither of its branches runs
+          if (step.type === 'condition' && step.condition) {
+            [step.condition.ifTrue, step.condition.ifFalse]
+              .filter((target): target is string => !!target && this.isForwardTarget(step, target))
+              .forEach(target => skipReasons.set(target, `Condition ${step.id} was skipped`));
+          }
+          continue;
+        }
+        if (running.size >= maxConcurrent) continue;
+
+        const budgetViolation = this.costTracker.checkBudgets([this.getCostScope()]);
+        if (budgetViolation) {
+          fatalError = new Error(`Hard budget exceeded for pipeline run ${this.context.executionId} ($${budgetViolation.spend.toFixed(4)} spent, limit $${budgetViolation.limit}); stopped before step: ${step.id}`);
+          break;
+        }
+
+        pending.splice(pending.indexOf(step), 1);
+        this.context.metadata.currentStep = ++started;
+
+        // Execute step with retry logic
+        const execution = this.executeStepWithRetry(step, this.runAbort!.signal);
+        this.activeSteps.set(step.id, execution);
+        running.set(step.id, execution.then(stepResult => {
+          running.delete(step.id);
+          this.activeSteps.delete(step.id);
+          // Left unfinished so it runs again, with the decision applied, when the run resumes
+          if (this.isAwaitingApproval(step)) {
+            this.checkpoint();
+            return;
+          }
+          if (!requeueForRetry(step, stepResult)) {
+            handleResult(step, stepResult);
+          }
+        }));
       }
+
+      if (running.size === 0) {
+        if (pending.length > 0 && !fatalError && !this.isPaused()) {
+          throw new Error(`Dependencies not met for steps: ${pending.map(step => step.id).join(', ')}`);
+        }
+        break;
+      }
+      await Promise.race(running.values());
+    }
+
+    if (fatalError) {
+      // Let in-flight steps settle so their results are recorded before failing the run
+      await Promise.allSettled(running.values());
+      throw fatalError;
     }
 
     return this.extractPipelineOutput();
   }
 
-  private async executeStepWithRetry(step: PipelineStepDefinition): Promise<PipelineStepResult> {
+  // Records a step that will not run this pass; skipped steps count as settled for their dependents
+  private skipStep(step: PipelineStepDefinition, reason: string): void {
+    this.logger.info('PipelineExecutor', `Skipping step: ${step.id}`, { reason });
+    const now = Date.now();
+    this.recordStepResult(step, {
+      stepId: step.id,
+      success: true,
+      skipped: true,
+      result: { skipped: true, reason },
+      startTime: now,
+      endTime: now,
+      duration: 0,
+      retryCount: 0
+    });
+  }
+
+  // Stores a finished step, publishes its outputs as pipeline variables and checkpoints the run
+  private recordStepResult(step: PipelineStepDefinition, stepResult: PipelineStepResult): void {
+    this.context.stepResults.set(step.id, stepResult);
+    if (!stepResult.success) {
+      this.recordError(step, stepResult);
+    }
+
+    if (stepResult.success && stepResult.outputs) {
+      Object.entries(stepResult.outputs).forEach(([key, value]) => {
+        this.context.variables.set(key, value);
+      });
+    }
+
+    this.checkpoint();
+  }
+
+  // `signal` is the run's (or the enclosing parallel step's) cancellation; each attempt derives its own timeout signal from it
+  private async executeStepWithRetry(step: PipelineStepDefinition, signal?: AbortSignal, locals?: Record<string, any>): Promise<PipelineStepResult> {
+    // Waiting on a person is neither retried nor bound by the step timeout; approval.timeout applies instead
+    if (step.type === 'approval') {
+      return this.executeStep(step, signal, locals);
+    }
+
+    // Parallel and map steps retry their branches and items individually, so re-running the whole
+    // container would repeat work that already succeeded; an explicit step.timeout still applies
+    if (step.type === 'parallel' || step.type === 'map') {
+      const attempt = linkAbortController([signal], step.timeout ? { ms: step.timeout, message: 'Step execution timeout' } : undefined);
+      try {
+        const stepResult = await this.executeStep(step, attempt.signal, locals);
+        return !stepResult.success && signal?.aborted ? { ...stepResult, cancelled: true } : stepResult;
+      } finally {
+        attempt.dispose();
+      }
+    }
+
     // Use enhanced intelligence-driven retry logic
     return await this.intelligence.executeStepWithEnhancedRecovery(
       step,
       this.context,
-      (stepDef) => this.executeStep(stepDef)
+      (stepDef, attemptSignal) => this.executeStep(stepDef, attemptSignal, locals),
+      { signal, maxGlobalRetries: this.getMaxGlobalRetries() }
     );
   }
 
-  private async executeStep(step: PipelineStepDefinition): Promise<PipelineStepResult> {
+  // `locals` (a map item and its index) are exposed to the step as inputs and $variables
+  private async executeStep(step: PipelineStepDefinition, signal?: AbortSignal, locals?: Record<string, any>): Promise<PipelineStepResult> {
     const startTime = Date.now();
     let inputs: Record<string, any> = {};
 
@@ -357,13 +1646,16 @@ export class PipelineExecutor {
       if (typeof step.inputMap === 'function') {
         this.logger.debug('PipelineExecutor', `Using inputMap function for step: ${step.id}`);
         // Provide the current pipeline context to inputMap
-        inputs = await step.inputMap(this.context); 
+        inputs = await step.inputMap(locals ? this.contextWithLocals(locals) : this.context); 
       } else if (step.inputs) {
         this.logger.debug('PipelineExecutor', `Using static inputs for step: ${step.id}`);
-        inputs = await this.resolveInputs(step.inputs);
+        inputs = await this.resolveInputs(step.inputs, locals);
       } else {
         this.logger.debug('PipelineExecutor', `No inputMap or static inputs for step: ${step.id}, using empty inputs.`);
       }
+      if (locals) {
+        inputs = { ...locals, ...inputs };
+      }
 
       this.logger.debug('PipelineExecutor', `Resolved inputs for step ${step.id}:`, { inputs: Object.keys(inputs).length > 0 ? inputs : '{}' });
 
@@ -374,16 +1666,16 @@ export class PipelineExecutor {
 
       switch (step.type) {
         case 'tool':
-          result = await this.executeToolStep(step, inputs);
+          result = await this.executeToolStep(step, inputs, signal);
           break;
         case 'chain':
-          result = await this.executeChainStep(step, inputs);
+          result = await this.executeChainStep(step, inputs, signal);
           break;
         case 'agent':
-          result = await this.executeAgentStep(step, inputs);
+          result = await this.executeAgentStep(step, inputs, signal);
           break;
         case 'team':
-          result = await this.executeTeamStep(step, inputs);
+          result = await this.executeTeamStep(step, inputs, signal);
           break;
         case 'condition':
           result = await this.executeConditionStep(step, inputs);
@@ -392,16 +1684,42 @@ export class PipelineExecutor {
           result = await this.executeTransformStep(step, inputs);
           break;
         case 'parallel':
-          result = await this.executeParallelStep(step, inputs);
+          result = await this.executeParallelStep(step, inputs, signal);
           break;
         case 'wait':
-          result = await this.executeWaitStep(step, inputs);
+          result = await this.executeWaitStep(step, inputs, signal);
+          break;
+        case 'map':
+          result = await this.executeMapStep(step, inputs, signal);
+          break;
+        case 'pipeline':
+          result = await this.executePipelineStep(step, inputs, signal);
+          break;
+        case 'approval':
+          result = await this.executeApprovalStep(step, inputs, signal);
           break;
         default:
           const exhaustiveCheck: never = step.type;
           throw new Error(`Unknown or unhandled step type: ${exhaustiveCheck}`);
       }
 
+      // Team runs coordinate and recover internally, so a failed run fails the step without a full re-run
+      if (step.type === 'team' && result?.success === false) {
+        const endTime = Date.now();
+        return {
+          stepId: step.id,
+          success: false,
+          error: result.error || `Team ${step.team} failed`,
+          result,
+          startTime,
+          endTime,
+          duration: endTime - startTime,
+          retryCount: 0,
+          participatingAgents: result.result?.participatingAgents || [],
+          metrics: result.metrics
+        };
+      }
+
       // Process outputs
       if (step.outputs && result) {
         outputs = await this.processOutputs(step.outputs, result);
@@ -417,17 +1735,20 @@ export class PipelineExecutor {
         startTime,
         endTime,
         duration: endTime - startTime,
-        retryCount: 0
+        retryCount: 0,
+        ...(step.type === 'team' ? { participatingAgents: result?.result?.participatingAgents || [], metrics: result?.metrics } : {})
       };
 
     } catch (error) {
       const endTime = Date.now();
       const errorMsg = error instanceof Error ? error.message : String(error);
 
-      this.logger.error('PipelineExecutor', `Step execution failed: ${step.id}`, {
-        error: errorMsg,
-        stepType: step.type
-      });
+      if (!(error instanceof ApprovalPendingError)) {
+        this.logger.error('PipelineExecutor', `Step execution failed: ${step.id}`, {
+          error: errorMsg,
+          stepType: step.type
+        });
+      }
 
       return {
         stepId: step.id,
@@ -441,7 +1762,7 @@ export class PipelineExecutor {
     }
   }
 
-  private async executeToolStep(step: PipelineStepDefinition, inputs: Record<string, any>): Promise<any> {
+  private async executeToolStep(step: PipelineStepDefinition, inputs: Record<string, any>, signal?: AbortSignal): Promise<any> {
     if (!step.tool) {
       throw new Error(`Tool step ${step.id} missing tool specification`);
     }
@@ -451,10 +1772,10 @@ export class PipelineExecutor {
       inputs: Object.keys(inputs)
     });
 
-    return await this.toolRegistry.executeTool(step.tool, inputs);
+    return await this.toolRegistry.executeTool(step.tool, inputs, { signal });
   }
 
-  private async executeChainStep(step: PipelineStepDefinition, inputs: Record<string, any>): Promise<any> {
+  private async executeChainStep(step: PipelineStepDefinition, inputs: Record<string, any>, signal?: AbortSignal): Promise<any> {
     if (!step.chain) {
       throw new Error(`Chain step ${step.id} missing chain specification`);
     }
@@ -464,10 +1785,10 @@ export class PipelineExecutor {
       chainSteps: step.chain.steps.length
     });
 
-    return await this.chainExecutor.executeChain(step.chain, inputs);
+    return await this.chainExecutor.executeChain(step.chain, inputs, { signal });
   }
 
-  private async executeAgentStep(step: PipelineStepDefinition, inputs: Record<string, any>): Promise<any> {
+  private async executeAgentStep(step: PipelineStepDefinition, inputs: Record<string, any>, signal?: AbortSignal): Promise<any> {
     if (!step.agent) {
       throw new Error(`Agent step ${step.id} missing agent specification (agent name).`);
     }
@@ -492,32 +1813,44 @@ export class PipelineExecutor {
         throw new Error(`Input for agent step ${step.id} must include a string 'task', 'prompt', or 'query'. Received: ${JSON.stringify(inputs)}`);
     }
 
-    const agentRunResult = await agentInstance.run(task);
+    const agentRunResult = await agentInstance.run(task, { costScopes: [this.getCostScope()], signal });
     // The result from agentInstance.run() is already an AgentResult (which includes {success, result, error, metrics})
     // The pipeline step output mapping will then extract from agentRunResult.result.toolsExecuted[0].result.codeOutput etc.
     return agentRunResult; 
   }
 
-  private async executeTeamStep(step: PipelineStepDefinition, inputs: Record<string, any>): Promise<any> {
+  private async executeTeamStep(step: PipelineStepDefinition, inputs: Record<string, any>, signal?: AbortSignal): Promise<TeamResult> {
     if (!step.team) {
       throw new Error(`Team step ${step.id} missing team specification (team name).`);
     }
     if (!this.teamService) {
         throw new Error(`TeamService not available in PipelineExecutor for step ${step.id}.`);
     }
-    this.logger.warn('PipelineExecutor', `Executing team step: ${step.team} - (Assumed Placeholder Implementation)`, { 
-        stepId: step.id, 
-        inputs: Object.keys(inputs) 
+
+    this.logger.info('PipelineExecutor', `Executing team step: ${step.team}`, {
+      stepId: step.id,
+      inputs: Object.keys(inputs),
+      strategy: step.strategy || 'auto'
+    });
+
+    const team = await this.teamService.get(step.team);
+    if (!team) {
+        throw new Error(`Team named "${step.team}" not found for step ${step.id}.`);
+    }
+
+    // Same input contract as agent steps; a {id, title} payload object is passed through for the team to validate
+    const task = inputs.task || inputs.prompt || inputs.query;
+    if (typeof task !== 'string' && (typeof task !== 'object' || task === null)) {
+        throw new Error(`Input for team step ${step.id} must include a 'task', 'prompt', or 'query'. Received: ${JSON.stringify(inputs)}`);
+    }
+
+    return await team.executeTask(task, {
+      strategy: step.strategy as TeamExecutionStrategy | undefined,
+      timeout: step.timeout,
+      requiredCapabilities: Array.isArray(inputs.requiredCapabilities) ? inputs.requiredCapabilities : undefined,
+      costScopes: [this.getCostScope()],
+      signal
     });
-    // Placeholder: In a real implementation, you would fetch and run the team.
-    // const teamInstance = await this.teamService.get(step.team);
-    // if (!teamInstance) {
-    //     throw new Error(`Team named "${step.team}" not found for step ${step.id}.`);
-    // }
-    // const teamRunResult = await teamInstance.run(inputs); // Inputs need to be shaped for the team
-    // return teamRunResult;
-    this.logger.info('PipelineExecutor', `Placeholder: Team step ${step.team} would run here.`);
-    return { success: true, result: { message: `Team ${step.team} executed with inputs: ${JSON.stringify(inputs)}` }, error: undefined };
   }
 
   private async executeConditionStep(step: PipelineStepDefinition, inputs: Record<string, any>): Promise<any> {
@@ -530,7 +1863,6 @@ export class PipelineExecutor {
       expression: step.condition.expression
     });
 
-    // Simple condition evaluation (in production, use a proper expression evaluator)
     const conditionResult = await this.evaluateCondition(step.condition.expression, inputs);
     
     return {
@@ -551,33 +1883,122 @@ export class PipelineExecutor {
       output: step.transform.output
     });
 
-    const inputValue = inputs[step.transform.input];
-    const transformedValue = await this.applyTransformation(step.transform.transformation, inputValue);
+    const inputValue = step.transform.input in inputs
+      ? inputs[step.transform.input]
+      : this.expressions.resolve(step.transform.input, this.expressionScope(inputs));
+    const transformedValue = await this.applyTransformation(step.transform.transformation, inputValue, inputs);
     
     return {
       [step.transform.output]: transformedValue
     };
   }
 
-  private async executeParallelStep(step: PipelineStepDefinition, _inputs: Record<string, any>): Promise<any> {
+  /**
+   * Fans out to the referenced branch steps, at most `concurrency.maxParallelSteps` at a time.
+   * With waitForAll every branch runs and any non-optional failure fails the step; otherwise the
+   * step completes with the first successful branch, branches still running are cancelled and
+   * branches not yet started are skipped.
+   */
+  private async executeParallelStep(step: PipelineStepDefinition, _inputs: Record<string, any>, signal?: AbortSignal): Promise<any> {
     if (!step.parallel) {
       throw new Error(`Parallel step ${step.id} missing parallel specification`);
     }
 
+    const { waitForAll } = step.parallel;
+    const branches = step.parallel.steps.map(branchId => {
+      const branch = this.definition.steps.find(s => s.id === branchId);
+      if (!branch) {
+        throw new Error(`Parallel step ${step.id} references non-existent step: ${branchId}`);
+      }
+      return branch;
+    });
+    const maxConcurrent = Math.max(1, this.definition.concurrency?.maxParallelSteps || branches.length);
+
     this.logger.info('PipelineExecutor', `Executing parallel step`, {
       stepId: step.id,
-      parallelSteps: step.parallel.steps.length,
-      waitForAll: step.parallel.waitForAll
+      parallelSteps: branches.length,
+      waitForAll,
+      maxConcurrent
+    });
+
+    const branchResults = new Map<string, PipelineStepResult>();
+    const inFlight = new Map<string, LinkedAbortController>();
+    const cancelled = new Set<string>();
+    let winner: string | undefined;
+    let nextBranch = 0;
+
+    const runBranch = async (branch: PipelineStepDefinition): Promise<void> => {
+      const branchAbort = linkAbortController([signal]);
+      inFlight.set(branch.id, branchAbort);
+      const execution = this.executeStepWithRetry(branch, branchAbort.signal);
+      this.activeSteps.set(branch.id, execution);
+      try {
+        const branchResult = await execution;
+        // A branch cancelled because another one won was already recorded as skipped
+        if (cancelled.has(branch.id)) return;
+        branchResults.set(branch.id, branchResult);
+        this.recordStepResult(branch, branchResult);
+        if (branchResult.success && !waitForAll && !winner) {
+          winner = branch.id;
+          cancelLosers();
+        }
+      } finally {
+        inFlight.delete(branch.id);
+        branchAbort.dispose();
+        this.activeSteps.delete(branch.id);
+      }
+    };
+
+    const cancelLosers = () => {
+      for (const [branchId, branchAbort] of inFlight) {
+        if (branchId === winner) continue;
+        cancelled.add(branchId);
+        this.skipStep(branches.find(branch => branch.id === branchId)!, `Parallel step ${step.id} completed with branch ${winner}`);
+        branchAbort.abort(new CancellationError(`Parallel step ${step.id} completed with branch ${winner}`));
+      }
+    };
+
+    // Each worker pulls the next branch until none are left (or a winner ends first-success mode)
+    const worker = async (): Promise<void> => {
+      while (nextBranch < branches.length && (waitForAll || !winner)) {
+        await runBranch(branches[nextBranch++]);
+      }
+    };
+
+    // Cancelled branches are awaited too, so nothing they do outlives the step
+    await Promise.all(Array.from({ length: Math.min(maxConcurrent, branches.length) }, () => worker()));
+
+    const parallelResults = branches.map(branch => {
+      const branchResult = branchResults.get(branch.id);
+      return {
+        stepId: branch.id,
+        status: branchResult ? (branchResult.success ? 'completed' : 'failed') : (cancelled.has(branch.id) ? 'cancelled' : 'skipped'),
+        success: branchResult?.success,
+        result: branchResult?.result,
+        error: branchResult?.error
+      };
+    });
+
+    const failedBranches = branches.filter(branch => {
+      const branchResult = branchResults.get(branch.id);
+      return branchResult && !branchResult.success && !branch.continueOnError;
     });
+    if (waitForAll && failedBranches.length > 0) {
+      throw new Error(`Parallel step ${step.id} failed: ${failedBranches.map(b => `${b.id} (${branchResults.get(b.id)?.error})`).join(', ')}`);
+    }
+    if (!waitForAll && !winner) {
+      throw new Error(`Parallel step ${step.id} failed: no branch succeeded`);
+    }
 
-    // TODO: Implement parallel execution of sub-steps
-    // For now, return a placeholder
     return {
-      parallelResults: step.parallel.steps.map(stepId => ({ stepId, status: 'pending' }))
+      parallelResults,
+      completed: parallelResults.filter(r => r.status === 'completed').length,
+      failed: parallelResults.filter(r => r.status === 'failed').length,
+      winner
     };
   }
 
-  private async executeWaitStep(step: PipelineStepDefinition, _inputs: Record<string, any>): Promise<any> {
+  private async executeWaitStep(step: PipelineStepDefinition, _inputs: Record<string, any>, signal?: AbortSignal): Promise<any> {
     if (!step.wait) {
       throw new Error(`Wait step ${step.id} missing wait specification`);
     }
@@ -587,7 +2008,7 @@ export class PipelineExecutor {
       duration: step.wait.duration
     });
 
-    await this.wait(step.wait.duration);
+    await cancellableDelay(step.wait.duration, signal);
     
     return {
       waited: step.wait.duration,
@@ -595,54 +2016,278 @@ export class PipelineExecutor {
     };
   }
 
-  private async resolveInputs(inputSpec: Record<string, string>): Promise<Record<string, any>> {
-    const resolved: Record<string, any> = {};
+  /**
+   * Runs `map.step` or `map.pipeline` once per element of the `map.items` array, at most
+   * `map.concurrency` at a time. Each run sees its element as the `item` input (and `$item`) plus
+   * its `index`; results are collected in item order. Without `map.continueOnError` the first
+   * failure stops further items from starting and fails the step.
+   */
+  private async executeMapStep(step: PipelineStepDefinition, inputs: Record<string, any>, signal?: AbortSignal): Promise<any> {
+    if (!step.map) {
+      throw new Error(`Map step ${step.id} missing map specification`);
+    }
 
-    for (const [key, expression] of Object.entries(inputSpec)) {
-      // Simple variable resolution (in production, use a proper expression evaluator)
-      if (expression.startsWith('$')) {
-        const varName = expression.substring(1);
-        resolved[key] = this.context.variables.get(varName);
-      } else if (expression.startsWith('@')) {
-        // Reference to step output
-        const stepId = expression.substring(1);
-        const stepResult = this.context.stepResults.get(stepId);
-        resolved[key] = stepResult?.result;
+    const { items: itemsSpec, itemVariable = 'item', continueOnError = false } = step.map;
+    const items = itemsSpec in inputs ? inputs[itemsSpec] : this.expressions.resolve(itemsSpec, this.expressionScope(inputs));
+    if (!Array.isArray(items)) {
+      throw new Error(`Map step ${step.id} items must resolve to an array, got ${items === null ? 'null' : typeof items}`);
+    }
+    const subStep = step.map.step ? this.definition.steps.find(s => s.id === step.map!.step) : undefined;
+    const concurrency = Math.max(1, step.map.concurrency || this.definition.concurrency?.maxParallelSteps || DEFAULT_MAP_CONCURRENCY);
+
+    this.logger.info('PipelineExecutor', `Executing map step`, {
+      stepId: step.id,
+      items: items.length,
+      runs: subStep ? `step ${subStep.id}` : `pipeline ${step.map.pipeline}`,
+      concurrency
+    });
+
+    const results: any[] = new Array(items.length).fill(null);
+    const failed: Array<{ index: number; error: string }> = [];
+    let nextItem = 0;
+
+    const runItem = async (index: number): Promise<void> => {
+      const locals = { [itemVariable]: items[index], index };
+      if (subStep) {
+        const itemResult = await this.executeStepWithRetry(subStep, signal, locals);
+        if (!itemResult.success) {
+          throw new Error(itemResult.error || `Step ${subStep.id} failed`);
+        }
+        results[index] = subStep.outputs ? itemResult.outputs : itemResult.result;
       } else {
-        // Literal value
-        resolved[key] = expression;
+        const runResult = await this.runSubPipeline(step.map!.pipeline!, { ...inputs, ...locals }, signal);
+        if (!runResult.success) {
+          throw new Error(runResult.error || `Pipeline ${step.map!.pipeline} failed`);
+        }
+        results[index] = runResult.result?.output;
       }
+    };
+
+    // Each worker pulls the next item until none are left (or a failure ends fail-fast mode)
+    const worker = async (): Promise<void> => {
+      while (nextItem < items.length && (continueOnError || failed.length === 0) && !signal?.aborted) {
+        const index = nextItem++;
+        try {
+          await runItem(index);
+        } catch (error) {
+          failed.push({ index, error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, () => worker()));
+    throwIfCancelled(signal);
+
+    failed.sort((a, b) => a.index - b.index);
+    if (failed.length > 0 && !continueOnError) {
+      throw new Error(`Map step ${step.id} failed on item ${failed[0].index}: ${failed[0].error}`);
     }
 
-    return resolved;
+    return {
+      results,
+      failed,
+      count: items.length
+    };
   }
 
-  private getNestedValue(obj: any, path: string): any {
-    if (!path) return obj;
-    const keys = path.split('.');
-    let current = obj;
-    for (const key of keys) {
-        if (current === null || typeof current !== 'object') return undefined;
-        // Handle array indexing like path[0].property
-        const R = /^(.*)\[(\d+)\]$/;
-        const match = key.match(R);
-        if (match) {
-            const R_key = match[1];
-            const R_index = parseInt(match[2], 10);
-            if (R_key) { // Access property then index
-                 current = current[R_key];
-                 if (!Array.isArray(current) || R_index >= current.length) return undefined;
-                 current = current[R_index];
-            } else { // Direct array index like [0]
-                 if (!Array.isArray(current) || R_index >= current.length) return undefined;
-                 current = current[R_index];
-            }
-        } else {
-            current = current[key];
+  private async executePipelineStep(step: PipelineStepDefinition, inputs: Record<string, any>, signal?: AbortSignal): Promise<any> {
+    if (!step.pipeline) {
+      throw new Error(`Pipeline step ${step.id} missing pipeline specification (pipeline name).`);
+    }
+
+    this.logger.info('PipelineExecutor', `Executing pipeline step: ${step.pipeline}`, {
+      stepId: step.id,
+      inputs: Object.keys(inputs)
+    });
+
+    // Outputs resolve against the sub-run's output (finalResult, variables, ...)
+    const runResult = await this.runSubPipeline(step.pipeline, inputs, signal);
+    if (!runResult.success) {
+      throw new Error(`Pipeline ${step.pipeline} failed: ${runResult.error}`);
+    }
+    return runResult.result?.output;
+  }
+
+  /**
+   * Asks for a decision on the step. The request is checkpointed before it is announced, so it
+   * can still be decided after a restart. A step scheduled by the run itself pauses the run until
+   * approve() resumes it, or until `approval.timeout` passes; one inside a sub-pipeline run,
+   * parallel branch or map item waits in place, as pausing would discard the enclosing step's
+   * progress. Approved, the step returns the reviewed data with the approver's edits applied;
+   * rejected or timed out, it fails.
+   */
+  private async executeApprovalStep(step: PipelineStepDefinition, inputs: Record<string, any>, signal?: AbortSignal): Promise<any> {
+    const { message, timeout, onTimeout = 'fail' } = step.approval || {};
+
+    let approval = this.context.approvals.get(step.id);
+    if (!approval) {
+      const requestedAt = Date.now();
+      approval = {
+        stepId: step.id,
+        status: 'pending',
+        message: message !== undefined ? String(this.expressions.resolve(message, this.expressionScope(inputs))) : undefined,
+        data: inputs,
+        requestedAt,
+        expiresAt: timeout !== undefined ? requestedAt + timeout : undefined
+      };
+      this.context.approvals.set(step.id, approval);
+      this.checkpoint();
+      await this.checkpointWrite;
+    }
+    if (approval.status === 'pending' && this.canPauseForApproval(step) && !this.hasExpired(approval)) {
+      this.pauseForApproval(approval);
+      throw new ApprovalPendingError(step.id);
+    }
+    if (approval.status === 'pending') {
+      approval = await this.awaitApproval(approval, signal);
+    }
+
+    // A decision covers one pass of the step; running it again (loop, retry, resume) asks again
+    this.context.approvals.delete(step.id);
+    this.streaming.resolveApproval({
+      executionId: this.context.executionId,
+      pipeline: this.definition.name,
+      stepId: step.id,
+      status: approval.status as 'approved' | 'rejected' | 'timed_out',
+      decidedAt: approval.decidedAt || Date.now()
+    });
+
+    switch (approval.status) {
+      case 'approved':
+        return {
+          approved: true,
+          data: { ...approval.data, ...approval.edits },
+          edits: approval.edits || {},
+          decidedAt: approval.decidedAt
+        };
+      case 'rejected':
+        throw new Error(`Approval rejected for step ${step.id}`);
+      default:
+        if (onTimeout === 'fallback' && !step.continueOnError) {
+          this.fallbackRequested = true;
         }
-        if (current === undefined) return undefined;
+        throw new Error(`Approval for step ${step.id} timed out after ${timeout}ms`);
+    }
+  }
+
+  // Only top-level steps of a top-level run can be left unfinished while the run is paused
+  private canPauseForApproval(step: PipelineStepDefinition): boolean {
+    return this.ancestry.length === 0 && this.executionPlan.includes(step);
+  }
+
+  private hasExpired(approval: PipelineApproval): boolean {
+    return approval.expiresAt !== undefined && approval.expiresAt <= Date.now();
+  }
+
+  private timeOutApproval(approval: PipelineApproval): PipelineApproval {
+    return { ...approval, status: 'timed_out', decidedAt: Date.now() };
+  }
+
+  private isAwaitingApproval(step: PipelineStepDefinition): boolean {
+    return step.type === 'approval' && this.isPaused() && this.context.approvals.get(step.id)?.status === 'pending';
+  }
+
+  // A run that ended without pausing no longer waits on its approvals; a checkpointed one can still be decided
+  private releasePausedApprovals(): void {
+    this.approvalTimers.forEach(timer => clearTimeout(timer));
+    this.approvalTimers.clear();
+    PipelineExecutor.awaitingApproval.delete(this.context.executionId);
+  }
+
+  /**
+   * Pauses the run on a pending approval. Its timeout, if any, resumes the run with the step timed
+   * out; the timer is unref'd so a paused run never keeps the process alive, and a run resumed after
+   * a restart checks the checkpointed expiresAt instead. approve() finds a paused run through the
+   * pipeline service or its checkpoint, so it is not added to the awaiting-approval registry.
+   */
+  private pauseForApproval(approval: PipelineApproval): void {
+    const executionId = this.context.executionId;
+    if (this.status === PipelineExecutionStatus.RUNNING) {
+      this.status = PipelineExecutionStatus.PAUSED;
+    }
+
+    if (approval.expiresAt !== undefined) {
+      clearTimeout(this.approvalTimers.get(approval.stepId));
+      const timer = setTimeout(() => {
+        this.approvalTimers.delete(approval.stepId);
+        this.resumeWithApproval(executionId, approval.stepId, pending => this.timeOutApproval(pending)).catch(error => {
+          this.logger.warn('PipelineExecutor', `Could not resume pipeline execution after approval timeout: ${approval.stepId}`, {
+            executionId,
+            error: error instanceof Error ? error.message : String(error)
+          });
+        });
+      }, approval.expiresAt - Date.now());
+      timer.unref();
+      this.approvalTimers.set(approval.stepId, timer);
+    }
+
+    this.announceApproval(approval);
+  }
+
+  // Waits in place for a pending approval and resolves once it is decided or has expired
+  private awaitApproval(approval: PipelineApproval, signal?: AbortSignal): Promise<PipelineApproval> {
+    const executionId = this.context.executionId;
+    const timedOut = () => this.timeOutApproval(approval);
+    const remaining = approval.expiresAt !== undefined ? approval.expiresAt - Date.now() : undefined;
+    if (remaining !== undefined && remaining <= 0) {
+      return Promise.resolve(timedOut());
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const decided = new Promise<PipelineApproval>(resolve => {
+      this.approvalWaiters.set(approval.stepId, resolve);
+      if (remaining !== undefined) {
+        timer = setTimeout(() => resolve(timedOut()), remaining);
+      }
+    });
+    PipelineExecutor.awaitingApproval.set(executionId, this);
+    this.announceApproval(approval);
+
+    return raceCancellation(decided, signal).finally(() => {
+      clearTimeout(timer);
+      this.approvalWaiters.delete(approval.stepId);
+      if (this.approvalWaiters.size === 0) {
+        PipelineExecutor.awaitingApproval.delete(executionId);
+      }
+    });
+  }
+
+  private announceApproval(approval: PipelineApproval): void {
+    const executionId = this.context.executionId;
+    this.logger.info('PipelineExecutor', `Waiting for approval of step: ${approval.stepId}`, {
+      executionId,
+      expiresAt: approval.expiresAt
+    });
+    this.streaming.requestApproval({
+      executionId,
+      pipeline: this.definition.name,
+      stepId: approval.stepId,
+      message: approval.message,
+      data: approval.data,
+      requestedAt: approval.requestedAt,
+      expiresAt: approval.expiresAt
+    });
+  }
+
+  private decideApproval(approval: PipelineApproval, decision: ApprovalDecision, edits?: Record<string, any>): PipelineApproval {
+    return {
+      ...approval,
+      status: decision === 'approve' ? 'approved' : 'rejected',
+      edits,
+      decidedAt: Date.now()
+    };
+  }
+
+  private async resolveInputs(inputSpec: Record<string, string>, locals?: Record<string, any>): Promise<Record<string, any>> {
+    const resolved: Record<string, any> = {};
+    const scope = this.expressionScope(locals);
+
+    for (const [key, expression] of Object.entries(inputSpec)) {
+      // $var, @step.path, =expression and {{ template }} specs are evaluated; anything else is a literal
+      resolved[key] = this.expressions.resolve(expression, scope);
     }
-    return current;
+
+    return resolved;
   }
 
   private async processOutputs(outputSpec: Record<string, string>, stepExecutionResult: any): Promise<Record<string, any>> {
@@ -657,49 +2302,31 @@ export class PipelineExecutor {
         // For agent steps, result.result is the agent's output object.
         // For tool steps, result.result is the tool's output object.
         const baseObject = stepExecutionResult?.result || stepExecutionResult; 
-        outputs[key] = this.getNestedValue(baseObject, expression.substring(1));
+        const relative = expression.substring(1);
+        outputs[key] = this.expressions.isPath(relative)
+          ? this.expressions.getPath(baseObject, relative)
+          : this.expressions.evaluate(relative, this.expressionScope({}, baseObject));
+      } else if (this.expressions.isPath(expression)) {
+        // Plain paths read keys as written, so 'result.user-name' is a key rather than a subtraction
+        outputs[key] = this.expressions.getPath(stepExecutionResult, expression);
+      } else if (this.expressions.isTemplate(expression)) {
+        outputs[key] = this.expressions.interpolate(expression, this.expressionScope({}, stepExecutionResult));
       } else {
-        // If not starting with '.', it's treated as a literal string or a complex expression (not supported yet)
-        // For now, assume it might be a direct key in the result if not a path
-        outputs[key] = this.getNestedValue(stepExecutionResult, expression); 
+        // Expressions resolve against the raw step result (e.g. "len(result.items) > 0")
+        outputs[key] = this.expressions.evaluate(expression, this.expressionScope({}, stepExecutionResult));
       }
     }
     this.logger.debug('PipelineExecutor', `Processed outputs for step:`, { outputSpec, stepExecutionResult, generatedOutputs: outputs });
     return outputs;
   }
 
-  private async checkDependencies(dependencies: string[]): Promise<boolean> {
-    for (const dep of dependencies) {
-      const stepResult = this.context.stepResults.get(dep);
-      if (!stepResult || !stepResult.success) {
-        return false;
-      }
-    }
-    return true;
-  }
-
   private async evaluateCondition(expression: string, inputs: Record<string, any>): Promise<boolean> {
-    // Simple condition evaluation - in production, use a proper expression evaluator
-    try {
-      // Replace variables in expression
-      let evalExpression = expression;
-      for (const [key, value] of Object.entries(inputs)) {
-        evalExpression = evalExpression.replace(new RegExp(`\\$${key}`, 'g'), JSON.stringify(value));
-      }
-      
-      // For safety, only allow simple comparisons
-      if (/^[^;]*$/.test(evalExpression) && !/function|eval|require/.test(evalExpression)) {
-        return eval(evalExpression);
-      }
-      
-      return false;
-    } catch {
-      return false;
-    }
+    // Evaluation errors propagate so a malformed condition fails its step instead of silently taking ifFalse
+    return Boolean(this.expressions.evaluate(expression, this.expressionScope(inputs)));
   }
 
-  private async applyTransformation(transformation: string, value: any): Promise<any> {
-    // Simple transformations - in production, use a proper transformation engine
+  private async applyTransformation(transformation: string, value: any, inputs: Record<string, any> = {}): Promise<any> {
+    // Named transformations; anything else is an expression over `value` (and $value)
     switch (transformation) {
       case 'uppercase':
         return String(value).toUpperCase();
@@ -713,17 +2340,178 @@ export class PipelineExecutor {
         return Number(value);
       case 'string':
         return String(value);
-      default:
-        return value;
+      default: {
+        if (!transformation || (/^[A-Za-z_]\w*$/.test(transformation) && transformation !== 'value')) {
+          // Unknown transformation names pass the value through unchanged, as before
+          return value;
+        }
+        const scope = this.expressionScope({ ...inputs, value }, { value });
+        return this.expressions.isTemplate(transformation)
+          ? this.expressions.interpolate(transformation, scope)
+          : this.expressions.evaluate(transformation, scope);
+      }
+    }
+  }
+
+  // Step inputs shadow pipeline variables for $name lookups; bare identifiers resolve against `subject`
+  private expressionScope(locals: Record<string, any> = {}, subject?: any): ExpressionScope {
+    return {
+      variables: this.context.variables,
+      steps: this.context.stepResults,
+      locals,
+      subject
+    };
+  }
+
+  // A view of the run context whose variables also carry `locals`, for inputMap functions of map items
+  private contextWithLocals(locals: Record<string, any>): PipelineContext {
+    return {
+      ...this.context,
+      variables: new Map([...this.context.variables, ...Object.entries(locals)])
+    };
+  }
+
+  private createContext(executionId: string = `${this.pipelineId}_${this.generateId()}`): PipelineContext {
+    return {
+      pipelineId: this.pipelineId,
+      executionId,
+      variables: new Map(Object.entries(this.definition.variables || {})),
+      stepResults: new Map(),
+      globalState: {},
+      routing: {
+        pendingSkips: new Map(),
+        loopIterations: new Map()
+      },
+      approvals: new Map(),
+      metadata: {
+        startTime: Date.now(),
+        currentStep: 0,
+        totalSteps: this.definition.steps.length,
+        retryCount: 0,
+        errorHistory: []
+      }
+    };
+  }
+
+  private restoreContext(record: PipelineExecutionRecord): void {
+    const state = JSON.parse(record.context_state || '{}');
+    this.context = this.createContext(record.execution_id);
+    this.context.variables = new Map(Object.entries(JSON.parse(record.variables || '{}')));
+    for (const stepResult of JSON.parse(record.step_results || '[]') as PipelineStepResult[]) {
+      this.context.stepResults.set(stepResult.stepId, stepResult);
+    }
+    this.context.globalState = state.globalState || {};
+    this.context.routing = {
+      pendingSkips: new Map(Object.entries(state.pendingSkips || {})),
+      loopIterations: new Map(Object.entries(state.loopIterations || {}))
+    };
+    this.context.approvals = new Map(Object.entries(state.approvals || {}));
+    this.context.metadata = {
+      ...this.context.metadata,
+      startTime: state.startTime || this.context.metadata.startTime,
+      currentStep: record.current_step,
+      retryCount: record.retry_count,
+      errorHistory: JSON.parse(record.error_history || '[]')
+    };
+    this.runInput = record.input_data ? JSON.parse(record.input_data) : undefined;
+  }
+
+  /**
+   * Queues a write of the current context to pipeline_executions. Writes are chained so they land
+   * in order, and a failed write never fails the run (e.g. database disabled).
+   */
+  private checkpoint(output?: any, duration?: number): void {
+    if (!this.database) return;
+
+    let record: PipelineExecutionRecord;
+    try {
+      const stepResults = Array.from(this.context.stepResults.values());
+      const finished = this.status === PipelineExecutionStatus.COMPLETED || this.status === PipelineExecutionStatus.FAILED;
+      record = {
+        execution_id: this.context.executionId,
+        pipeline_name: this.definition.name,
+        pipeline_definition: JSON.stringify(this.definition),
+        status: this.status,
+        steps_total: this.definition.steps.length,
+        current_step: this.context.metadata.currentStep,
+        steps_completed: stepResults.filter(r => r.success).length,
+        step_results: JSON.stringify(stepResults),
+        variables: JSON.stringify(Object.fromEntries(this.context.variables)),
+        error_history: JSON.stringify(this.context.metadata.errorHistory),
+        context_state: JSON.stringify({
+          globalState: this.context.globalState,
+          pendingSkips: Object.fromEntries(this.context.routing.pendingSkips),
+          loopIterations: Object.fromEntries(this.context.routing.loopIterations),
+          approvals: Object.fromEntries(this.context.approvals),
+          startTime: this.context.metadata.startTime
+        }),
+        retry_count: this.context.metadata.retryCount,
+        input_data: this.runInput !== undefined ? JSON.stringify(this.runInput) : undefined,
+        ...(finished ? {
+          success: this.status === PipelineExecutionStatus.COMPLETED,
+          total_duration_ms: duration,
+          output_data: output !== undefined ? JSON.stringify(output) : undefined,
+          completed_at: new Date().toISOString()
+        } : {})
+      };
+    } catch (error) {
+      this.reportCheckpointFailure(error);
+      return;
+    }
+
+    const database = this.database;
+    this.checkpointWrite = this.checkpointWrite
+      .then(() => database.savePipelineExecution(record))
+      .catch(error => this.reportCheckpointFailure(error));
+  }
+
+  // Warns once per executor; later failures usually share the cause (e.g. database not initialized)
+  private reportCheckpointFailure(error: unknown): void {
+    const details = {
+      executionId: this.context.executionId,
+      error: error instanceof Error ? error.message : String(error)
+    };
+    if (this.checkpointFailed) {
+      this.logger.debug('PipelineExecutor', 'Failed to save pipeline checkpoint', details);
+      return;
     }
+    this.checkpointFailed = true;
+    this.logger.warn('PipelineExecutor', 'Failed to save pipeline checkpoint', details);
+  }
+
+  private recordError(step: PipelineStepDefinition, stepResult: PipelineStepResult): void {
+    this.context.metadata.errorHistory.push({
+      step: step.id,
+      error: stepResult.error || 'Unknown error',
+      timestamp: stepResult.endTime,
+      retryAttempt: this.context.metadata.retryCount
+    });
+  }
+
+  private getMaxGlobalRetries(): number | undefined {
+    const errorHandling = this.definition.errorHandling;
+    return errorHandling?.maxGlobalRetries ?? (errorHandling?.strategy === 'retry' ? DEFAULT_MAX_GLOBAL_RETRIES : undefined);
   }
 
-  private async wait(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private isPaused(): boolean {
+    return this.status === PipelineExecutionStatus.PAUSED;
+  }
+
+  private isCancelled(): boolean {
+    return !!this.runAbort?.signal.aborted;
+  }
+
+  // Spend is tracked per run, so each execution gets its own budget
+  private getCostScope(): CostScope {
+    return { type: 'pipeline', id: this.context.executionId, budget: this.definition.budget };
+  }
+
+  private getSkippedSteps(): string[] {
+    return Array.from(this.context.stepResults.values()).filter(r => r.skipped).map(r => r.stepId);
   }
 
   private calculateSuccessRate(): number {
-    const results = Array.from(this.context.stepResults.values());
+    const results = Array.from(this.context.stepResults.values()).filter(r => !r.skipped);
     if (results.length === 0) return 1;
     
     const successCount = results.filter(r => r.success).length;
@@ -733,13 +2521,14 @@ export class PipelineExecutor {
   private extractPipelineOutput(): any {
     // Extract final outputs based on pipeline definition
     const results = Array.from(this.context.stepResults.values());
-    const lastResult = results[results.length - 1];
+    const lastResult = results.filter(r => !r.skipped).pop();
     
     return {
       finalResult: lastResult?.result,
       allStepResults: results.map(r => ({
         stepId: r.stepId,
         success: r.success,
+        skipped: r.skipped,
         result: r.result,
         duration: r.duration
       })),
@@ -787,6 +2576,7 @@ export class PipelineExecutor {
   getPipelineStatus(): any {
     const baseStatus = {
       pipelineId: this.pipelineId,
+      executionId: this.context.executionId,
       name: this.definition.name,
       status: this.status,
       progress: {
@@ -796,7 +2586,8 @@ export class PipelineExecutor {
       },
       stepResults: Array.from(this.context.stepResults.values()),
       errorHistory: this.context.metadata.errorHistory,
-      activeSteps: this.activeSteps.size
+      activeSteps: this.activeSteps.size,
+      pendingApprovals: Array.from(this.context.approvals.values()).filter(approval => approval.status === 'pending')
     };
 
     // Add intelligence insights if available
@@ -0,0 +1,506 @@
+/**
+ * Pipeline Expression Language
+ *
+ * A small sandboxed evaluator shared by condition, transform, input and output specs.
+ * Expressions are parsed into an AST and interpreted; nothing is ever passed to eval/Function.
+ *
+ *   $name              pipeline variable (the step's resolved inputs take precedence)
+ *   @step              result of a finished step
+ *   @step.result.x[0]  path into the full step record (success, result, outputs, error, ...)
+ *   name.path          path into the evaluation subject (e.g. the step result in output specs)
+ *   data.user-name     output specs that are plain paths are read as keys, never as expressions
+ *   == != === !== < <= > >= && || ! ?? ?: + - * / %
+ *   len(x), lower(s), contains(x, y), ...   whitelisted helpers, see HELPERS
+ *   "Summary of {{ $doc.title }}"           template interpolation
+ */
+
+import { PipelineStepResult } from '../types/sdk';
+
+export class ExpressionError extends Error {
+  constructor(message: string, public expression: string) {
+    super(`${message} in expression: ${expression}`);
+    this.name = 'ExpressionError';
+  }
+}
+
+export interface ExpressionScope {
+  variables: Map<string, any>;
+  steps: Map<string, PipelineStepResult>;
+  locals?: Record<string, any>; // $name lookups that shadow pipeline variables (e.g. resolved step inputs)
+  subject?: any;                // what bare identifiers resolve against
+}
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'identifier'; value: string }
+  | { type: 'variable'; value: string }
+  | { type: 'step'; value: string }
+  | { type: 'operator'; value: string };
+
+type ExpressionNode =
+  | { kind: 'literal'; value: any }
+  | { kind: 'variable'; name: string }
+  | { kind: 'step'; id: string; record: boolean }
+  | { kind: 'identifier'; name: string }
+  | { kind: 'member'; object: ExpressionNode; property: ExpressionNode }
+  | { kind: 'call'; name: string; args: ExpressionNode[] }
+  | { kind: 'unary'; operator: string; operand: ExpressionNode }
+  | { kind: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode }
+  | { kind: 'conditional'; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode }
+  | { kind: 'array'; elements: ExpressionNode[] };
+
+// Longest operators first so '===' is not read as '==' followed by '='
+const OPERATORS = ['===', '!==', '==', '!=', '<=', '>=', '&&', '||', '??', '<', '>', '+', '-', '*', '/', '%', '!', '?', ':', '(', ')', '[', ']', ',', '.'];
+
+const BLOCKED_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor']);
+
+const TEMPLATE_PATTERN = /\{\{([\s\S]+?)\}\}/g;
+
+// Dotted keys with optional [n] indexes; keys may contain '-' (e.g. 'data.user-name', 'items[0].id')
+const PATH_PATTERN = /^[\w.\-\[\]]+$/;
+
+const toStringValue = (value: any): string => {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const HELPERS: Record<string, (...args: any[]) => any> = {
+  len: (value: any) => {
+    if (value === undefined || value === null) return 0;
+    if (Array.isArray(value) || typeof value === 'string') return value.length;
+    if (typeof value === 'object') return Object.keys(value).length;
+    return String(value).length;
+  },
+  lower: (value: any) => toStringValue(value).toLowerCase(),
+  upper: (value: any) => toStringValue(value).toUpperCase(),
+  trim: (value: any) => toStringValue(value).trim(),
+  string: (value: any) => toStringValue(value),
+  number: (value: any) => Number(value),
+  boolean: (value: any) => Boolean(value),
+  json: (value: any) => JSON.stringify(value),
+  parseJson: (value: any) => JSON.parse(toStringValue(value)),
+  contains: (haystack: any, needle: any) => Array.isArray(haystack) ? haystack.includes(needle) : toStringValue(haystack).includes(toStringValue(needle)),
+  startsWith: (value: any, prefix: any) => toStringValue(value).startsWith(toStringValue(prefix)),
+  endsWith: (value: any, suffix: any) => toStringValue(value).endsWith(toStringValue(suffix)),
+  replace: (value: any, search: any, replacement: any) => toStringValue(value).split(toStringValue(search)).join(toStringValue(replacement)),
+  split: (value: any, separator: any) => toStringValue(value).split(toStringValue(separator)),
+  join: (values: any, separator: any = ',') => Array.isArray(values) ? values.map(toStringValue).join(toStringValue(separator)) : toStringValue(values),
+  slice: (value: any, start: number, end?: number) => Array.isArray(value) ? value.slice(start, end) : toStringValue(value).slice(start, end),
+  concat: (...values: any[]) => values.every(Array.isArray) ? ([] as any[]).concat(...values) : values.map(toStringValue).join(''),
+  first: (values: any) => Array.isArray(values) ? values[0] : undefined,
+  last: (values: any) => Array.isArray(values) ? values[values.length - 1] : undefined,
+  keys: (value: any) => value && typeof value === 'object' ? Object.keys(value) : [],
+  values: (value: any) => value && typeof value === 'object' ? Object.values(value) : [],
+  isEmpty: (value: any) => value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0) || (typeof value === 'object' && Object.keys(value).length === 0),
+  exists: (value: any) => value !== undefined && value !== null,
+  default: (value: any, fallback: any) => value === undefined || value === null ? fallback : value,
+  min: (...values: any[]) => Math.min(...values.flat().map(Number)),
+  max: (...values: any[]) => Math.max(...values.flat().map(Number)),
+  abs: (value: any) => Math.abs(Number(value)),
+  round: (value: any, digits: number = 0) => Number(Number(value).toFixed(digits))
+};
+
+export class ExpressionEvaluator {
+  private cache: Map<string, ExpressionNode>;
+
+  constructor() {
+    this.cache = new Map();
+  }
+
+  evaluate(expression: string, scope: ExpressionScope): any {
+    return this.evaluateNode(this.parse(expression), scope, expression);
+  }
+
+  isTemplate(spec: string): boolean {
+    return spec.includes('{{');
+  }
+
+  isPath(spec: string): boolean {
+    return PATH_PATTERN.test(spec);
+  }
+
+  /**
+   * Reads a plain dotted path such as 'result.items[0].user-name' key by key, so '-' stays part of
+   * a key instead of being parsed as subtraction. Missing segments yield undefined.
+   */
+  getPath(value: any, path: string): any {
+    const keys = path.replace(/\[(\d+)\]/g, '.$1').split('.').filter(key => key !== '');
+    return keys.reduce((current, key) => this.getProperty(current, key, path), value);
+  }
+
+  /**
+   * Interpolates every {{ expression }} in a template. A template that is exactly one
+   * placeholder returns the raw value so objects and numbers keep their type.
+   */
+  interpolate(template: string, scope: ExpressionScope): any {
+    const whole = template.trim().match(/^\{\{([\s\S]+?)\}\}$/);
+    if (whole && !whole[1].includes('{{')) {
+      return this.evaluate(whole[1], scope);
+    }
+    return template.replace(TEMPLATE_PATTERN, (_match, expression: string) => toStringValue(this.evaluate(expression, scope)));
+  }
+
+  /**
+   * Resolves an input spec value: templates are interpolated, `$`/`@` references and `=`-prefixed
+   * specs are evaluated as expressions, and anything else is taken literally.
+   */
+  resolve(spec: any, scope: ExpressionScope): any {
+    if (typeof spec !== 'string') return spec;
+    if (this.isTemplate(spec)) return this.interpolate(spec, scope);
+    if (spec.startsWith('=')) return this.evaluate(spec.substring(1), scope);
+    if (spec.startsWith('$') || spec.startsWith('@')) return this.evaluate(spec, scope);
+    return spec;
+  }
+
+  /**
+   * Lists the variables and steps an input spec refers to without evaluating it, for checking a
+   * pipeline before it runs. Throws an ExpressionError if any expression in the spec is malformed.
+   */
+  references(spec: any): { variables: string[]; steps: string[] } {
+    const found = { variables: new Set<string>(), steps: new Set<string>() };
+    const visit = (node: ExpressionNode): void => {
+      switch (node.kind) {
+        case 'variable': found.variables.add(node.name); break;
+        case 'step': found.steps.add(node.id); break;
+        case 'member': visit(node.object); visit(node.property); break;
+        case 'call': node.args.forEach(visit); break;
+        case 'unary': visit(node.operand); break;
+        case 'binary': visit(node.left); visit(node.right); break;
+        case 'conditional': visit(node.test); visit(node.consequent); visit(node.alternate); break;
+        case 'array': node.elements.forEach(visit); break;
+      }
+    };
+
+    let expressions: string[] = [];
+    if (typeof spec === 'string') {
+      if (this.isTemplate(spec)) expressions = Array.from(spec.matchAll(TEMPLATE_PATTERN), match => match[1]);
+      else if (spec.startsWith('=')) expressions = [spec.substring(1)];
+      else if (spec.startsWith('$') || spec.startsWith('@')) expressions = [spec];
+    }
+    expressions.forEach(expression => visit(this.parse(expression)));
+
+    return { variables: Array.from(found.variables), steps: Array.from(found.steps) };
+  }
+
+  private parse(expression: string): ExpressionNode {
+    const cached = this.cache.get(expression);
+    if (cached) return cached;
+
+    const parser = new Parser(this.tokenize(expression), expression);
+    const node = parser.parseExpression();
+    parser.expectEnd();
+    this.cache.set(expression, node);
+    return node;
+  }
+
+  private tokenize(expression: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < expression.length) {
+      const char = expression[i];
+
+      if (/\s/.test(char)) {
+        i++;
+        continue;
+      }
+
+      if (/[0-9]/.test(char)) {
+        const match = expression.slice(i).match(/^\d+(\.\d+)?/)!;
+        tokens.push({ type: 'number', value: parseFloat(match[0]) });
+        i += match[0].length;
+        continue;
+      }
+
+      if (char === '"' || char === "'") {
+        let value = '';
+        let j = i + 1;
+        while (j < expression.length && expression[j] !== char) {
+          if (expression[j] === '\\' && j + 1 < expression.length) {
+            const escaped = expression[j + 1];
+            value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+            j += 2;
+          } else {
+            value += expression[j++];
+          }
+        }
+        if (j >= expression.length) {
+          throw new ExpressionError('Unterminated string', expression);
+        }
+        tokens.push({ type: 'string', value });
+        i = j + 1;
+        continue;
+      }
+
+      if (char === '$' || char === '@') {
+        // Step ids may contain hyphens (fetch-data); variable names may not, so `$a-1` stays arithmetic
+        const pattern = char === '@' ? /^[A-Za-z0-9_](?:[A-Za-z0-9_-]*[A-Za-z0-9_])?/ : /^[A-Za-z0-9_]+/;
+        const match = expression.slice(i + 1).match(pattern);
+        if (!match) {
+          throw new ExpressionError(`Expected a name after '${char}' at position ${i}`, expression);
+        }
+        tokens.push({ type: char === '$' ? 'variable' : 'step', value: match[0] });
+        i += match[0].length + 1;
+        continue;
+      }
+
+      if (/[A-Za-z_]/.test(char)) {
+        const match = expression.slice(i).match(/^[A-Za-z_][A-Za-z0-9_]*/)!;
+        tokens.push({ type: 'identifier', value: match[0] });
+        i += match[0].length;
+        continue;
+      }
+
+      const operator = OPERATORS.find(op => expression.startsWith(op, i));
+      if (!operator) {
+        throw new ExpressionError(`Unexpected character '${char}' at position ${i}`, expression);
+      }
+      tokens.push({ type: 'operator', value: operator });
+      i += operator.length;
+    }
+
+    return tokens;
+  }
+
+  private evaluateNode(node: ExpressionNode, scope: ExpressionScope, expression: string): any {
+    switch (node.kind) {
+      case 'literal':
+        return node.value;
+      case 'variable':
+        if (scope.locals && Object.prototype.hasOwnProperty.call(scope.locals, node.name)) {
+          return scope.locals[node.name];
+        }
+        return scope.variables.get(node.name);
+      case 'step': {
+        const stepResult = scope.steps.get(node.id);
+        return node.record ? stepResult : stepResult?.result;
+      }
+      case 'identifier':
+        return this.getProperty(scope.subject, node.name, expression);
+      case 'member':
+        return this.getProperty(
+          this.evaluateNode(node.object, scope, expression),
+          this.evaluateNode(node.property, scope, expression),
+          expression
+        );
+      case 'call': {
+        // Own properties only, so Object.prototype methods such as constructor are not callable
+        const helper = Object.prototype.hasOwnProperty.call(HELPERS, node.name) ? HELPERS[node.name] : undefined;
+        if (!helper) {
+          throw new ExpressionError(`Unknown function '${node.name}'`, expression);
+        }
+        return helper(...node.args.map(arg => this.evaluateNode(arg, scope, expression)));
+      }
+      case 'unary': {
+        const operand = this.evaluateNode(node.operand, scope, expression);
+        return node.operator === '!' ? !operand : -operand;
+      }
+      case 'binary':
+        return this.evaluateBinary(node.operator, node.left, node.right, scope, expression);
+      case 'conditional':
+        return this.evaluateNode(node.test, scope, expression)
+          ? this.evaluateNode(node.consequent, scope, expression)
+          : this.evaluateNode(node.alternate, scope, expression);
+      case 'array':
+        return node.elements.map(element => this.evaluateNode(element, scope, expression));
+    }
+  }
+
+  private evaluateBinary(operator: string, leftNode: ExpressionNode, rightNode: ExpressionNode, scope: ExpressionScope, expression: string): any {
+    const left = this.evaluateNode(leftNode, scope, expression);
+
+    // Short-circuit operators only evaluate the right side when needed
+    switch (operator) {
+      case '&&': return left ? this.evaluateNode(rightNode, scope, expression) : left;
+      case '||': return left ? left : this.evaluateNode(rightNode, scope, expression);
+      case '??': return left !== undefined && left !== null ? left : this.evaluateNode(rightNode, scope, expression);
+    }
+
+    const right = this.evaluateNode(rightNode, scope, expression);
+    switch (operator) {
+      case '==': return left == right;
+      case '!=': return left != right;
+      case '===': return left === right;
+      case '!==': return left !== right;
+      case '<': return left < right;
+      case '<=': return left <= right;
+      case '>': return left > right;
+      case '>=': return left >= right;
+      case '+': return typeof left === 'string' || typeof right === 'string' ? toStringValue(left) + toStringValue(right) : left + right;
+      case '-': return left - right;
+      case '*': return left * right;
+      case '/': return left / right;
+      case '%': return left % right;
+      default:
+        throw new ExpressionError(`Unknown operator '${operator}'`, expression);
+    }
+  }
+
+  private getProperty(target: any, property: any, expression: string): any {
+    if (target === undefined || target === null) return undefined;
+    const key = String(property);
+    if (BLOCKED_PROPERTIES.has(key)) {
+      throw new ExpressionError(`Access to '${key}' is not allowed`, expression);
+    }
+    if (typeof target === 'string' || Array.isArray(target)) {
+      return key === 'length' ? target.length : (/^\d+$/.test(key) ? target[Number(key)] : undefined);
+    }
+    if (target instanceof Map) {
+      return target.get(key);
+    }
+    if (typeof target !== 'object') return undefined;
+    // Own properties only, so inherited methods are never reachable
+    return Object.prototype.hasOwnProperty.call(target, key) ? target[key] : undefined;
+  }
+}
+
+// Recursive-descent parser; precedence climbs from the ternary down to member access
+class Parser {
+  private position = 0;
+
+  constructor(private tokens: Token[], private expression: string) {}
+
+  parseExpression(): ExpressionNode {
+    const test = this.parseBinary(0);
+    if (!this.matchOperator('?')) return test;
+
+    const consequent = this.parseExpression();
+    this.expectOperator(':');
+    const alternate = this.parseExpression();
+    return { kind: 'conditional', test, consequent, alternate };
+  }
+
+  expectEnd(): void {
+    if (this.position < this.tokens.length) {
+      throw new ExpressionError(`Unexpected token '${this.tokens[this.position].value}'`, this.expression);
+    }
+  }
+
+  private static readonly PRECEDENCE: string[][] = [
+    ['??'],
+    ['||'],
+    ['&&'],
+    ['==', '!=', '===', '!=='],
+    ['<', '<=', '>', '>='],
+    ['+', '-'],
+    ['*', '/', '%']
+  ];
+
+  private parseBinary(level: number): ExpressionNode {
+    if (level >= Parser.PRECEDENCE.length) return this.parseUnary();
+
+    let left = this.parseBinary(level + 1);
+    let operator: string | undefined;
+    while ((operator = Parser.PRECEDENCE[level].find(op => this.peekOperator(op)))) {
+      this.position++;
+      const right = this.parseBinary(level + 1);
+      left = { kind: 'binary', operator, left, right };
+    }
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.matchOperator('!')) return { kind: 'unary', operator: '!', operand: this.parseUnary() };
+    if (this.matchOperator('-')) return { kind: 'unary', operator: '-', operand: this.parseUnary() };
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): ExpressionNode {
+    let node = this.parsePrimary();
+
+    while (true) {
+      if (this.peekOperator('.') || this.peekOperator('[')) {
+        // A step reference followed by a path walks the full step record
+        if (node.kind === 'step') node = { ...node, record: true };
+      }
+      if (this.matchOperator('.')) {
+        const token = this.next();
+        if (!token || (token.type !== 'identifier' && token.type !== 'number')) {
+          throw new ExpressionError(`Expected a property name after '.'`, this.expression);
+        }
+        node = { kind: 'member', object: node, property: { kind: 'literal', value: String(token.value) } };
+      } else if (this.matchOperator('[')) {
+        const property = this.parseExpression();
+        this.expectOperator(']');
+        node = { kind: 'member', object: node, property };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+    if (!token) {
+      throw new ExpressionError('Unexpected end of expression', this.expression);
+    }
+
+    switch (token.type) {
+      case 'number':
+      case 'string':
+        return { kind: 'literal', value: token.value };
+      case 'variable':
+        return { kind: 'variable', name: token.value };
+      case 'step':
+        return { kind: 'step', id: token.value, record: false };
+      case 'identifier':
+        switch (token.value) {
+          case 'true': return { kind: 'literal', value: true };
+          case 'false': return { kind: 'literal', value: false };
+          case 'null': return { kind: 'literal', value: null };
+          case 'undefined': return { kind: 'literal', value: undefined };
+        }
+        if (this.matchOperator('(')) {
+          const args: ExpressionNode[] = [];
+          if (!this.matchOperator(')')) {
+            do {
+              args.push(this.parseExpression());
+            } while (this.matchOperator(','));
+            this.expectOperator(')');
+          }
+          return { kind: 'call', name: token.value, args };
+        }
+        return { kind: 'identifier', name: token.value };
+      case 'operator':
+        if (token.value === '(') {
+          const inner = this.parseExpression();
+          this.expectOperator(')');
+          return inner;
+        }
+        if (token.value === '[') {
+          const elements: ExpressionNode[] = [];
+          if (!this.matchOperator(']')) {
+            do {
+              elements.push(this.parseExpression());
+            } while (this.matchOperator(','));
+            this.expectOperator(']');
+          }
+          return { kind: 'array', elements };
+        }
+    }
+    throw new ExpressionError(`Unexpected token '${token.value}'`, this.expression);
+  }
+
+  private next(): Token | undefined {
+    return this.tokens[this.position++];
+  }
+
+  private peekOperator(operator: string): boolean {
+    const token = this.tokens[this.position];
+    return !!token && token.type === 'operator' && token.value === operator;
+  }
+
+  private matchOperator(operator: string): boolean {
+    if (!this.peekOperator(operator)) return false;
+    this.position++;
+    return true;
+  }
+
+  private expectOperator(operator: string): void {
+    if (!this.matchOperator(operator)) {
+      const token = this.tokens[this.position];
+      throw new ExpressionError(`Expected '${operator}' but found ${token ? `'${token.value}'` : 'end of expression'}`, this.expression);
+    }
+  }
+}
@@ -7,6 +7,7 @@
 
 import { Logger } from '../utils/logger';
 import { PipelineStepDefinition, PipelineContext, PipelineStepResult } from './executor';
+import { linkAbortController, raceCancellation, cancellableDelay, toCancellationError } from '../utils/cancellation';
 
 // === ERROR RECOVERY INTERFACES ===
 
@@ -129,11 +130,19 @@ export class PipelineIntelligence {
 
   // === ENHANCED ERROR RECOVERY ===
 
+  /**
+   * Each attempt gets its own signal that fires on the step timeout or when `options.signal` (the
+   * run's cancellation) fires, so timed-out work is stopped rather than left running. Cancelled
+   * steps are never retried, and retries draw on the run-wide `options.maxGlobalRetries` budget
+   * tracked in `context.metadata.retryCount`.
+   */
   async executeStepWithEnhancedRecovery(
     step: PipelineStepDefinition,
     context: PipelineContext,
-    executeStepFn: (step: PipelineStepDefinition) => Promise<PipelineStepResult>
+    executeStepFn: (step: PipelineStepDefinition, signal: AbortSignal) => Promise<PipelineStepResult>,
+    options: { signal?: AbortSignal; maxGlobalRetries?: number } = {}
   ): Promise<PipelineStepResult> {
+    const { signal, maxGlobalRetries } = options;
     const retryPolicy = this.buildEnhancedRetryPolicy(step);
     const stepKey = `${context.pipelineId}_${step.id}`;
 
@@ -159,8 +168,9 @@ export class PipelineIntelligence {
         
         // Execute step with timeout
         const result = await this.executeWithTimeout(
-          executeStepFn(step),
-          retryPolicy.timeoutMs || 300000 // 5 minute default
+          attemptSignal => executeStepFn(step, attemptSignal),
+          retryPolicy.timeoutMs || 300000, // 5 minute default
+          signal
         );
 
         // Record success for circuit breaker
@@ -171,9 +181,12 @@ export class PipelineIntelligence {
         // Analyze performance
         await this.recordPerformanceMetrics(step.id, Date.now() - startTime, context);
 
-        return result;
+        return { ...result, retryCount: attempt };
 
       } catch (error) {
+        if (signal?.aborted) {
+          return this.createCancelledResult(step.id, toCancellationError(signal).message, attempt);
+        }
         lastError = error instanceof Error ? error : new Error(String(error));
         attempt++;
 
@@ -199,6 +212,15 @@ export class PipelineIntelligence {
           break;
         }
 
+        if (maxGlobalRetries !== undefined && context.metadata.retryCount >= maxGlobalRetries) {
+          this.logger.warn('PipelineIntelligence', `Global retry budget exhausted, not retrying step: ${step.id}`, {
+            maxGlobalRetries,
+            retriesUsed: context.metadata.retryCount
+          });
+          break;
+        }
+        context.metadata.retryCount++;
+
         // Apply backoff strategy
         const delay = this.calculateBackoffDelay(retryPolicy.backoffStrategy, attempt);
         
@@ -208,7 +230,11 @@ export class PipelineIntelligence {
           strategy: retryPolicy.backoffStrategy.type
         });
 
-        await this.wait(delay);
+        try {
+          await cancellableDelay(delay, signal);
+        } catch {
+          return this.createCancelledResult(step.id, toCancellationError(signal!).message, attempt);
+        }
       }
     }
 
@@ -434,6 +460,20 @@ export class PipelineIntelligence {
     };
   }
 
+  private createCancelledResult(stepId: string, reason: string, retryCount: number): PipelineStepResult {
+    this.logger.info('PipelineIntelligence', `Step cancelled: ${stepId}`, { reason });
+    return {
+      stepId,
+      success: false,
+      cancelled: true,
+      error: `Step ${stepId} cancelled: ${reason}`,
+      startTime: Date.now(),
+      endTime: Date.now(),
+      duration: 0,
+      retryCount
+    };
+  }
+
   // === PERFORMANCE MONITORING ===
 
   private async recordPerformanceMetrics(stepId: string, duration: number, context: PipelineContext): Promise<void> {
@@ -587,16 +627,14 @@ export class PipelineIntelligence {
 
   // === UTILITY METHODS ===
 
-  private async executeWithTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
-    const timeoutPromise = new Promise<never>((_, reject) => {
-      setTimeout(() => reject(new Error('Step execution timeout')), timeoutMs);
-    });
-
-    return Promise.race([promise, timeoutPromise]);
-  }
-
-  private async wait(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  // Rejects on timeout or cancellation and aborts the attempt's signal so the work itself stops too
+  private async executeWithTimeout<T>(run: (signal: AbortSignal) => Promise<T>, timeoutMs: number, signal?: AbortSignal): Promise<T> {
+    const attempt = linkAbortController([signal], { ms: timeoutMs, message: 'Step execution timeout' });
+    try {
+      return await raceCancellation(run(attempt.signal), attempt.signal);
+    } finally {
+      attempt.dispose();
+    }
   }
 
   private async getMemoryUsage(): Promise<number> {
@@ -32,6 +32,28 @@ export interface StreamOptions {
     metadata?: Record<string, any>;
 }
 
+/**
+ * A pipeline step waiting on a human decision. Emitted as an 'approvalRequested' event and,
+ * when a stream is open under the execution id, as a progress update on that stream.
+ */
+export interface ApprovalRequest {
+    executionId: string;
+    pipeline: string;
+    stepId: string;
+    message?: string;
+    data?: any;          // What is up for review (the step's resolved inputs)
+    requestedAt: number;
+    expiresAt?: number;  // When the request times out, if the step sets approval.timeout
+}
+
+export interface ApprovalResolution {
+    executionId: string;
+    pipeline: string;
+    stepId: string;
+    status: 'approved' | 'rejected' | 'timed_out';
+    decidedAt: number;
+}
+
 export interface StreamingStats {
     activeStreams: number;
     totalStreamsCreated: number;
@@ -290,6 +312,44 @@ export class StreamingService extends EventEmitter {
         };
     }
 
+    // === APPROVALS ===
+
+    requestApproval(request: ApprovalRequest): void {
+        this.logger.info('StreamingService', 'Approval requested', {
+            executionId: request.executionId,
+            stepId: request.stepId,
+            expiresAt: request.expiresAt
+        });
+
+        this.sendUpdate(request.executionId, {
+            id: request.executionId,
+            type: 'pipeline',
+            status: 'progress',
+            progress: this.activeStreams.get(request.executionId)?.progress || { current: 0, total: 100, percentage: 0 },
+            message: request.message || `Approval required for step ${request.stepId}`,
+            data: { approval: request },
+            timestamp: new Date()
+        });
+        this.emit('approvalRequested', request);
+    }
+
+    resolveApproval(resolution: ApprovalResolution): void {
+        this.logger.info('StreamingService', 'Approval resolved', {
+            executionId: resolution.executionId,
+            stepId: resolution.stepId,
+            status: resolution.status
+        });
+        this.emit('approvalResolved', resolution);
+    }
+
+    // Returns an unsubscribe function, like subscribe()
+    onApprovalRequest(callback: (request: ApprovalRequest) => void): () => void {
+        this.on('approvalRequested', callback);
+        return () => {
+            this.off('approvalRequested', callback);
+        };
+    }
+
     // === UTILITY METHODS ===
 
     getActiveStreams(): string[] {
@@ -1,8 +1,9 @@
 import { ISymphony, SymphonyConfig, IMetricsAPI } from './types/symphony';
-import { ToolLifecycleState, AgentConfig, TeamConfig, PipelineConfig, Pipeline } from './types/sdk';
+import { ToolLifecycleState, AgentConfig, TeamConfig, PipelineConfig, Pipeline, PipelineResult } from './types/sdk';
 import { IToolService, IAgentService, ITeamService, IPipelineService, IValidationManager } from './types/interfaces';
 import { Logger } from './utils/logger';
 import { LLMHandler } from './llm/handler';
+import { CostTracker } from './llm/costs';
 // @ts-ignore
 import { LLMConfig as RichLLMConfig, LLMFunctionDefinition } from './llm/types';
 import { IDatabaseService } from './db/types';
@@ -11,11 +12,12 @@ import { Cache } from './cache';
 import { IntelligenceOptions, IntelligenceResult, CacheIntelligenceService } from './cache/service';
 import { MemoryService, MemoryQuery, MemoryEntry, AggregationResult, MemoryStats, MemoryConfig as InternalMemoryConfig } from './memory/service';
 import { Memory, LegacyMemory } from './memory';
-import { StreamingService, StreamingConfig, ProgressUpdate, StreamOptions, StreamingStats } from './streaming/service';
+import { StreamingService, StreamingConfig, ProgressUpdate, StreamOptions, StreamingStats, ApprovalRequest } from './streaming/service';
 import { ToolRegistry } from './tools/standard/registry';
-import { PipelineExecutor, PipelineDefinition, PipelineStepDefinition } from './pipelines/executor';
+import { PipelineExecutor, PipelineDefinition, PipelineStepDefinition, ApprovalDecision } from './pipelines/executor';
 import { TeamCoordinator } from './teams/coordinator';
 import { AgentExecutor } from './agents/executor';
+import { DefinitionLoader, LoadedDefinitions } from './definitions/loader';
 // import { envConfig } from './utils/env';
 import { INlpService, NlpPatternDefinition, ToolConfig as CoreToolConfig } from './types/tool.types';
 import { NlpService } from './nlp/NlpService';
@@ -73,6 +75,7 @@ export interface IStreamingService {
     completeStream(streamId: string, finalData?: any): void;
     errorStream(streamId: string, error: Error): void;
     subscribe(streamId: string, callback: (update: ProgressUpdate) => void): () => void;
+    onApprovalRequest(callback: (request: ApprovalRequest) => void): () => void; // Approval steps waiting on symphony.pipeline.approve()
     getActiveStreams(): string[];
     getStreamStatus(streamId: string): any;
     getStats(): StreamingStats;
@@ -237,6 +240,14 @@ class AgentService implements IAgentService {
     async get(name: string): Promise<AgentExecutor | undefined> {
         return this.agents.get(name);
     }
+
+    register(name: string, agent: AgentExecutor): void {
+        this.agents.set(name, agent);
+    }
+
+    unregister(name: string): void {
+        this.agents.delete(name);
+    }
 }
 
 class TeamService implements ITeamService {
@@ -284,6 +295,14 @@ class TeamService implements ITeamService {
         return this.teams.get(name);
     }
 
+    register(name: string, team: TeamCoordinator): void {
+        this.teams.set(name, team);
+    }
+
+    unregister(name: string): void {
+        this.teams.delete(name);
+    }
+
     async shutdown(): Promise<void> {
         this.logger.info('TeamService', `Shutting down ${this.teams.size} teams`);
         
@@ -304,12 +323,14 @@ class PipelineService implements IPipelineService {
     private logger: Logger;
     private agentService: IAgentService;
     private teamService: ITeamService;
+    private database: IDatabaseService;
     private _state: ToolLifecycleState = ToolLifecycleState.READY;
 
-    constructor(agentService: IAgentService, teamService: ITeamService) {
+    constructor(agentService: IAgentService, teamService: ITeamService, database: IDatabaseService) {
         this.logger = Logger.getInstance('PipelineService');
         this.agentService = agentService;
         this.teamService = teamService;
+        this.database = database;
     }
 
     get state(): ToolLifecycleState {
@@ -326,6 +347,34 @@ class PipelineService implements IPipelineService {
             version: (config as any).version || '1.0.0'
         });
 
+        const definition = this.toDefinition(config);
+        const pipelineExecutor = new PipelineExecutor(definition, this.agentService, this.teamService, this.database, this);
+        
+        this.pipelines.set(config.name, pipelineExecutor);
+
+        return {
+            name: config.name,
+            description: config.description || '',
+            state: ToolLifecycleState.READY,
+            steps: config.steps,
+            run: async (input?: any, options?: { signal?: AbortSignal }) => {
+                this.logger.info('PipelineService', `Pipeline ${config.name} executing with input`, {
+                    hasInput: !!input,
+                    inputKeys: input ? Object.keys(input) : []
+                });
+                return await pipelineExecutor.execute(input, options);
+            },
+            getStatus: () => pipelineExecutor.getPipelineStatus(),
+            executor: pipelineExecutor
+        } as Pipeline;
+    }
+
+    // Checks a config's step graph and error handling without registering it
+    validate(config: PipelineConfig): void {
+        new PipelineExecutor(this.toDefinition(config), this.agentService, this.teamService, this.database, this);
+    }
+
+    private toDefinition(config: PipelineConfig): PipelineDefinition {
         // DIAGNOSTIC LOG: Log the source agent steps from PipelineConfig
         config.steps.forEach((sourceStep, index) => {
             if (sourceStep.type === 'agent') {
@@ -363,8 +412,9 @@ class PipelineService implements IPipelineService {
                 return mappedStep;
             }) as PipelineStepDefinition[],
             variables: (config as any).variables,
-            errorHandling: (config as any).errorHandling,
-            concurrency: (config as any).concurrency
+            errorHandling: config.errorHandling,
+            concurrency: config.concurrency,
+            budget: config.budget
         };
 
         this.logger.debug('PipelineService', 'Final PipelineDefinition steps for PipelineExecutor:', {
@@ -373,27 +423,80 @@ class PipelineService implements IPipelineService {
             steps: definition.steps.map(s => ({ id: s.id, type: s.type, agent: s.agent, tool: s.tool, name: s.name, inputMapIsFunction: typeof s.inputMap === 'function' }))
         });
 
-        const pipelineExecutor = new PipelineExecutor(definition, this.agentService, this.teamService);
-        
-        this.pipelines.set(config.name, pipelineExecutor);
-
-        return {
-            name: config.name,
-            description: config.description || '',
-            state: ToolLifecycleState.READY,
-            steps: config.steps,
-            run: async (input?: any) => {
-                this.logger.info('PipelineService', `Pipeline ${config.name} executing with input`, {
-                    hasInput: !!input,
-                    inputKeys: input ? Object.keys(input) : []
-                });
-                return await pipelineExecutor.execute(input);
-            },
-            getStatus: () => pipelineExecutor.getPipelineStatus(),
-            executor: pipelineExecutor
-        } as Pipeline;
+        return definition;
     }
     
+    /**
+     * Continues a run from its last checkpoint. After a restart the pipeline must be created again
+     * (same name) so its step definitions, including inputMap functions, are available.
+     */
+    async resume(executionId: string, options?: { signal?: AbortSignal }): Promise<PipelineResult> {
+        const executor = await this.resolveExecutor(executionId);
+        this.logger.info('PipelineService', `Resuming pipeline execution: ${executionId}`);
+        return await executor.resume(executionId, options);
+    }
+
+    /**
+     * Decides a waiting approval step. A run paused on the step is resumed, and steps waiting in
+     * place (e.g. in sub-pipeline runs) carry on; after a restart the run is resumed from its
+     * checkpoint, so its pipeline must be created again first, as for resume().
+     */
+    async approve(executionId: string, stepId: string, decision: ApprovalDecision, edits?: Record<string, any>): Promise<PipelineResult> {
+        const executor = PipelineExecutor.findAwaitingApproval(executionId) || await this.resolveExecutor(executionId);
+        this.logger.info('PipelineService', `Approval decision for ${executionId}: ${decision}`, { stepId, hasEdits: !!edits });
+        return await executor.approve(executionId, stepId, decision, edits);
+    }
+
+    async pause(executionId: string): Promise<boolean> {
+        const executor = this.findExecutor(executionId);
+        if (!executor) {
+            this.logger.warn('PipelineService', `No running pipeline execution to pause: ${executionId}`);
+            return false;
+        }
+        return executor.pause();
+    }
+
+    async cancel(executionId: string, reason?: string): Promise<boolean> {
+        const executor = this.findExecutor(executionId);
+        if (!executor) {
+            this.logger.warn('PipelineService', `No running pipeline execution to cancel: ${executionId}`);
+            return false;
+        }
+        return executor.cancel(reason);
+    }
+
+    async get(name: string): Promise<PipelineExecutor | undefined> {
+        return this.pipelines.get(name);
+    }
+
+    register(name: string, pipeline: PipelineExecutor): void {
+        this.pipelines.set(name, pipeline);
+    }
+
+    unregister(name: string): void {
+        this.pipelines.delete(name);
+    }
+
+    private findExecutor(executionId: string): PipelineExecutor | undefined {
+        return Array.from(this.pipelines.values()).find(executor => executor.getExecutionId() === executionId);
+    }
+
+    // The executor holding `executionId`, or the one registered for the pipeline of its checkpoint
+    private async resolveExecutor(executionId: string): Promise<PipelineExecutor> {
+        const executor = this.findExecutor(executionId);
+        if (executor) return executor;
+
+        const record = await this.database.getPipelineExecution(executionId);
+        if (!record) {
+            throw new Error(`No checkpoint found for pipeline execution: ${executionId}`);
+        }
+        const registered = this.pipelines.get(record.pipeline_name);
+        if (!registered) {
+            throw new Error(`Pipeline ${record.pipeline_name} must be created before execution ${executionId} can be resumed`);
+        }
+        return registered;
+    }
+
     async initialize(): Promise<void> {
         this.logger.info('PipelineService', 'Pipeline service initialized');
     }
@@ -987,6 +1090,11 @@ class StreamingServiceWrapper implements IStreamingService {
         }
     }
 
+    // Approval requests are plain events, so listeners work whether or not streaming is initialized
+    onApprovalRequest(callback: (request: ApprovalRequest) => void): () => void {
+        return this.streamingService.onApprovalRequest(callback);
+    }
+
     // === UTILITY METHODS ===
 
     getActiveStreams(): string[] {
@@ -1154,7 +1262,7 @@ export class Symphony implements Partial<ISymphony> {
         const toolServiceInstance = new ToolService(sharedToolRegistry, this._nlpService);
         const agentServiceInstance = new AgentService(sharedToolRegistry);
         const teamServiceInstance = new TeamService(sharedToolRegistry);
-        const pipelineServiceInstance = new PipelineService(agentServiceInstance, teamServiceInstance);
+        const pipelineServiceInstance = new PipelineService(agentServiceInstance, teamServiceInstance, actualDbService);
         const validationServiceInstance = new ValidationService();
 
         this.tool = toolServiceInstance;
@@ -1227,6 +1335,20 @@ export class Symphony implements Partial<ISymphony> {
             const { LLMHandler } = await import('./llm/handler');
             const llmHandler = LLMHandler.getInstance();
             llmHandler.setCacheService(this._cacheServiceWrapper);
+
+            const costTracker = CostTracker.getInstance();
+            costTracker.setDatabase(this.db);
+            if (this._config.costs?.prices) {
+                costTracker.setPriceTable(this._config.costs.prices);
+            }
+            if (this._config.costs?.sessionBudget) {
+                costTracker.startSession(undefined, this._config.costs.sessionBudget);
+            }
+            if (this._config.llm) {
+                // e.g. a self-hosted OpenAI-compatible endpoint configured on the SDK instance
+                await llmHandler.registerProvider(this._config.llm);
+                llmHandler.setDefaultProvider(this._config.llm.name || this._config.llm.provider);
+            }
             
             this._state = ToolLifecycleState.READY;
             (this as any).initialized = true;
@@ -1241,6 +1363,15 @@ export class Symphony implements Partial<ISymphony> {
         }
     }
     
+    /**
+     * Registers the agents, teams and pipelines described by the YAML/JSON manifests in `dir`.
+     * Throws a DefinitionError listing every invalid or unresolved entry by file and line.
+     */
+    async loadDefinitions(dir: string): Promise<LoadedDefinitions> {
+        const loader = new DefinitionLoader(this.tool, this.agent, this.team, this.pipeline);
+        return loader.load(dir);
+    }
+
     async getService(name: string): Promise<any> {
         const services: Record<string, any> = {
             tool: this.tool,
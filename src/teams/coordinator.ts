@@ -1,8 +1,13 @@
-import { TeamConfig, TeamResult, AgentConfig, ToolLifecycleState } from '../types/sdk';
+import { randomUUID } from 'crypto';
+import { TeamConfig, TeamResult, AgentConfig, ToolLifecycleState, CostScope, AgentTaskOptions, TeamToolContext, TeamBoardEntry, TeamMessage } from '../types/sdk';
 import { Logger } from '../utils/logger';
 import { AgentExecutor } from '../agents/executor';
 import { ToolRegistry } from '../tools/standard/registry';
 import { ToolUsageVerifier, ParameterSchema } from '../utils/verification';
+import { CostTracker } from '../llm/costs';
+import { linkAbortController, toCancellationError, isCancellation, raceCancellation } from '../utils/cancellation';
+import { LLMHandler } from '../llm/handler';
+import { LLMMessage } from '../llm/types';
 
 export interface TeamMember {
   id: string;
@@ -27,17 +32,11 @@ export interface TaskAssignment {
 
 export interface SharedContext {
   teamId: string;
-  workspaceData: Map<string, any>;
+  workspaceData: Map<string, Map<string, TeamBoardEntry>>; // Blackboards members read and write through the team tools, one per running task
   taskHistory: TaskAssignment[];
   agentResults: Map<string, any>;
   globalState: Record<string, any>;
-  communicationLog: Array<{
-    from: string;
-    to: string | 'all';
-    message: string;
-    timestamp: number;
-    type: 'coordination' | 'data_share' | 'status_update';
-  }>;
+  communicationLog: TeamMessage[];
 }
 
 export enum TeamExecutionStrategy {
@@ -45,7 +44,94 @@ export enum TeamExecutionStrategy {
   SEQUENTIAL = 'sequential',      // Execute tasks one after another
   PIPELINE = 'pipeline',         // Chain outputs between agents
   COLLABORATIVE = 'collaborative', // Agents work together on single task
-  ROLE_BASED = 'role_based'      // Assign based on agent specialization
+  ROLE_BASED = 'role_based',     // Assign based on agent specialization
+  DEBATE = 'debate'              // Draft independently, critique and revise, then converge
+}
+
+export interface TeamPlanSubtask {
+  id: string;
+  description: string;
+  assignee: string;                // Member name, as on the roster
+  requiredCapabilities: string[];
+  dependencies: string[];          // Ids of subtasks whose results this one needs
+}
+
+// Structured plan produced by the team's LLM in planner mode, validated against the roster before it runs
+export interface TeamPlan {
+  strategy: TeamExecutionStrategy;
+  rationale: string;
+  subtasks: TeamPlanSubtask[];
+}
+
+// A member's successful output, as handed to the synthesizer
+export interface TeamContribution {
+  agent: string;
+  task?: string;     // The subtask or delegation the member worked on, when it differs from the team task
+  response: string;
+}
+
+// Single answer merged from all contributions, returned on TeamResult.result.synthesis
+export interface TeamSynthesis {
+  answer: string;
+  conflicts: string[];                                     // Disagreements between members and how the answer treats them
+  attribution: Array<{ agent: string; contribution: string }>; // What the answer takes from each contributing member
+  synthesizedBy: string;                                   // Member name, or 'llm' for the dedicated synthesizer call
+}
+
+// One contribution to a debate, in the order it is recorded on the transcript
+export interface TeamDebateTurn {
+  round: number;                                        // 0 for the independent drafts
+  agent: string;
+  phase: 'draft' | 'revision' | 'vote' | 'judgement';
+  content?: string;                                     // The answer, vote reason or judgement
+  critiques?: Array<{ agent: string; critique: string }>; // Revision turns: critiques of the other answers
+  vote?: string;                                        // Vote turns: member whose answer got the vote
+  error?: string;
+}
+
+export interface TeamDebateConsensus {
+  answer: string;
+  method: 'judge' | 'vote';
+  winner?: string;                 // Member whose answer was chosen; absent when the judge combined answers
+  votes?: Record<string, number>;  // Vote convergence: votes per member
+  rationale?: string;
+}
+
+// One assignment made by the manager of a collaborative task
+export interface TeamDelegation {
+  agentName: string;
+  task: string;
+  round: number; // 1-based delegation round; legacy free-text delegations are all round 1
+}
+
+// Manager's structured reply after reviewing the work so far
+interface ManagerDecision {
+  action: 'delegate' | 'finalize';
+  rationale: string;
+  delegations: Array<{ agentName: string; task: string }>;
+  answer?: string; // Final answer, when finalizing
+}
+
+// Limits on the workspace summary prepended to each member's task
+const MAX_BRIEF_BOARD_ENTRIES = 20;
+const MAX_BRIEF_MESSAGES = 10;
+const BRIEF_VALUE_PREVIEW_LENGTH = 300;
+
+const DEFAULT_DEBATE_ROUNDS = 2;
+
+const DEFAULT_MAX_DELEGATION_ROUNDS = 3;
+const DEFAULT_MAX_DELEGATIONS_PER_ROUND = 5;
+const DEFAULT_DECISION_ATTEMPTS = 2;
+const DEFAULT_MAX_PLAN_SUBTASKS = 8;
+// Debate runs its own rounds over whole answers, so it is chosen explicitly rather than planned
+const PLANNABLE_STRATEGIES = Object.values(TeamExecutionStrategy).filter(strategy => strategy !== TeamExecutionStrategy.DEBATE);
+const DEFAULT_PLANNER_ATTEMPTS = 2;
+
+// Parses the outermost JSON object in an LLM response, ignoring code fences and surrounding prose
+function extractJsonObject(content: string): any {
+  const start = content.indexOf('{');
+  const end = content.lastIndexOf('}');
+  return JSON.parse(start !== -1 && end > start ? content.slice(start, end + 1) : content);
 }
 
 // New comprehensive team context interface
@@ -143,6 +229,10 @@ export class TeamCoordinator {
   private taskQueue: TaskAssignment[];
   private activeExecutions: Map<string, Promise<any>>;
   private toolRegistry: ToolRegistry;
+  private costTracker: CostTracker;
+  private llm: LLMHandler;
+  private taskAgentOptions: Map<string, AgentTaskOptions>; // Cost scopes and cancellation signal handed to members per task
+  private idleWaiters: Map<string, Array<() => void>>; // Queued work waiting for a busy member, by member id
 
   constructor(config: TeamConfig, toolRegistry: ToolRegistry) {
     this.teamId = `team_${Date.now()}`;
@@ -153,6 +243,10 @@ export class TeamCoordinator {
     this.state = ToolLifecycleState.PENDING;
     this.logger = Logger.getInstance(`TeamCoordinator:${config.name}`);
     this.toolRegistry = toolRegistry;
+    this.costTracker = CostTracker.getInstance();
+    this.llm = LLMHandler.getInstance();
+    this.taskAgentOptions = new Map();
+    this.idleWaiters = new Map();
 
     this.sharedContext = {
       teamId: this.teamId,
@@ -171,6 +265,11 @@ export class TeamCoordinator {
     try {
       // Initialize team members
       await this.initializeTeamMembers();
+
+      if (this.config.manager && !this.findMemberByName(this.config.manager)) {
+        throw new Error(`Manager ${this.config.manager} is not a member of team ${this.config.name}`);
+      }
+      this.validateDebateConfig();
       
       // Set up coordination strategy
       await this.setupCoordinationStrategy();
@@ -186,12 +285,13 @@ export class TeamCoordinator {
   }
 
   private async initializeTeamMembers(): Promise<void> {
-    // Get context tools and all available tools from registry
+    // Get context tools, team collaboration tools and all available tools from registry
     const contextTools = this.toolRegistry.getContextTools();
+    const collaborationTools = this.toolRegistry.getTeamTools();
     const availableTools = this.toolRegistry.getAvailableTools();
     
-    // Filter out context tools from general available tools to get standard + custom tools
-    const nonContextTools = availableTools.filter(tool => !contextTools.includes(tool));
+    // Filter out context and collaboration tools from general available tools to get standard + custom tools
+    const nonContextTools = availableTools.filter(tool => !contextTools.includes(tool) && !collaborationTools.includes(tool));
     
     // If team config specifies tools, use those as the base set
     const teamTools = (this.config as any).tools || nonContextTools;
@@ -233,10 +333,10 @@ export class TeamCoordinator {
           });
         }
 
-        // Add context tools to the agent's tool list (like AgentService does)
+        // Add collaboration tools and context tools (like AgentService does) to the agent's tool list
         const enhancedConfig = {
           ...agentConfig,
-          tools: [...validTools, ...contextTools]
+          tools: [...validTools.filter(tool => !collaborationTools.includes(tool)), ...collaborationTools, ...contextTools]
         };
 
         // Create agent executor with shared registry
@@ -291,9 +391,13 @@ export class TeamCoordinator {
     priority?: number;
     timeout?: number;
     requiredCapabilities?: string[];
+    costScopes?: CostScope[]; // Enclosing scopes (e.g. a pipeline run) that the team's spend also counts against
+    signal?: AbortSignal; // Cancels the task and every member agent working on it
+    planner?: boolean; // Plan this task with the team's LLM (or not), overriding config.planner
+    synthesize?: boolean; // Merge member contributions into one answer (or not), overriding config.synthesizer
   }): Promise<TeamResult> {
     const startTime = Date.now();
-    const taskId = `task_${startTime}`;
+    const taskId = `task_${randomUUID()}`;
 
     let taskStringForProcessing: string;
     const originalTaskForReporting: string | TeamTaskPayload = taskInput;
@@ -338,13 +442,48 @@ export class TeamCoordinator {
       originalInputType: typeof taskInput
     });
 
+    // Member spend counts against the team budget as well as any enclosing scope
+    const costScopes: CostScope[] = [
+      { type: 'team', id: this.config.name, budget: this.config.budget },
+      ...(options?.costScopes || [])
+    ];
+    const budgetViolation = this.costTracker.checkBudgets(costScopes);
+    if (budgetViolation) {
+      const { scope, spend, limit } = budgetViolation;
+      const error = `Hard budget exceeded for ${scope.type} ${scope.id} ($${spend.toFixed(4)} spent, limit $${limit}); team task not started.`;
+      this.logger.warn('TeamCoordinator', error, { taskId });
+      return {
+        success: false,
+        error,
+        metrics: { duration: Date.now() - startTime, startTime, endTime: Date.now(), agentCalls: 0, cost: 0 }
+      };
+    }
+    const spendBefore = this.costTracker.getSpend('team', this.config.name).cost;
+    // `timeout` cancels the members like a caller abort would, instead of leaving them running
+    const abort = linkAbortController(
+      [options?.signal],
+      options?.timeout ? { ms: options.timeout, message: `Team task ${taskId} timed out after ${options.timeout}ms` } : undefined
+    );
+    this.taskAgentOptions.set(taskId, { costScopes, signal: abort.signal });
+
     try {
+      if (abort.signal.aborted) {
+        throw toCancellationError(abort.signal);
+      }
+
+      // An explicit strategy skips planning; a plan that cannot be made falls back to the heuristics below
+      const plan = !options?.strategy && this.isPlannerEnabled(options?.planner)
+        ? await this.planTask(taskId, taskStringForProcessing, options?.requiredCapabilities)
+        : undefined;
+
       // Determine execution strategy using the processed string
-      const strategy = options?.strategy || await this.determineOptimalStrategy(taskStringForProcessing, options);
+      const strategy = options?.strategy || plan?.strategy || await this.determineOptimalStrategy(taskStringForProcessing, options);
       
       // Execute based on strategy
       let strategyResult;
-      switch (strategy) {
+      if (plan) {
+        strategyResult = await this.executePlan(taskId, taskStringForProcessing, plan);
+      } else switch (strategy) {
         case TeamExecutionStrategy.PARALLEL:
           strategyResult = await this.executeParallel(taskId, taskStringForProcessing, options);
           break;
@@ -360,12 +499,20 @@ export class TeamCoordinator {
         case TeamExecutionStrategy.ROLE_BASED:
           strategyResult = await this.executeRoleBased(taskId, taskStringForProcessing, options);
           break;
+        case TeamExecutionStrategy.DEBATE:
+          strategyResult = await this.executeDebate(taskId, taskStringForProcessing, options);
+          break;
         default:
           // Fallback or error for unknown strategy if not caught by determineOptimalStrategy
           this.logger.warn('TeamCoordinator', `Unknown strategy determined: ${strategy}, defaulting to collaborative for taskId: ${taskId}`);
           strategyResult = await this.executeCollaborative(taskId, taskStringForProcessing, options);
       }
 
+      // Members stop at their next LLM call or tool once aborted; report the run as cancelled, not failed
+      if (abort.signal.aborted) {
+        throw toCancellationError(abort.signal);
+      }
+
       const endTime = Date.now();
       const duration = endTime - startTime;
 
@@ -403,7 +550,8 @@ export class TeamCoordinator {
             duration,
             startTime,
             endTime,
-            agentCalls: strategyResult?.participatingAgents?.length || 0 // Or more accurately from strategyResult if available
+            agentCalls: strategyResult?.participatingAgents?.length || 0, // Or more accurately from strategyResult if available
+            cost: this.costTracker.getSpend('team', this.config.name).cost - spendBefore
           }
         };
       }
@@ -415,11 +563,19 @@ export class TeamCoordinator {
         participatingAgents: strategyResult.participatingAgents?.length || 0
       });
 
+      const synthesis = this.isSynthesisEnabled(options?.synthesize)
+        ? await this.synthesizeContributions(taskId, taskStringForProcessing, this.collectContributions(strategyResult))
+        : undefined;
+      // A synthesized answer takes precedence over the one a collaborative manager finalized with
+      const answer: string | undefined = synthesis?.answer ?? (strategyResult as any).finalAnswer;
+
       return {
         success: true, // This 'true' is now more reliable
         result: {
           task: originalTaskForReporting, // Report the original input
           strategy,
+          ...(answer !== undefined ? { answer } : {}),
+          ...(synthesis ? { synthesis } : {}),
           executionDetails: strategyResult,
           sharedContext: this.serializeContext(),
           participatingAgents: strategyResult.participatingAgents || [],
@@ -429,7 +585,8 @@ export class TeamCoordinator {
           duration,
           startTime,
           endTime,
-          agentCalls: strategyResult.participatingAgents?.length || 0
+          agentCalls: strategyResult.participatingAgents?.length || 0,
+          cost: this.costTracker.getSpend('team', this.config.name).cost - spendBefore
         }
       };
 
@@ -437,11 +594,18 @@ export class TeamCoordinator {
       const endTime = Date.now();
       const duration = endTime - startTime;
 
-      this.logger.error('TeamCoordinator', `Team task execution CRASHED for taskId: ${taskId}`, {
-        error: error instanceof Error ? error.message : String(error),
-        stack: error instanceof Error ? error.stack : undefined,
-        duration
-      });
+      if (abort.signal.aborted) {
+        this.logger.warn('TeamCoordinator', `Team task cancelled for taskId: ${taskId}`, {
+          reason: error instanceof Error ? error.message : String(error),
+          duration
+        });
+      } else {
+        this.logger.error('TeamCoordinator', `Team task execution CRASHED for taskId: ${taskId}`, {
+          error: error instanceof Error ? error.message : String(error),
+          stack: error instanceof Error ? error.stack : undefined,
+          duration
+        });
+      }
 
       return {
         success: false,
@@ -450,12 +614,22 @@ export class TeamCoordinator {
           duration,
           startTime,
           endTime,
-          agentCalls: 0 // Or attempt to get from partially completed strategyResult if applicable
+          agentCalls: 0, // Or attempt to get from partially completed strategyResult if applicable
+          cost: this.costTracker.getSpend('team', this.config.name).cost - spendBefore
         }
       };
+    } finally {
+      abort.dispose();
+      this.taskAgentOptions.delete(taskId);
+      this.sharedContext.workspaceData.delete(taskId);
     }
   }
 
+  // Team entry point matching the Agent and Pipeline run() surface
+  async run(input: string | TeamTaskPayload, options?: { signal?: AbortSignal }): Promise<TeamResult> {
+    return this.executeTask(input, options);
+  }
+
   private async determineOptimalStrategy(task: string, options?: any): Promise<TeamExecutionStrategy> {
     // Analyze task to determine best strategy
     const taskLower = task.toLowerCase();
@@ -493,6 +667,465 @@ export class TeamCoordinator {
     return TeamExecutionStrategy.COLLABORATIVE;
   }
 
+  private isPlannerEnabled(override?: boolean): boolean {
+    return override ?? (this.config.planner !== undefined && this.config.planner.enabled !== false);
+  }
+
+  // config.manager, else the member named as manager or lead, else the first member
+  private getTeamLead(): TeamMember | undefined {
+    if (this.config.manager) {
+      return this.findMemberByName(this.config.manager);
+    }
+    const members = Array.from(this.members.values());
+    return members.find(m =>
+      m.name.toLowerCase().includes('manager') ||
+      m.name.toLowerCase().includes('lead')
+    ) || members[0];
+  }
+
+  private findMemberByName(name: string): TeamMember | undefined {
+    return Array.from(this.members.values()).find(m => m.name.toLowerCase() === name.toLowerCase());
+  }
+
+  /**
+   * Asks the team's LLM for a structured plan: subtasks assigned to members by capability, their
+   * dependencies, the execution strategy and the rationale for it. A plan that fails validation
+   * goes back to the LLM with the problems listed; returns undefined if no valid plan comes
+   * back within `planner.maxAttempts` or the LLM call fails.
+   */
+  private async planTask(taskId: string, task: string, requiredCapabilities?: string[]): Promise<TeamPlan | undefined> {
+    const planner = this.config.planner || {};
+    const maxAttempts = Math.max(1, planner.maxAttempts ?? DEFAULT_PLANNER_ATTEMPTS);
+    const maxSubtasks = Math.max(1, planner.maxSubtasks ?? DEFAULT_MAX_PLAN_SUBTASKS);
+    const agentOptions = this.taskAgentOptions.get(taskId);
+
+    const messages: LLMMessage[] = [
+      { role: 'system', content: this.buildPlannerPrompt(maxSubtasks) },
+      {
+        role: 'user',
+        content: requiredCapabilities && requiredCapabilities.length > 0
+          ? `Task: ${task}\nRequired capabilities: ${requiredCapabilities.join(', ')}`
+          : `Task: ${task}`
+      }
+    ];
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      let content: string;
+      try {
+        content = await this.completeWithTeamLLM(taskId, messages, planner.llm);
+      } catch (error) {
+        if (isCancellation(error, agentOptions?.signal)) throw error;
+        this.logger.warn('TeamCoordinator', 'Planner LLM call failed; falling back to strategy heuristics', {
+          taskId,
+          error: error instanceof Error ? error.message : String(error)
+        });
+        return undefined;
+      }
+
+      const { plan, errors } = this.validatePlan(content, maxSubtasks);
+      if (plan) {
+        this.logger.info('TeamCoordinator', `Planner chose ${plan.strategy} strategy with ${plan.subtasks.length} subtasks`, {
+          taskId,
+          attempt,
+          rationale: plan.rationale,
+          assignments: plan.subtasks.map(subtask => `${subtask.id} -> ${subtask.assignee}`)
+        });
+        return plan;
+      }
+
+      this.logger.warn('TeamCoordinator', `Planner returned an invalid plan (attempt ${attempt}/${maxAttempts})`, { taskId, errors });
+      messages.push(
+        { role: 'assistant', content },
+        { role: 'user', content: `That plan is invalid:\n- ${errors.join('\n- ')}\nReturn a corrected plan as JSON only.` }
+      );
+    }
+
+    this.logger.warn('TeamCoordinator', 'No valid plan produced; falling back to strategy heuristics', { taskId });
+    return undefined;
+  }
+
+  /**
+   * One JSON-mode completion on behalf of the team, charged to the task's cost scopes and
+   * cancelled with it. Uses `llmConfig` if given, else the team lead's LLM.
+   */
+  private async completeWithTeamLLM(taskId: string, messages: LLMMessage[], llmConfig?: AgentConfig['llm']): Promise<string> {
+    const agentOptions = this.taskAgentOptions.get(taskId);
+    const config = llmConfig ?? this.getTeamLead()?.config.llm;
+    const settings = typeof config === 'object' ? config : undefined;
+
+    const response = await this.llm.complete({
+      messages,
+      provider: settings?.provider,
+      fallbacks: settings?.fallbacks,
+      routing: settings?.routing,
+      expectsJsonResponse: true,
+      signal: agentOptions?.signal,
+      llmConfig: {
+        model: settings?.model || (typeof config === 'string' ? config : undefined),
+        temperature: settings?.temperature ?? 0.2,
+        maxTokens: settings?.maxTokens ?? 2048
+      }
+    });
+    await this.costTracker.recordUsage(response.model, {
+      prompt_tokens: response.usage?.prompt_tokens || 0,
+      completion_tokens: response.usage?.completion_tokens || 0
+    }, agentOptions?.costScopes || []);
+    return response.content || '';
+  }
+
+  // Roster line for planner and manager prompts; context and collaboration tools are on every member, so omitted
+  private describeMember(member: TeamMember): string {
+    const sharedTools = [...this.toolRegistry.getContextTools(), ...this.toolRegistry.getTeamTools()];
+    const tools = member.config.tools.filter(tool => !sharedTools.includes(tool));
+    return `- ${member.name}: ${member.config.description}` +
+      `\n  capabilities: ${member.capabilities.length > 0 ? member.capabilities.join(', ') : 'none declared'}` +
+      `\n  tools: ${tools.length > 0 ? tools.join(', ') : 'none'}`;
+  }
+
+  private buildPlannerPrompt(maxSubtasks: number): string {
+    const roster = Array.from(this.members.values()).map(member => this.describeMember(member)).join('\n');
+
+    return `You plan work for the team "${this.config.name}". Split the task into at most ${maxSubtasks} subtasks, assign each to the team member best suited to it by capability and tools, and choose how the team executes the plan.
+
+Team members:
+${roster}
+
+Execution strategies:
+- ${TeamExecutionStrategy.PARALLEL}: independent subtasks run at the same time
+- ${TeamExecutionStrategy.SEQUENTIAL}: subtasks run one at a time, in order
+- ${TeamExecutionStrategy.PIPELINE}: each subtask builds on the output of the one before it
+- ${TeamExecutionStrategy.COLLABORATIVE}: members contribute different parts that are combined at the end
+- ${TeamExecutionStrategy.ROLE_BASED}: a single specialist handles the whole task
+
+Respond with JSON only, in this shape:
+{
+  "strategy": "${PLANNABLE_STRATEGIES.join('" | "')}",
+  "rationale": "why this strategy and these assignments fit the task",
+  "subtasks": [
+    { "id": "s1", "description": "what to do", "assignee": "member name", "requiredCapabilities": [], "dependencies": [] }
+  ]
+}
+"dependencies" lists the ids of subtasks whose results a subtask needs. Assign only members listed above.`;
+  }
+
+  /**
+   * Parses the planner's response and checks it against the roster: known strategy, known
+   * assignees holding the capabilities they are assigned for, and dependencies that refer to
+   * other subtasks without forming a cycle. Pipeline plans chain subtasks that name no
+   * dependencies to the subtask before them.
+   */
+  private validatePlan(content: string, maxSubtasks: number): { plan?: TeamPlan; errors: string[] } {
+    let raw: any;
+    try {
+      raw = extractJsonObject(content);
+    } catch (error) {
+      return { errors: [`Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+    }
+
+    const errors: string[] = [];
+    const strategies: string[] = PLANNABLE_STRATEGIES;
+    if (!strategies.includes(raw?.strategy)) {
+      errors.push(`strategy must be one of ${strategies.join(', ')}, got ${JSON.stringify(raw?.strategy)}`);
+    }
+    if (!Array.isArray(raw?.subtasks) || raw.subtasks.length === 0) {
+      return { errors: [...errors, 'subtasks must be a non-empty array'] };
+    }
+    if (raw.subtasks.length > maxSubtasks) {
+      errors.push(`At most ${maxSubtasks} subtasks are allowed, got ${raw.subtasks.length}`);
+    }
+
+    const members = Array.from(this.members.values());
+    const subtasks: TeamPlanSubtask[] = [];
+    raw.subtasks.forEach((entry: any, index: number) => {
+      const id = typeof entry?.id === 'string' && entry.id ? entry.id : `s${index + 1}`;
+      if (subtasks.some(subtask => subtask.id === id)) {
+        errors.push(`Duplicate subtask id ${id}`);
+      }
+      if (typeof entry?.description !== 'string' || !entry.description.trim()) {
+        errors.push(`Subtask ${id} has no description`);
+      }
+
+      const member = typeof entry?.assignee === 'string' ? this.findMemberByName(entry.assignee) : undefined;
+      if (!member) {
+        errors.push(`Subtask ${id} is assigned to ${JSON.stringify(entry?.assignee)}, who is not on the team (${members.map(m => m.name).join(', ')})`);
+      }
+      const requiredCapabilities: string[] = Array.isArray(entry?.requiredCapabilities)
+        ? entry.requiredCapabilities.filter((capability: any) => typeof capability === 'string')
+        : [];
+      // Capabilities are advisory unless some other member actually holds the one the assignee lacks
+      for (const capability of requiredCapabilities) {
+        if (member && !member.capabilities.includes(capability)) {
+          const holders = members.filter(m => m.capabilities.includes(capability)).map(m => m.name);
+          if (holders.length > 0) {
+            errors.push(`Subtask ${id} needs capability ${capability}, which ${member.name} lacks (held by ${holders.join(', ')})`);
+          }
+        }
+      }
+
+      subtasks.push({
+        id,
+        description: typeof entry?.description === 'string' ? entry.description : '',
+        assignee: member?.name || String(entry?.assignee),
+        requiredCapabilities,
+        dependencies: Array.isArray(entry?.dependencies) ? entry.dependencies.map(String) : []
+      });
+    });
+
+    const ids = new Set(subtasks.map(subtask => subtask.id));
+    for (const subtask of subtasks) {
+      for (const dep of subtask.dependencies) {
+        if (dep === subtask.id || !ids.has(dep)) {
+          errors.push(`Subtask ${subtask.id} depends on ${dep === subtask.id ? 'itself' : `unknown subtask ${dep}`}`);
+        }
+      }
+    }
+    if (raw.strategy === TeamExecutionStrategy.PIPELINE) {
+      subtasks.forEach((subtask, index) => {
+        if (index > 0 && subtask.dependencies.length === 0) subtask.dependencies = [subtasks[index - 1].id];
+      });
+    }
+
+    // Resolve subtasks in dependency order; anything left over is on a cycle
+    const resolved = new Set<string>();
+    let progressed = true;
+    while (progressed) {
+      progressed = false;
+      for (const subtask of subtasks) {
+        if (!resolved.has(subtask.id) && subtask.dependencies.every(dep => resolved.has(dep) || !ids.has(dep))) {
+          resolved.add(subtask.id);
+          progressed = true;
+        }
+      }
+    }
+    const cyclic = subtasks.filter(subtask => !resolved.has(subtask.id)).map(subtask => subtask.id);
+    if (cyclic.length > 0) {
+      errors.push(`Subtask dependencies form a cycle: ${cyclic.join(', ')}`);
+    }
+
+    if (errors.length > 0) {
+      return { errors };
+    }
+    return {
+      plan: {
+        strategy: raw.strategy as TeamExecutionStrategy,
+        rationale: typeof raw.rationale === 'string' ? raw.rationale : '',
+        subtasks
+      },
+      errors
+    };
+  }
+
+  /**
+   * Runs a validated plan. A subtask starts once its dependencies have succeeded and is given
+   * their results; one whose dependency failed is recorded as failed without running. Sequential
+   * and pipeline plans run one subtask at a time; other strategies run every ready subtask at
+   * once (one per member, up to coordinationRules.maxParallelTasks).
+   */
+  private async executePlan(taskId: string, task: string, plan: TeamPlan) {
+    this.logger.info('TeamCoordinator', `Executing planned ${plan.strategy} strategy for task: ${taskId}`, {
+      subtasks: plan.subtasks.length
+    });
+
+    const oneAtATime = plan.strategy === TeamExecutionStrategy.SEQUENTIAL || plan.strategy === TeamExecutionStrategy.PIPELINE;
+    const limit = oneAtATime ? 1 : Math.max(1, this.config.strategy?.coordinationRules?.maxParallelTasks || plan.subtasks.length);
+    const results = new Map<string, any>();
+    const participatingAgents = new Set<string>();
+    const succeeded = (subtaskId: string) => results.get(subtaskId)?.result?.success === true;
+    let pending = [...plan.subtasks];
+
+    while (pending.length > 0) {
+      const blocked = pending.filter(subtask => subtask.dependencies.some(dep => results.has(dep) && !succeeded(dep)));
+      if (blocked.length > 0) {
+        for (const subtask of blocked) {
+          const failedDep = subtask.dependencies.find(dep => results.has(dep) && !succeeded(dep));
+          results.set(subtask.id, { subtaskId: subtask.id, agent: subtask.assignee, task: subtask.description, error: `Dependency ${failedDep} failed` });
+        }
+        pending = pending.filter(subtask => !blocked.includes(subtask));
+        continue;
+      }
+
+      // A member works on one subtask at a time
+      const wave: TeamPlanSubtask[] = [];
+      for (const subtask of pending) {
+        if (wave.length >= limit) break;
+        if (subtask.dependencies.every(dep => results.has(dep)) && !wave.some(other => other.assignee === subtask.assignee)) {
+          wave.push(subtask);
+        }
+      }
+      if (wave.length === 0) break; // Not reachable for a validated plan, which has no cycles
+      pending = pending.filter(subtask => !wave.includes(subtask));
+
+      await Promise.all(wave.map(async subtask => {
+        const member = this.findMemberByName(subtask.assignee)!;
+        participatingAgents.add(member.name);
+        const dependencyResults = subtask.dependencies.map(dep => results.get(dep));
+        const prompt = [
+          `Overall task: ${task}`,
+          `Your subtask: ${subtask.description}`,
+          ...(dependencyResults.length > 0 ? ['Results you build on:', ...dependencyResults.map(dep =>
+            `[${dep.subtaskId}, ${dep.agent}]: ${dep.result?.result?.response || dep.result?.response || JSON.stringify(dep.result?.result)}`
+          )] : [])
+        ].join('\n\n');
+
+        try {
+          const result = await this.executeAgentTask(member, prompt, taskId);
+          results.set(subtask.id, { subtaskId: subtask.id, agent: member.name, task: subtask.description, result });
+          await this.shareResultWithTeam(taskId, member.name, result, 'data_share');
+        } catch (error) {
+          results.set(subtask.id, {
+            subtaskId: subtask.id,
+            agent: member.name,
+            task: subtask.description,
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+      }));
+    }
+
+    const plannedResults = plan.subtasks.map(subtask => results.get(subtask.id)).filter(Boolean);
+    const completed = plannedResults.filter(result => result.result?.success === true).length;
+
+    return {
+      strategy: plan.strategy,
+      plan,
+      participatingAgents: Array.from(participatingAgents),
+      plannedResults,
+      aggregatedResult: await this.aggregateResults(plannedResults, plan.strategy),
+      executionSummary: `${completed}/${plan.subtasks.length} planned subtasks completed by ${participatingAgents.size} agents using the ${plan.strategy} strategy`
+    };
+  }
+
+  private isSynthesisEnabled(override?: boolean): boolean {
+    return override ?? (this.config.synthesizer !== undefined && this.config.synthesizer.enabled !== false);
+  }
+
+  // Successful member outputs from whichever result shape the strategy produced
+  private collectContributions(strategyResult: any): TeamContribution[] {
+    const entries: any[] = strategyResult?.plannedResults
+      || strategyResult?.individualContributions
+      || strategyResult?.individualResults
+      || strategyResult?.pipelineResults
+      || (strategyResult?.result ? [{ agent: strategyResult.participatingAgents?.[0], result: strategyResult.result }] : []);
+
+    return entries
+      .filter(entry => entry.agent && entry.result?.success && !entry.error)
+      .map(entry => {
+        const response = entry.result?.result?.response ?? entry.result?.response;
+        return {
+          agent: entry.agent,
+          ...(entry.task ? { task: entry.task } : {}),
+          response: typeof response === 'string' ? response : JSON.stringify(response ?? entry.result?.result)
+        };
+      })
+      .filter(contribution => contribution.response);
+  }
+
+  /**
+   * Merges member contributions into one answer with conflict notes and per-agent attribution,
+   * written by `synthesizer.member` if set, else by a dedicated call to the synthesizer LLM. A
+   * single contribution is the answer as-is. Returns undefined if synthesis fails, leaving the
+   * concatenated aggregate in executionDetails as the only result.
+   */
+  private async synthesizeContributions(taskId: string, task: string, contributions: TeamContribution[]): Promise<TeamSynthesis | undefined> {
+    if (contributions.length === 0) {
+      return undefined;
+    }
+    if (contributions.length === 1) {
+      const [only] = contributions;
+      return {
+        answer: only.response,
+        conflicts: [],
+        attribution: [{ agent: only.agent, contribution: only.task || 'Entire answer' }],
+        synthesizedBy: only.agent
+      };
+    }
+
+    const synthesizer = this.config.synthesizer || {};
+    const member = synthesizer.member ? this.findMemberByName(synthesizer.member) : undefined;
+    if (synthesizer.member && !member) {
+      this.logger.warn('TeamCoordinator', `Synthesizer member ${synthesizer.member} is not on the team; using the synthesizer LLM`, { taskId });
+    }
+    const messages: LLMMessage[] = [
+      { role: 'system', content: this.buildSynthesisPrompt(synthesizer.instructions) },
+      {
+        role: 'user',
+        content: `Task: ${task}\n\nContributions:\n\n` + contributions.map(contribution =>
+          `[${contribution.agent}${contribution.task ? ` - ${contribution.task}` : ''}]:\n${contribution.response}`
+        ).join('\n\n')
+      }
+    ];
+
+    try {
+      let content: string;
+      if (member) {
+        const result = await this.executeAgentTask(member, messages.map(message => message.content).join('\n\n'), taskId);
+        if (!result?.success) {
+          throw new Error(result?.error || `${member.name} did not complete the synthesis`);
+        }
+        const response = result.result?.response ?? result.response;
+        content = typeof response === 'string' ? response : JSON.stringify(response);
+      } else {
+        content = await this.completeWithTeamLLM(taskId, messages, synthesizer.llm);
+      }
+
+      const synthesis = this.parseSynthesis(content, contributions, member?.name || 'llm');
+      this.logger.info('TeamCoordinator', `Synthesized ${contributions.length} contributions`, {
+        taskId,
+        synthesizedBy: synthesis.synthesizedBy,
+        conflicts: synthesis.conflicts.length
+      });
+      return synthesis;
+    } catch (error) {
+      if (isCancellation(error, this.taskAgentOptions.get(taskId)?.signal)) throw error;
+      this.logger.warn('TeamCoordinator', 'Synthesis failed; returning the aggregated contributions only', {
+        taskId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return undefined;
+    }
+  }
+
+  private buildSynthesisPrompt(instructions?: string): string {
+    return `You combine the contributions of the members of the team "${this.config.name}" into one final answer to the task. Write the answer as a single coherent deliverable that stands on its own; do not list the contributions one after another or mention the team process.
+Where contributions disagree, resolve the disagreement in the answer when the evidence allows it, and record every disagreement in "conflicts" with how the answer treats it.
+${instructions ? `\n${instructions}\n` : ''}
+Respond with JSON only, in this shape:
+{
+  "answer": "the final answer",
+  "conflicts": ["what the members disagreed on and how the answer resolves it"],
+  "attribution": [{ "agent": "member name", "contribution": "what the answer takes from this member" }]
+}`;
+  }
+
+  // Attribution is limited to actual contributors; any the synthesizer left out are listed as unused
+  private parseSynthesis(content: string, contributions: TeamContribution[], synthesizedBy: string): TeamSynthesis {
+    const raw = extractJsonObject(content);
+    if (typeof raw?.answer !== 'string' || !raw.answer.trim()) {
+      throw new Error('Synthesis response has no answer');
+    }
+
+    const contributors = Array.from(new Set(contributions.map(contribution => contribution.agent)));
+    const attribution: TeamSynthesis['attribution'] = [];
+    for (const entry of Array.isArray(raw.attribution) ? raw.attribution : []) {
+      const agent = contributors.find(name => typeof entry?.agent === 'string' && name.toLowerCase() === entry.agent.toLowerCase());
+      if (agent && typeof entry.contribution === 'string' && !attribution.some(existing => existing.agent === agent)) {
+        attribution.push({ agent, contribution: entry.contribution });
+      }
+    }
+    for (const agent of contributors) {
+      if (!attribution.some(existing => existing.agent === agent)) {
+        attribution.push({ agent, contribution: 'Not used in the final answer' });
+      }
+    }
+
+    return {
+      answer: raw.answer,
+      conflicts: Array.isArray(raw.conflicts) ? raw.conflicts.filter((conflict: any) => typeof conflict === 'string') : [],
+      attribution,
+      synthesizedBy
+    };
+  }
+
   private async executeParallel(taskId: string, task: string, _options?: any) {
     this.logger.info('TeamCoordinator', `Executing parallel strategy for task: ${taskId}`);
     
@@ -637,14 +1270,18 @@ export class TeamCoordinator {
     };
   }
 
+  /**
+   * The manager works the task first, then runs up to `delegation.maxRounds` rounds of
+   * delegate-and-review: each round it returns a schema-checked decision to delegate subtasks
+   * to named members or to finalize with an answer. Delegations to busy members wait for them.
+   * If the manager's LLM cannot produce a structured decision at all, the legacy DELEGATIONS
+   * block in its response (or automatic decomposition) is used for a single round.
+   */
   private async executeCollaborative(taskId: string, task: string, _options?: any) {
     this.logger.info('TeamCoordinator', `Executing collaborative strategy for task: ${taskId}`);
     
-    // Step 1: Find the manager agent (or use first agent as manager)
-    const managerAgent = Array.from(this.members.values()).find(m => 
-      m.name.toLowerCase().includes('manager') || 
-      m.name.toLowerCase().includes('lead')
-    ) || Array.from(this.members.values())[0];
+    // Step 1: Find the manager agent (config.manager, or the heuristic lead)
+    const managerAgent = this.getTeamLead();
     
     if (!managerAgent) {
       throw new Error('No manager agent available for collaboration');
@@ -652,9 +1289,12 @@ export class TeamCoordinator {
 
     const participatingAgents: string[] = [managerAgent.name];
     const results: any[] = [];
+    const delegations: TeamDelegation[] = [];
+    const managerDecisions: Array<ManagerDecision & { round: number }> = [];
+    const maxRounds = Math.max(0, this.config.delegation?.maxRounds ?? DEFAULT_MAX_DELEGATION_ROUNDS);
 
-    // Step 2: Have manager analyze and create delegation plan
-    this.logger.info('TeamCoordinator', `Manager ${managerAgent.name} creating delegation plan`);
+    // Step 2: Manager works the task and analyses it
+    this.logger.info('TeamCoordinator', `Manager ${managerAgent.name} analysing task`);
     const managerResult = await this.executeAgentTask(managerAgent, task, taskId);
     
     results.push({
@@ -663,79 +1303,34 @@ export class TeamCoordinator {
       result: managerResult
     });
 
-    // Step 3: Parse manager's response for delegations
-    const delegations = this.parseDelegations(managerResult);
-    
-    if (delegations.length > 0) {
-      this.logger.info('TeamCoordinator', `Manager created ${delegations.length} delegations`);
-      
-      // Step 4: Execute each delegation
-      for (const delegation of delegations) {
-        const targetMember = Array.from(this.members.values()).find(m => 
-          m.name === delegation.agentName || 
-          m.name.toLowerCase() === delegation.agentName.toLowerCase()
-        );
-        
-        if (targetMember && targetMember.status === 'idle') {
-          participatingAgents.push(targetMember.name);
-          
-          try {
-            this.logger.info('TeamCoordinator', `Executing delegation to ${targetMember.name}: ${delegation.task}`);
-            const delegationResult = await this.executeAgentTask(targetMember, delegation.task, taskId);
-            
-            results.push({
-              agent: targetMember.name,
-              role: 'delegated',
-              task: delegation.task,
-              result: delegationResult
-            });
-            
-            // Share result with team
-            await this.shareResultWithTeam(targetMember.name, delegationResult, 'data_share');
-            
-          } catch (error) {
-            results.push({
-              agent: targetMember.name,
-              role: 'delegated',
-              task: delegation.task,
-              error: error instanceof Error ? error.message : String(error)
-            });
-          }
-        } else {
-          this.logger.warn('TeamCoordinator', `Could not delegate to ${delegation.agentName} - agent not found or busy`);
+    // Step 3: Delegate, review and re-delegate until the manager finalizes or runs out of rounds
+    let finalAnswer: string | undefined;
+    for (let round = 1; round <= maxRounds + 1; round++) {
+      const canDelegate = round <= maxRounds;
+      const decision = await this.getManagerDecision(taskId, task, managerAgent, results, round, canDelegate);
+
+      if (!decision) {
+        if (round === 1 && canDelegate) {
+          await this.runLegacyDelegation(taskId, task, managerAgent, managerResult, results, delegations, participatingAgents);
         }
+        break;
       }
-    } else {
-      // Fallback to automatic task decomposition if no delegations found
-      this.logger.info('TeamCoordinator', 'No delegations found, using automatic task decomposition');
-      const subtasks = await this.decomposeTaskForCollaboration(task);
-      
-      let agentIndex = 1; // Start from 1 since manager is 0
-      for (const subtask of subtasks) {
-        const members = Array.from(this.members.values());
-        if (agentIndex < members.length && members[agentIndex].status === 'idle') {
-          const member = members[agentIndex];
-          participatingAgents.push(member.name);
-          
-          try {
-            const result = await this.executeAgentTask(member, subtask, taskId);
-            results.push({
-              agent: member.name,
-              role: 'automatic',
-              task: subtask,
-              result
-            });
-            await this.shareResultWithTeam(member.name, result, 'data_share');
-          } catch (error) {
-            results.push({
-              agent: member.name,
-              role: 'automatic',
-              task: subtask,
-              error: error instanceof Error ? error.message : String(error)
-            });
-          }
-          agentIndex++;
-        }
+
+      managerDecisions.push({ ...decision, round });
+      if (decision.action === 'finalize') {
+        finalAnswer = decision.answer;
+        this.logger.info('TeamCoordinator', `Manager ${managerAgent.name} finalized after ${round - 1} delegation rounds`, { taskId });
+        break;
+      }
+
+      this.logger.info('TeamCoordinator', `Manager ${managerAgent.name} delegated ${decision.delegations.length} subtasks in round ${round}`, {
+        taskId,
+        rationale: decision.rationale
+      });
+      for (const delegation of decision.delegations) {
+        const member = this.findMemberByName(delegation.agentName)!;
+        delegations.push({ agentName: member.name, task: delegation.task, round });
+        await this.runDelegation(taskId, member, delegation.task, 'delegated', round, results, participatingAgents);
       }
     }
 
@@ -747,9 +1342,480 @@ export class TeamCoordinator {
       participatingAgents,
       managerAnalysis: managerResult,
       delegations,
+      managerDecisions,
+      rounds: new Set(delegations.map(delegation => delegation.round)).size,
+      ...(finalAnswer !== undefined ? { finalAnswer } : {}),
       individualContributions: results,
       synthesizedResult,
-      executionSummary: `${participatingAgents.length} agents collaborated with ${delegations.length} manager delegations`
+      executionSummary: `${new Set(participatingAgents).size} agents collaborated with ${delegations.length} manager delegations`
+    };
+  }
+
+  // Runs one delegated subtask, waiting for the member if it is busy with other work
+  private async runDelegation(
+    taskId: string,
+    member: TeamMember,
+    subtask: string,
+    role: 'delegated' | 'automatic',
+    round: number,
+    results: any[],
+    participatingAgents: string[]
+  ): Promise<void> {
+    if (!participatingAgents.includes(member.name)) {
+      participatingAgents.push(member.name);
+    }
+
+    try {
+      await this.waitForMember(member, taskId);
+      this.logger.info('TeamCoordinator', `Executing delegation to ${member.name}: ${subtask}`);
+      const result = await this.executeAgentTask(member, subtask, taskId);
+      results.push({ agent: member.name, role, task: subtask, round, result });
+
+      // Share result with team
+      await this.shareResultWithTeam(taskId, member.name, result, 'data_share');
+    } catch (error) {
+      if (isCancellation(error, this.taskAgentOptions.get(taskId)?.signal)) throw error;
+      results.push({
+        agent: member.name,
+        role,
+        task: subtask,
+        round,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  // Pre-protocol behaviour: scrape DELEGATIONS from the manager's response, else decompose by keyword
+  private async runLegacyDelegation(
+    taskId: string,
+    task: string,
+    managerAgent: TeamMember,
+    managerResult: any,
+    results: any[],
+    delegations: TeamDelegation[],
+    participatingAgents: string[]
+  ): Promise<void> {
+    const parsed = this.parseDelegations(managerResult);
+    
+    if (parsed.length > 0) {
+      this.logger.info('TeamCoordinator', `Manager created ${parsed.length} delegations`);
+      
+      for (const delegation of parsed) {
+        const targetMember = this.findMemberByName(delegation.agentName);
+        if (!targetMember) {
+          this.logger.warn('TeamCoordinator', `Could not delegate to ${delegation.agentName} - agent not found`);
+          continue;
+        }
+        delegations.push({ agentName: targetMember.name, task: delegation.task, round: 1 });
+        await this.runDelegation(taskId, targetMember, delegation.task, 'delegated', 1, results, participatingAgents);
+      }
+      return;
+    }
+
+    // Fallback to automatic task decomposition if no delegations found
+    this.logger.info('TeamCoordinator', 'No delegations found, using automatic task decomposition');
+    const subtasks = await this.decomposeTaskForCollaboration(task);
+    const others = Array.from(this.members.values()).filter(member => member !== managerAgent);
+    for (const [index, subtask] of subtasks.entries()) {
+      if (index >= others.length) break;
+      await this.runDelegation(taskId, others[index], subtask, 'automatic', 1, results, participatingAgents);
+    }
+  }
+
+  /**
+   * Asks the manager's LLM, in JSON mode, whether to delegate more work or finalize, given the
+   * results so far. A reply that fails the delegation schema goes back with the problems listed,
+   * up to `delegation.maxAttempts` times. Returns undefined if no valid decision comes back.
+   */
+  private async getManagerDecision(
+    taskId: string,
+    task: string,
+    manager: TeamMember,
+    results: any[],
+    round: number,
+    canDelegate: boolean
+  ): Promise<ManagerDecision | undefined> {
+    const maxAttempts = Math.max(1, this.config.delegation?.maxAttempts ?? DEFAULT_DECISION_ATTEMPTS);
+    const maxDelegations = Math.max(1, this.config.delegation?.maxDelegationsPerRound ?? DEFAULT_MAX_DELEGATIONS_PER_ROUND);
+    const work = results.map(entry =>
+      `[${entry.agent}${entry.role === 'manager' ? ' (you)' : ''}${entry.task ? ` - ${entry.task}` : ''}]: ` +
+      (entry.error || !entry.result?.success
+        ? `FAILED: ${entry.error || entry.result?.error || 'unknown error'}`
+        : String(entry.result?.result?.response ?? entry.result?.response ?? JSON.stringify(entry.result?.result)))
+    ).join('\n\n');
+
+    const messages: LLMMessage[] = [
+      { role: 'system', content: this.buildManagerPrompt(manager, maxDelegations) },
+      {
+        role: 'user',
+        content: `Task: ${task}\n\nWork so far:\n\n${work}\n\n` + (canDelegate
+          ? `Delegation round ${round}. Delegate further subtasks, or finalize if the work so far answers the task.`
+          : 'No delegation rounds remain. Finalize now with the best answer the work so far supports.')
+      }
+    ];
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      let content: string;
+      try {
+        content = await this.completeWithTeamLLM(taskId, messages, manager.config.llm);
+      } catch (error) {
+        if (isCancellation(error, this.taskAgentOptions.get(taskId)?.signal)) throw error;
+        this.logger.warn('TeamCoordinator', `Manager decision call failed in round ${round}`, {
+          taskId,
+          error: error instanceof Error ? error.message : String(error)
+        });
+        return undefined;
+      }
+
+      const { decision, errors } = this.validateManagerDecision(content, manager, canDelegate, maxDelegations);
+      if (decision) {
+        return decision;
+      }
+
+      this.logger.warn('TeamCoordinator', `Manager returned an invalid decision (attempt ${attempt}/${maxAttempts})`, { taskId, round, errors });
+      messages.push(
+        { role: 'assistant', content },
+        { role: 'user', content: `That decision is invalid:\n- ${errors.join('\n- ')}\nReturn a corrected decision as JSON only.` }
+      );
+    }
+    return undefined;
+  }
+
+  private buildManagerPrompt(manager: TeamMember, maxDelegations: number): string {
+    const roster = Array.from(this.members.values())
+      .filter(member => member !== manager)
+      .map(member => this.describeMember(member))
+      .join('\n');
+
+    return `You are ${manager.name}, the manager of the team "${this.config.name}". ${manager.config.description}
+You delegate subtasks to team members, review what they return, and either delegate follow-up work (for example to fix a failed or incomplete result) or finalize with the answer to the task.
+
+Team members you can delegate to:
+${roster}
+
+Respond with JSON only, in one of these shapes:
+{ "action": "delegate", "rationale": "why this work is needed", "delegations": [{ "agent": "member name", "task": "self-contained instructions" }] }
+{ "action": "finalize", "rationale": "why the work is complete", "answer": "the final answer to the task" }
+Delegate at most ${maxDelegations} subtasks per round, only to the members listed above.`;
+  }
+
+  private validateManagerDecision(
+    content: string,
+    manager: TeamMember,
+    canDelegate: boolean,
+    maxDelegations: number
+  ): { decision?: ManagerDecision; errors: string[] } {
+    let raw: any;
+    try {
+      raw = extractJsonObject(content);
+    } catch (error) {
+      return { errors: [`Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+    }
+
+    const errors: string[] = [];
+    const rationale = typeof raw?.rationale === 'string' ? raw.rationale : '';
+    if (raw?.action === 'finalize') {
+      if (typeof raw.answer !== 'string' || !raw.answer.trim()) {
+        errors.push('answer must be a non-empty string when finalizing');
+      }
+      return errors.length > 0 ? { errors } : { decision: { action: 'finalize', rationale, delegations: [], answer: raw.answer }, errors };
+    }
+    if (raw?.action !== 'delegate') {
+      return { errors: [`action must be "delegate" or "finalize", got ${JSON.stringify(raw?.action)}`] };
+    }
+    if (!canDelegate) {
+      return { errors: ['No delegation rounds remain; action must be "finalize"'] };
+    }
+    if (!Array.isArray(raw.delegations) || raw.delegations.length === 0) {
+      return { errors: ['delegations must be a non-empty array when delegating'] };
+    }
+    if (raw.delegations.length > maxDelegations) {
+      errors.push(`At most ${maxDelegations} delegations are allowed per round, got ${raw.delegations.length}`);
+    }
+
+    const delegations: ManagerDecision['delegations'] = [];
+    raw.delegations.forEach((entry: any, index: number) => {
+      const member = typeof entry?.agent === 'string' ? this.findMemberByName(entry.agent) : undefined;
+      if (!member || member === manager) {
+        errors.push(`delegations[${index}].agent ${JSON.stringify(entry?.agent)} is not a member you can delegate to`);
+      }
+      if (typeof entry?.task !== 'string' || !entry.task.trim()) {
+        errors.push(`delegations[${index}].task must be a non-empty string`);
+      }
+      if (member && typeof entry?.task === 'string') {
+        delegations.push({ agentName: member.name, task: entry.task });
+      }
+    });
+
+    return errors.length > 0 ? { errors } : { decision: { action: 'delegate', rationale, delegations }, errors };
+  }
+
+  // Resolves once the member is not busy; waiters are woken when any of its tasks finishes
+  private async waitForMember(member: TeamMember, taskId: string): Promise<void> {
+    const signal = this.taskAgentOptions.get(taskId)?.signal;
+    if (member.status === 'busy') {
+      this.logger.info('TeamCoordinator', `${member.name} is busy; delegation queued`, { taskId });
+    }
+    while (member.status === 'busy') {
+      await raceCancellation(new Promise<void>(resolve => {
+        const waiters = this.idleWaiters.get(member.id) || [];
+        waiters.push(resolve);
+        this.idleWaiters.set(member.id, waiters);
+      }), signal);
+    }
+  }
+
+  private validateDebateConfig(): void {
+    const debate = this.config.debate;
+    if (!debate) return;
+
+    for (const name of [...(debate.participants || []), ...(debate.judge ? [debate.judge] : [])]) {
+      if (!this.findMemberByName(name)) {
+        throw new Error(`Debate member ${name} is not a member of team ${this.config.name}`);
+      }
+    }
+    if (debate.convergence === 'judge' && !debate.judge) {
+      throw new Error(`Team ${this.config.name} converges debates by judge but names no judge`);
+    }
+  }
+
+  /**
+   * Participants draft answers independently, then for `debate.rounds` rounds critique each
+   * other's answers and revise their own in light of the critiques they received. The debate
+   * stops early once a round changes no answer. A judge then decides the consensus, or
+   * participants vote for the strongest answer other than their own.
+   */
+  private async executeDebate(taskId: string, task: string, _options?: any) {
+    this.logger.info('TeamCoordinator', `Executing debate strategy for task: ${taskId}`);
+
+    const settings = this.config.debate || {};
+    const judge = settings.judge ? this.findMemberByName(settings.judge) : undefined;
+    const method = settings.convergence || (judge ? 'judge' : 'vote');
+    const participants = settings.participants
+      ? settings.participants.map(name => this.findMemberByName(name)!)
+      : Array.from(this.members.values()).filter(member => member !== judge);
+    if (participants.length < 2) {
+      throw new Error(`The debate strategy needs at least two participants; team ${this.config.name} has ${participants.length}`);
+    }
+
+    const maxRounds = Math.max(0, settings.rounds ?? DEFAULT_DEBATE_ROUNDS);
+    const transcript: TeamDebateTurn[] = [];
+    const answers = new Map<string, string>();
+    let critiquesReceived = new Map<string, Array<{ from: string; critique: string }>>();
+
+    // Independent drafts
+    const drafts = await Promise.all(participants.map(member =>
+      this.runDebateTurn(taskId, member, `${task}\n\nDraft your own answer to this task. Other members are drafting theirs independently and will critique it.`)
+    ));
+    drafts.forEach((draft, index) => {
+      const agent = participants[index].name;
+      transcript.push({ round: 0, agent, phase: 'draft', ...draft });
+      if (draft.content !== undefined) answers.set(agent, draft.content);
+    });
+    if (answers.size < 2) {
+      throw new Error(`Debate needs at least two drafts to proceed; ${answers.size} of ${participants.length} participants produced one`);
+    }
+
+    // Critique and revise
+    let rounds = 0;
+    for (let round = 1; round <= maxRounds; round++) {
+      const active = participants.filter(member => answers.has(member.name));
+      const turns = await Promise.all(active.map(member =>
+        this.runDebateTurn(taskId, member, this.buildRevisionPrompt(task, member.name, answers, critiquesReceived.get(member.name) || []))
+      ));
+      rounds = round;
+
+      const nextCritiques = new Map<string, Array<{ from: string; critique: string }>>();
+      let changed = 0;
+      turns.forEach((turn, index) => {
+        const agent = active[index].name;
+        if (turn.content === undefined) {
+          transcript.push({ round, agent, phase: 'revision', error: turn.error });
+          return;
+        }
+
+        const { answer, critiques } = this.parseRevision(turn.content, agent, active.map(member => member.name));
+        transcript.push({ round, agent, phase: 'revision', content: answer, critiques });
+        for (const { agent: target, critique } of critiques) {
+          nextCritiques.set(target, [...(nextCritiques.get(target) || []), { from: agent, critique }]);
+        }
+        if (answer.trim() !== answers.get(agent)!.trim()) changed++;
+        answers.set(agent, answer);
+      });
+      critiquesReceived = nextCritiques;
+
+      this.logger.info('TeamCoordinator', `Debate round ${round} complete`, { taskId, revisedAnswers: changed });
+      if (changed === 0) {
+        this.logger.info('TeamCoordinator', `Debate converged after round ${round}: no answer changed`, { taskId });
+        break;
+      }
+    }
+
+    const consensus = method === 'judge' && judge
+      ? await this.judgeDebate(taskId, task, judge, answers, critiquesReceived, transcript)
+      : await this.voteOnDebate(taskId, task, participants.filter(member => answers.has(member.name)), answers, transcript);
+
+    const participatingAgents = participants.map(member => member.name);
+    if (judge && !participatingAgents.includes(judge.name)) {
+      participatingAgents.push(judge.name);
+    }
+
+    return {
+      strategy: 'debate',
+      participatingAgents,
+      transcript,
+      finalAnswers: Object.fromEntries(answers),
+      ...(consensus ? { consensus, finalAnswer: consensus.answer } : {}),
+      rounds,
+      executionSummary: consensus
+        ? `${answers.size} agents debated over ${rounds} critique rounds and converged by ${method}${consensus.winner ? ` on ${consensus.winner}'s answer` : ''}`
+        : `${answers.size} agents debated over ${rounds} critique rounds but did not converge by ${method}`
+    };
+  }
+
+  // One member turn; failures are returned for the transcript rather than thrown
+  private async runDebateTurn(taskId: string, member: TeamMember, prompt: string): Promise<{ content?: string; error?: string }> {
+    try {
+      const result = await this.executeAgentTask(member, prompt, taskId);
+      if (!result?.success) {
+        return { error: result?.error || `${member.name} did not respond` };
+      }
+      const response = result.result?.response ?? result.response;
+      return { content: typeof response === 'string' ? response : JSON.stringify(result.result) };
+    } catch (error) {
+      if (isCancellation(error, this.taskAgentOptions.get(taskId)?.signal)) throw error;
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  private buildRevisionPrompt(
+    task: string,
+    agent: string,
+    answers: Map<string, string>,
+    critiques: Array<{ from: string; critique: string }>
+  ): string {
+    const others = Array.from(answers.entries()).filter(([name]) => name !== agent);
+    return [
+      `Task: ${task}`,
+      `Your current answer:\n${answers.get(agent)}`,
+      `Other members' answers:\n\n${others.map(([name, answer]) => `[${name}]:\n${answer}`).join('\n\n')}`,
+      ...(critiques.length > 0 ? [`Critiques of your answer from the last round:\n${critiques.map(c => `- ${c.from}: ${c.critique}`).join('\n')}`] : []),
+      'Critique each of the other answers: point out errors, gaps and unsupported claims. Then revise your own answer, keeping what holds up and fixing what the critiques and the other answers show to be wrong or missing.',
+      'Respond with JSON only: {"critiques": [{"agent": "member name", "critique": "..."}], "revisedAnswer": "your complete revised answer"}'
+    ].join('\n\n');
+  }
+
+  // A response that is not the requested JSON is taken as the revised answer with no critiques
+  private parseRevision(content: string, agent: string, participants: string[]): { answer: string; critiques: Array<{ agent: string; critique: string }> } {
+    let raw: any;
+    try {
+      raw = extractJsonObject(content);
+    } catch {
+      return { answer: content, critiques: [] };
+    }
+    if (typeof raw?.revisedAnswer !== 'string' || !raw.revisedAnswer.trim()) {
+      return { answer: content, critiques: [] };
+    }
+
+    const critiques: Array<{ agent: string; critique: string }> = [];
+    for (const entry of Array.isArray(raw.critiques) ? raw.critiques : []) {
+      const target = participants.find(name => typeof entry?.agent === 'string' && name.toLowerCase() === entry.agent.toLowerCase());
+      if (target && target !== agent && typeof entry.critique === 'string' && entry.critique.trim()) {
+        critiques.push({ agent: target, critique: entry.critique });
+      }
+    }
+    return { answer: raw.revisedAnswer, critiques };
+  }
+
+  private async judgeDebate(
+    taskId: string,
+    task: string,
+    judge: TeamMember,
+    answers: Map<string, string>,
+    lastCritiques: Map<string, Array<{ from: string; critique: string }>>,
+    transcript: TeamDebateTurn[]
+  ): Promise<TeamDebateConsensus | undefined> {
+    const prompt = [
+      `Task: ${task}`,
+      `Team members debated this task and arrived at these final answers:\n\n${Array.from(answers.entries()).map(([name, answer]) => {
+        const critiques = lastCritiques.get(name) || [];
+        return `[${name}]:\n${answer}` + (critiques.length > 0 ? `\nOutstanding critiques:\n${critiques.map(c => `- ${c.from}: ${c.critique}`).join('\n')}` : '');
+      }).join('\n\n')}`,
+      'As judge, decide the consensus: choose the strongest answer, or combine the sound parts of several into one answer.',
+      'Respond with JSON only: {"winner": "member name, or null if you combined answers", "answer": "the final consensus answer", "rationale": "why"}'
+    ].join('\n\n');
+
+    const turn = await this.runDebateTurn(taskId, judge, prompt);
+    if (turn.content === undefined) {
+      transcript.push({ round: transcript[transcript.length - 1].round, agent: judge.name, phase: 'judgement', error: turn.error });
+      return undefined;
+    }
+
+    let raw: any;
+    try {
+      raw = extractJsonObject(turn.content);
+    } catch {
+      raw = undefined;
+    }
+    const winner = typeof raw?.winner === 'string' ? Array.from(answers.keys()).find(name => name.toLowerCase() === raw.winner.toLowerCase()) : undefined;
+    const answer = typeof raw?.answer === 'string' && raw.answer.trim() ? raw.answer : winner ? answers.get(winner)! : turn.content;
+    const rationale = typeof raw?.rationale === 'string' ? raw.rationale : undefined;
+
+    transcript.push({ round: transcript[transcript.length - 1].round, agent: judge.name, phase: 'judgement', content: rationale ?? answer });
+    return { answer, method: 'judge', ...(winner ? { winner } : {}), ...(rationale ? { rationale } : {}) };
+  }
+
+  // Ties go to the participant listed first
+  private async voteOnDebate(
+    taskId: string,
+    task: string,
+    voters: TeamMember[],
+    answers: Map<string, string>,
+    transcript: TeamDebateTurn[]
+  ): Promise<TeamDebateConsensus | undefined> {
+    const round = transcript[transcript.length - 1].round;
+    const ballots = await Promise.all(voters.map(member => this.runDebateTurn(taskId, member, [
+      `Task: ${task}`,
+      `Final answers:\n\n${Array.from(answers.entries()).map(([name, answer]) => `[${name}]:\n${answer}`).join('\n\n')}`,
+      'Vote for the strongest answer other than your own.',
+      'Respond with JSON only: {"vote": "member name", "reason": "why"}'
+    ].join('\n\n'))));
+
+    const votes: Record<string, number> = Object.fromEntries(Array.from(answers.keys()).map(name => [name, 0]));
+    ballots.forEach((ballot, index) => {
+      const agent = voters[index].name;
+      if (ballot.content === undefined) {
+        transcript.push({ round, agent, phase: 'vote', error: ballot.error });
+        return;
+      }
+
+      let raw: any;
+      try {
+        raw = extractJsonObject(ballot.content);
+      } catch {
+        raw = undefined;
+      }
+      const vote = typeof raw?.vote === 'string' ? Array.from(answers.keys()).find(name => name.toLowerCase() === raw.vote.toLowerCase()) : undefined;
+      if (!vote || vote === agent) {
+        transcript.push({ round, agent, phase: 'vote', content: ballot.content, error: `Invalid vote ${JSON.stringify(raw?.vote)}: must name another participant` });
+        return;
+      }
+      votes[vote]++;
+      transcript.push({ round, agent, phase: 'vote', vote, content: typeof raw.reason === 'string' ? raw.reason : undefined });
+    });
+
+    const ranked = Array.from(answers.keys()).sort((a, b) => votes[b] - votes[a]);
+    const winner = ranked[0];
+    if (votes[winner] === 0) {
+      this.logger.warn('TeamCoordinator', 'Debate vote produced no valid votes', { taskId });
+      return undefined;
+    }
+    return {
+      answer: answers.get(winner)!,
+      method: 'vote',
+      winner,
+      votes,
+      rationale: `${winner}'s answer received ${votes[winner]} of ${ballots.length} votes`
     };
   }
 
@@ -858,7 +1924,7 @@ export class TeamCoordinator {
     return availableAgents.sort((a, b) => a.currentLoad - b.currentLoad)[0];
   }
 
-  private async executeAgentTask(member: TeamMember, task: string, taskId: string): Promise<any> {
+  private async executeAgentTask(member: TeamMember, task: string, taskId: string, options: { canAsk?: boolean } = {}): Promise<any> {
     member.status = 'busy';
     member.currentLoad++;
     member.lastActivity = Date.now();
@@ -866,10 +1932,13 @@ export class TeamCoordinator {
     try {
       this.logger.info('TeamCoordinator', `Agent ${member.name} executing task`, { taskId });
       
-      const result = await member.executor.executeTask(task);
+      const result = await member.executor.executeTask(this.withWorkspaceBrief(member, task, taskId), {
+        ...this.taskAgentOptions.get(taskId),
+        team: this.createTeamToolContext(member, taskId, options.canAsk !== false)
+      });
       
-      member.status = 'idle';
       member.currentLoad = Math.max(0, member.currentLoad - 1);
+      member.status = member.currentLoad > 0 ? 'busy' : 'idle'; // Still busy if answering a question mid-task
       
       return result;
 
@@ -877,6 +1946,10 @@ export class TeamCoordinator {
       member.status = 'error';
       member.currentLoad = Math.max(0, member.currentLoad - 1);
       throw error;
+    } finally {
+      const waiters = this.idleWaiters.get(member.id) || [];
+      this.idleWaiters.delete(member.id);
+      waiters.forEach(wake => wake());
     }
   }
 
@@ -910,11 +1983,19 @@ export class TeamCoordinator {
     ];
   }
 
-  private async shareResultWithTeam(agentName: string, result: any, type: 'coordination' | 'data_share' | 'status_update'): Promise<void> {
+  // Publishes a member's result on the task's board (as result:<agent>) so later members see it in their workspace brief
+  private async shareResultWithTeam(taskId: string, agentName: string, result: any, type: TeamMessage['type']): Promise<void> {
+    const response = result?.result?.response ?? result?.response;
+    const message = typeof response === 'string' ? response : JSON.stringify(result?.success ? result.result : result);
+
+    if (result?.success) {
+      this.boardFor(taskId).set(`result:${agentName}`, { value: message, author: agentName, updatedAt: Date.now() });
+    }
     this.sharedContext.communicationLog.push({
+      taskId,
       from: agentName,
       to: 'all',
-      message: JSON.stringify(result),
+      message,
       timestamp: Date.now(),
       type
     });
@@ -922,6 +2003,109 @@ export class TeamCoordinator {
     this.logger.info('TeamCoordinator', `Agent ${agentName} shared result with team`, { type });
   }
 
+  // Binds the team tools (postToTeam, readTeamBoard, writeTeamBoard, askAgent) to one member's run
+  private createTeamToolContext(member: TeamMember, taskId: string, canAsk: boolean): TeamToolContext {
+    return {
+      teamName: this.config.name,
+      agentName: member.name,
+      members: Array.from(this.members.values()).map(m => m.name),
+      post: (message, to) => this.postMessage(taskId, member.name, message, to),
+      readBoard: key => {
+        if (key === undefined) {
+          return Object.fromEntries(this.boardFor(taskId));
+        }
+        const entry = this.boardFor(taskId).get(key);
+        return entry ? { [key]: entry } : {};
+      },
+      writeBoard: (key, value) => {
+        const entry: TeamBoardEntry = { value, author: member.name, updatedAt: Date.now() };
+        this.boardFor(taskId).set(key, entry);
+        this.logger.info('TeamCoordinator', `${member.name} wrote ${key} to the team board`, { taskId });
+        return entry;
+      },
+      readMessages: () => this.getMessagesFor(taskId, member.name),
+      ask: async (agent, question) => {
+        // Answering members cannot ask in turn, so two members cannot wait on each other
+        if (!canAsk) {
+          throw new Error('askAgent is not available while answering a teammate\'s question');
+        }
+        const target = this.findMemberByName(agent);
+        if (!target || target === member) {
+          throw new Error(`${agent} is not a teammate of ${member.name} (${Array.from(this.members.values()).filter(m => m !== member).map(m => m.name).join(', ')})`);
+        }
+
+        const result = await this.executeAgentTask(target, `${member.name} asks you: ${question}\n\nAnswer the question directly.`, taskId, { canAsk: false });
+        if (!result?.success) {
+          throw new Error(result?.error || `${target.name} did not answer`);
+        }
+        const response = result.result?.response ?? result.response;
+        const answer = typeof response === 'string' ? response : JSON.stringify(result.result);
+        this.postMessage(taskId, member.name, question, target.name);
+        this.postMessage(taskId, target.name, answer, member.name);
+        return answer;
+      }
+    };
+  }
+
+  // Board of one team task; tasks running on the same team never see each other's entries
+  private boardFor(taskId: string): Map<string, TeamBoardEntry> {
+    let board = this.sharedContext.workspaceData.get(taskId);
+    if (!board) {
+      board = new Map();
+      this.sharedContext.workspaceData.set(taskId, board);
+    }
+    return board;
+  }
+
+  private postMessage(taskId: string, from: string, message: string, to?: string): string[] {
+    const broadcast = !to || to.toLowerCase() === 'all';
+    const recipient = broadcast ? undefined : this.findMemberByName(to!);
+    if (!broadcast && !recipient) {
+      throw new Error(`${to} is not a member of team ${this.config.name}`);
+    }
+
+    this.sharedContext.communicationLog.push({
+      taskId,
+      from,
+      to: recipient?.name || 'all',
+      message,
+      timestamp: Date.now(),
+      type: 'message'
+    });
+    return recipient ? [recipient.name] : Array.from(this.members.values()).map(m => m.name).filter(name => name !== from);
+  }
+
+  // Member-to-member messages of one task sent directly to `agentName` or to everyone, oldest first
+  private getMessagesFor(taskId: string, agentName: string): TeamMessage[] {
+    return this.sharedContext.communicationLog.filter(entry =>
+      entry.taskId === taskId && entry.type === 'message' && entry.from !== agentName && (entry.to === 'all' || entry.to === agentName)
+    );
+  }
+
+  // Appends the task's board and the member's messages to its prompt, so it sees teammates' findings without a tool call
+  private withWorkspaceBrief(member: TeamMember, task: string, taskId: string): string {
+    const entries = Array.from(this.boardFor(taskId).entries())
+      .sort(([, a], [, b]) => b.updatedAt - a.updatedAt)
+      .slice(0, MAX_BRIEF_BOARD_ENTRIES);
+    const messages = this.getMessagesFor(taskId, member.name).slice(-MAX_BRIEF_MESSAGES);
+    if (entries.length === 0 && messages.length === 0) {
+      return task;
+    }
+
+    const preview = (value: any) => {
+      const text = typeof value === 'string' ? value : JSON.stringify(value);
+      return text.length > BRIEF_VALUE_PREVIEW_LENGTH ? text.substring(0, BRIEF_VALUE_PREVIEW_LENGTH) + '...' : text;
+    };
+    const lines = ['Team workspace (use readTeamBoard, writeTeamBoard, postToTeam and askAgent to collaborate):'];
+    if (entries.length > 0) {
+      lines.push('Board:', ...entries.map(([key, entry]) => `- ${key} (by ${entry.author}): ${preview(entry.value)}`));
+    }
+    if (messages.length > 0) {
+      lines.push('Messages to you:', ...messages.map(entry => `- ${entry.from}${entry.to === 'all' ? ' (to all)' : ''}: ${preview(entry.message)}`));
+    }
+    return `${task}\n\n${lines.join('\n')}`;
+  }
+
   private async aggregateResults(results: any[], strategy: string): Promise<any> {
     const successfulResults = results.filter(r => r.result?.success);
     const failedResults = results.filter(r => !r.result?.success || r.error);
@@ -942,7 +2126,7 @@ export class TeamCoordinator {
   private async synthesizeCollaborativeResults(results: any[]): Promise<any> {
     const contributions = results.map(r => ({
       agent: r.agent,
-      subtask: r.subtask,
+      subtask: r.task || r.role,
       contribution: r.result?.result?.response || r.result?.response || 'No contribution'
     }));
 
@@ -965,6 +2149,7 @@ export class TeamCoordinator {
       taskCount: this.sharedContext.taskHistory.length,
       agentResultCount: this.sharedContext.agentResults.size,
       communicationEntries: this.sharedContext.communicationLog.length,
+      boardEntries: Array.from(this.sharedContext.workspaceData.values()).reduce((total, board) => total + board.size, 0),
       globalState: this.sharedContext.globalState
     };
   }
@@ -1064,7 +2249,7 @@ export class TeamCoordinator {
       
       // Shared knowledge
       workspace: {
-        sharedData: Object.fromEntries(this.sharedContext.workspaceData),
+        sharedData: Object.fromEntries(Array.from(this.sharedContext.workspaceData, ([taskId, board]) => [taskId, Object.fromEntries(board)])),
         recentCommunications: recentComms,
         knowledgeBase
       },
@@ -1279,6 +2464,7 @@ export class TeamCoordinator {
         case 'pipeline': return TeamExecutionStrategy.PIPELINE;
         case 'collaborative': return TeamExecutionStrategy.COLLABORATIVE;
         case 'role_based': return TeamExecutionStrategy.ROLE_BASED;
+        case 'debate': return TeamExecutionStrategy.DEBATE;
         default: return TeamExecutionStrategy.ROLE_BASED;
       }
     }
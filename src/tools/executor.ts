@@ -8,6 +8,7 @@ import {
 } from '../types/sdk';
 import { ToolRegistry } from './standard/registry';
 import { Logger } from '../utils/logger';
+import { throwIfCancelled } from '../utils/cancellation';
 
 // Re-export types for external use
 export type { ToolChain, ToolChainStep };
@@ -42,14 +43,15 @@ export class ChainExecutor {
         this.logger.info('ChainExecutor', 'Configuration updated', { config: this.config });
     }
 
-    async executeChain(chain: ToolChain, input: Record<string, any> = {}): Promise<ChainExecutionResult> {
+    async executeChain(chain: ToolChain, input: Record<string, any> = {}, options: { signal?: AbortSignal } = {}): Promise<ChainExecutionResult> {
         const executionId = `chain_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
         const context: ChainContext = {
             input,
             stepResults: new Map(),
             chainId: chain.id,
             executionId,
-            startTime: Date.now()
+            startTime: Date.now(),
+            signal: options.signal
         };
 
         this.logger.info('ChainExecutor', `Starting chain execution: ${chain.name}`, {
@@ -72,6 +74,7 @@ export class ChainExecutor {
 
             // Execute each group (sequential groups, parallel within groups)
             for (const group of executionGroups) {
+                throwIfCancelled(context.signal);
                 const groupResults = await this.executeStepGroup(group, context);
                 
                 // Update tracking
@@ -265,7 +268,7 @@ export class ChainExecutor {
             const stepParams = this.buildStepParameters(step, context);
             
             // Execute the tool
-            const result = await this.toolRegistry.executeTool(step.tool, stepParams);
+            const result = await this.toolRegistry.executeTool(step.tool, stepParams, { signal: context.signal });
             
             // Store result for future steps
             context.stepResults.set(step.id, result);
@@ -6,6 +6,7 @@ import { parseDocumentTool } from './tools/parse-document';
 import { writeCodeTool } from './tools/write-code';
 import { createPlanTool } from './tools/create-plan';
 import { ponderTool } from './tools/ponder';
+import { postToTeamTool, readTeamBoardTool, writeTeamBoardTool, askAgentTool } from './tools/team';
 
 // Export the ToolRegistry
 export { ToolRegistry } from './registry';
@@ -29,7 +30,13 @@ export const standardTools: ToolConfig[] = [
     createPlanTool,
     
     // Cognitive Tools
-    ponderTool
+    ponderTool,
+
+    // Team Tools
+    postToTeamTool,
+    readTeamBoardTool,
+    writeTeamBoardTool,
+    askAgentTool
 ];
 
 // Export individual tools
@@ -51,7 +58,13 @@ export {
     createPlanTool,
     
     // Cognitive Tools
-    ponderTool
+    ponderTool,
+
+    // Team Tools
+    postToTeamTool,
+    readTeamBoardTool,
+    writeTeamBoardTool,
+    askAgentTool
 };
 
 export async function handleError(error: Error): Promise<ToolResult<any>> {
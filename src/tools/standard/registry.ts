@@ -1,10 +1,12 @@
 import { ToolConfig as CoreToolConfig, ToolResult, INlpService } from '../../types/tool.types';
+import { ToolExecutionContext } from '../../types/sdk';
 import { Logger } from '../../utils/logger';
 import { standardTools } from './index';
 import { ContextIntelligenceAPI } from '../../cache/intelligence-api';
 import { IDatabaseService } from '../../db/types';
 import { LLMFunctionDefinition } from '../../llm/types';
 import { ToolUsageVerifier } from '../../utils/verification';
+import { throwIfCancelled, raceCancellation } from '../../utils/cancellation';
 
 export class ToolRegistry {
     private static instance: ToolRegistry;
@@ -128,6 +130,12 @@ export class ToolRegistry {
             // Cognitive Tools
             'ponder': standardTools.find(t => t.name === 'ponderTool')! as CoreToolConfig,
 
+            // Team Tools (usable only by team members during a team task)
+            'postToTeam': standardTools.find(t => t.name === 'postToTeamTool')! as CoreToolConfig,
+            'readTeamBoard': standardTools.find(t => t.name === 'readTeamBoardTool')! as CoreToolConfig,
+            'writeTeamBoard': standardTools.find(t => t.name === 'writeTeamBoardTool')! as CoreToolConfig,
+            'askAgent': standardTools.find(t => t.name === 'askAgentTool')! as CoreToolConfig,
+
             // Also register by internal names for compatibility
             'readFileTool': standardTools.find(t => t.name === 'readFileTool')! as CoreToolConfig,
             'writeFileTool': standardTools.find(t => t.name === 'writeFileTool')! as CoreToolConfig,
@@ -169,8 +177,13 @@ export class ToolRegistry {
         });
     }
 
-    async executeTool(toolName: string, params: any): Promise<ToolResult> {
+    /**
+     * Runs a tool's handler. `context.signal` is handed to the handler so it can stop its own work;
+     * the call returns a failed result as soon as the signal fires, whether or not the handler honours it.
+     */
+    async executeTool(toolName: string, params: any, context: ToolExecutionContext = {}): Promise<ToolResult> {
         try {
+            throwIfCancelled(context.signal);
             const tool = this.tools.get(toolName);
             if (!tool) {
                 return {
@@ -212,7 +225,7 @@ export class ToolRegistry {
             });
 
             const startTime = Date.now();
-            const result = await tool.handler(params);
+            const result = await raceCancellation(tool.handler(params, context), context.signal);
             const duration = Date.now() - startTime;
 
             this.logger.info('ToolRegistry', `Tool execution completed: ${toolName}`, {
@@ -457,6 +470,15 @@ export class ToolRegistry {
             .map(([name, _]) => name);
     }
 
+    /**
+     * Get Team Tools - Blackboard and messaging tools given to every team member
+     */
+    getTeamTools(): string[] {
+        return Array.from(this.tools.entries())
+            .filter(([_, tool]) => tool.type === 'team')
+            .map(([name, _]) => name);
+    }
+
     /**
      * REVISED: This method now leverages NlpService to load all persisted, active NLP patterns 
      * into the runtime memory (e.g., ContextIntelligenceAPI command map).
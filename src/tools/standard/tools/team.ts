@@ -0,0 +1,128 @@
+import { ToolConfig, ToolResult, ToolExecutionContext, TeamToolContext } from '../../../types/sdk';
+
+// Team tools only work for members of a team running a task; the coordinator supplies the context
+function requireTeam(context?: ToolExecutionContext): TeamToolContext {
+    if (!context?.team) {
+        throw new Error('Team tools are only available to team members during a team task');
+    }
+    return context.team;
+}
+
+export const postToTeamTool: ToolConfig = {
+    name: 'postToTeamTool',
+    description: 'Send a message to one teammate by name, or to the whole team with to "all"',
+    type: 'team',
+    nlp: 'tell the team * OR message * OR post * to the team',
+    config: {
+        inputs: ['message', 'to'],
+        outputs: ['recipients'],
+    },
+    handler: async (params: any, context?: ToolExecutionContext): Promise<ToolResult<any>> => {
+        try {
+            const team = requireTeam(context);
+            if (!params.message) {
+                throw new Error('message parameter is required');
+            }
+
+            const recipients = team.post(String(params.message), params.to);
+            return {
+                success: true,
+                result: { recipients }
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : String(error)
+            };
+        }
+    }
+};
+
+export const readTeamBoardTool: ToolConfig = {
+    name: 'readTeamBoardTool',
+    description: 'Read the shared team board (one key, or "*" for every entry) along with messages sent to you',
+    type: 'team',
+    nlp: 'read the team board OR check team messages OR what has the team found',
+    config: {
+        inputs: ['key'],
+        outputs: ['entries', 'messages'],
+    },
+    handler: async (params: any, context?: ToolExecutionContext): Promise<ToolResult<any>> => {
+        try {
+            const team = requireTeam(context);
+            const key = params.key && params.key !== '*' ? String(params.key) : undefined;
+
+            return {
+                success: true,
+                result: {
+                    entries: team.readBoard(key),
+                    messages: team.readMessages()
+                }
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : String(error)
+            };
+        }
+    }
+};
+
+export const writeTeamBoardTool: ToolConfig = {
+    name: 'writeTeamBoardTool',
+    description: 'Write a finding or intermediate result to the shared team board under a key, replacing any previous value',
+    type: 'team',
+    nlp: 'write * to the team board OR share * with the team OR record * for the team',
+    config: {
+        inputs: ['key', 'value'],
+        outputs: ['entry'],
+    },
+    handler: async (params: any, context?: ToolExecutionContext): Promise<ToolResult<any>> => {
+        try {
+            const team = requireTeam(context);
+            if (!params.key) {
+                throw new Error('key parameter is required');
+            }
+
+            return {
+                success: true,
+                result: { entry: team.writeBoard(String(params.key), params.value) }
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : String(error)
+            };
+        }
+    }
+};
+
+export const askAgentTool: ToolConfig = {
+    name: 'askAgentTool',
+    description: 'Ask a teammate a question and wait for their answer',
+    type: 'team',
+    nlp: 'ask * about * OR ask teammate * OR check with *',
+    config: {
+        inputs: ['agent', 'question'],
+        outputs: ['agent', 'answer'],
+    },
+    handler: async (params: any, context?: ToolExecutionContext): Promise<ToolResult<any>> => {
+        try {
+            const team = requireTeam(context);
+            if (!params.agent || !params.question) {
+                throw new Error('agent and question parameters are required');
+            }
+
+            const answer = await team.ask(String(params.agent), String(params.question));
+            return {
+                success: true,
+                result: { agent: params.agent, answer }
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : String(error)
+            };
+        }
+    }
+};
@@ -1,8 +1,9 @@
 import { ToolLifecycleState } from './lifecycle';
-import { ToolConfig, AgentConfig, TeamConfig, Pipeline, PipelineConfig, ToolResult } from './sdk';
+import { ToolConfig, AgentConfig, TeamConfig, Pipeline, PipelineConfig, PipelineResult, ToolResult } from './sdk';
 import { ComponentInstance, ComponentMetadata, Component, ComponentPath } from './metadata';
 import { AgentExecutor } from '../agents/executor';
 import { TeamCoordinator } from '../teams/coordinator';
+import { PipelineExecutor, ApprovalDecision } from '../pipelines/executor';
 import { ToolRegistry } from '../tools/standard/registry';
 
 export interface IService {
@@ -23,17 +24,29 @@ export interface IToolService extends IService {
 export interface IAgentService extends IService {
     create(config: AgentConfig): Promise<AgentExecutor>;
     get(name: string): Promise<AgentExecutor | undefined>;
+    register(name: string, agent: AgentExecutor): void; // Puts back an agent, e.g. one a failed load replaced
+    unregister(name: string): void;
     initialize(): Promise<void>;
 }
 
 export interface ITeamService extends IService {
     create(config: TeamConfig): Promise<TeamCoordinator>;
     get(name: string): Promise<TeamCoordinator | undefined>;
+    register(name: string, team: TeamCoordinator): void;
+    unregister(name: string): void;
     initialize(): Promise<void>;
 }
 
 export interface IPipelineService extends IService {
     create(config: PipelineConfig): Promise<Pipeline>;
+    validate(config: PipelineConfig): void; // Throws if the step graph or error handling is invalid
+    get(name: string): Promise<PipelineExecutor | undefined>;
+    register(name: string, pipeline: PipelineExecutor): void;
+    unregister(name: string): void;
+    resume(executionId: string, options?: { signal?: AbortSignal }): Promise<PipelineResult>; // Continues a paused or crashed run from its last checkpoint
+    pause(executionId: string): Promise<boolean>;
+    cancel(executionId: string, reason?: string): Promise<boolean>; // Aborts a running execution; it ends with status cancelled
+    approve(executionId: string, stepId: string, decision: ApprovalDecision, edits?: Record<string, any>): Promise<PipelineResult>; // Decides a waiting approval step
     initialize(): Promise<void>;
 }
 
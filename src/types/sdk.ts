@@ -1,3 +1,5 @@
+import { LLMRoute, LLMRoutingRule } from '../llm/types';
+
 // Service base configuration
 export interface ServiceBaseConfig {
     name: string;
@@ -21,7 +23,40 @@ export interface ToolConfig {
     inputs?: string[];
     outputs?: string[];
     capabilities?: string[];
-    handler?: (params: any) => Promise<ToolResult<any>>;
+    handler?: (params: any, context?: ToolExecutionContext) => Promise<ToolResult<any>>;
+}
+
+// Passed to tool handlers alongside their parameters
+export interface ToolExecutionContext {
+    signal?: AbortSignal; // Fires when the calling agent, chain or pipeline is cancelled or times out
+    team?: TeamToolContext; // Set when a team member calls the tool during a team task
+}
+
+// A team member's handle on the blackboard and message bus of its current team task, used by the team tools
+export interface TeamToolContext {
+    teamName: string;
+    agentName: string; // The calling member
+    members: string[];
+    post(message: string, to?: string): string[]; // Direct message to a member, or broadcast when `to` is omitted or 'all'; returns the recipients
+    readBoard(key?: string): Record<string, TeamBoardEntry>;
+    writeBoard(key: string, value: any): TeamBoardEntry;
+    readMessages(): TeamMessage[]; // Messages addressed to the calling member or broadcast, oldest first
+    ask(agent: string, question: string): Promise<string>; // Runs the other member on the question and returns its answer
+}
+
+export interface TeamBoardEntry {
+    value: any;
+    author: string;
+    updatedAt: number;
+}
+
+export interface TeamMessage {
+    taskId?: string; // Team task the message was sent during; members only see messages of their own task
+    from: string;
+    to: string | 'all';
+    message: string;
+    timestamp: number;
+    type: 'coordination' | 'data_share' | 'status_update' | 'message';
 }
 
 export interface ToolResult<T = any> {
@@ -58,6 +93,7 @@ export interface ValidationConfig {
             enum?: any[];
             maxLength?: number;
             properties?: Record<string, any>;
+            items?: ValidationConfig['schema'][string]; // Rule applied to each element of an 'array' field
         };
     };
 }
@@ -79,6 +115,21 @@ export interface LLMBaseConfig {
     apiKey?: string;        // Optional: API key (can be set globally)
     temperature?: number;
     maxTokens?: number;
+    fallbacks?: Array<LLMRoute | string>; // Ordered failover chain, e.g. ['anthropic', { provider: 'local', model: 'llama3' }]
+    routing?: LLMRoutingRule[];           // Trait-based routing rules for this agent's requests
+}
+
+// Spend limits in USD; crossing `soft` logs a warning once, crossing `hard` aborts further LLM calls
+export interface BudgetConfig {
+    soft?: number;
+    hard?: number;
+}
+
+// A unit that LLM spend is attributed to (agents and teams by name, pipelines per run)
+export interface CostScope {
+    type: 'agent' | 'team' | 'pipeline' | 'session';
+    id: string;
+    budget?: BudgetConfig;
 }
 
 export interface AgentConfig {
@@ -90,6 +141,10 @@ export interface AgentConfig {
     directives?: string;
     systemPrompt?: string;
     maxCalls?: number;
+    maxIterations?: number; // Max LLM turns in the tool-use loop per task (default 10)
+    tokenBudget?: number;   // Max total tokens the tool-use loop may consume per task
+    useFunctionCalling?: boolean; // Use provider-native tool calling instead of the JSON tool_name protocol
+    budget?: BudgetConfig;  // Cumulative LLM spend limit for this agent across tasks
     requireApproval?: boolean;
     timeout?: number;
     capabilities?: string[];
@@ -125,9 +180,14 @@ export interface TeamConfig {
     description: string;
     agents: Array<string | AgentConfig>;
     capabilities?: string[];
-    manager?: boolean;
+    manager?: string; // Member that leads collaborative tasks (default: a member named *manager* or *lead*, else the first)
     strategy?: TeamStrategy;
     delegationStrategy?: DelegationStrategy;
+    delegation?: TeamDelegationConfig; // Limits on the manager's delegate-review-finalize loop
+    budget?: BudgetConfig; // Cumulative LLM spend limit shared by all team members
+    planner?: TeamPlannerConfig; // LLM-planned subtasks, assignees and strategy in place of keyword heuristics
+    synthesizer?: TeamSynthesizerConfig; // Merges member contributions into one answer instead of concatenating them
+    debate?: TeamDebateConfig; // Participants, rounds and convergence for the debate strategy
     log?: {
         inputs?: boolean;
         outputs?: boolean;
@@ -135,6 +195,33 @@ export interface TeamConfig {
     };
 }
 
+export interface TeamPlannerConfig {
+    enabled?: boolean;            // Default true once `planner` is set; executeTask's `planner` option overrides it per task
+    llm?: LLMBaseConfig | string; // Defaults to the team lead's LLM (a member named *manager* or *lead*, else the first member)
+    maxSubtasks?: number;         // Default 8
+    maxAttempts?: number;         // Planning attempts when a plan fails validation against the roster (default 2)
+}
+
+export interface TeamDelegationConfig {
+    maxRounds?: number;              // Delegation rounds before the manager must finalize (default 3)
+    maxDelegationsPerRound?: number; // Default 5
+    maxAttempts?: number;            // Tries per manager decision that fails schema validation (default 2)
+}
+
+export interface TeamDebateConfig {
+    rounds?: number;                 // Critique-and-revise rounds after the independent drafts (default 2)
+    participants?: string[];         // Members who draft and critique (default: every member except the judge)
+    judge?: string;                  // Member who decides the consensus from the final answers
+    convergence?: 'judge' | 'vote';  // Default 'judge' when a judge is set, else majority vote among participants
+}
+
+export interface TeamSynthesizerConfig {
+    enabled?: boolean;            // Default true once `synthesizer` is set; executeTask's `synthesize` option overrides it per task
+    member?: string;              // Team member that writes the synthesis; otherwise a dedicated LLM call does
+    llm?: LLMBaseConfig | string; // LLM for the dedicated call (default: the team lead's LLM)
+    instructions?: string;        // Extra guidance on the shape of the final answer
+}
+
 export interface TeamStrategy {
     name?: string;
     description?: string;
@@ -244,14 +331,51 @@ export interface PipelineConfig {
         detailed: boolean;
         trackMemory: boolean;
     };
+    concurrency?: {
+        maxParallelSteps: number; // Cap on branches running at once
+        resourceLimits?: Record<string, number>;
+    };
+    budget?: BudgetConfig; // LLM spend limit per pipeline run
+    errorHandling?: {
+        strategy: 'stop' | 'continue' | 'retry' | 'fallback';
+        fallbackPipeline?: string; // Name of another pipeline created on the same Symphony instance
+        maxGlobalRetries?: number; // Retries allowed across all steps of one run
+    };
 }
 
 export interface PipelineStep {
     name: string;
-    type: 'tool' | 'agent' | 'team';
+    type: 'tool' | 'agent' | 'team' | 'parallel' | 'condition' | 'map' | 'pipeline' | 'approval';
     tool?: string | ToolConfig;
     agent?: string;
     team?: string;
+    pipeline?: string; // Pipeline steps: name of another pipeline created on the same Symphony instance
+    strategy?: 'parallel' | 'sequential' | 'pipeline' | 'collaborative' | 'role_based' | 'debate'; // Team steps: skip automatic strategy selection
+    parallel?: {
+        steps: string[];     // Names of the steps to fan out to; they run only as branches of this step
+        waitForAll: boolean; // false completes on the first successful branch
+    };
+    condition?: {
+        expression: string;     // Evaluated with the pipeline expression language, e.g. "@review.result.approved == true"
+        ifTrue: string;         // Step to route to; naming an earlier step loops back to it
+        ifFalse?: string;
+        maxIterations?: number; // Loop guard, default 10
+    };
+    map?: {
+        items: string;             // Array to iterate, e.g. '$files'
+        step?: string;             // Name of the step run per item (it runs only inside this step)
+        pipeline?: string;         // Or a pipeline run per item
+        itemVariable?: string;     // Default 'item'; the item's position is available as 'index'
+        concurrency?: number;      // Items in flight at once, default 5
+        continueOnError?: boolean; // Failed items become null instead of failing the step
+    };
+    approval?: {
+        message?: string;                // Shown to the approver; {{ }} templates see the step's inputs
+        timeout?: number;                // Milliseconds to wait for symphony.pipeline.approve(); waits indefinitely when unset
+        onTimeout?: 'fail' | 'fallback'; // 'fallback' runs errorHandling.fallbackPipeline instead of failing (default 'fail')
+    };
+    dependencies?: string[];
+    continueOnError?: boolean;
     input?: { step: string; field: string }[];
     config?: Record<string, any>;
     retryConfig?: {
@@ -267,8 +391,9 @@ export interface PipelineStep {
         validateOutput?: (output: any) => boolean;
         customValidation?: (context: any) => Promise<boolean>;
     };
+    inputs?: Record<string, string>; // Expressions such as '$topic' or '@draft.result'; the declarative form of inputMap
     inputMap?: ((input: any) => Promise<any>) | Record<string, any>;
-    handler?: (params: any) => Promise<ToolResult<any>>;
+    handler?: (params: any, context?: ToolExecutionContext) => Promise<ToolResult<any>>;
 }
 
 // Component types
@@ -278,7 +403,8 @@ export interface Agent {
     systemPrompt?: string;
     tools: string[];
     state: ToolLifecycleState;
-    run(task: string): Promise<AgentResult>;
+    run(task: string, options?: AgentTaskOptions): Promise<AgentResult>;
+    runStream?(task: string, options?: { streamId?: string }): AsyncGenerator<AgentStreamEvent>;
 }
 
 export interface Tool<P = any, R = any> {
@@ -293,7 +419,7 @@ export interface Team {
     description: string;
     state: ToolLifecycleState;
     agents: string[];
-    run(input: any): Promise<any>;
+    run(input: any, options?: { signal?: AbortSignal }): Promise<any>;
 }
 
 export interface Pipeline {
@@ -301,7 +427,7 @@ export interface Pipeline {
     description: string;
     state: ToolLifecycleState;
     steps: PipelineStep[];
-    run(input: any): Promise<any>;
+    run(input: any, options?: { signal?: AbortSignal }): Promise<any>; // Rejects while an earlier run is in flight or paused on an approval
     getStatus(): any;
 }
 
@@ -335,6 +461,7 @@ export interface TeamResult<T = any> {
         startTime: number;
         endTime: number;
         agentCalls: number;
+        cost?: number; // USD spent on LLM calls during this task
     };
 }
 
@@ -348,6 +475,8 @@ export interface PipelineStepResult {
     endTime: number;
     duration: number;
     retryCount: number;
+    skipped?: boolean; // Not run because a condition routed around it
+    cancelled?: boolean; // Stopped by pipeline cancellation; re-run on resume
     failureAnalysis?: {
         errorCategory: 'transient' | 'persistent' | 'critical' | 'resource' | 'timeout';
         severity: 'low' | 'medium' | 'high' | 'critical';
@@ -357,17 +486,21 @@ export interface PipelineStepResult {
         reasoning: string;
     };
     circuitBreakerTripped?: boolean;
+    participatingAgents?: string[]; // Team steps: members that worked on the task
+    metrics?: TeamResult['metrics']; // Team steps: metrics reported by the team run
 }
 
 export interface PipelineResult<T = any> {
     success: boolean;
     result?: T;
     error?: string;
+    fallbackUsed?: boolean; // The run failed and errorHandling.fallbackPipeline produced this outcome
     metrics?: {
         duration: number;
         startTime: number;
         endTime: number;
         stepResults: Record<string, any>;
+        cost?: number; // USD spent on LLM calls during this run
         intelligence?: {
             bottlenecksIdentified: number;
             optimizationRecommendations: number;
@@ -383,6 +516,24 @@ export interface AgentOptions {
     timeout?: number;
 }
 
+// Options threaded through a single agent task execution
+export interface AgentTaskOptions {
+    onEvent?: (event: AgentStreamEventPayload) => void; // Receives token deltas and tool events as they happen
+    stream?: boolean; // Request token streaming from the LLM provider
+    costScopes?: CostScope[]; // Enclosing team/pipeline scopes that this task's spend also counts against
+    signal?: AbortSignal; // Cancels the task, including in-flight LLM calls and tool handlers
+    team?: TeamToolContext; // Handed to tool handlers so team tools reach the member's team
+}
+
+export type AgentStreamEventPayload =
+    | { type: 'token'; delta: string }
+    | { type: 'tool_start'; toolName: string; toolCallId: string; parameters: Record<string, any> }
+    | { type: 'tool_finish'; toolName: string; toolCallId: string; result: ToolResult }
+    | { type: 'result'; result: ToolResult };
+
+// Events yielded by agent.runStream(); the same events are published on the StreamingService stream
+export type AgentStreamEvent = AgentStreamEventPayload & { streamId: string };
+
 export interface TeamOptions {
     onProgress?: (update: { status: string; agent?: string; result?: any }) => void;
     onMetrics?: (metrics: { [key: string]: any }) => void;
@@ -466,6 +617,7 @@ export interface ChainContext {
     executionId: string;
     startTime: number;
     currentStep?: ToolChainStep;
+    signal?: AbortSignal; // Stops the chain before its next step group and is passed to tool handlers
 }
 
 export interface ChainExecutionResult {
@@ -1,12 +1,13 @@
-import { ToolLifecycleState } from './sdk';
+import { ToolLifecycleState, BudgetConfig } from './sdk';
 import { LLMHandler } from '../llm/handler';
 import { Logger } from '../utils/logger';
 import { IDatabaseService, DatabaseConfig } from '../db/types';
-import { LLMConfig as RichLLMConfig } from '../llm/types';
+import { LLMConfig as RichLLMConfig, ModelPrice } from '../llm/types';
 import { IToolService, IAgentService, ITeamService, IPipelineService, IValidationManager } from './interfaces';
 import { IntelligenceOptions } from '../cache/service';
 import { MemoryConfig as InternalMemoryConfig } from '../memory/service';
 import { StreamingConfig } from '../streaming/service';
+import { LoadedDefinitions } from '../definitions/loader';
 
 export interface SymphonyConfig {
     name?: string;
@@ -21,6 +22,10 @@ export interface SymphonyConfig {
     cache?: IntelligenceOptions;
     memory?: InternalMemoryConfig;
     streaming?: StreamingConfig;
+    costs?: {
+        prices?: Record<string, ModelPrice>; // USD per 1M tokens, merged over the built-in table
+        sessionBudget?: BudgetConfig;        // Limit on total spend for this SDK instance
+    };
     serviceRegistry: {
         enabled: boolean;
         maxRetries: number;
@@ -80,4 +85,5 @@ export interface ISymphony {
     getMetric(id: string): any;
     initialize(): Promise<void>;
     getService(name: string): Promise<any>;
+    loadDefinitions(dir: string): Promise<LoadedDefinitions>;
 } 
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { ParameterSchema } from '../utils/verification';
+import { ToolExecutionContext } from './sdk';
 
 /**
  * Represents the result of a tool execution.
@@ -26,7 +27,7 @@ export interface ToolConfig {
     inputSchema?: { [paramName: string]: ParameterSchema }; // Added for input validation
     inputs?: string[]; // Names of input parameters
     outputs?: string[]; // Names of output fields
-    handler?: (params: any) => Promise<ToolResult>;
+    handler?: (params: any, context?: ToolExecutionContext) => Promise<ToolResult>;
     nlp?: string; // Natural language patterns for potential NLP-based tool invocation
     apiKey?: string; // API key if the tool directly calls an external service
     timeout?: number; // Timeout in milliseconds for the tool's handler execution
@@ -0,0 +1,138 @@
+/**
+ * Raised when work stops because its AbortSignal fired, either through user cancellation
+ * or a timeout. Callers should not retry or fail over on it.
+ */
+export class CancellationError extends Error {
+    constructor(message: string = 'Operation cancelled') {
+        super(message);
+        this.name = 'CancellationError';
+    }
+}
+
+/**
+ * Controller whose signal follows one or more parent signals and an optional timeout.
+ * dispose() releases the timer and parent listeners once the guarded work has finished.
+ */
+export interface LinkedAbortController {
+    signal: AbortSignal;
+    abort(reason?: unknown): void;
+    dispose(): void;
+}
+
+/**
+ * Converts a fired signal's reason into a CancellationError, keeping the reason's message
+ * (e.g. a timeout description passed to abort()).
+ */
+export function toCancellationError(signal: AbortSignal): CancellationError {
+    const reason = signal.reason;
+    if (reason instanceof CancellationError) return reason;
+    if (typeof reason === 'string') return new CancellationError(reason);
+    if (reason instanceof Error && reason.name !== 'AbortError') return new CancellationError(reason.message);
+    return new CancellationError();
+}
+
+export function throwIfCancelled(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+        throw toCancellationError(signal);
+    }
+}
+
+// Providers and HTTP clients surface aborts with their own error types, so a fired signal counts too
+export function isCancellation(error: unknown, signal?: AbortSignal): boolean {
+    return error instanceof CancellationError || !!signal?.aborted;
+}
+
+/**
+ * Settles with `promise`, or rejects with a CancellationError as soon as `signal` fires, so
+ * callers are released even when the underlying work ignores the signal.
+ */
+export function raceCancellation<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) return promise;
+    if (signal.aborted) return Promise.reject(toCancellationError(signal));
+
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(toCancellationError(signal));
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+}
+
+// Resolves after `ms`, rejecting early if the signal fires
+export function cancellableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const delay = new Promise<void>(resolve => { timer = setTimeout(resolve, ms); });
+    return raceCancellation(delay, signal).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Creates a controller that aborts when any parent aborts, or after `timeout.ms` with a
+ * CancellationError carrying `timeout.message`.
+ */
+export function linkAbortController(
+    parents: Array<AbortSignal | undefined>,
+    timeout?: { ms: number; message: string }
+): LinkedAbortController {
+    const controller = new AbortController();
+    const cleanups: Array<() => void> = [];
+    const dispose = () => cleanups.splice(0).forEach(cleanup => cleanup());
+
+    for (const parent of parents) {
+        if (!parent) continue;
+        if (parent.aborted) {
+            controller.abort(parent.reason);
+            break;
+        }
+        const onAbort = () => controller.abort(parent.reason);
+        parent.addEventListener('abort', onAbort, { once: true });
+        cleanups.push(() => parent.removeEventListener('abort', onAbort));
+    }
+
+    if (timeout && timeout.ms > 0 && !controller.signal.aborted) {
+        const timer = setTimeout(() => controller.abort(new CancellationError(timeout.message)), timeout.ms);
+        cleanups.push(() => clearTimeout(timer));
+    }
+
+    // Once aborted there is nothing left to follow
+    controller.signal.addEventListener('abort', dispose, { once: true });
+    if (controller.signal.aborted) dispose();
+
+    return {
+        signal: controller.signal,
+        abort: reason => controller.abort(reason),
+        dispose
+    };
+}
+
+/**
+ * Linked controller whose timeout restarts on every touch(), so a long stream only times out
+ * when it stalls rather than after a fixed total duration.
+ */
+export interface IdleAbortController extends LinkedAbortController {
+    touch(): void;
+}
+
+export function linkIdleAbortController(
+    parents: Array<AbortSignal | undefined>,
+    timeout: { ms: number; message: string }
+): IdleAbortController {
+    const link = linkAbortController(parents);
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const touch = () => {
+        clearTimeout(timer);
+        if (timeout.ms > 0 && !link.signal.aborted) {
+            timer = setTimeout(() => link.abort(new CancellationError(timeout.message)), timeout.ms);
+        }
+    };
+    touch();
+
+    return {
+        signal: link.signal,
+        abort: link.abort,
+        touch,
+        dispose: () => {
+            clearTimeout(timer);
+            link.dispose();
+        }
+    };
+}
@@ -44,6 +44,10 @@ logger.info(LogCategory.SYSTEM, 'Loaded OpenAI API key:', {
 export interface EnvConfig {
     // OpenAI Configuration
     openaiApiKey: string;
+    // Anthropic Configuration
+    anthropicApiKey: string;
+    // Google Gemini Configuration
+    googleApiKey: string;
     defaultModel: string;
     defaultTemperature: number;
     defaultMaxTokens: number;
@@ -102,6 +106,8 @@ export interface EnvConfig {
 // Default configuration values (no sensitive defaults)
 const DEFAULT_CONFIG: EnvConfig = {
     openaiApiKey: '',
+    anthropicApiKey: '',
+    googleApiKey: '',
     defaultModel: 'gpt-4o-mini',
     defaultTemperature: 0.7,
     defaultMaxTokens: 2048,
@@ -152,6 +158,14 @@ function loadConfig(): EnvConfig {
                     }
                 });
             }
+            // Handle Anthropic configuration
+            else if (key === 'ANTHROPIC_API_KEY') {
+                config.anthropicApiKey = value || '';
+            }
+            // Handle Google Gemini configuration
+            else if (key === 'GOOGLE_API_KEY' || key === 'GEMINI_API_KEY') {
+                config.googleApiKey = config.googleApiKey || value || '';
+            }
             // Handle LLM model configuration
             else if (key === 'DEFAULT_LLM_MODEL') {
                 config.defaultModel = value || config.defaultModel;
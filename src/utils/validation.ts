@@ -60,7 +60,15 @@ export class ValidationManager {
                         ]
                     }
                 },
-                manager: { type: 'boolean' },
+                manager: { type: 'string' },
+                delegation: {
+                    type: 'object',
+                    properties: {
+                        maxRounds: { type: 'number' },
+                        maxDelegationsPerRound: { type: 'number' },
+                        maxAttempts: { type: 'number' }
+                    }
+                },
                 strategy: {
                     type: 'object',
                     properties: {
@@ -258,51 +266,68 @@ export function validateOutput(output: Record<string, any>, schema: Record<strin
 }
 
 export class ValidationError extends Error {
-    constructor(message: string) {
+    readonly path?: string; // Field that failed, e.g. 'llm.model' or 'steps[2].type'
+
+    constructor(message: string, path?: string) {
         super(message);
         this.name = 'ValidationError';
+        this.path = path;
     }
 }
 
-export function validateSchema(data: any, schema: ValidationConfig['schema']): void {
+// `path` prefixes field names in errors when validating a nested object
+export function validateSchema(data: any, schema: ValidationConfig['schema'], path: string = ''): void {
     for (const [key, rules] of Object.entries(schema)) {
-        // Check required fields
-        if (rules.required && (data[key] === undefined || data[key] === null)) {
-            throw new ValidationError(`Required field '${key}' is missing`);
-        }
+        validateField(data[key], rules, path ? `${path}.${key}` : key);
+    }
+}
 
-        // Skip validation if field is not present and not required
-        if (data[key] === undefined || data[key] === null) {
-            continue;
-        }
+function validateField(value: any, rules: ValidationConfig['schema'][string], field: string): void {
+    // Check required fields
+    if (rules.required && (value === undefined || value === null)) {
+        throw new ValidationError(`Required field '${field}' is missing`, field);
+    }
 
-        // Type validation
-        if (rules.type && typeof data[key] !== rules.type) {
-            throw new ValidationError(
-                `Field '${key}' should be of type '${rules.type}' but got '${typeof data[key]}'`
-            );
-        }
+    // Skip validation if field is not present and not required
+    if (value === undefined || value === null) {
+        return;
+    }
 
-        // Enum validation
-        if (rules.enum && !rules.enum.includes(data[key])) {
+    // Type validation; typeof reports arrays as 'object', so 'array' is checked separately
+    const actualType = Array.isArray(value) ? 'array' : typeof value;
+    if (rules.type && (rules.type === 'array' ? actualType !== 'array' : typeof value !== rules.type)) {
+        throw new ValidationError(
+            `Field '${field}' should be of type '${rules.type}' but got '${actualType}'`,
+            field
+        );
+    }
+
+    // Enum validation
+    if (rules.enum && !rules.enum.includes(value)) {
+        throw new ValidationError(
+            `Field '${field}' should be one of [${rules.enum.join(', ')}] but got '${value}'`,
+            field
+        );
+    }
+
+    // String length validation
+    if (rules.type === 'string' && rules.maxLength !== undefined) {
+        if (value.length > rules.maxLength) {
             throw new ValidationError(
-                `Field '${key}' should be one of [${rules.enum.join(', ')}] but got '${data[key]}'`
+                `Field '${field}' should not exceed ${rules.maxLength} characters`,
+                field
             );
         }
+    }
 
-        // String length validation
-        if (rules.type === 'string' && rules.maxLength !== undefined) {
-            if (data[key].length > rules.maxLength) {
-                throw new ValidationError(
-                    `Field '${key}' should not exceed ${rules.maxLength} characters`
-                );
-            }
-        }
+    // Object properties validation
+    if (rules.type === 'object' && rules.properties) {
+        validateSchema(value, rules.properties, field);
+    }
 
-        // Object properties validation
-        if (rules.type === 'object' && rules.properties) {
-            validateSchema(data[key], rules.properties);
-        }
+    // Array element validation
+    if (rules.type === 'array' && rules.items) {
+        value.forEach((item: any, index: number) => validateField(item, rules.items!, `${field}[${index}]`));
     }
 }
 
@@ -353,18 +378,28 @@ export function validateAgentConfig(config: any): void {
         name: { type: 'string', required: true },
         description: { type: 'string', required: true },
         task: { type: 'string', required: true },
-        tools: { type: 'object', required: true },
+        tools: { type: 'array', required: true, items: { type: 'string' } },
         llm: {
             type: 'object',
             required: true,
             properties: {
-                provider: { type: 'string', enum: ['openai', 'anthropic', 'google'], required: true },
+                provider: { type: 'string', enum: ['openai', 'anthropic', 'google', 'openai-compatible'], required: true },
                 model: { type: 'string', required: true },
                 temperature: { type: 'number' },
                 maxTokens: { type: 'number' }
             }
         },
         maxCalls: { type: 'number' },
+        maxIterations: { type: 'number' },
+        tokenBudget: { type: 'number' },
+        useFunctionCalling: { type: 'boolean' },
+        budget: {
+            type: 'object',
+            properties: {
+                soft: { type: 'number' },
+                hard: { type: 'number' }
+            }
+        },
         requireApproval: { type: 'boolean' },
         timeout: { type: 'number' }
     });
@@ -374,8 +409,48 @@ export function validateTeamConfig(config: any): void {
     validateSchema(config, {
         name: { type: 'string', required: true },
         description: { type: 'string', required: true },
-        agents: { type: 'object', required: true },
-        manager: { type: 'boolean' },
+        agents: { type: 'array', required: true },
+        manager: { type: 'string' },
+        delegation: {
+            type: 'object',
+            properties: {
+                maxRounds: { type: 'number' },
+                maxDelegationsPerRound: { type: 'number' },
+                maxAttempts: { type: 'number' }
+            }
+        },
+        planner: {
+            type: 'object',
+            properties: {
+                enabled: { type: 'boolean' },
+                maxSubtasks: { type: 'number' },
+                maxAttempts: { type: 'number' }
+            }
+        },
+        debate: {
+            type: 'object',
+            properties: {
+                rounds: { type: 'number' },
+                participants: { type: 'array', items: { type: 'string' } },
+                judge: { type: 'string' },
+                convergence: { type: 'string', enum: ['judge', 'vote'] }
+            }
+        },
+        synthesizer: {
+            type: 'object',
+            properties: {
+                enabled: { type: 'boolean' },
+                member: { type: 'string' },
+                instructions: { type: 'string' }
+            }
+        },
+        budget: {
+            type: 'object',
+            properties: {
+                soft: { type: 'number' },
+                hard: { type: 'number' }
+            }
+        },
         strategy: {
             type: 'object',
             properties: {
@@ -398,17 +473,50 @@ export function validateTeamConfig(config: any): void {
 export function validatePipelineConfig(config: any): void {
     validateSchema(config, {
         name: { type: 'string', required: true },
-        description: { type: 'string', required: true },
+        description: { type: 'string' },
         steps: {
-            type: 'object',
+            type: 'array',
             required: true,
+            items: {
+                type: 'object',
+                required: true,
+                properties: {
+                    name: { type: 'string', required: true },
+                    type: {
+                        type: 'string',
+                        required: true,
+                        enum: ['tool', 'chain', 'agent', 'team', 'condition', 'transform', 'parallel', 'wait', 'map', 'pipeline', 'approval']
+                    },
+                    agent: { type: 'string' },
+                    team: { type: 'string' },
+                    pipeline: { type: 'string' },
+                    inputs: { type: 'object' },
+                    outputs: { type: 'object' },
+                    dependencies: { type: 'array', items: { type: 'string' } },
+                    continueOnError: { type: 'boolean' },
+                    timeout: { type: 'number' }
+                }
+            }
+        },
+        errorHandling: {
+            type: 'object',
             properties: {
-                name: { type: 'string', required: true },
-                tool: { type: 'string', required: true },
-                description: { type: 'string', required: true },
-                chained: { type: 'number', required: true },
-                expects: { type: 'object', required: true },
-                outputs: { type: 'object', required: true }
+                strategy: { type: 'string', required: true, enum: ['stop', 'continue', 'retry', 'fallback'] },
+                fallbackPipeline: { type: 'string' },
+                maxGlobalRetries: { type: 'number' }
+            }
+        },
+        concurrency: {
+            type: 'object',
+            properties: {
+                maxParallelSteps: { type: 'number', required: true }
+            }
+        },
+        budget: {
+            type: 'object',
+            properties: {
+                soft: { type: 'number' },
+                hard: { type: 'number' }
             }
         }
     });
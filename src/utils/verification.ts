@@ -145,6 +145,17 @@ export class ToolUsageVerifier {
       return { overallSuccess: false, reason: "Strategy result data is missing or undefined." };
     }
 
+    // Planned runs carry an explicit subtask list, and every subtask is part of the requested work
+    if (Array.isArray(strategyResult.plannedResults)) {
+      const planned: any[] = strategyResult.plannedResults;
+      const failed = planned.filter(res => res.error || res.result?.success !== true || res.result?.error).length;
+      const derivedMetrics = { totalAgentTasks: planned.length, successfulAgentTasks: planned.length - failed, failedAgentTasks: failed };
+      if (planned.length > 0 && failed === 0) {
+        return { overallSuccess: true, reason: `All ${planned.length} planned subtasks succeeded.`, derivedMetrics };
+      }
+      return { overallSuccess: false, reason: `${failed}/${planned.length} planned subtasks failed under the ${strategyName} strategy.`, derivedMetrics };
+    }
+
     let individualAgentResults: any[] = [];
 
     switch (strategyName) {
@@ -177,6 +188,17 @@ export class ToolUsageVerifier {
         individualAgentResults = strategyResult.individualContributions;
         break;
 
+      case 'debate': {
+        // A debate succeeds when it reaches a consensus; individual failed turns are on the transcript
+        const turns: any[] = Array.isArray(strategyResult.transcript) ? strategyResult.transcript : [];
+        const failedTurns = turns.filter(turn => turn.error).length;
+        const derivedMetrics = { totalAgentTasks: turns.length, successfulAgentTasks: turns.length - failedTurns, failedAgentTasks: failedTurns };
+        if (!strategyResult.consensus?.answer) {
+          return { overallSuccess: false, reason: 'Debate did not reach a consensus.', derivedMetrics };
+        }
+        return { overallSuccess: true, reason: `Debate reached consensus by ${strategyResult.consensus.method}.`, derivedMetrics };
+      }
+
       case 'role_based':
         ToolUsageVerifier.logger.debug('Verification', 'Verifying role_based strategy', { strategyResult }); // DEBUG LOG
         if (!strategyResult.result) {
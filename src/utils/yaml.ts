@@ -0,0 +1,561 @@
+/**
+ * Minimal YAML reader for definition manifests. Supports block mappings and sequences, plain and
+ * quoted scalars, `|` and `>` block scalars, flow collections (so JSON files parse too) and
+ * multiple `---` separated documents. Anchors, aliases, tags and complex keys are rejected.
+ *
+ * Each document records the source line of every value by path (e.g. `steps[1].agent`), so
+ * errors found after parsing can still point at the line that caused them.
+ */
+
+export class YamlSyntaxError extends Error {
+    constructor(public readonly reason: string, public readonly line: number, public readonly column: number) {
+        super(`${reason} at line ${line}, column ${column}`);
+        this.name = 'YamlSyntaxError';
+    }
+}
+
+export interface YamlDocument {
+    value: any;
+    line: number;               // Line the document's content starts on
+    lines: Map<string, number>; // Source line of each value, keyed by path
+}
+
+export function parseYaml(source: string): YamlDocument[] {
+    return new YamlParser(source).parseDocuments();
+}
+
+// Extends a value path the way validation errors name fields: `steps[2].agent`
+export function yamlPath(parent: string, key: string | number): string {
+    if (typeof key === 'number') return `${parent}[${key}]`;
+    return parent ? `${parent}.${key}` : key;
+}
+
+interface SourceLine {
+    number: number; // 1-based
+    offset: number; // Source offset of `text`
+    indent: number;
+    text: string;   // Content after the indentation, without trailing whitespace
+}
+
+const ESCAPES: Record<string, string> = {
+    '0': '\0', 'a': '\x07', 'b': '\b', 't': '\t', 'n': '\n', 'v': '\v', 'f': '\f', 'r': '\r',
+    'e': '\x1b', ' ': ' ', '"': '"', '/': '/', '\\': '\\'
+};
+
+class YamlParser {
+    private source: string;
+    private lines: SourceLine[];
+    private lineStarts: number[];
+    private index: number;
+    private cursor: number; // Source offset while reading flow collections
+    private paths: Map<string, number>;
+
+    constructor(source: string) {
+        this.source = source.replace(/\r\n?/g, '\n');
+        this.lineStarts = [];
+        let offset = 0;
+        this.lines = this.source.split('\n').map((raw, i) => {
+            const indent = raw.length - raw.replace(/^ +/, '').length;
+            this.lineStarts.push(offset);
+            const line = { number: i + 1, offset: offset + indent, indent, text: raw.slice(indent).trimEnd() };
+            offset += raw.length + 1;
+            return line;
+        });
+        this.index = 0;
+        this.cursor = 0;
+        this.paths = new Map();
+    }
+
+    parseDocuments(): YamlDocument[] {
+        const documents: YamlDocument[] = [];
+        for (;;) {
+            this.skipBlank();
+            const line = this.peek();
+            if (!line) break;
+            if (this.isDocumentMarker(line)) {
+                const rest = line.text.slice(3).trim();
+                if (rest && !rest.startsWith('#')) {
+                    throw this.error('Content on a document marker line is not supported', line, 4);
+                }
+                this.index++;
+                continue;
+            }
+
+            this.paths = new Map();
+            this.paths.set('', line.number);
+            const value = this.parseBlockNode(-1, '');
+            documents.push({ value, line: line.number, lines: this.paths });
+
+            this.skipBlank();
+            const next = this.peek();
+            if (next && !this.isDocumentMarker(next)) {
+                throw this.error('Unexpected content; check the indentation', next);
+            }
+        }
+        return documents;
+    }
+
+    // Parses the node starting on the current line, which is indented past `parentIndent`
+    private parseBlockNode(parentIndent: number, path: string): any {
+        const line = this.peek()!;
+        if (this.isSequenceItem(line.text)) {
+            return this.parseSequence(line.indent, path);
+        }
+        if (this.findMappingColon(line, line.text) !== -1) {
+            return this.parseMapping(line.indent, path);
+        }
+        return this.parseInlineValue(line, 0, parentIndent, path);
+    }
+
+    private parseMapping(indent: number, path: string): Record<string, any> {
+        const result: Record<string, any> = {};
+        for (;;) {
+            this.skipBlank();
+            const line = this.peek();
+            if (!line || line.indent < indent || this.isDocumentMarker(line)) break;
+            if (line.indent > indent) {
+                throw this.error('Bad indentation of a mapping entry', line);
+            }
+            if (this.isSequenceItem(line.text)) break;
+
+            const colon = this.findMappingColon(line, line.text);
+            if (colon === -1) {
+                throw this.error('Expected a "key: value" mapping entry', line);
+            }
+            const key = this.parseKey(line, colon);
+            if (Object.prototype.hasOwnProperty.call(result, key)) {
+                throw this.error(`Duplicate key "${key}"`, line);
+            }
+
+            const childPath = yamlPath(path, key);
+            this.paths.set(childPath, line.number);
+            let start = colon + 1;
+            while (line.text[start] === ' ' || line.text[start] === '\t') start++;
+
+            if (start >= line.text.length || line.text[start] === '#') {
+                // The value is the indented block below the key (or a sequence at the key's own indent)
+                this.index++;
+                this.skipBlank();
+                const next = this.peek();
+                if (next && !this.isDocumentMarker(next) && next.indent > indent) {
+                    result[key] = this.parseBlockNode(indent, childPath);
+                } else if (next && next.indent === indent && this.isSequenceItem(next.text)) {
+                    result[key] = this.parseSequence(indent, childPath);
+                } else {
+                    result[key] = null;
+                }
+            } else {
+                result[key] = this.parseInlineValue(line, start, indent, childPath);
+            }
+        }
+        return result;
+    }
+
+    private parseSequence(indent: number, path: string): any[] {
+        const items: any[] = [];
+        for (;;) {
+            this.skipBlank();
+            const line = this.peek();
+            if (!line || line.indent < indent || this.isDocumentMarker(line)) break;
+            if (line.indent > indent) {
+                throw this.error('Bad indentation of a sequence entry', line);
+            }
+            if (!this.isSequenceItem(line.text)) break;
+
+            const itemPath = yamlPath(path, items.length);
+            this.paths.set(itemPath, line.number);
+            const rest = line.text.slice(1).trim();
+            if (!rest || rest.startsWith('#')) {
+                this.index++;
+                this.skipBlank();
+                const next = this.peek();
+                items.push(next && !this.isDocumentMarker(next) && next.indent > indent ? this.parseBlockNode(indent, itemPath) : null);
+                continue;
+            }
+
+            // Content after "- " is read as a line of its own, indented to where it starts,
+            // so "- name: x" continues with keys aligned under "name"
+            const shift = line.text.length - line.text.slice(1).trimStart().length;
+            line.indent += shift;
+            line.offset += shift;
+            line.text = line.text.slice(shift);
+            items.push(this.parseBlockNode(indent, itemPath));
+        }
+        return items;
+    }
+
+    // A scalar, block scalar or flow collection starting at `start` on the current line
+    private parseInlineValue(line: SourceLine, start: number, blockIndent: number, path: string = ''): any {
+        const text = line.text.slice(start);
+        const first = text[0];
+
+        if (first === '|' || first === '>') {
+            return this.parseBlockScalar(line, text, blockIndent);
+        }
+        if (first === '[' || first === '{') {
+            if (text.startsWith('{{')) {
+                throw this.error('Values starting with "{{" must be quoted', line, line.indent + start + 1);
+            }
+            this.cursor = line.offset + start;
+            const value = this.parseFlowValue(path);
+            this.finishFlow();
+            return value;
+        }
+        if (first === '"' || first === "'") {
+            const { value, length } = this.parseQuoted(text, line.offset + start);
+            const trailing = text.slice(length).trim();
+            if (trailing && !trailing.startsWith('#')) {
+                throw this.error('Unexpected text after a quoted string', line, line.indent + start + length + 1);
+            }
+            this.index++;
+            return value;
+        }
+        if (first === '&' || first === '*' || first === '!') {
+            throw this.error('Anchors, aliases and tags are not supported', line, line.indent + start + 1);
+        }
+
+        this.index++;
+        let scalar = this.stripComment(text);
+        // Plain scalars may continue on more-indented lines; they fold into one line
+        let folded = false;
+        while (this.index < this.lines.length) {
+            const next = this.lines[this.index];
+            if (next.text === '') {
+                const following = this.lines.slice(this.index + 1).find(candidate => candidate.text !== '');
+                if (!following || following.indent <= blockIndent || following.text.startsWith('#')) break;
+                scalar += '\n';
+                this.index++;
+                continue;
+            }
+            if (next.indent <= blockIndent || next.text.startsWith('#') || this.isDocumentMarker(next)) break;
+            if (this.findMappingColon(next, next.text) !== -1) {
+                throw this.error('Bad indentation of a mapping entry', next);
+            }
+            const continuation = this.stripComment(next.text);
+            scalar += scalar.endsWith('\n') ? continuation : ` ${continuation}`;
+            folded = true;
+            this.index++;
+        }
+        return folded ? scalar : this.resolvePlain(scalar);
+    }
+
+    private parseBlockScalar(line: SourceLine, header: string, parentIndent: number): string {
+        const match = /^([|>])([+-]?)\s*(#.*)?$/.exec(header);
+        if (!match) {
+            throw this.error('Unsupported block scalar header (indentation indicators are not supported)', line);
+        }
+        const [, style, chomping] = match;
+        this.index++;
+
+        const content: string[] = [];
+        let contentIndent = -1;
+        while (this.index < this.lines.length) {
+            const next = this.lines[this.index];
+            if (next.text === '') {
+                content.push('');
+                this.index++;
+                continue;
+            }
+            if (contentIndent === -1) {
+                if (next.indent <= parentIndent) break;
+                contentIndent = next.indent;
+            }
+            if (next.indent < contentIndent) break;
+            content.push(' '.repeat(next.indent - contentIndent) + next.text);
+            this.index++;
+        }
+
+        let trailingBlank = 0;
+        while (content.length > 0 && content[content.length - 1] === '') {
+            content.pop();
+            trailingBlank++;
+        }
+        if (content.length === 0) return '';
+
+        const text = style === '|' ? content.join('\n') : this.foldLines(content);
+        if (chomping === '-') return text;
+        if (chomping === '+') return text + '\n'.repeat(trailingBlank + 1);
+        return `${text}\n`;
+    }
+
+    // Folded (>) scalars join lines with spaces; blank and more-indented lines keep their breaks
+    private foldLines(lines: string[]): string {
+        let text = lines[0];
+        for (let i = 1; i < lines.length; i++) {
+            const previous = lines[i - 1];
+            const line = lines[i];
+            if (line === '') {
+                text += '\n';
+            } else if (previous === '') {
+                text += line;
+            } else if (previous.startsWith(' ') || line.startsWith(' ')) {
+                text += `\n${line}`;
+            } else {
+                text += ` ${line}`;
+            }
+        }
+        return text;
+    }
+
+    private parseFlowValue(path: string): any {
+        this.skipFlowSpace();
+        const first = this.source[this.cursor];
+
+        if (first === '[') {
+            this.cursor++;
+            const items: any[] = [];
+            for (;;) {
+                this.skipFlowSpace();
+                if (this.source[this.cursor] === ']') {
+                    this.cursor++;
+                    return items;
+                }
+                const itemPath = yamlPath(path, items.length);
+                this.paths.set(itemPath, this.lineAt(this.cursor));
+                items.push(this.parseFlowValue(itemPath));
+                if (this.expectFlowSeparator(']', 'flow sequence')) return items;
+            }
+        }
+
+        if (first === '{') {
+            this.cursor++;
+            const result: Record<string, any> = {};
+            for (;;) {
+                this.skipFlowSpace();
+                if (this.source[this.cursor] === '}') {
+                    this.cursor++;
+                    return result;
+                }
+                const keyOffset = this.cursor;
+                const key = String(this.parseFlowScalar(true));
+                if (Object.prototype.hasOwnProperty.call(result, key)) {
+                    throw this.errorAt(`Duplicate key "${key}"`, keyOffset);
+                }
+                this.skipFlowSpace();
+                if (this.source[this.cursor] !== ':') {
+                    throw this.errorAt('Expected ":" after a flow mapping key', this.cursor);
+                }
+                this.cursor++;
+                const childPath = yamlPath(path, key);
+                this.paths.set(childPath, this.lineAt(keyOffset));
+                this.skipFlowSpace();
+                const next = this.source[this.cursor];
+                result[key] = next === ',' || next === '}' ? null : this.parseFlowValue(childPath);
+                if (this.expectFlowSeparator('}', 'flow mapping')) return result;
+            }
+        }
+
+        return this.parseFlowScalar(false);
+    }
+
+    // Consumes "," (returning false) or the closing bracket (returning true)
+    private expectFlowSeparator(close: string, context: string): boolean {
+        this.skipFlowSpace();
+        const next = this.source[this.cursor];
+        if (next === ',') {
+            this.cursor++;
+            return false;
+        }
+        if (next === close) {
+            this.cursor++;
+            return true;
+        }
+        throw this.errorAt(next === undefined ? `Unterminated ${context}` : `Expected "," or "${close}" in ${context}`, this.cursor);
+    }
+
+    private parseFlowScalar(isKey: boolean): any {
+        const start = this.cursor;
+        const first = this.source[start];
+        if (first === undefined) {
+            throw this.errorAt('Unexpected end of input in a flow collection', start);
+        }
+        if (first === '"' || first === "'") {
+            const lineEnd = this.source.indexOf('\n', start);
+            const { value, length } = this.parseQuoted(this.source.slice(start, lineEnd === -1 ? undefined : lineEnd), start);
+            this.cursor += length;
+            return value;
+        }
+        if (first === '[' || first === '{' || first === '&' || first === '*' || first === '!') {
+            throw this.errorAt(isKey ? 'Expected a flow mapping key' : 'Anchors, aliases and tags are not supported', start);
+        }
+
+        while (this.cursor < this.source.length) {
+            const ch = this.source[this.cursor];
+            const next = this.source[this.cursor + 1];
+            if (/[,[\]{}\n]/.test(ch)) break;
+            if (ch === ':' && (next === undefined || /[\s,[\]{}]/.test(next))) break;
+            if (ch === '#' && /\s/.test(this.source[this.cursor - 1])) break;
+            this.cursor++;
+        }
+        const text = this.source.slice(start, this.cursor).trim();
+        if (!text) {
+            throw this.errorAt(isKey ? 'Expected a flow mapping key' : 'Expected a value', start);
+        }
+        return isKey ? text : this.resolvePlain(text);
+    }
+
+    // After a flow collection only a comment may follow on its closing line
+    private finishFlow(): void {
+        const lineIndex = this.lineIndexAt(this.cursor);
+        const lineEnd = lineIndex + 1 < this.lineStarts.length ? this.lineStarts[lineIndex + 1] - 1 : this.source.length;
+        const trailing = this.source.slice(this.cursor, lineEnd).trim();
+        if (trailing && !trailing.startsWith('#')) {
+            throw this.errorAt('Unexpected text after a flow collection', this.cursor + this.source.slice(this.cursor).search(/\S/));
+        }
+        this.index = lineIndex + 1;
+    }
+
+    private skipFlowSpace(): void {
+        while (this.cursor < this.source.length) {
+            const ch = this.source[this.cursor];
+            if (ch === '#' && (this.cursor === 0 || /\s/.test(this.source[this.cursor - 1]))) {
+                const lineEnd = this.source.indexOf('\n', this.cursor);
+                this.cursor = lineEnd === -1 ? this.source.length : lineEnd;
+            } else if (/\s/.test(ch)) {
+                this.cursor++;
+            } else {
+                break;
+            }
+        }
+    }
+
+    // Quoted strings must close on the line they open on; `offset` locates `text` for errors
+    private parseQuoted(text: string, offset: number): { value: string; length: number } {
+        const quote = text[0];
+        let value = '';
+        let i = 1;
+        while (i < text.length) {
+            const ch = text[i];
+            if (quote === "'") {
+                if (ch === "'") {
+                    if (text[i + 1] !== "'") return { value, length: i + 1 };
+                    value += "'";
+                    i += 2;
+                    continue;
+                }
+                value += ch;
+                i++;
+                continue;
+            }
+
+            if (ch === '"') return { value, length: i + 1 };
+            if (ch !== '\\') {
+                value += ch;
+                i++;
+                continue;
+            }
+
+            const escape = text[i + 1];
+            const hexLength = escape === 'x' ? 2 : escape === 'u' ? 4 : escape === 'U' ? 8 : 0;
+            if (hexLength > 0) {
+                const hex = text.slice(i + 2, i + 2 + hexLength);
+                if (!new RegExp(`^[0-9a-fA-F]{${hexLength}}$`).test(hex)) {
+                    throw this.errorAt(`Invalid escape sequence \\${escape}${hex}`, offset + i);
+                }
+                value += String.fromCodePoint(parseInt(hex, 16));
+                i += 2 + hexLength;
+            } else if (escape !== undefined && escape in ESCAPES) {
+                value += ESCAPES[escape];
+                i += 2;
+            } else {
+                throw this.errorAt(`Invalid escape sequence \\${escape ?? ''}`, offset + i);
+            }
+        }
+        throw this.errorAt('Unterminated quoted string (quoted strings must end on the line they start)', offset);
+    }
+
+    private parseKey(line: SourceLine, colon: number): string {
+        const raw = line.text.slice(0, colon).trim();
+        if (raw.startsWith('"') || raw.startsWith("'")) {
+            return this.parseQuoted(raw, line.offset).value;
+        }
+        if (raw.startsWith('?') || raw.startsWith('&') || raw.startsWith('*') || raw.startsWith('!')) {
+            throw this.error('Complex keys, anchors, aliases and tags are not supported', line);
+        }
+        return raw;
+    }
+
+    // Index of the ":" ending a block mapping key on this line, or -1
+    private findMappingColon(line: SourceLine, text: string): number {
+        if (text.startsWith('[') || text.startsWith('{') || text.startsWith('#')) return -1;
+
+        let i = 0;
+        if (text.startsWith('"') || text.startsWith("'")) {
+            i = this.parseQuoted(text, line.offset).length;
+            while (text[i] === ' ') i++;
+            return text[i] === ':' && (i + 1 === text.length || /\s/.test(text[i + 1])) ? i : -1;
+        }
+        for (; i < text.length; i++) {
+            if (text[i] === '#' && i > 0 && /\s/.test(text[i - 1])) return -1;
+            if (text[i] === ':' && (i + 1 === text.length || /\s/.test(text[i + 1]))) return i;
+        }
+        return -1;
+    }
+
+    private resolvePlain(text: string): any {
+        if (/^(null|Null|NULL|~)?$/.test(text)) return null;
+        if (/^(true|True|TRUE)$/.test(text)) return true;
+        if (/^(false|False|FALSE)$/.test(text)) return false;
+        if (/^[-+]?[0-9]+$/.test(text)) return parseInt(text, 10);
+        if (/^0x[0-9a-fA-F]+$/.test(text)) return parseInt(text.slice(2), 16);
+        if (/^0o[0-7]+$/.test(text)) return parseInt(text.slice(2), 8);
+        if (/^[-+]?(\.[0-9]+|[0-9]+(\.[0-9]*)?)([eE][-+]?[0-9]+)?$/.test(text)) return parseFloat(text);
+        if (/^[-+]?\.(inf|Inf|INF)$/.test(text)) return text.startsWith('-') ? -Infinity : Infinity;
+        if (/^\.(nan|NaN|NAN)$/.test(text)) return NaN;
+        return text;
+    }
+
+    private stripComment(text: string): string {
+        const comment = text.search(/\s#/);
+        return (comment === -1 ? text : text.slice(0, comment)).trim();
+    }
+
+    private skipBlank(): void {
+        while (this.index < this.lines.length) {
+            const line = this.lines[this.index];
+            if (line.text !== '' && !line.text.startsWith('#')) {
+                if (line.text.startsWith('\t')) {
+                    throw this.error('Tabs are not allowed in indentation', line);
+                }
+                return;
+            }
+            this.index++;
+        }
+    }
+
+    private peek(): SourceLine | undefined {
+        return this.lines[this.index];
+    }
+
+    private isSequenceItem(text: string): boolean {
+        return text === '-' || text.startsWith('- ') || text.startsWith('-\t');
+    }
+
+    private isDocumentMarker(line: SourceLine): boolean {
+        return line.indent === 0 && /^(---|\.\.\.)(\s|$)/.test(line.text);
+    }
+
+    private lineIndexAt(offset: number): number {
+        let low = 0;
+        let high = this.lineStarts.length - 1;
+        while (low < high) {
+            const mid = Math.ceil((low + high) / 2);
+            if (this.lineStarts[mid] <= offset) low = mid;
+            else high = mid - 1;
+        }
+        return low;
+    }
+
+    private lineAt(offset: number): number {
+        return this.lineIndexAt(offset) + 1;
+    }
+
+    private error(reason: string, line: SourceLine, column: number = line.indent + 1): YamlSyntaxError {
+        return new YamlSyntaxError(reason, line.number, column);
+    }
+
+    private errorAt(reason: string, offset: number): YamlSyntaxError {
+        const lineIndex = this.lineIndexAt(offset);
+        return new YamlSyntaxError(reason, lineIndex + 1, offset - this.lineStarts[lineIndex] + 1);
+    }
+}
@@ -0,0 +1,175 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as assert from 'assert';
+import { AnthropicProvider } from './src/llm/providers/anthropic';
+import { LLMMessage, LLMResponse } from './src/llm/types';
+
+const logger = {
+  log: (message: string, ...args: any[]) => console.log(`[TEST_LOG] ${message}`, ...args),
+  error: (message: string, ...args: any[]) => console.error(`[TEST_ERROR] ${message}`, ...args),
+  warn: (message: string, ...args: any[]) => console.warn(`[TEST_WARN] ${message}`, ...args),
+};
+
+type Handler = (body: any, res: http.ServerResponse) => void;
+
+// Mock Messages API: each test swaps in its own handler and inspects the recorded requests
+let handler: Handler = (_body, res) => res.end();
+const requests: Array<{ headers: http.IncomingHttpHeaders; body: any }> = [];
+
+const server = http.createServer((req, res) => {
+  let raw = '';
+  req.on('data', chunk => raw += chunk);
+  req.on('end', () => {
+    const body = JSON.parse(raw);
+    requests.push({ headers: req.headers, body });
+    handler(body, res);
+  });
+});
+
+function sendEvent(res: http.ServerResponse, data: Record<string, any>) {
+  res.write(`event: ${data.type}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+function delay(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function collect(stream: AsyncIterable<LLMResponse>): Promise<LLMResponse[]> {
+  const chunks: LLMResponse[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+}
+
+async function runAnthropicProviderTests() {
+  logger.log('=== TEST: AnthropicProvider against a mock Messages API ===');
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  const provider = new AnthropicProvider({ provider: 'anthropic', apiKey: 'test-key', baseURL, timeout: 300 });
+
+  const conversation: LLMMessage[] = [
+    { role: 'system', content: 'You are terse.' },
+    { role: 'user', content: 'Look it up' },
+    { role: 'assistant', content: null, tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'lookup', arguments: '{"q":"a"}' } }] },
+    { role: 'tool', tool_call_id: 'call_1', content: '{"found":true}' }
+  ];
+
+  // Test Case 1: Request translation and non-streaming response
+  handler = (_body, res) => {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      id: 'msg_1',
+      model: 'claude-test',
+      role: 'assistant',
+      content: [
+        { type: 'text', text: 'Done' },
+        { type: 'tool_use', id: 'toolu_1', name: 'lookup', input: { q: 'b' } }
+      ],
+      stop_reason: 'tool_use',
+      usage: { input_tokens: 11, output_tokens: 7 }
+    }));
+  };
+  const response = await provider.complete({
+    messages: conversation,
+    functions: [{ name: 'lookup', description: 'Look something up', parameters: { type: 'object', properties: { q: { type: 'string' } } } }]
+  });
+  const sent = requests[requests.length - 1];
+  assert.strictEqual(sent.headers['x-api-key'], 'test-key', 'Test Case 1 FAILED: API key header');
+  assert.ok(sent.headers['anthropic-version'], 'Test Case 1 FAILED: Version header');
+  assert.strictEqual(sent.body.system, 'You are terse.', 'Test Case 1 FAILED: System prompt hoisted');
+  assert.deepStrictEqual(sent.body.messages.map((m: any) => m.role), ['user', 'assistant', 'user'], 'Test Case 1 FAILED: Turn roles');
+  assert.deepStrictEqual(sent.body.messages[1].content[0], { type: 'tool_use', id: 'call_1', name: 'lookup', input: { q: 'a' } }, 'Test Case 1 FAILED: tool_use block');
+  assert.strictEqual(sent.body.messages[2].content[0].type, 'tool_result', 'Test Case 1 FAILED: tool_result block');
+  assert.strictEqual(sent.body.tools[0].input_schema.type, 'object', 'Test Case 1 FAILED: Tool schema');
+  assert.strictEqual(response.content, 'Done', 'Test Case 1 FAILED: Text content');
+  assert.strictEqual(response.tool_calls?.[0].function.arguments, '{"q":"b"}', 'Test Case 1 FAILED: Tool call arguments');
+  assert.strictEqual(response.usage?.total_tokens, 18, 'Test Case 1 FAILED: Usage');
+  logger.log('Test Case 1 PASSED: Request translation and non-streaming response');
+
+  // Test Case 2: API errors surface the provider message
+  handler = (_body, res) => {
+    res.writeHead(400, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ type: 'error', error: { type: 'invalid_request_error', message: 'max_tokens is required' } }));
+  };
+  await assert.rejects(
+    provider.complete({ messages: [{ role: 'user', content: 'hi' }] }),
+    /Anthropic API error \(400\): max_tokens is required/,
+    'Test Case 2 FAILED: API error message'
+  );
+  logger.log('Test Case 2 PASSED: API errors surface the provider message');
+
+  // Test Case 3: Streamed text and tool calls, with the stream outliving the request timeout
+  handler = async (_body, res) => {
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    sendEvent(res, { type: 'message_start', message: { model: 'claude-test', usage: { input_tokens: 5 } } });
+    for (const text of ['Hel', 'lo', ' there']) {
+      await delay(200);
+      sendEvent(res, { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text } });
+    }
+    sendEvent(res, { type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 'toolu_2', name: 'lookup' } });
+    sendEvent(res, { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"q":' } });
+    sendEvent(res, { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '"c"}' } });
+    sendEvent(res, { type: 'message_delta', usage: { output_tokens: 9 } });
+    res.end();
+  };
+  const chunks = await collect(provider.completeStream({ messages: [{ role: 'user', content: 'hi' }] }));
+  assert.strictEqual(requests[requests.length - 1].body.stream, true, 'Test Case 3 FAILED: stream flag');
+  assert.strictEqual(chunks.map(chunk => chunk.content).join(''), 'Hello there', 'Test Case 3 FAILED: Streamed text');
+  const last = chunks[chunks.length - 1];
+  assert.strictEqual(last.tool_calls?.[0].function.arguments, '{"q":"c"}', 'Test Case 3 FAILED: Streamed tool call');
+  assert.strictEqual(last.usage?.total_tokens, 14, 'Test Case 3 FAILED: Streamed usage');
+  logger.log('Test Case 3 PASSED: Stream longer than the timeout completes while events keep arriving');
+
+  // Test Case 4: A stalled stream times out
+  handler = async (_body, res) => {
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    sendEvent(res, { type: 'message_start', message: { model: 'claude-test', usage: { input_tokens: 5 } } });
+    await delay(800);
+    res.end();
+  };
+  await assert.rejects(
+    collect(provider.completeStream({ messages: [{ role: 'user', content: 'hi' }] })),
+    /timed out after 300ms without data/,
+    'Test Case 4 FAILED: Stalled stream should time out'
+  );
+  logger.log('Test Case 4 PASSED: A stalled stream times out');
+
+  // Test Case 5: Finished requests release their listeners on the caller's signal
+  handler = (_body, res) => {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ model: 'claude-test', content: [{ type: 'text', text: 'ok' }], usage: { input_tokens: 1, output_tokens: 1 } }));
+  };
+  const controller = new AbortController();
+  let listeners = 0;
+  const addEventListener = controller.signal.addEventListener.bind(controller.signal);
+  const removeEventListener = controller.signal.removeEventListener.bind(controller.signal);
+  controller.signal.addEventListener = ((type: string, listener: any, options?: any) => {
+    listeners++;
+    addEventListener(type, listener, options);
+  }) as typeof controller.signal.addEventListener;
+  controller.signal.removeEventListener = ((type: string, listener: any, options?: any) => {
+    listeners--;
+    removeEventListener(type, listener, options);
+  }) as typeof controller.signal.removeEventListener;
+  for (let i = 0; i < 3; i++) {
+    await provider.complete({ messages: [{ role: 'user', content: 'hi' }], signal: controller.signal });
+  }
+  assert.strictEqual(listeners, 0, 'Test Case 5 FAILED: Listeners left on the caller signal');
+  logger.log('Test Case 5 PASSED: Finished requests release their listeners');
+
+  logger.log('\n🎉🎉🎉 AnthropicProvider Tests PASSED! 🎉🎉🎉');
+  process.exitCode = 0;
+}
+
+runAnthropicProviderTests().catch(err => {
+  logger.error('Test script encountered an error:', err.message);
+  if (err.stack) logger.error('Stack:', err.stack);
+  process.exitCode = 1;
+}).finally(() => {
+    server.close();
+    if (process.exitCode === 0) {
+        setTimeout(() => process.exit(0), 500);
+    } else {
+        setTimeout(() => process.exit(process.exitCode || 1), 500);
+    }
+});
@@ -0,0 +1,243 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as assert from 'assert';
+import { DefinitionLoader, DefinitionError } from './src/definitions/loader';
+import { PipelineExecutor } from './src/pipelines/executor';
+
+const logger = {
+  log: (message: string, ...args: any[]) => console.log(`[TEST_LOG] ${message}`, ...args),
+  error: (message: string, ...args: any[]) => console.error(`[TEST_ERROR] ${message}`, ...args),
+  warn: (message: string, ...args: any[]) => console.warn(`[TEST_WARN] ${message}`, ...args),
+};
+
+// In-memory stand-in for the agent, team and pipeline services
+function createService(options: { failOn?: string; validate?: (config: any) => void } = {}) {
+  const registered = new Map<string, any>();
+  const shutDown: string[] = [];
+  return {
+    registered,
+    shutDown,
+    get: async (name: string) => registered.get(name),
+    create: async (config: any) => {
+      if (config.name === options.failOn) throw new Error(`Cannot create ${config.name}`);
+      const instance = { config, getConfig: () => config, shutdown: async () => { shutDown.push(config.name); } };
+      registered.set(config.name, instance);
+      return instance;
+    },
+    register: (name: string, instance: any) => { registered.set(name, instance); },
+    unregister: (name: string) => { registered.delete(name); },
+    validate: options.validate || (() => {})
+  };
+}
+
+function createLoader(teamOptions: { failOn?: string } = {}) {
+  const tools = { getAvailable: () => ['webSearch', 'readFile'], registry: { getContextTools: () => [] as string[] } };
+  const agents = createService();
+  const teams = createService(teamOptions);
+  // Pipeline graphs are checked by the real executor, as the pipeline service does
+  const pipelines = createService({
+    validate: config => new PipelineExecutor({
+      id: config.name,
+      name: config.name,
+      description: config.description || '',
+      version: '1.0.0',
+      steps: config.steps.map((step: any) => ({ ...step, id: step.name }))
+    } as any, agents as any, teams as any)
+  });
+  const loader = new DefinitionLoader(tools as any, agents as any, teams as any, pipelines as any);
+  return { loader, agents, teams, pipelines };
+}
+
+async function writeFiles(dir: string, files: Record<string, string[]>): Promise<void> {
+  for (const [name, lines] of Object.entries(files)) {
+    await fs.mkdir(path.dirname(path.join(dir, name)), { recursive: true });
+    await fs.writeFile(path.join(dir, name), lines.join('\n') + '\n');
+  }
+}
+
+async function expectIssues(loader: DefinitionLoader, dir: string): Promise<string[]> {
+  try {
+    await loader.load(dir);
+  } catch (error) {
+    assert.ok(error instanceof DefinitionError, `Expected a DefinitionError, got ${error}`);
+    return error.issues.map(issue => `${path.relative(dir, issue.file)}:${issue.line}: ${issue.message}`);
+  }
+  throw new Error(`Expected ${dir} to be rejected`);
+}
+
+const writerAgent = [
+  'kind: agent',
+  'name: writer',
+  'description: Writes drafts',
+  'task: Write things',
+  'tools: [webSearch]',
+  'llm:',
+  '  provider: openai',
+  '  model: gpt-4o-mini'
+];
+
+async function runDefinitionLoaderTests() {
+  logger.log('=== TEST: DefinitionLoader ===');
+
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), 'symphonic-definitions-'));
+  try {
+    // Test Suite 1: Loading
+    logger.log('\n--- Test Suite 1: Loading ---');
+
+    let dir = path.join(root, 'valid');
+    await writeFiles(dir, {
+      'agents.yaml': [
+        ...writerAgent,
+        '---',
+        '- kind: agent',
+        '  name: editor',
+        '  description: Edits',
+        '  task: Edit',
+        '  tools:',
+        '    - readFile',
+        '  llm: { "provider": "openai", "model": "gpt-4o" }'
+      ],
+      'pipelines/publish.yml': [
+        'kind: pipeline',
+        'name: publish',
+        'steps:',
+        '  - name: draft',
+        '    type: agent',
+        '    agent: writer',
+        '  - name: review',
+        '    type: team',
+        '    team: desk',
+        '    dependencies: [draft]'
+      ],
+      'team.json': ['{ "kind": "team", "name": "desk", "description": "Desk", "agents": ["writer", "editor"] }'],
+      '.hidden.yaml': ['kind: banana'],
+      'notes.txt': ['not a manifest']
+    });
+    let { loader, agents, teams, pipelines } = createLoader();
+    const loaded = await loader.load(dir);
+    assert.deepStrictEqual(loaded.files.map(file => path.relative(dir, file)), ['agents.yaml', 'pipelines/publish.yml', 'team.json'], 'Test Case 1.1 FAILED: Manifest files');
+    assert.deepStrictEqual(Object.keys(loaded.agents), ['writer', 'editor'], 'Test Case 1.1 FAILED: Agents');
+    assert.deepStrictEqual(Object.keys(loaded.teams), ['desk'], 'Test Case 1.1 FAILED: Teams');
+    assert.deepStrictEqual(Object.keys(loaded.pipelines), ['publish'], 'Test Case 1.1 FAILED: Pipelines');
+    assert.deepStrictEqual(teams.registered.get('desk').config.agents.map((agent: any) => agent.name), ['writer', 'editor'], 'Test Case 1.1 FAILED: Team members resolved to agent configs');
+    assert.ok(agents.registered.has('editor') && pipelines.registered.has('publish'), 'Test Case 1.1 FAILED: Registered');
+    logger.log('Test Case 1.1 PASSED: YAML, manifest lists and JSON across a directory tree');
+
+    // Test Suite 2: Issues point at file and line
+    logger.log('\n--- Test Suite 2: Issue locations ---');
+
+    dir = path.join(root, 'invalid');
+    await writeFiles(dir, {
+      'a.yaml': [
+        ...writerAgent.slice(0, 4),
+        'tools: [webSearch, nope]',
+        ...writerAgent.slice(5),
+        '---',
+        'kind: pipeline',
+        'name: publish',
+        'steps:',
+        '  - name: draft',
+        '    type: agent',
+        '    agent: ghost'
+      ],
+      'b.yaml': [
+        'name: nameless',
+        '---',
+        ...writerAgent
+      ],
+      'c.yaml': [
+        'kind: team',
+        'name: t',
+        'description: x',
+        'agents: [writer]',
+        '  oops: 1'
+      ]
+    });
+    ({ loader } = createLoader());
+    assert.deepStrictEqual(await expectIssues(loader, dir), [
+      "a.yaml:5: agent 'writer': Unknown tool 'nope'",
+      "a.yaml:15: pipeline 'publish': Unknown agent 'ghost'",
+      "b.yaml:1: Manifest is missing 'kind' (one of agent, team, pipeline)",
+      "b.yaml:4: agent 'writer': Duplicate agent name, already defined at " + path.join(dir, 'a.yaml') + ':2',
+      'c.yaml:5: Bad indentation of a mapping entry'
+    ], 'Test Case 2.1 FAILED: Issues');
+    logger.log('Test Case 2.1 PASSED: Unknown references, missing kind, duplicates and syntax errors are located');
+
+    dir = path.join(root, 'invalid-pipeline');
+    await writeFiles(dir, {
+      'pipeline.yaml': [
+        'kind: pipeline',
+        'name: loop',
+        'steps:',
+        '  - name: a',
+        '    type: wait',
+        '    wait: { duration: 1 }',
+        '    dependencies: [b]',
+        '  - name: b',
+        '    type: wait',
+        '    wait: { duration: 1 }',
+        '    dependencies: [a]'
+      ]
+    });
+    ({ loader } = createLoader());
+    const [cycle] = await expectIssues(loader, dir);
+    assert.match(cycle, /^pipeline\.yaml:3: pipeline 'loop': .*dependency cycle/, 'Test Case 2.2 FAILED: Step graph issue');
+    logger.log('Test Case 2.2 PASSED: Step graph errors point at the steps list');
+
+    // Test Suite 3: Registration is all or nothing
+    logger.log('\n--- Test Suite 3: Rollback ---');
+
+    dir = path.join(root, 'rollback');
+    await writeFiles(dir, {
+      'defs.yaml': [
+        ...writerAgent,
+        '---',
+        'kind: agent',
+        'name: fresh',
+        'description: New',
+        'task: New',
+        'tools: []',
+        'llm: { provider: openai, model: gpt-4o }',
+        '---',
+        'kind: team',
+        'name: crew',
+        'description: Crew',
+        'agents: [writer, fresh]',
+        '---',
+        'kind: team',
+        'name: broken',
+        'description: Fails to start',
+        'agents: [writer]'
+      ]
+    });
+    ({ loader, agents, teams } = createLoader({ failOn: 'broken' }));
+    const original = { getConfig: () => ({ name: 'writer', tools: [] }) };
+    agents.registered.set('writer', original);
+    assert.deepStrictEqual(await expectIssues(loader, dir), [
+      "defs.yaml:23: team 'broken': Cannot create broken"
+    ], 'Test Case 3.1 FAILED: Registration issue');
+    assert.strictEqual(agents.registered.get('writer'), original, 'Test Case 3.1 FAILED: Replaced agent not restored');
+    assert.ok(!agents.registered.has('fresh'), 'Test Case 3.1 FAILED: New agent left registered');
+    assert.ok(!teams.registered.has('crew'), 'Test Case 3.1 FAILED: New team left registered');
+    assert.deepStrictEqual(teams.shutDown, ['crew'], 'Test Case 3.1 FAILED: Created team not shut down');
+    logger.log('Test Case 3.1 PASSED: A failed create rolls back everything the load registered');
+  } finally {
+    await fs.rm(root, { recursive: true, force: true });
+  }
+
+  logger.log('\n🎉🎉🎉 DefinitionLoader Tests PASSED! 🎉🎉🎉');
+  process.exitCode = 0;
+}
+
+runDefinitionLoaderTests().catch(err => {
+  logger.error('Test script encountered an error:', err.message);
+  if (err.stack) logger.error('Stack:', err.stack);
+  process.exitCode = 1;
+}).finally(() => {
+    if (process.exitCode === 0) {
+        setTimeout(() => process.exit(0), 500);
+    } else {
+        setTimeout(() => process.exit(process.exitCode || 1), 500);
+    }
+});
@@ -0,0 +1,155 @@
+import * as assert from 'assert';
+import { ExpressionEvaluator, ExpressionError, ExpressionScope } from './src/pipelines/expressions';
+import { PipelineExecutor } from './src/pipelines/executor';
+import { PipelineStepResult } from './src/types/sdk';
+
+const logger = {
+  log: (message: string, ...args: any[]) => console.log(`[TEST_LOG] ${message}`, ...args),
+  error: (message: string, ...args: any[]) => console.error(`[TEST_ERROR] ${message}`, ...args),
+  warn: (message: string, ...args: any[]) => console.warn(`[TEST_WARN] ${message}`, ...args),
+};
+
+function stepResult(stepId: string, result: any, success: boolean = true): PipelineStepResult {
+  return { stepId, success, result, startTime: 0, endTime: 0, duration: 0, retryCount: 0 };
+}
+
+async function runExpressionEvaluatorTests() {
+  logger.log('=== TEST: ExpressionEvaluator ===');
+
+  const evaluator = new ExpressionEvaluator();
+  const scope: ExpressionScope = {
+    variables: new Map<string, any>([
+      ['doc', { title: 'Hello', tags: ['x', 'y'] }],
+      ['count', 3],
+      ['empty', null]
+    ]),
+    steps: new Map([
+      ['fetch-data', stepResult('fetch-data', { items: [{ name: 'a' }, { name: 'b' }] })],
+      ['broken', stepResult('broken', undefined, false)]
+    ]),
+    locals: { count: 5 },
+    subject: { response: 'ok' }
+  };
+  const evaluate = (expression: string) => evaluator.evaluate(expression, scope);
+
+  // Test Suite 1: References
+  logger.log('\n--- Test Suite 1: References ---');
+
+  assert.strictEqual(evaluate('$count'), 5, 'Test Case 1.1 FAILED: Locals shadow variables');
+  assert.strictEqual(evaluate('$doc.title'), 'Hello', 'Test Case 1.1 FAILED: Variable path');
+  assert.strictEqual(evaluate('$doc.tags[1]'), 'y', 'Test Case 1.1 FAILED: Index access');
+  assert.strictEqual(evaluate('$doc.tags.length'), 2, 'Test Case 1.1 FAILED: Array length');
+  assert.strictEqual(evaluate('$missing'), undefined, 'Test Case 1.1 FAILED: Missing variable');
+  logger.log('Test Case 1.1 PASSED: Variables');
+
+  assert.strictEqual(evaluate('@fetch-data').items.length, 2, 'Test Case 1.2 FAILED: Bare step reference is its result');
+  assert.strictEqual(evaluate('@fetch-data.result.items[1].name'), 'b', 'Test Case 1.2 FAILED: Step record path');
+  assert.strictEqual(evaluate('@fetch-data.items'), undefined, 'Test Case 1.2 FAILED: Paths walk the step record');
+  assert.strictEqual(evaluate('@broken.success'), false, 'Test Case 1.2 FAILED: Step record field');
+  assert.strictEqual(evaluate('response'), 'ok', 'Test Case 1.2 FAILED: Subject identifier');
+  logger.log('Test Case 1.2 PASSED: Steps and subject');
+
+  // Test Suite 2: Operators
+  logger.log('\n--- Test Suite 2: Operators ---');
+
+  assert.strictEqual(evaluate('$count * 2 + 1'), 11, 'Test Case 2.1 FAILED: Precedence');
+  assert.strictEqual(evaluate('($count + 1) * 2'), 12, 'Test Case 2.1 FAILED: Parentheses');
+  assert.strictEqual(evaluate('-$count % 3'), -2, 'Test Case 2.1 FAILED: Unary minus and modulo');
+  assert.strictEqual(evaluate('"a" + $count'), 'a5', 'Test Case 2.1 FAILED: String concatenation');
+  logger.log('Test Case 2.1 PASSED: Arithmetic');
+
+  assert.strictEqual(evaluate('$count > 4 && $doc.title == "Hello"'), true, 'Test Case 2.2 FAILED: Logical and');
+  assert.strictEqual(evaluate('!($count < 2) || false'), true, 'Test Case 2.2 FAILED: Negation');
+  assert.strictEqual(evaluate('$count === "5"'), false, 'Test Case 2.2 FAILED: Strict equality');
+  assert.strictEqual(evaluate('$empty ?? "fallback"'), 'fallback', 'Test Case 2.2 FAILED: Nullish coalescing');
+  assert.strictEqual(evaluate('@fetch-data.success ? "yes" : "no"'), 'yes', 'Test Case 2.2 FAILED: Conditional');
+  assert.strictEqual(evaluate('[1, 2, $count][2]'), 5, 'Test Case 2.2 FAILED: Array literal');
+  logger.log('Test Case 2.2 PASSED: Comparison, logic and literals');
+
+  // Test Suite 3: Helpers
+  logger.log('\n--- Test Suite 3: Helpers ---');
+
+  assert.strictEqual(evaluate('len(@fetch-data.result.items)'), 2, 'Test Case 3.1 FAILED: len');
+  assert.strictEqual(evaluate('upper($doc.title) + "!"'), 'HELLO!', 'Test Case 3.1 FAILED: upper');
+  assert.strictEqual(evaluate('contains($doc.tags, "y")'), true, 'Test Case 3.1 FAILED: contains');
+  assert.strictEqual(evaluate('join(split("a,b,c", ","), "|")'), 'a|b|c', 'Test Case 3.1 FAILED: split and join');
+  assert.strictEqual(evaluate('default($empty, 7)'), 7, 'Test Case 3.1 FAILED: default');
+  logger.log('Test Case 3.1 PASSED: Whitelisted helpers');
+
+  for (const call of ['foo(1)', 'constructor("return 1")', 'toString()', 'hasOwnProperty("len")', '__proto__()']) {
+    assert.throws(() => evaluate(call), (error: any) => error instanceof ExpressionError && /Unknown function/.test(error.message), `Test Case 3.2 FAILED: ${call} should be unknown`);
+  }
+  logger.log('Test Case 3.2 PASSED: Unknown and inherited functions are rejected');
+
+  // Test Suite 4: Sandboxing and errors
+  logger.log('\n--- Test Suite 4: Sandboxing and errors ---');
+
+  assert.throws(() => evaluate('$doc.constructor'), /Access to 'constructor' is not allowed/, 'Test Case 4.1 FAILED: constructor access');
+  assert.throws(() => evaluate('$doc["__proto__"]'), /Access to '__proto__' is not allowed/, 'Test Case 4.1 FAILED: __proto__ access');
+  assert.strictEqual(evaluate('$doc.hasOwnProperty'), undefined, 'Test Case 4.1 FAILED: Inherited method reachable');
+  assert.strictEqual(evaluate('$doc.title.toUpperCase'), undefined, 'Test Case 4.1 FAILED: String method reachable');
+  logger.log('Test Case 4.1 PASSED: Blocked and inherited properties');
+
+  assert.throws(() => evaluate('1 +'), ExpressionError, 'Test Case 4.2 FAILED: Incomplete expression');
+  assert.throws(() => evaluate('$count $count'), ExpressionError, 'Test Case 4.2 FAILED: Trailing tokens');
+  logger.log('Test Case 4.2 PASSED: Malformed expressions throw ExpressionError');
+
+  // Test Suite 5: Templates, resolve and references
+  logger.log('\n--- Test Suite 5: Templates, resolve and references ---');
+
+  assert.strictEqual(evaluator.interpolate('Summary of {{ $doc.title }} ({{ len($doc.tags) }} tags)', scope), 'Summary of Hello (2 tags)', 'Test Case 5.1 FAILED: Interpolation');
+  assert.deepStrictEqual(evaluator.interpolate('{{ $doc }}', scope), { title: 'Hello', tags: ['x', 'y'] }, 'Test Case 5.1 FAILED: Single placeholder keeps its type');
+  logger.log('Test Case 5.1 PASSED: Templates');
+
+  assert.strictEqual(evaluator.resolve('plain text', scope), 'plain text', 'Test Case 5.2 FAILED: Literal');
+  assert.strictEqual(evaluator.resolve('=$count + 1', scope), 6, 'Test Case 5.2 FAILED: = expression');
+  assert.strictEqual(evaluator.resolve(42, scope), 42, 'Test Case 5.2 FAILED: Non-string spec');
+  assert.strictEqual(evaluator.resolve('@fetch-data.success', scope), true, 'Test Case 5.2 FAILED: Step reference');
+  logger.log('Test Case 5.2 PASSED: resolve');
+
+  const refs = evaluator.references('{{ $doc.title }} from {{ @fetch-data.result.items[0].name }} and {{ len($doc.tags) + $count }}');
+  assert.deepStrictEqual(refs.variables.sort(), ['count', 'doc'], 'Test Case 5.3 FAILED: Variable references');
+  assert.deepStrictEqual(refs.steps, ['fetch-data'], 'Test Case 5.3 FAILED: Step references');
+  assert.throws(() => evaluator.references('=1 +'), ExpressionError, 'Test Case 5.3 FAILED: Malformed reference spec');
+  logger.log('Test Case 5.3 PASSED: references');
+
+  // Test Suite 6: Output paths
+  logger.log('\n--- Test Suite 6: Output paths ---');
+
+  const record = { result: { data: { 'user-name': 'ada', items: [{ id: 7 }] }, 'user-name': 'top' } };
+  assert.ok(evaluator.isPath('data.user-name') && evaluator.isPath('items[0].id'), 'Test Case 6.1 FAILED: Plain paths');
+  assert.ok(!evaluator.isPath('len(result.items) > 0') && !evaluator.isPath('a - b'), 'Test Case 6.1 FAILED: Expressions are not paths');
+  assert.strictEqual(evaluator.getPath(record.result, 'data.user-name'), 'ada', 'Test Case 6.1 FAILED: Hyphenated key');
+  assert.strictEqual(evaluator.getPath(record.result, 'data.items[0].id'), 7, 'Test Case 6.1 FAILED: Indexed key');
+  assert.strictEqual(evaluator.getPath(record.result, 'data.missing.deeper'), undefined, 'Test Case 6.1 FAILED: Missing segment');
+  assert.throws(() => evaluator.getPath(record, '__proto__.x'), ExpressionError, 'Test Case 6.1 FAILED: Blocked key');
+  logger.log('Test Case 6.1 PASSED: isPath and getPath');
+
+  const executor = new PipelineExecutor({
+    id: 'outputs', name: 'outputs', description: '', version: '1.0.0',
+    steps: [{ id: 'only', name: 'only', type: 'wait', wait: { duration: 1 } }]
+  } as any, {} as any, {} as any);
+  const outputs = await (executor as any).processOutputs({
+    relative: '.data.user-name',
+    bare: 'result.user-name',
+    indexed: '.data.items[0].id',
+    computed: 'len(result.data.items) + 1'
+  }, record);
+  assert.deepStrictEqual(outputs, { relative: 'ada', bare: 'top', indexed: 7, computed: 2 }, 'Test Case 6.2 FAILED: Output specs');
+  logger.log('Test Case 6.2 PASSED: Output specs that are plain paths keep reading keys with dashes');
+
+  logger.log('\n🎉🎉🎉 ExpressionEvaluator Tests PASSED! 🎉🎉🎉');
+  process.exitCode = 0;
+}
+
+runExpressionEvaluatorTests().catch(err => {
+  logger.error('Test script encountered an error:', err.message);
+  if (err.stack) logger.error('Stack:', err.stack);
+  process.exitCode = 1;
+}).finally(() => {
+    if (process.exitCode === 0) {
+        setTimeout(() => process.exit(0), 500);
+    } else {
+        setTimeout(() => process.exit(process.exitCode || 1), 500);
+    }
+});
@@ -0,0 +1,183 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as assert from 'assert';
+import { GoogleProvider } from './src/llm/providers/google';
+import { LLMMessage, LLMResponse } from './src/llm/types';
+
+const logger = {
+  log: (message: string, ...args: any[]) => console.log(`[TEST_LOG] ${message}`, ...args),
+  error: (message: string, ...args: any[]) => console.error(`[TEST_ERROR] ${message}`, ...args),
+  warn: (message: string, ...args: any[]) => console.warn(`[TEST_WARN] ${message}`, ...args),
+};
+
+type Handler = (body: any, res: http.ServerResponse) => void;
+
+// Mock Gemini API: each test swaps in its own handler and inspects the recorded requests
+let handler: Handler = (_body, res) => res.end();
+const requests: Array<{ url: string; headers: http.IncomingHttpHeaders; body: any }> = [];
+
+const server = http.createServer((req, res) => {
+  let raw = '';
+  req.on('data', chunk => raw += chunk);
+  req.on('end', () => {
+    const body = JSON.parse(raw);
+    requests.push({ url: req.url || '', headers: req.headers, body });
+    handler(body, res);
+  });
+});
+
+function sendChunk(res: http.ServerResponse, data: Record<string, any>) {
+  res.write(`data: ${JSON.stringify(data)}\r\n\r\n`);
+}
+
+function delay(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function collect(stream: AsyncIterable<LLMResponse>): Promise<LLMResponse[]> {
+  const chunks: LLMResponse[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+}
+
+async function runGoogleProviderTests() {
+  logger.log('=== TEST: GoogleProvider against a mock Gemini API ===');
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  const provider = new GoogleProvider({ provider: 'google', apiKey: 'test-key', baseURL, model: 'gemini-test', timeout: 300 });
+
+  const conversation: LLMMessage[] = [
+    { role: 'system', content: 'You are terse.' },
+    { role: 'user', content: 'Look it up' },
+    { role: 'assistant', content: null, tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'lookup', arguments: '{"q":"a"}' } }] },
+    { role: 'tool', tool_call_id: 'call_1', content: '{"found":true}' }
+  ];
+
+  // Test Case 1: Request translation and non-streaming response
+  handler = (_body, res) => {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      candidates: [{
+        content: { role: 'model', parts: [{ text: 'Done' }, { functionCall: { name: 'lookup', args: { q: 'b' } } }] },
+        finishReason: 'STOP'
+      }],
+      usageMetadata: { promptTokenCount: 11, candidatesTokenCount: 7, totalTokenCount: 18 }
+    }));
+  };
+  const response = await provider.complete({
+    messages: conversation,
+    expectsJsonResponse: true,
+    functions: [{ name: 'lookup', description: 'Look something up', parameters: { type: 'object', properties: { q: { type: 'string' } } } }]
+  });
+  const sent = requests[requests.length - 1];
+  assert.strictEqual(sent.url, '/v1beta/models/gemini-test:generateContent', 'Test Case 1 FAILED: Endpoint');
+  assert.strictEqual(sent.headers['x-goog-api-key'], 'test-key', 'Test Case 1 FAILED: API key header');
+  assert.deepStrictEqual(sent.body.systemInstruction, { parts: [{ text: 'You are terse.' }] }, 'Test Case 1 FAILED: System instruction hoisted');
+  assert.deepStrictEqual(sent.body.contents.map((content: any) => content.role), ['user', 'model', 'user'], 'Test Case 1 FAILED: Turn roles');
+  assert.deepStrictEqual(sent.body.contents[1].parts[0], { functionCall: { name: 'lookup', args: { q: 'a' } } }, 'Test Case 1 FAILED: functionCall part');
+  assert.deepStrictEqual(sent.body.contents[2].parts[0], { functionResponse: { name: 'lookup', response: { found: true } } }, 'Test Case 1 FAILED: functionResponse part');
+  assert.strictEqual(sent.body.tools[0].functionDeclarations[0].name, 'lookup', 'Test Case 1 FAILED: Function declarations');
+  assert.strictEqual(sent.body.generationConfig.responseMimeType, 'application/json', 'Test Case 1 FAILED: JSON response mode');
+  assert.strictEqual(response.content, 'Done', 'Test Case 1 FAILED: Text content');
+  assert.strictEqual(response.tool_calls?.[0].function.arguments, '{"q":"b"}', 'Test Case 1 FAILED: Tool call arguments');
+  assert.strictEqual(response.usage?.total_tokens, 18, 'Test Case 1 FAILED: Usage');
+  logger.log('Test Case 1 PASSED: Request translation and non-streaming response');
+
+  // Test Case 2: API errors surface the provider message
+  handler = (_body, res) => {
+    res.writeHead(400, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: { code: 400, message: 'API key not valid', status: 'INVALID_ARGUMENT' } }));
+  };
+  await assert.rejects(
+    provider.complete({ messages: [{ role: 'user', content: 'hi' }] }),
+    /Gemini API error \(400\): API key not valid/,
+    'Test Case 2 FAILED: API error message'
+  );
+  logger.log('Test Case 2 PASSED: API errors surface the provider message');
+
+  // Test Case 3: Streamed text and function calls, with the stream outliving the request timeout
+  handler = async (_body, res) => {
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    for (const text of ['Hel', 'lo', ' there']) {
+      await delay(200);
+      sendChunk(res, { candidates: [{ content: { role: 'model', parts: [{ text }] } }], usageMetadata: { promptTokenCount: 5 } });
+    }
+    sendChunk(res, {
+      candidates: [{ content: { role: 'model', parts: [{ functionCall: { name: 'lookup', args: { q: 'c' } } }] }, finishReason: 'STOP' }],
+      usageMetadata: { promptTokenCount: 5, candidatesTokenCount: 9, totalTokenCount: 14 }
+    });
+    res.end();
+  };
+  const chunks = await collect(provider.completeStream({ messages: [{ role: 'user', content: 'hi' }] }));
+  assert.strictEqual(requests[requests.length - 1].url, '/v1beta/models/gemini-test:streamGenerateContent?alt=sse', 'Test Case 3 FAILED: Streaming endpoint');
+  assert.strictEqual(chunks.map(chunk => chunk.content).join(''), 'Hello there', 'Test Case 3 FAILED: Streamed text');
+  const last = chunks[chunks.length - 1];
+  assert.strictEqual(last.tool_calls?.[0].function.arguments, '{"q":"c"}', 'Test Case 3 FAILED: Streamed tool call');
+  assert.strictEqual(last.usage?.total_tokens, 14, 'Test Case 3 FAILED: Streamed usage');
+  logger.log('Test Case 3 PASSED: Stream longer than the timeout completes while chunks keep arriving');
+
+  // Test Case 4: A stalled stream times out, whether the headers or the next chunk are late
+  handler = async (_body, res) => {
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    sendChunk(res, { candidates: [{ content: { role: 'model', parts: [{ text: 'Hel' }] } }] });
+    await delay(800);
+    res.end();
+  };
+  await assert.rejects(
+    collect(provider.completeStream({ messages: [{ role: 'user', content: 'hi' }] })),
+    /Gemini stream timed out after 300ms without data/,
+    'Test Case 4 FAILED: Stalled stream should time out'
+  );
+  handler = async (_body, res) => {
+    await delay(800);
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    res.end();
+  };
+  await assert.rejects(
+    collect(provider.completeStream({ messages: [{ role: 'user', content: 'hi' }] })),
+    /Gemini stream timed out after 300ms without data/,
+    'Test Case 4 FAILED: Late headers should time out'
+  );
+  logger.log('Test Case 4 PASSED: A stalled stream times out');
+
+  // Test Case 5: Finished requests release their listeners on the caller's signal
+  handler = (_body, res) => {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ candidates: [{ content: { role: 'model', parts: [{ text: 'ok' }] } }], usageMetadata: { promptTokenCount: 1, candidatesTokenCount: 1 } }));
+  };
+  const controller = new AbortController();
+  let listeners = 0;
+  const addEventListener = controller.signal.addEventListener.bind(controller.signal);
+  const removeEventListener = controller.signal.removeEventListener.bind(controller.signal);
+  controller.signal.addEventListener = ((type: string, listener: any, options?: any) => {
+    listeners++;
+    addEventListener(type, listener, options);
+  }) as typeof controller.signal.addEventListener;
+  controller.signal.removeEventListener = ((type: string, listener: any, options?: any) => {
+    listeners--;
+    removeEventListener(type, listener, options);
+  }) as typeof controller.signal.removeEventListener;
+  for (let i = 0; i < 3; i++) {
+    await provider.complete({ messages: [{ role: 'user', content: 'hi' }], signal: controller.signal });
+    await collect(provider.completeStream({ messages: [{ role: 'user', content: 'hi' }], signal: controller.signal }));
+  }
+  assert.strictEqual(listeners, 0, 'Test Case 5 FAILED: Listeners left on the caller signal');
+  logger.log('Test Case 5 PASSED: Finished requests release their listeners');
+
+  logger.log('\n🎉🎉🎉 GoogleProvider Tests PASSED! 🎉🎉🎉');
+  process.exitCode = 0;
+}
+
+runGoogleProviderTests().catch(err => {
+  logger.error('Test script encountered an error:', err.message);
+  if (err.stack) logger.error('Stack:', err.stack);
+  process.exitCode = 1;
+}).finally(() => {
+    server.close();
+    if (process.exitCode === 0) {
+        setTimeout(() => process.exit(0), 500);
+    } else {
+        setTimeout(() => process.exit(process.exitCode || 1), 500);
+    }
+});
@@ -0,0 +1,143 @@
+import * as assert from 'assert';
+import { PipelineExecutor, PipelineDefinition, PipelineStepDefinition } from './src/pipelines/executor';
+import { PipelineExecutionRecord } from './src/db/types';
+
+const logger = {
+  log: (message: string, ...args: any[]) => console.log(`[TEST_LOG] ${message}`, ...args),
+  error: (message: string, ...args: any[]) => console.error(`[TEST_ERROR] ${message}`, ...args),
+  warn: (message: string, ...args: any[]) => console.warn(`[TEST_WARN] ${message}`, ...args),
+};
+
+// In-memory stand-in for the database service's pipeline execution table
+function createDatabase() {
+  const rows = new Map<string, PipelineExecutionRecord>();
+  return {
+    rows,
+    savePipelineExecution: async (record: PipelineExecutionRecord) => {
+      rows.set(record.execution_id, { ...rows.get(record.execution_id), ...JSON.parse(JSON.stringify(record)) });
+    },
+    getPipelineExecution: async (executionId: string) => rows.get(executionId) || null
+  };
+}
+
+// Each step adds one to $n; `runs` counts how often each step actually ran and `failing` makes a step throw
+function createPipeline(name: string, runs: Record<string, number>, failing: Set<string>, delayMs: number = 0): PipelineDefinition {
+  const countingStep = (id: string): PipelineStepDefinition => ({
+    id,
+    name: id,
+    type: 'transform',
+    transform: { input: 'x', output: 'next', transformation: 'value + 1' },
+    inputMap: async context => {
+      runs[id] = (runs[id] || 0) + 1;
+      if (failing.has(id)) throw new Error(`${id} failed`);
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+      return { x: context.variables.get('n') };
+    },
+    outputs: { n: 'next' }
+  });
+  return {
+    id: name,
+    name,
+    description: 'Checkpoint test',
+    version: '1.0.0',
+    variables: { n: 0 },
+    steps: ['one', 'two', 'three', 'four'].map(countingStep)
+  };
+}
+
+async function runPipelineCheckpointTests() {
+  logger.log('=== TEST: Pipeline checkpoints and resume ===');
+
+  // Test Suite 1: Resuming a failed run from its checkpoint
+  logger.log('\n--- Test Suite 1: Resume after failure ---');
+
+  const database = createDatabase();
+  let runs: Record<string, number> = {};
+  const failing = new Set(['three']);
+  const first = new PipelineExecutor(createPipeline('checkpointed', runs, failing), {} as any, {} as any, database as any);
+  let result: any = await first.execute();
+  const executionId = result.result.executionId;
+  assert.strictEqual(result.success, false, 'Test Case 1.1 FAILED: Run should fail at step three');
+  let record = database.rows.get(executionId)!;
+  assert.strictEqual(record.status, 'failed', 'Test Case 1.1 FAILED: Checkpoint status');
+  assert.strictEqual(record.steps_completed, 2, 'Test Case 1.1 FAILED: Checkpointed steps');
+  assert.deepStrictEqual(JSON.parse(record.variables), { n: 2 }, 'Test Case 1.1 FAILED: Checkpointed variables');
+  logger.log('Test Case 1.1 PASSED: A failed run is checkpointed with the steps it completed');
+
+  // A fresh executor stands in for a restarted process
+  failing.clear();
+  const second = new PipelineExecutor(createPipeline('checkpointed', runs, failing), {} as any, {} as any, database as any);
+  result = await second.resume(executionId);
+  assert.strictEqual(result.success, true, `Test Case 1.2 FAILED: Resume failed: ${result.error}`);
+  assert.strictEqual(result.result.executionId, executionId, 'Test Case 1.2 FAILED: Resume should keep the execution id');
+  assert.deepStrictEqual(runs, { one: 1, two: 1, three: 2, four: 1 }, 'Test Case 1.2 FAILED: Completed steps ran again');
+  record = database.rows.get(executionId)!;
+  assert.strictEqual(record.status, 'completed', 'Test Case 1.2 FAILED: Checkpoint status after resume');
+  assert.deepStrictEqual(JSON.parse(record.variables), { n: 4 }, 'Test Case 1.2 FAILED: Variables carried over from the checkpoint');
+  logger.log('Test Case 1.2 PASSED: Resume continues from the failed step without re-running steps before it');
+
+  await assert.rejects(second.resume(executionId), /has already completed/, 'Test Case 1.3 FAILED: Completed run resumed');
+  await assert.rejects(second.resume('pipeline_missing'), /No checkpoint found for pipeline execution: pipeline_missing/, 'Test Case 1.3 FAILED: Missing checkpoint');
+  const other = new PipelineExecutor(createPipeline('other', {}, new Set()), {} as any, {} as any, database as any);
+  await assert.rejects(other.resume(executionId), /belongs to pipeline checkpointed, not other/, 'Test Case 1.3 FAILED: Another pipeline\'s checkpoint');
+  logger.log('Test Case 1.3 PASSED: Completed, missing and foreign executions are not resumed');
+
+  // Test Suite 2: Pause and resume
+  logger.log('\n--- Test Suite 2: Pause ---');
+
+  runs = {};
+  const paused = new PipelineExecutor(createPipeline('pausable', runs, new Set(), 40), {} as any, {} as any, database as any);
+  const running = paused.execute();
+  await new Promise(resolve => setTimeout(resolve, 20));
+  assert.strictEqual(paused.pause(), true, 'Test Case 2.1 FAILED: pause() while running');
+  result = await running;
+  assert.strictEqual(result.result.status, 'paused', 'Test Case 2.1 FAILED: Run status');
+  assert.strictEqual(database.rows.get(result.result.executionId)!.status, 'paused', 'Test Case 2.1 FAILED: Checkpoint status');
+  assert.deepStrictEqual(runs, { one: 1 }, 'Test Case 2.1 FAILED: The step in flight should finish and nothing after it start');
+  logger.log('Test Case 2.1 PASSED: Pausing lets the running step finish and checkpoints the run');
+
+  result = await paused.resume(result.result.executionId);
+  assert.strictEqual(result.success, true, 'Test Case 2.2 FAILED: Resume after pause');
+  assert.deepStrictEqual(runs, { one: 1, two: 1, three: 1, four: 1 }, 'Test Case 2.2 FAILED: Steps re-run after pause');
+  logger.log('Test Case 2.2 PASSED: A paused run resumes where it stopped');
+
+  // Test Suite 3: One run at a time
+  logger.log('\n--- Test Suite 3: Overlapping runs ---');
+
+  const busy = new PipelineExecutor(createPipeline('busy', {}, new Set(), 20), {} as any, {} as any, database as any);
+  const inFlight = busy.execute();
+  await assert.rejects(busy.execute(), /Pipeline busy is already running execution/, 'Test Case 3.1 FAILED: Second execute() accepted');
+  await assert.rejects(busy.resume('pipeline_other'), /Pipeline busy is already running execution/, 'Test Case 3.1 FAILED: resume() accepted mid-run');
+  assert.strictEqual((await inFlight).success, true, 'Test Case 3.1 FAILED: The first run should be unaffected');
+  logger.log('Test Case 3.1 PASSED: execute() and resume() are rejected while a run is in flight');
+
+  const approvals = new PipelineExecutor({
+    id: 'approvals',
+    name: 'approvals',
+    description: 'Checkpoint test',
+    version: '1.0.0',
+    steps: [{ id: 'review', name: 'review', type: 'approval', approval: { message: 'Ship it?' } }]
+  }, {} as any, {} as any, database as any);
+  result = await approvals.execute();
+  assert.strictEqual(result.result.status, 'paused', 'Test Case 3.2 FAILED: Run should pause on the approval');
+  await assert.rejects(approvals.execute(), /is waiting for approval of step\(s\): review; decide them before starting another run/, 'Test Case 3.2 FAILED: execute() while paused on an approval');
+  result = await approvals.approve(result.result.executionId, 'review', 'approve');
+  assert.strictEqual(result.success, true, 'Test Case 3.2 FAILED: Approved run');
+  assert.strictEqual((await approvals.execute()).result.status, 'paused', 'Test Case 3.2 FAILED: A new run once the approval is decided');
+  logger.log('Test Case 3.2 PASSED: execute() is rejected while the previous run waits on an approval');
+
+  logger.log('\n🎉🎉🎉 Pipeline Checkpoint Tests PASSED! 🎉🎉🎉');
+  process.exitCode = 0;
+}
+
+runPipelineCheckpointTests().catch(err => {
+  logger.error('Test script encountered an error:', err.message);
+  if (err.stack) logger.error('Stack:', err.stack);
+  process.exitCode = 1;
+}).finally(() => {
+    if (process.exitCode === 0) {
+        setTimeout(() => process.exit(0), 500);
+    } else {
+        setTimeout(() => process.exit(process.exitCode || 1), 500);
+    }
+});
@@ -0,0 +1,163 @@
+import * as assert from 'assert';
+import { PipelineExecutor, PipelineDefinition, PipelineStepDefinition } from './src/pipelines/executor';
+import { PipelineStepResult } from './src/types/sdk';
+
+const logger = {
+  log: (message: string, ...args: any[]) => console.log(`[TEST_LOG] ${message}`, ...args),
+  error: (message: string, ...args: any[]) => console.error(`[TEST_ERROR] ${message}`, ...args),
+  warn: (message: string, ...args: any[]) => console.warn(`[TEST_WARN] ${message}`, ...args),
+};
+
+// A transform step that records each run in `runs`; `extra` can add dependencies or outputs
+function countingStep(id: string, runs: string[], extra: Partial<PipelineStepDefinition> = {}): PipelineStepDefinition {
+  return {
+    id,
+    name: id,
+    type: 'transform',
+    inputs: { current: '$n' },
+    inputMap: async context => {
+      runs.push(id);
+      return { current: context.variables.get('n') ?? 0 };
+    },
+    transform: { input: 'current', output: 'next', transformation: 'value + 1' },
+    ...extra
+  };
+}
+
+function conditionStep(id: string, expression: string, ifTrue: string, ifFalse?: string, extra: Partial<PipelineStepDefinition> = {}): PipelineStepDefinition {
+  return { id, name: id, type: 'condition', condition: { expression, ifTrue, ifFalse }, ...extra };
+}
+
+function createExecutor(steps: PipelineStepDefinition[], variables: Record<string, any> = {}): PipelineExecutor {
+  const definition: PipelineDefinition = {
+    id: 'condition-test',
+    name: 'condition-test',
+    description: 'Condition routing test',
+    version: '1.0.0',
+    variables,
+    steps
+  };
+  return new PipelineExecutor(definition, {} as any, {} as any);
+}
+
+function stepsById(steps: PipelineStepResult[]): Map<string, PipelineStepResult> {
+  return new Map(steps.map(step => [step.stepId, step]));
+}
+
+async function runPipelineConditionTests() {
+  logger.log('=== TEST: Pipeline condition routing ===');
+
+  // Test Suite 1: Branches
+  logger.log('\n--- Test Suite 1: Branching ---');
+
+  for (const flag of [true, false]) {
+    const runs: string[] = [];
+    const result: any = await createExecutor([
+      conditionStep('check', '$flag', 'yes', 'no'),
+      countingStep('yes', runs),
+      countingStep('no', runs),
+      countingStep('merge', runs)
+    ], { flag }).execute();
+    const [taken, untaken] = flag ? ['yes', 'no'] : ['no', 'yes'];
+    const steps = stepsById(result.result.steps);
+    assert.strictEqual(result.success, true, `Test Case 1.1 FAILED: Run with flag ${flag}`);
+    assert.deepStrictEqual(runs, [taken, 'merge'], `Test Case 1.1 FAILED: Steps run with flag ${flag}`);
+    assert.strictEqual(steps.get(untaken)!.skipped, true, `Test Case 1.1 FAILED: ${untaken} should be skipped`);
+    // Routing to 'no' also passes over 'yes', which sits between the condition and its target
+    const reason = flag ? 'Condition check did not route to this step' : 'Condition check jumped to no';
+    assert.deepStrictEqual(steps.get(untaken)!.result, { skipped: true, reason }, 'Test Case 1.1 FAILED: Skip reason');
+    assert.deepStrictEqual(result.result.skippedSteps, [untaken], 'Test Case 1.1 FAILED: skippedSteps');
+    assert.strictEqual(result.metrics.stepResults.stepsSkipped, 1, 'Test Case 1.1 FAILED: stepsSkipped metric');
+  }
+  logger.log('Test Case 1.1 PASSED: The untaken branch is marked skipped');
+
+  let runs: string[] = [];
+  let result: any = await createExecutor([
+    conditionStep('check', '$flag', 'yes'),
+    countingStep('yes', runs),
+    countingStep('after', runs)
+  ], { flag: false }).execute();
+  assert.deepStrictEqual(runs, ['after'], 'Test Case 1.2 FAILED: A false condition without ifFalse should carry on');
+  assert.deepStrictEqual(result.result.skippedSteps, ['yes'], 'Test Case 1.2 FAILED: ifTrue skipped');
+  logger.log('Test Case 1.2 PASSED: Without ifFalse a false condition skips ifTrue and carries on');
+
+  runs = [];
+  result = await createExecutor([
+    conditionStep('check', '$flag', 'publish'),
+    countingStep('draft', runs),
+    countingStep('review', runs),
+    countingStep('publish', runs)
+  ], { flag: true }).execute();
+  assert.deepStrictEqual(runs, ['publish'], 'Test Case 1.3 FAILED: Jump');
+  assert.strictEqual(stepsById(result.result.steps).get('review')!.result.reason, 'Condition check jumped to publish', 'Test Case 1.3 FAILED: Skip reason');
+  logger.log('Test Case 1.3 PASSED: Routing forward in a sequential pipeline skips the steps in between');
+
+  runs = [];
+  result = await createExecutor([
+    countingStep('start', runs),
+    conditionStep('check', '$flag', 'yes', 'no', { dependencies: ['start'] }),
+    countingStep('yes', runs, { dependencies: ['check'] }),
+    countingStep('no', runs, { dependencies: ['check'] }),
+    countingStep('no-followup', runs, { dependencies: ['no'] }),
+    countingStep('join', runs, { dependencies: ['yes', 'no-followup'] })
+  ], { flag: true }).execute();
+  let steps = stepsById(result.result.steps);
+  assert.strictEqual(result.success, true, 'Test Case 1.4 FAILED: DAG run');
+  assert.deepStrictEqual(runs, ['start', 'yes', 'join'], 'Test Case 1.4 FAILED: Steps run');
+  assert.strictEqual(steps.get('no-followup')!.result.reason, 'All dependencies of no-followup were skipped', 'Test Case 1.4 FAILED: Skip propagation');
+  assert.deepStrictEqual(result.result.skippedSteps.sort(), ['no', 'no-followup'], 'Test Case 1.4 FAILED: skippedSteps');
+  logger.log('Test Case 1.4 PASSED: In a DAG, steps behind only the untaken branch are skipped and joins still run');
+
+  // Test Suite 2: Loops
+  logger.log('\n--- Test Suite 2: Loops ---');
+
+  runs = [];
+  result = await createExecutor([
+    countingStep('increment', runs, { outputs: { n: 'next' } }),
+    conditionStep('again', '$n < 3', 'increment'),
+    countingStep('done', runs)
+  ], { n: 0 }).execute();
+  assert.strictEqual(result.success, true, 'Test Case 2.1 FAILED: Loop run');
+  assert.deepStrictEqual(runs, ['increment', 'increment', 'increment', 'done'], 'Test Case 2.1 FAILED: Loop iterations');
+  assert.strictEqual(result.result.output.variables.n, 3, 'Test Case 2.1 FAILED: Loop result');
+  logger.log('Test Case 2.1 PASSED: Routing back to an earlier step repeats it until the condition turns false');
+
+  runs = [];
+  result = await createExecutor([
+    countingStep('work', runs),
+    { id: 'forever', name: 'forever', type: 'condition', condition: { expression: 'true', ifTrue: 'work', maxIterations: 2 } },
+    countingStep('after', runs)
+  ]).execute();
+  steps = stepsById(result.result.steps);
+  assert.strictEqual(result.success, false, 'Test Case 2.2 FAILED: Endless loop should fail');
+  assert.deepStrictEqual(runs, ['work', 'work', 'work'], 'Test Case 2.2 FAILED: The loop should run maxIterations more times');
+  assert.strictEqual(steps.get('forever')!.error, 'Condition step forever exceeded maxIterations (2) looping back to work', 'Test Case 2.2 FAILED: Guard error');
+  assert.ok(!steps.has('after'), 'Test Case 2.2 FAILED: Steps after the guard should not run');
+  logger.log('Test Case 2.2 PASSED: A loop stops at its maxIterations guard');
+
+  // Test Suite 3: Validation
+  logger.log('\n--- Test Suite 3: Validation ---');
+
+  assert.throws(() => createExecutor([conditionStep('check', 'true', 'nowhere')]), /Condition step check routes to non-existent step: nowhere/, 'Test Case 3.1 FAILED: Unknown target');
+  logger.log('Test Case 3.1 PASSED: Conditions routing to unknown steps are rejected');
+
+  result = await createExecutor([conditionStep('check', '$flag +', 'a'), countingStep('a', [])]).execute();
+  assert.strictEqual(result.success, false, 'Test Case 3.2 FAILED: Malformed expression');
+  assert.match(stepsById(result.result.steps).get('check')!.error!, /in expression: \$flag \+/, 'Test Case 3.2 FAILED: Expression error');
+  logger.log('Test Case 3.2 PASSED: A malformed condition fails its step instead of taking a branch');
+
+  logger.log('\n🎉🎉🎉 Pipeline Condition Tests PASSED! 🎉🎉🎉');
+  process.exitCode = 0;
+}
+
+runPipelineConditionTests().catch(err => {
+  logger.error('Test script encountered an error:', err.message);
+  if (err.stack) logger.error('Stack:', err.stack);
+  process.exitCode = 1;
+}).finally(() => {
+    if (process.exitCode === 0) {
+        setTimeout(() => process.exit(0), 500);
+    } else {
+        setTimeout(() => process.exit(process.exitCode || 1), 500);
+    }
+});
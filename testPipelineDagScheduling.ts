@@ -0,0 +1,126 @@
+import * as assert from 'assert';
+import { PipelineExecutor, PipelineDefinition, PipelineStepDefinition } from './src/pipelines/executor';
+import { PipelineStepResult } from './src/types/sdk';
+
+const logger = {
+  log: (message: string, ...args: any[]) => console.log(`[TEST_LOG] ${message}`, ...args),
+  error: (message: string, ...args: any[]) => console.error(`[TEST_ERROR] ${message}`, ...args),
+  warn: (message: string, ...args: any[]) => console.warn(`[TEST_WARN] ${message}`, ...args),
+};
+
+const waitStep = (id: string, duration: number, dependencies?: string[]): PipelineStepDefinition => ({
+  id,
+  name: id,
+  type: 'wait',
+  wait: { duration },
+  dependencies
+});
+
+function createExecutor(steps: PipelineStepDefinition[], maxParallelSteps?: number): PipelineExecutor {
+  const definition: PipelineDefinition = {
+    id: 'dag-test',
+    name: 'dag-test',
+    description: 'DAG scheduling test',
+    version: '1.0.0',
+    steps,
+    concurrency: maxParallelSteps ? { maxParallelSteps } : undefined
+  };
+  // Wait and transform steps never reach the agent or team services
+  return new PipelineExecutor(definition, {} as any, {} as any);
+}
+
+function stepsById(steps: PipelineStepResult[]): Map<string, PipelineStepResult> {
+  return new Map(steps.map(step => [step.stepId, step]));
+}
+
+const overlaps = (a: PipelineStepResult, b: PipelineStepResult) => a.startTime < b.endTime && b.startTime < a.endTime;
+
+async function runPipelineDagSchedulingTests() {
+  logger.log('=== TEST: Pipeline DAG validation and scheduling ===');
+
+  // Test Suite 1: Graph validation
+  logger.log('\n--- Test Suite 1: Graph validation ---');
+
+  assert.throws(
+    () => createExecutor([waitStep('a', 1, ['c']), waitStep('b', 1, ['a']), waitStep('c', 1, ['b'])]),
+    /dependency cycle: a -> c -> b -> a/,
+    'Test Case 1.1 FAILED: Three-step cycle'
+  );
+  logger.log('Test Case 1.1 PASSED: Three-step cycle reported with its path');
+
+  assert.throws(
+    () => createExecutor([waitStep('a', 1), waitStep('b', 1, ['b'])]),
+    /dependency cycle: b -> b/,
+    'Test Case 1.2 FAILED: Self dependency'
+  );
+  logger.log('Test Case 1.2 PASSED: Self dependency is a cycle');
+
+  assert.throws(
+    () => createExecutor([waitStep('a', 1), waitStep('b', 1, ['missing'])]),
+    /Step b depends on non-existent step: missing/,
+    'Test Case 1.3 FAILED: Unknown dependency'
+  );
+  logger.log('Test Case 1.3 PASSED: Unknown dependency rejected');
+
+  assert.doesNotThrow(
+    () => createExecutor([waitStep('a', 1), waitStep('b', 1, ['a']), waitStep('c', 1, ['a']), waitStep('d', 1, ['b', 'c'])]),
+    'Test Case 1.4 FAILED: Diamond is not a cycle'
+  );
+  logger.log('Test Case 1.4 PASSED: Diamond is accepted');
+
+  // Test Suite 2: Plan order and levels
+  logger.log('\n--- Test Suite 2: Plan order and levels ---');
+
+  const diamond = [waitStep('d', 50, ['b', 'c']), waitStep('c', 100, ['a']), waitStep('b', 100, ['a']), waitStep('a', 50)];
+  let plan = await createExecutor(diamond).plan();
+  assert.deepStrictEqual(plan.order, ['a', 'c', 'b', 'd'], 'Test Case 2.1 FAILED: Topological order keeps declaration order for ties');
+  assert.deepStrictEqual(plan.levels, [['a'], ['c', 'b'], ['d']], 'Test Case 2.1 FAILED: Levels');
+  logger.log('Test Case 2.1 PASSED: Declared out of order, planned topologically');
+
+  plan = await createExecutor([waitStep('x', 1), waitStep('y', 1), waitStep('z', 1)]).plan();
+  assert.deepStrictEqual(plan.order, ['x', 'y', 'z'], 'Test Case 2.2 FAILED: Sequential order');
+  assert.deepStrictEqual(plan.levels, [['x'], ['y'], ['z']], 'Test Case 2.2 FAILED: Without dependencies steps run one after another');
+  logger.log('Test Case 2.2 PASSED: Pipelines without dependencies stay sequential');
+
+  // Test Suite 3: Execution
+  logger.log('\n--- Test Suite 3: Execution ---');
+
+  let result = await createExecutor(diamond).execute();
+  assert.strictEqual(result.success, true, 'Test Case 3.1 FAILED: Diamond run');
+  let steps = stepsById(result.result.steps);
+  assert.ok(overlaps(steps.get('b')!, steps.get('c')!), 'Test Case 3.1 FAILED: Independent steps should run side by side');
+  assert.ok(steps.get('b')!.startTime >= steps.get('a')!.endTime, 'Test Case 3.1 FAILED: b started before a finished');
+  assert.ok(steps.get('d')!.startTime >= Math.max(steps.get('b')!.endTime, steps.get('c')!.endTime), 'Test Case 3.1 FAILED: d started before its dependencies');
+  logger.log('Test Case 3.1 PASSED: Independent steps overlap, dependents wait');
+
+  result = await createExecutor(diamond, 1).execute();
+  assert.strictEqual(result.success, true, 'Test Case 3.2 FAILED: Capped run');
+  steps = stepsById(result.result.steps);
+  assert.ok(!overlaps(steps.get('b')!, steps.get('c')!), 'Test Case 3.2 FAILED: maxParallelSteps 1 should serialize');
+  logger.log('Test Case 3.2 PASSED: maxParallelSteps caps concurrency');
+
+  result = await createExecutor([
+    { id: 'bad', name: 'bad', type: 'transform', continueOnError: true, retryPolicy: { maxRetries: 0, backoffMs: 1, retryOn: [] } },
+    waitStep('after', 1, ['bad'])
+  ]).execute();
+  steps = stepsById(result.result.steps);
+  assert.strictEqual(result.success, false, 'Test Case 3.3 FAILED: Run should fail');
+  assert.strictEqual(steps.get('after')!.success, false, 'Test Case 3.3 FAILED: Dependent of a failed step');
+  assert.match(steps.get('after')!.error!, /Dependencies not met for step: after \(bad did not succeed\)/, 'Test Case 3.3 FAILED: Dependency error');
+  logger.log('Test Case 3.3 PASSED: Dependents of a failed step do not run');
+
+  logger.log('\n🎉🎉🎉 Pipeline DAG Scheduling Tests PASSED! 🎉🎉🎉');
+  process.exitCode = 0;
+}
+
+runPipelineDagSchedulingTests().catch(err => {
+  logger.error('Test script encountered an error:', err.message);
+  if (err.stack) logger.error('Stack:', err.stack);
+  process.exitCode = 1;
+}).finally(() => {
+    if (process.exitCode === 0) {
+        setTimeout(() => process.exit(0), 500);
+    } else {
+        setTimeout(() => process.exit(process.exitCode || 1), 500);
+    }
+});
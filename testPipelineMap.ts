@@ -0,0 +1,176 @@
+import * as assert from 'assert';
+import { PipelineExecutor, PipelineDefinition, PipelineStepDefinition } from './src/pipelines/executor';
+import { PipelineStepResult } from './src/types/sdk';
+
+const logger = {
+  log: (message: string, ...args: any[]) => console.log(`[TEST_LOG] ${message}`, ...args),
+  error: (message: string, ...args: any[]) => console.error(`[TEST_ERROR] ${message}`, ...args),
+  warn: (message: string, ...args: any[]) => console.warn(`[TEST_WARN] ${message}`, ...args),
+};
+
+// Squares $item; later items finish sooner, items listed in `failing` throw, and `tracker` records each start and the peak in flight
+function squareStep(tracker: { started: number[]; inFlight: number; peak: number }, failing: number[] = []): PipelineStepDefinition {
+  return {
+    id: 'square',
+    name: 'square',
+    type: 'transform',
+    transform: { input: 'value', output: 'square', transformation: 'value * value' },
+    inputMap: async context => {
+      const index = context.variables.get('index');
+      tracker.started.push(index);
+      tracker.inFlight++;
+      tracker.peak = Math.max(tracker.peak, tracker.inFlight);
+      await new Promise(resolve => setTimeout(resolve, 40 - index * 5));
+      tracker.inFlight--;
+      if (failing.includes(index)) throw new Error(`item ${index} failed`);
+      return { value: context.variables.get('item') };
+    }
+  };
+}
+
+function createTracker() {
+  return { started: [] as number[], inFlight: 0, peak: 0 };
+}
+
+function definition(name: string, steps: PipelineStepDefinition[], extra: Partial<PipelineDefinition> = {}): PipelineDefinition {
+  return { id: name, name, description: 'Map test', version: '1.0.0', steps, ...extra };
+}
+
+// Stand-in for the pipeline service: sub-pipelines are looked up by name in `pipelines`
+function createPipelineService() {
+  const pipelines = new Map<string, PipelineExecutor>();
+  return { pipelines, get: async (name: string) => pipelines.get(name) };
+}
+
+function stepsById(steps: PipelineStepResult[]): Map<string, PipelineStepResult> {
+  return new Map(steps.map(step => [step.stepId, step]));
+}
+
+async function runPipelineMapTests() {
+  logger.log('=== TEST: Pipeline map and sub-pipeline steps ===');
+
+  // Test Suite 1: Mapping a step over items
+  logger.log('\n--- Test Suite 1: Map over a step ---');
+
+  let tracker = createTracker();
+  let result: any = await new PipelineExecutor(definition('squares', [
+    { id: 'each', name: 'each', type: 'map', map: { items: '$numbers', step: 'square', concurrency: 2 }, outputs: { squares: 'results' } },
+    squareStep(tracker),
+    { id: 'count', name: 'count', type: 'transform', dependencies: ['each'], transform: { input: '$squares', output: 'count', transformation: 'len(value)' }, outputs: { count: 'count' } }
+  ]), {} as any, {} as any).execute({ numbers: [1, 2, 3, 4, 5] });
+  let steps = stepsById(result.result.steps);
+  assert.strictEqual(result.success, true, `Test Case 1.1 FAILED: Map run failed: ${result.error}`);
+  assert.deepStrictEqual(result.result.output.variables.squares.map((entry: any) => entry.square), [1, 4, 9, 16, 25], 'Test Case 1.1 FAILED: Results out of item order');
+  assert.deepStrictEqual(steps.get('each')!.result.failed, [], 'Test Case 1.1 FAILED: failed');
+  assert.strictEqual(steps.get('each')!.result.count, 5, 'Test Case 1.1 FAILED: count');
+  assert.strictEqual(result.result.output.variables.count, 5, 'Test Case 1.1 FAILED: Results should feed later steps');
+  assert.ok(!steps.has('square'), 'Test Case 1.1 FAILED: The mapped step should not be scheduled on its own');
+  logger.log('Test Case 1.1 PASSED: Results keep item order even when later items finish first');
+
+  assert.strictEqual(tracker.peak, 2, 'Test Case 1.2 FAILED: map.concurrency not respected');
+  tracker = createTracker();
+  await new PipelineExecutor(definition('defaults', [
+    { id: 'each', name: 'each', type: 'map', map: { items: '$numbers', step: 'square' } },
+    squareStep(tracker)
+  ]), {} as any, {} as any).execute({ numbers: [1, 2, 3, 4, 5, 6, 7, 8] });
+  assert.strictEqual(tracker.peak, 5, 'Test Case 1.2 FAILED: Default concurrency');
+  tracker = createTracker();
+  await new PipelineExecutor(definition('limited', [
+    { id: 'each', name: 'each', type: 'map', map: { items: '$numbers', step: 'square' } },
+    squareStep(tracker)
+  ], { concurrency: { maxParallelSteps: 3 } }), {} as any, {} as any).execute({ numbers: [1, 2, 3, 4, 5, 6] });
+  assert.strictEqual(tracker.peak, 3, 'Test Case 1.2 FAILED: concurrency.maxParallelSteps');
+  logger.log('Test Case 1.2 PASSED: Items in flight are capped by map.concurrency, then maxParallelSteps, then 5');
+
+  // Test Suite 2: Failed items
+  logger.log('\n--- Test Suite 2: Item failures ---');
+
+  tracker = createTracker();
+  result = await new PipelineExecutor(definition('fail-fast', [
+    { id: 'each', name: 'each', type: 'map', map: { items: '$numbers', step: 'square', concurrency: 1 } },
+    squareStep(tracker, [1]),
+    { id: 'after', name: 'after', type: 'transform', dependencies: ['each'], transform: { input: '$numbers', output: 'n', transformation: 'len(value)' } }
+  ]), {} as any, {} as any).execute({ numbers: [1, 2, 3, 4] });
+  steps = stepsById(result.result.steps);
+  assert.strictEqual(result.success, false, 'Test Case 2.1 FAILED: Run should fail');
+  assert.strictEqual(steps.get('each')!.error, 'Map step each failed on item 1: item 1 failed', 'Test Case 2.1 FAILED: Step error');
+  assert.deepStrictEqual(tracker.started, [0, 1], 'Test Case 2.1 FAILED: Items after the failure should not start');
+  assert.ok(!steps.has('after'), 'Test Case 2.1 FAILED: Dependent step ran');
+  logger.log('Test Case 2.1 PASSED: Without continueOnError the first failed item fails the step');
+
+  tracker = createTracker();
+  result = await new PipelineExecutor(definition('tolerant', [
+    { id: 'each', name: 'each', type: 'map', map: { items: '$numbers', step: 'square', continueOnError: true } },
+    squareStep(tracker, [1, 3])
+  ]), {} as any, {} as any).execute({ numbers: [1, 2, 3, 4] });
+  const mapped = stepsById(result.result.steps).get('each')!.result;
+  assert.strictEqual(result.success, true, 'Test Case 2.2 FAILED: Run should succeed');
+  assert.deepStrictEqual(mapped.results, [{ square: 1 }, null, { square: 9 }, null], 'Test Case 2.2 FAILED: Failed items should be null in place');
+  assert.deepStrictEqual(mapped.failed, [{ index: 1, error: 'item 1 failed' }, { index: 3, error: 'item 3 failed' }], 'Test Case 2.2 FAILED: failed');
+  logger.log('Test Case 2.2 PASSED: With continueOnError failed items are left as null and listed');
+
+  result = await new PipelineExecutor(definition('not-array', [
+    { id: 'each', name: 'each', type: 'map', map: { items: '$numbers', step: 'square' } },
+    squareStep(createTracker())
+  ]), {} as any, {} as any).execute({ numbers: 'one, two' });
+  assert.strictEqual(stepsById(result.result.steps).get('each')!.error, 'Map step each items must resolve to an array, got string', 'Test Case 2.3 FAILED: Non-array items');
+  logger.log('Test Case 2.3 PASSED: Items that are not an array fail the step');
+
+  // Test Suite 3: Sub-pipelines
+  logger.log('\n--- Test Suite 3: Sub-pipelines ---');
+
+  const service = createPipelineService();
+  service.pipelines.set('double', new PipelineExecutor(definition('double', [
+    { id: 'double', name: 'double', type: 'transform', inputMap: async context => ({ value: context.variables.get('item') }), transform: { input: 'value', output: 'doubled', transformation: 'value * 2' }, outputs: { doubled: 'doubled' } }
+  ]), {} as any, {} as any, undefined, service as any));
+
+  result = await new PipelineExecutor(definition('mapped-pipeline', [
+    { id: 'each', name: 'each', type: 'map', map: { items: '$numbers', pipeline: 'double', concurrency: 3 } },
+    { id: 'call', name: 'call', type: 'pipeline', pipeline: 'double', inputs: { item: '$seed' }, outputs: { called: 'variables.doubled' } }
+  ]), {} as any, {} as any, undefined, service as any).execute({ numbers: [1, 2, 3, 4], seed: 10 });
+  steps = stepsById(result.result.steps);
+  assert.strictEqual(result.success, true, `Test Case 3.1 FAILED: Run failed: ${result.error}`);
+  assert.deepStrictEqual(steps.get('each')!.result.results.map((output: any) => [output.variables.index, output.variables.doubled]), [[0, 2], [1, 4], [2, 6], [3, 8]], 'Test Case 3.1 FAILED: Mapped pipeline results');
+  logger.log('Test Case 3.1 PASSED: map.pipeline runs the pipeline once per item, in item order');
+
+  assert.strictEqual(result.result.output.variables.called, 20, 'Test Case 3.2 FAILED: Pipeline step output');
+  logger.log('Test Case 3.2 PASSED: A pipeline step exposes the sub-run\'s output to its outputs');
+
+  service.pipelines.set('ping', new PipelineExecutor(definition('ping', [{ id: 'to-pong', name: 'to-pong', type: 'pipeline', pipeline: 'pong' }]), {} as any, {} as any, undefined, service as any));
+  service.pipelines.set('pong', new PipelineExecutor(definition('pong', [{ id: 'to-ping', name: 'to-ping', type: 'pipeline', pipeline: 'ping' }]), {} as any, {} as any, undefined, service as any));
+  result = await service.pipelines.get('ping')!.execute();
+  assert.strictEqual(result.success, false, 'Test Case 3.3 FAILED: Cycle should fail');
+  // pong's own run fails on the cycle, so ping sees pong fail rather than recursing forever
+  assert.strictEqual(stepsById(result.result.steps).get('to-pong')!.error, 'Pipeline pong failed: Pipeline stopped due to step failure: to-ping', 'Test Case 3.3 FAILED: Cycle error');
+  result = await new PipelineExecutor(definition('orphan', [{ id: 'call', name: 'call', type: 'pipeline', pipeline: 'missing' }]), {} as any, {} as any, undefined, service as any).execute();
+  assert.match(stepsById(result.result.steps).get('call')!.error!, /Pipeline missing not found/, 'Test Case 3.3 FAILED: Missing pipeline');
+  logger.log('Test Case 3.3 PASSED: Pipeline cycles and unknown pipelines fail the step');
+
+  // Test Suite 4: Validation
+  logger.log('\n--- Test Suite 4: Validation ---');
+
+  const invalid: Array<[PipelineStepDefinition[], RegExp]> = [
+    [[{ id: 'each', name: 'each', type: 'map', map: { items: '$numbers' } }], /Map step each must name exactly one of map.step or map.pipeline/],
+    [[{ id: 'each', name: 'each', type: 'map', map: { items: '$numbers', step: 'nowhere' } }], /Map step each references non-existent step: nowhere/],
+    [[{ id: 'call', name: 'call', type: 'pipeline', pipeline: 'invalid' }], /Step call cannot run its own pipeline: invalid/]
+  ];
+  for (const [steps, expected] of invalid) {
+    assert.throws(() => new PipelineExecutor(definition('invalid', steps), {} as any, {} as any), expected, `Test Case 4.1 FAILED: Accepted ${steps[0].id}`);
+  }
+  logger.log('Test Case 4.1 PASSED: Malformed map and pipeline steps are rejected at construction');
+
+  logger.log('\n🎉🎉🎉 Pipeline Map Tests PASSED! 🎉🎉🎉');
+  process.exitCode = 0;
+}
+
+runPipelineMapTests().catch(err => {
+  logger.error('Test script encountered an error:', err.message);
+  if (err.stack) logger.error('Stack:', err.stack);
+  process.exitCode = 1;
+}).finally(() => {
+    if (process.exitCode === 0) {
+        setTimeout(() => process.exit(0), 500);
+    } else {
+        setTimeout(() => process.exit(process.exitCode || 1), 500);
+    }
+});
@@ -0,0 +1,169 @@
+import * as assert from 'assert';
+import { PipelineExecutor, PipelineDefinition, PipelineStepDefinition } from './src/pipelines/executor';
+import { PipelineIntelligence } from './src/pipelines/service';
+
+const logger = {
+  log: (message: string, ...args: any[]) => console.log(`[TEST_LOG] ${message}`, ...args),
+  error: (message: string, ...args: any[]) => console.error(`[TEST_ERROR] ${message}`, ...args),
+  warn: (message: string, ...args: any[]) => console.warn(`[TEST_WARN] ${message}`, ...args),
+};
+
+// Adds one to $n, failing its first `failures.remaining` runs; `failures.runs` counts every attempt
+function flakyStep(id: string, failures: { remaining: number; runs: number }): PipelineStepDefinition {
+  return {
+    id,
+    name: id,
+    type: 'transform',
+    transform: { input: 'x', output: 'next', transformation: 'value + 1' },
+    inputMap: async context => {
+      failures.runs++;
+      if (failures.remaining > 0) {
+        failures.remaining--;
+        throw new Error(`${id} is flaky`);
+      }
+      return { x: context.variables.get('n') ?? 0 };
+    },
+    outputs: { n: 'next' }
+  };
+}
+
+function definition(name: string, steps: PipelineStepDefinition[], extra: Partial<PipelineDefinition> = {}): PipelineDefinition {
+  return { id: name, name, description: 'Recovery test', version: '1.0.0', steps, ...extra };
+}
+
+// Stand-in for the pipeline service: sub-pipelines are looked up by name in `pipelines`
+function createPipelineService() {
+  const pipelines = new Map<string, PipelineExecutor>();
+  return { pipelines, get: async (name: string) => pipelines.get(name) };
+}
+
+async function runPipelineRecoveryTests() {
+  logger.log('=== TEST: Pipeline error recovery ===');
+
+  // Test Suite 1: Fallback pipelines
+  logger.log('\n--- Test Suite 1: Fallback ---');
+
+  const service = createPipelineService();
+  const rescueRuns: any[] = [];
+  service.pipelines.set('rescue', new PipelineExecutor(definition('rescue', [{
+    id: 'handle',
+    name: 'handle',
+    type: 'transform',
+    inputMap: async context => {
+      rescueRuns.push({ seed: context.variables.get('seed'), n: context.variables.get('n'), error: context.variables.get('error') });
+      return { failed: context.variables.get('error') };
+    },
+    transform: { input: 'failed', output: 'handled', transformation: 'value.step' },
+    outputs: { handled: 'handled' }
+  }]), {} as any, {} as any, undefined, service as any));
+
+  let failures = { remaining: 1, runs: 0 };
+  const main = new PipelineExecutor(definition('main', [
+    { id: 'seed', name: 'seed', type: 'transform', inputs: { x: '$seed' }, transform: { input: 'x', output: 'value', transformation: 'value' }, outputs: { n: 'value' } },
+    flakyStep('work', failures)
+  ], { errorHandling: { strategy: 'fallback', fallbackPipeline: 'rescue' } }), {} as any, {} as any, undefined, service as any);
+  let result: any = await main.execute({ seed: 7 });
+  assert.strictEqual(result.success, true, `Test Case 1.1 FAILED: Fallback run failed: ${result.error}`);
+  assert.strictEqual(result.fallbackUsed, true, 'Test Case 1.1 FAILED: fallbackUsed');
+  assert.strictEqual(result.result.status, 'failed', 'Test Case 1.1 FAILED: The main run itself should stay failed');
+  assert.strictEqual(result.result.fallback.pipeline, 'rescue', 'Test Case 1.1 FAILED: Fallback pipeline');
+  assert.strictEqual(result.result.fallback.triggeredBy, 'Pipeline stopped due to step failure: work', 'Test Case 1.1 FAILED: triggeredBy');
+  assert.strictEqual(result.result.output.variables.handled, 'work', 'Test Case 1.1 FAILED: Fallback output');
+  logger.log('Test Case 1.1 PASSED: A failed run hands over to its fallback pipeline and reports fallbackUsed');
+
+  assert.strictEqual(rescueRuns.length, 1, 'Test Case 1.2 FAILED: Fallback runs');
+  const [{ seed, n, error }] = rescueRuns;
+  assert.deepStrictEqual([seed, n], [7, 7], 'Test Case 1.2 FAILED: The fallback should get the failed run\'s variables');
+  assert.strictEqual(error.pipeline, 'main', 'Test Case 1.2 FAILED: error.pipeline');
+  assert.strictEqual(error.executionId, result.result.executionId, 'Test Case 1.2 FAILED: error.executionId');
+  assert.strictEqual(error.step, 'work', 'Test Case 1.2 FAILED: error.step');
+  assert.strictEqual(error.error, 'work is flaky', 'Test Case 1.2 FAILED: error.error');
+  assert.strictEqual(error.message, 'Pipeline stopped due to step failure: work', 'Test Case 1.2 FAILED: error.message');
+  assert.deepStrictEqual(error.errorHistory.map((entry: any) => entry.step), ['work'], 'Test Case 1.2 FAILED: error.errorHistory');
+  logger.log('Test Case 1.2 PASSED: The fallback receives the variables plus an error object describing the failure');
+
+  service.pipelines.delete('rescue');
+  failures.remaining = 1;
+  result = await main.execute({ seed: 7 });
+  assert.strictEqual(result.success, false, 'Test Case 1.3 FAILED: Run with a missing fallback');
+  assert.strictEqual(result.fallbackUsed, undefined, 'Test Case 1.3 FAILED: fallbackUsed without a fallback');
+  assert.strictEqual(result.error, 'Pipeline stopped due to step failure: work; fallback pipeline rescue could not run: Pipeline rescue not found', 'Test Case 1.3 FAILED: Error');
+  logger.log('Test Case 1.3 PASSED: A missing fallback pipeline leaves the original failure in place');
+
+  // Test Suite 2: The global retry budget
+  logger.log('\n--- Test Suite 2: maxGlobalRetries ---');
+
+  failures = { remaining: 2, runs: 0 };
+  const retrying = new PipelineExecutor(definition('retrying', [flakyStep('work', failures)], {
+    errorHandling: { strategy: 'retry', maxGlobalRetries: 2 }
+  }), {} as any, {} as any);
+  result = await retrying.execute({ n: 1 });
+  assert.strictEqual(result.success, true, `Test Case 2.1 FAILED: Retried run failed: ${result.error}`);
+  assert.strictEqual(failures.runs, 3, 'Test Case 2.1 FAILED: Attempts');
+  assert.strictEqual(result.metrics.stepResults.retryCount, 2, 'Test Case 2.1 FAILED: retryCount');
+  assert.deepStrictEqual(retrying.getPipelineStatus()!.errorHistory.map((entry: any) => [entry.step, entry.retryAttempt]), [['work', 1], ['work', 2]], 'Test Case 2.1 FAILED: errorHistory');
+  logger.log('Test Case 2.1 PASSED: A failed step is retried while the global budget lasts');
+
+  failures.remaining = 5;
+  failures.runs = 0;
+  result = await retrying.execute({ n: 1 });
+  assert.strictEqual(result.success, false, 'Test Case 2.2 FAILED: Run should fail once the budget is spent');
+  assert.strictEqual(result.error, 'Pipeline stopped due to step failure: work (maxGlobalRetries 2 exhausted)', 'Test Case 2.2 FAILED: Error');
+  assert.strictEqual(failures.runs, 3, 'Test Case 2.2 FAILED: Retried past maxGlobalRetries');
+  logger.log('Test Case 2.2 PASSED: Retries stop at maxGlobalRetries');
+
+  failures = { remaining: 10, runs: 0 };
+  result = await new PipelineExecutor(definition('defaulted', [flakyStep('one', failures)], {
+    errorHandling: { strategy: 'retry' }
+  }), {} as any, {} as any).execute();
+  assert.strictEqual(result.error, 'Pipeline stopped due to step failure: one (maxGlobalRetries 3 exhausted)', 'Test Case 2.3 FAILED: Default budget');
+  assert.strictEqual(failures.runs, 4, 'Test Case 2.3 FAILED: Attempts under the default budget');
+  logger.log('Test Case 2.3 PASSED: The retry strategy defaults to a budget of 3');
+
+  // Step-level retries draw on the same budget
+  const intelligence = new PipelineIntelligence();
+  const context: any = { pipelineId: 'budgeted', metadata: { retryCount: 1 } };
+  let attempts = 0;
+  const stepResult = await intelligence.executeStepWithEnhancedRecovery(
+    { id: 'call', name: 'call', type: 'tool', retryPolicy: { maxRetries: 5, backoffMs: 1, retryOn: [] } },
+    context,
+    async () => {
+      attempts++;
+      throw new Error('Service temporarily unavailable');
+    },
+    { maxGlobalRetries: 2 }
+  );
+  assert.strictEqual(stepResult.success, false, 'Test Case 2.4 FAILED: Step should fail');
+  assert.strictEqual(attempts, 2, 'Test Case 2.4 FAILED: Step retries should stop at the global budget');
+  assert.strictEqual(context.metadata.retryCount, 2, 'Test Case 2.4 FAILED: Budget used');
+  logger.log('Test Case 2.4 PASSED: Step retry policies stop once the run-wide budget is used');
+
+  // Test Suite 3: Validation
+  logger.log('\n--- Test Suite 3: Validation ---');
+
+  const invalid: Array<[PipelineDefinition['errorHandling'], RegExp]> = [
+    [{ strategy: 'fallback' }, /Pipeline invalid uses the fallback strategy but names no fallbackPipeline/],
+    [{ strategy: 'fallback', fallbackPipeline: 'invalid' }, /Pipeline invalid cannot be its own fallback pipeline/],
+    [{ strategy: 'retry', maxGlobalRetries: -1 }, /Pipeline invalid has invalid maxGlobalRetries: -1/],
+    [{ strategy: 'retry', maxGlobalRetries: 1.5 }, /Pipeline invalid has invalid maxGlobalRetries: 1.5/]
+  ];
+  for (const [errorHandling, expected] of invalid) {
+    assert.throws(() => new PipelineExecutor(definition('invalid', [], { errorHandling }), {} as any, {} as any), expected, `Test Case 3.1 FAILED: Accepted ${JSON.stringify(errorHandling)}`);
+  }
+  logger.log('Test Case 3.1 PASSED: Invalid errorHandling settings are rejected at construction');
+
+  logger.log('\n🎉🎉🎉 Pipeline Recovery Tests PASSED! 🎉🎉🎉');
+  process.exitCode = 0;
+}
+
+runPipelineRecoveryTests().catch(err => {
+  logger.error('Test script encountered an error:', err.message);
+  if (err.stack) logger.error('Stack:', err.stack);
+  process.exitCode = 1;
+}).finally(() => {
+    if (process.exitCode === 0) {
+        setTimeout(() => process.exit(0), 500);
+    } else {
+        setTimeout(() => process.exit(process.exitCode || 1), 500);
+    }
+});
@@ -0,0 +1,95 @@
+import * as assert from 'assert';
+import { parseSSEStream, SSEEvent } from './src/llm/providers/sse';
+
+const logger = {
+  log: (message: string, ...args: any[]) => console.log(`[TEST_LOG] ${message}`, ...args),
+  error: (message: string, ...args: any[]) => console.error(`[TEST_ERROR] ${message}`, ...args),
+  warn: (message: string, ...args: any[]) => console.warn(`[TEST_WARN] ${message}`, ...args),
+};
+
+// Builds a response body that delivers the given strings as separate network chunks
+function bodyFrom(chunks: Array<string | Uint8Array>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(typeof chunk === 'string' ? encoder.encode(chunk) : chunk);
+      }
+      controller.close();
+    }
+  });
+}
+
+async function parse(chunks: Array<string | Uint8Array>): Promise<SSEEvent[]> {
+  const events: SSEEvent[] = [];
+  for await (const event of parseSSEStream(bodyFrom(chunks))) events.push(event);
+  return events;
+}
+
+async function runSSEParserTests() {
+  logger.log('=== TEST: parseSSEStream ===');
+
+  // Test Case 1: Named and unnamed events
+  let events = await parse(['event: ping\ndata: {"a":1}\n\ndata: plain\n\n']);
+  assert.deepStrictEqual(events, [
+    { event: 'ping', data: '{"a":1}' },
+    { event: undefined, data: 'plain' }
+  ], 'Test Case 1 FAILED: Named and unnamed events');
+  logger.log('Test Case 1 PASSED: Named and unnamed events');
+
+  // Test Case 2: Events split across chunks, including mid-line
+  events = await parse(['event: del', 'ta\ndata: {"te', 'xt":"hi"}\n', '\ndata: second\n\n']);
+  assert.deepStrictEqual(events, [
+    { event: 'delta', data: '{"text":"hi"}' },
+    { event: undefined, data: 'second' }
+  ], 'Test Case 2 FAILED: Split events');
+  logger.log('Test Case 2 PASSED: Events split across chunks');
+
+  // Test Case 3: Multi-byte characters split across chunks
+  const bytes = new TextEncoder().encode('data: héllo ✓\n\n');
+  events = await parse([bytes.slice(0, 8), bytes.slice(8, 15), bytes.slice(15)]);
+  assert.deepStrictEqual(events, [{ event: undefined, data: 'héllo ✓' }], 'Test Case 3 FAILED: Multi-byte split');
+  logger.log('Test Case 3 PASSED: Multi-byte characters split across chunks');
+
+  // Test Case 4: CRLF line endings and multi-line data
+  events = await parse(['data: line one\r\ndata: line two\r\n\r\n']);
+  assert.deepStrictEqual(events, [{ event: undefined, data: 'line one\nline two' }], 'Test Case 4 FAILED: CRLF and multi-line data');
+  logger.log('Test Case 4 PASSED: CRLF line endings and multi-line data');
+
+  // Test Case 5: Comments, unknown fields and empty events are skipped
+  events = await parse([': keep-alive\n\nid: 7\nretry: 100\n\nevent: noop\n\ndata:no-space\n\n']);
+  assert.deepStrictEqual(events, [{ event: undefined, data: 'no-space' }], 'Test Case 5 FAILED: Ignored lines');
+  logger.log('Test Case 5 PASSED: Comments, unknown fields and empty events are skipped');
+
+  // Test Case 6: A final event without a trailing blank line is still emitted
+  events = await parse(['data: first\n\nevent: done\ndata: last\n']);
+  assert.deepStrictEqual(events, [
+    { event: undefined, data: 'first' },
+    { event: 'done', data: 'last' }
+  ], 'Test Case 6 FAILED: Unterminated final event');
+  logger.log('Test Case 6 PASSED: Unterminated final event is emitted');
+
+  // Test Case 7: Stopping early releases the reader so the body can be cancelled
+  const body = bodyFrom(['data: 1\n\ndata: 2\n\n']);
+  for await (const event of parseSSEStream(body)) {
+    assert.strictEqual(event.data, '1', 'Test Case 7 FAILED: First event');
+    break;
+  }
+  assert.strictEqual(body.locked, false, 'Test Case 7 FAILED: Reader lock not released');
+  logger.log('Test Case 7 PASSED: Stopping early releases the reader');
+
+  logger.log('\n🎉🎉🎉 parseSSEStream Tests PASSED! 🎉🎉🎉');
+  process.exitCode = 0;
+}
+
+runSSEParserTests().catch(err => {
+  logger.error('Test script encountered an error:', err.message);
+  if (err.stack) logger.error('Stack:', err.stack);
+  process.exitCode = 1;
+}).finally(() => {
+    if (process.exitCode === 0) {
+        setTimeout(() => process.exit(0), 500);
+    } else {
+        setTimeout(() => process.exit(process.exitCode || 1), 500);
+    }
+});
@@ -0,0 +1,175 @@
+import * as assert from 'assert';
+import { TeamCoordinator, TeamExecutionStrategy } from './src/teams/coordinator';
+
+const logger = {
+  log: (message: string, ...args: any[]) => console.log(`[TEST_LOG] ${message}`, ...args),
+  error: (message: string, ...args: any[]) => console.error(`[TEST_ERROR] ${message}`, ...args),
+  warn: (message: string, ...args: any[]) => console.warn(`[TEST_WARN] ${message}`, ...args),
+};
+
+type Phase = 'draft' | 'revision' | 'vote' | 'judgement';
+type Speaker = (member: string, phase: Phase, prompt: string) => string | { error: string };
+
+const debate = { strategy: TeamExecutionStrategy.DEBATE };
+
+function phaseOf(prompt: string): Phase {
+  if (prompt.includes('Draft your own answer')) return 'draft';
+  if (prompt.includes('As judge')) return 'judgement';
+  if (prompt.includes('Vote for the strongest')) return 'vote';
+  return 'revision';
+}
+
+// Members answer through `speaker`, which sees the debate phase each prompt belongs to; every prompt is recorded
+async function createTeam(agents: string[], debateConfig: Record<string, any>) {
+  const registry: any = { getContextTools: () => [], getTeamTools: () => [], getAvailableTools: () => [] };
+  const team = new TeamCoordinator({ name: 'debate-test', description: 'Debate test team', agents, debate: debateConfig } as any, registry);
+  await team.initialize();
+
+  const prompts: Array<{ member: string; phase: Phase; prompt: string }> = [];
+  const speaker: { current: Speaker } = { current: member => `${member}'s answer` };
+  for (const member of (team as any).members.values()) {
+    member.executor = {
+      executeTask: async (prompt: string) => {
+        const phase = phaseOf(prompt);
+        prompts.push({ member: member.name, phase, prompt });
+        const reply = speaker.current(member.name, phase, prompt);
+        return typeof reply === 'string' ? { success: true, result: { response: reply } } : { success: false, error: reply.error };
+      }
+    };
+  }
+  return { team, prompts, speaker };
+}
+
+const revision = (revisedAnswer: string, critiques: Array<[string, string]> = []) =>
+  JSON.stringify({ critiques: critiques.map(([agent, critique]) => ({ agent, critique })), revisedAnswer });
+const countPhase = (prompts: Array<{ phase: Phase }>, phase: Phase) => prompts.filter(entry => entry.phase === phase).length;
+
+async function runTeamDebateTests() {
+  logger.log('=== TEST: Debate strategy ===');
+
+  // Test Suite 1: Rounds
+  logger.log('\n--- Test Suite 1: Critique rounds ---');
+
+  let { team, prompts, speaker } = await createTeam(['ann', 'ben', 'cal'], { rounds: 4 });
+  const revisionsSeen = new Map<string, number>();
+  speaker.current = (member, phase) => {
+    if (phase === 'draft') return `${member} draft`;
+    if (phase === 'vote') return JSON.stringify({ vote: member === 'ann' ? 'ben' : 'ann', reason: 'stronger' });
+    const seen = (revisionsSeen.get(member) || 0) + 1;
+    revisionsSeen.set(member, seen);
+    // Round one revises every answer; round two repeats them, so nothing changes
+    return revision(`${member} revised`, seen === 1 && member === 'ann' ? [['ben', 'cite a source'], ['ann', 'self critique'], ['ghost', 'nobody']] : []);
+  };
+  let result: any = await team.executeTask('Pick a database', debate);
+  let details = result.result.executionDetails;
+  assert.strictEqual(result.success, true, `Test Case 1.1 FAILED: Debate failed: ${result.error}`);
+  assert.strictEqual(details.rounds, 2, 'Test Case 1.1 FAILED: Should stop after the round that changed nothing');
+  assert.strictEqual(countPhase(prompts, 'revision'), 6, 'Test Case 1.1 FAILED: Revision turns');
+  assert.deepStrictEqual(details.finalAnswers, { ann: 'ann revised', ben: 'ben revised', cal: 'cal revised' }, 'Test Case 1.1 FAILED: Final answers');
+  logger.log('Test Case 1.1 PASSED: The debate stops early once a round changes no answer');
+
+  const benRoundTwo = prompts.filter(entry => entry.member === 'ben' && entry.phase === 'revision')[1].prompt;
+  assert.match(benRoundTwo, /Critiques of your answer from the last round:\n- ann: cite a source/, 'Test Case 1.2 FAILED: Critique not delivered');
+  assert.ok(!prompts.some(entry => /self critique|nobody/.test(entry.prompt)), 'Test Case 1.2 FAILED: Self and unknown critiques delivered');
+  const annRound1 = details.transcript.find((turn: any) => turn.agent === 'ann' && turn.round === 1);
+  assert.deepStrictEqual(annRound1.critiques, [{ agent: 'ben', critique: 'cite a source' }], 'Test Case 1.2 FAILED: Transcript critiques');
+  logger.log('Test Case 1.2 PASSED: Critiques reach their target in the next round');
+
+  // Test Suite 2: Parsing revisions
+  logger.log('\n--- Test Suite 2: parseRevision ---');
+
+  const parse = (content: string, agent: string = 'ann') => (team as any).parseRevision(content, agent, ['ann', 'ben', 'cal']);
+  assert.deepStrictEqual(parse('I now think Postgres is best.'), { answer: 'I now think Postgres is best.', critiques: [] }, 'Test Case 2.1 FAILED: Plain text reply');
+  assert.deepStrictEqual(parse('{"critiques": [{"agent": "ben", "critique": "x"}]}'), { answer: '{"critiques": [{"agent": "ben", "critique": "x"}]}', critiques: [] }, 'Test Case 2.1 FAILED: JSON without revisedAnswer');
+  logger.log('Test Case 2.1 PASSED: Replies that are not the requested JSON are taken as the revised answer');
+
+  assert.deepStrictEqual(parse('Sure:\n```json\n' + revision('Postgres', [['BEN', 'too vague'], ['cal', ' '], ['ann', 'mine']]) + '\n```'), {
+    answer: 'Postgres',
+    critiques: [{ agent: 'ben', critique: 'too vague' }]
+  }, 'Test Case 2.2 FAILED: Critique filtering');
+  logger.log('Test Case 2.2 PASSED: Critiques must name another participant and say something');
+
+  // Test Suite 3: Judge
+  logger.log('\n--- Test Suite 3: Judge convergence ---');
+
+  ({ team, prompts, speaker } = await createTeam(['ann', 'ben', 'jo'], { rounds: 1, judge: 'jo' }));
+  let judgement = JSON.stringify({ winner: 'BEN', rationale: 'better evidence' });
+  speaker.current = (member, phase) => phase === 'judgement' ? judgement : phase === 'draft' ? `${member} draft` : revision(`${member} final`);
+  result = await team.executeTask('Pick a database', debate);
+  details = result.result.executionDetails;
+  assert.strictEqual(result.success, true, 'Test Case 3.1 FAILED: Debate failed');
+  assert.deepStrictEqual(details.consensus, { answer: 'ben final', method: 'judge', winner: 'ben', rationale: 'better evidence' }, 'Test Case 3.1 FAILED: Consensus');
+  assert.strictEqual(result.result.answer, 'ben final', 'Test Case 3.1 FAILED: Answer');
+  assert.deepStrictEqual(details.participatingAgents, ['ann', 'ben', 'jo'], 'Test Case 3.1 FAILED: Participants');
+  assert.ok(!prompts.some(entry => entry.member === 'jo' && entry.phase !== 'judgement'), 'Test Case 3.1 FAILED: The judge should not debate');
+  assert.strictEqual(countPhase(prompts, 'vote'), 0, 'Test Case 3.1 FAILED: A judged debate should not vote');
+  logger.log('Test Case 3.1 PASSED: The judge picks the winning answer');
+
+  judgement = 'Combine them: use Postgres with a cache.';
+  result = await team.executeTask('Pick a database', debate);
+  assert.deepStrictEqual(result.result.executionDetails.consensus, { answer: judgement, method: 'judge' }, 'Test Case 3.2 FAILED: Free-text judgement');
+  logger.log('Test Case 3.2 PASSED: A judgement that is not JSON is the consensus answer');
+
+  // Test Suite 4: Vote
+  logger.log('\n--- Test Suite 4: Vote convergence ---');
+
+  ({ team, prompts, speaker } = await createTeam(['ann', 'ben', 'cal'], { rounds: 0 }));
+  let ballots: Record<string, string> = { ann: 'ben', ben: 'cal', cal: 'ben' };
+  speaker.current = (member, phase) => phase === 'vote' ? JSON.stringify({ vote: ballots[member], reason: `${member} likes it` }) : `${member} draft`;
+  result = await team.executeTask('Pick a database', debate);
+  details = result.result.executionDetails;
+  assert.deepStrictEqual(details.consensus, {
+    answer: 'ben draft', method: 'vote', winner: 'ben', votes: { ann: 0, ben: 2, cal: 1 }, rationale: "ben's answer received 2 of 3 votes"
+  }, 'Test Case 4.1 FAILED: Majority vote');
+  assert.strictEqual(details.rounds, 0, 'Test Case 4.1 FAILED: rounds: 0 should skip critiques');
+  logger.log('Test Case 4.1 PASSED: Participants vote and the majority wins');
+
+  ballots = { ann: 'ann', ben: 'cal', cal: 'ben' };
+  result = await team.executeTask('Pick a database', debate);
+  details = result.result.executionDetails;
+  assert.deepStrictEqual(details.consensus.votes, { ann: 0, ben: 1, cal: 1 }, 'Test Case 4.2 FAILED: Self-vote counted');
+  const annBallot = details.transcript.find((turn: any) => turn.agent === 'ann' && turn.phase === 'vote');
+  assert.strictEqual(annBallot.error, 'Invalid vote "ann": must name another participant', 'Test Case 4.2 FAILED: Self-vote not recorded as invalid');
+  assert.strictEqual(details.consensus.winner, 'ben', 'Test Case 4.2 FAILED: Tie should go to the participant listed first');
+  logger.log('Test Case 4.2 PASSED: Self-votes are rejected and ties go to the participant listed first');
+
+  // Test Suite 5: No consensus
+  logger.log('\n--- Test Suite 5: No consensus ---');
+
+  ballots = { ann: 'ann', ben: 'nobody', cal: 'cal' };
+  result = await team.executeTask('Pick a database', debate);
+  assert.strictEqual(result.success, false, 'Test Case 5.1 FAILED: A debate without valid votes should fail');
+  assert.strictEqual(result.error, 'Debate did not reach a consensus.', 'Test Case 5.1 FAILED: Error');
+  assert.strictEqual(result.result.executionDetails.consensus, undefined, 'Test Case 5.1 FAILED: Consensus');
+  assert.match(result.result.executionDetails.executionSummary, /did not converge by vote$/, 'Test Case 5.1 FAILED: Summary');
+  logger.log('Test Case 5.1 PASSED: A vote with no valid ballots fails the task');
+
+  ({ team, prompts, speaker } = await createTeam(['ann', 'ben', 'jo'], { rounds: 0, judge: 'jo' }));
+  speaker.current = (member, phase) => phase === 'judgement' ? { error: 'judge unavailable' } : `${member} draft`;
+  result = await team.executeTask('Pick a database', debate);
+  assert.strictEqual(result.success, false, 'Test Case 5.2 FAILED: A failed judgement should fail the task');
+  assert.strictEqual(result.error, 'Debate did not reach a consensus.', 'Test Case 5.2 FAILED: Error');
+  assert.strictEqual(result.result.executionDetails.transcript.slice(-1)[0].error, 'judge unavailable', 'Test Case 5.2 FAILED: Judgement error on the transcript');
+  logger.log('Test Case 5.2 PASSED: A judge that fails leaves the debate without consensus');
+
+  speaker.current = (member, phase) => member === 'ben' && phase === 'draft' ? { error: 'no idea' } : `${member} draft`;
+  result = await team.executeTask('Pick a database', debate);
+  assert.strictEqual(result.success, false, 'Test Case 5.3 FAILED: One draft should not be enough');
+  assert.match(result.error, /Debate needs at least two drafts to proceed; 1 of 2 participants produced one/, 'Test Case 5.3 FAILED: Error');
+  logger.log('Test Case 5.3 PASSED: A debate needs at least two drafts');
+
+  logger.log('\n🎉🎉🎉 Debate Strategy Tests PASSED! 🎉🎉🎉');
+  process.exitCode = 0;
+}
+
+runTeamDebateTests().catch(err => {
+  logger.error('Test script encountered an error:', err.message);
+  if (err.stack) logger.error('Stack:', err.stack);
+  process.exitCode = 1;
+}).finally(() => {
+    if (process.exitCode === 0) {
+        setTimeout(() => process.exit(0), 500);
+    } else {
+        setTimeout(() => process.exit(process.exitCode || 1), 500);
+    }
+});
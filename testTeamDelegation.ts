@@ -0,0 +1,186 @@
+import * as assert from 'assert';
+import { TeamCoordinator, TeamExecutionStrategy } from './src/teams/coordinator';
+
+const logger = {
+  log: (message: string, ...args: any[]) => console.log(`[TEST_LOG] ${message}`, ...args),
+  error: (message: string, ...args: any[]) => console.error(`[TEST_ERROR] ${message}`, ...args),
+  warn: (message: string, ...args: any[]) => console.warn(`[TEST_WARN] ${message}`, ...args),
+};
+
+const collaborative = { strategy: TeamExecutionStrategy.COLLABORATIVE };
+
+// The manager's decisions come from `decisions` in order; members answer `<name>: <first prompt line>`,
+// or `managerResponse` for the manager's own turn, and hold any task listed in `gates` until it is released
+async function createTeam(config: Record<string, any> = {}) {
+  const registry: any = { getContextTools: () => [], getTeamTools: () => [], getAvailableTools: () => [] };
+  const team = new TeamCoordinator({
+    name: 'delegation-test',
+    description: 'Delegation test team',
+    agents: ['lead', 'bob', 'carol'],
+    manager: 'lead',
+    ...config
+  } as any, registry);
+  await team.initialize();
+
+  const decisions: string[] = [];
+  const decisionRequests: any[] = [];
+  (team as any).llm = {
+    complete: async (request: any) => {
+      decisionRequests.push(request);
+      return { content: decisions.shift() || '', model: 'stub-model', usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 } };
+    }
+  };
+
+  const events: string[] = [];
+  const gates = new Map<string, Promise<void>>();
+  const managerResponse = { current: 'I will split this up.' };
+  for (const member of (team as any).members.values()) {
+    member.executor = {
+      executeTask: async (prompt: string, options: { signal?: AbortSignal }) => {
+        const task = prompt.split('\n')[0];
+        events.push(`start:${member.name}:${task}`);
+        await gates.get(task);
+        events.push(`end:${member.name}:${task}`);
+        const response = member.name === 'lead' && !options.signal?.aborted ? managerResponse.current : `${member.name}: ${task}`;
+        return { success: true, result: { response } };
+      }
+    };
+  }
+  return { team, decisions, decisionRequests, events, gates, managerResponse };
+}
+
+const delegate = (...delegations: Array<[string, string]>) =>
+  JSON.stringify({ action: 'delegate', rationale: 'more work needed', delegations: delegations.map(([agent, task]) => ({ agent, task })) });
+const finalize = (answer: string) => JSON.stringify({ action: 'finalize', rationale: 'complete', answer });
+
+function gate(gates: Map<string, Promise<void>>, task: string): () => void {
+  let release!: () => void;
+  gates.set(task, new Promise<void>(resolve => { release = resolve; }));
+  return release;
+}
+
+async function runTeamDelegationTests() {
+  logger.log('=== TEST: Collaborative delegation ===');
+
+  // Test Suite 1: Decision validation
+  logger.log('\n--- Test Suite 1: validateManagerDecision ---');
+
+  let { team, decisions, decisionRequests, events, gates, managerResponse } = await createTeam();
+  const manager = Array.from((team as any).members.values()).find((member: any) => member.name === 'lead');
+  const validate = (content: string, canDelegate: boolean = true, maxDelegations: number = 3) =>
+    (team as any).validateManagerDecision(content, manager, canDelegate, maxDelegations);
+
+  assert.deepStrictEqual(validate(delegate(['BOB', 'Find facts'])).decision, {
+    action: 'delegate', rationale: 'more work needed', delegations: [{ agentName: 'bob', task: 'Find facts' }]
+  }, 'Test Case 1.1 FAILED: Valid delegation');
+  assert.deepStrictEqual(validate(finalize('The answer')).decision, { action: 'finalize', rationale: 'complete', delegations: [], answer: 'The answer' }, 'Test Case 1.1 FAILED: Valid finalize');
+  logger.log('Test Case 1.1 PASSED: Valid delegate and finalize decisions');
+
+  const rejections: Array<[string, boolean, string[]]> = [
+    ['not json', true, ['Response is not valid JSON']],
+    [JSON.stringify({ action: 'wait' }), true, ['action must be "delegate" or "finalize", got "wait"']],
+    [JSON.stringify({ action: 'finalize', answer: ' ' }), true, ['answer must be a non-empty string when finalizing']],
+    [delegate(['bob', 'Find facts']), false, ['No delegation rounds remain; action must be "finalize"']],
+    [JSON.stringify({ action: 'delegate', delegations: [] }), true, ['delegations must be a non-empty array when delegating']],
+    [delegate(['bob', 'a'], ['carol', 'b'], ['bob', 'c'], ['carol', 'd']), true, ['At most 3 delegations are allowed per round, got 4']],
+    [delegate(['lead', 'a'], ['ghost', 'b'], ['carol', '']), true, [
+      'delegations[0].agent "lead" is not a member you can delegate to',
+      'delegations[1].agent "ghost" is not a member you can delegate to',
+      'delegations[2].task must be a non-empty string'
+    ]]
+  ];
+  for (const [content, canDelegate, expected] of rejections) {
+    const { decision, errors } = validate(content, canDelegate);
+    assert.strictEqual(decision, undefined, `Test Case 1.2 FAILED: Accepted ${content}`);
+    assert.deepStrictEqual(errors.map((error: string) => error.startsWith('Response is not valid JSON') ? 'Response is not valid JSON' : error), expected, `Test Case 1.2 FAILED: Errors for ${content}`);
+  }
+  logger.log('Test Case 1.2 PASSED: Malformed decisions, self-delegation, unknown members and exhausted rounds are rejected');
+
+  // Test Suite 2: Rounds
+  logger.log('\n--- Test Suite 2: Delegation rounds ---');
+
+  ({ team, decisions, decisionRequests, events, gates, managerResponse } = await createTeam({ delegation: { maxRounds: 2 } }));
+  decisions.push(delegate(['bob', 'Find facts']), 'garbled', delegate(['carol', 'Fix the facts']), finalize('Final brief'));
+  let result: any = await team.executeTask('Write the brief', collaborative);
+  let details = result.result.executionDetails;
+  assert.strictEqual(result.success, true, 'Test Case 2.1 FAILED: Task failed');
+  assert.deepStrictEqual(details.delegations, [
+    { agentName: 'bob', task: 'Find facts', round: 1 },
+    { agentName: 'carol', task: 'Fix the facts', round: 2 }
+  ], 'Test Case 2.1 FAILED: Delegations');
+  assert.strictEqual(details.finalAnswer, 'Final brief', 'Test Case 2.1 FAILED: Final answer');
+  assert.strictEqual(result.result.answer, 'Final brief', 'Test Case 2.1 FAILED: Answer');
+  assert.match(decisionRequests[1].messages[1].content, /\[bob - Find facts\]: bob: Find facts/, 'Test Case 2.1 FAILED: Round 2 should review round 1 work');
+  assert.match(decisionRequests[2].messages[3].content, /^That decision is invalid:\n- Response is not valid JSON/, 'Test Case 2.1 FAILED: Invalid decision retried with errors');
+  logger.log('Test Case 2.1 PASSED: The manager reviews each round and re-delegates until it finalizes');
+
+  decisionRequests.length = 0;
+  decisions.push(delegate(['bob', 'Round one']), delegate(['carol', 'Round two']), delegate(['bob', 'Round three']), finalize('Forced answer'));
+  result = await team.executeTask('Write the brief', collaborative);
+  details = result.result.executionDetails;
+  assert.deepStrictEqual(details.delegations.map((entry: any) => entry.round), [1, 2], 'Test Case 2.2 FAILED: Delegated past maxRounds');
+  assert.match(decisionRequests[2].messages[1].content, /No delegation rounds remain\. Finalize now/, 'Test Case 2.2 FAILED: Last round should ask to finalize');
+  assert.match(decisionRequests[3].messages[3].content, /No delegation rounds remain; action must be "finalize"/, 'Test Case 2.2 FAILED: Delegating on the last round rejected');
+  assert.strictEqual(details.finalAnswer, 'Forced answer', 'Test Case 2.2 FAILED: Finalized answer');
+  assert.strictEqual(events.filter(event => event.includes('Round three')).length, 0, 'Test Case 2.2 FAILED: Round three ran');
+  logger.log('Test Case 2.2 PASSED: After maxRounds the manager must finalize');
+
+  // Test Suite 3: Legacy delegation
+  logger.log('\n--- Test Suite 3: Legacy fallback ---');
+
+  decisionRequests.length = 0;
+  decisions.push('garbled', 'still garbled');
+  managerResponse.current = 'No delegations here.';
+  result = await team.executeTask('Research and write the brief', collaborative);
+  details = result.result.executionDetails;
+  assert.strictEqual(decisionRequests.length, 2, 'Test Case 3.1 FAILED: Decision not retried up to maxAttempts');
+  assert.deepStrictEqual(details.managerDecisions, [], 'Test Case 3.1 FAILED: No decision should be recorded');
+  assert.strictEqual(details.delegations.length, 0, 'Test Case 3.1 FAILED: Delegations recorded');
+  assert.deepStrictEqual(details.individualContributions.filter((entry: any) => entry.role === 'automatic').map((entry: any) => entry.agent), ['bob', 'carol'], 'Test Case 3.1 FAILED: Automatic decomposition');
+  logger.log('Test Case 3.1 PASSED: Without a valid decision the manager falls back to legacy delegation');
+
+  // Test Suite 4: Busy members
+  logger.log('\n--- Test Suite 4: Queueing for busy members ---');
+
+  ({ team, decisions, decisionRequests, events, gates, managerResponse } = await createTeam({ delegation: { maxRounds: 1 } }));
+  const bob = Array.from((team as any).members.values()).find((member: any) => member.name === 'bob');
+  const releaseOther = gate(gates, 'Other work');
+  const other = (team as any).executeAgentTask(bob, 'Other work', 'task_other');
+  decisions.push(delegate(['bob', 'Find facts']), finalize('Brief with facts'));
+  const pending = team.executeTask('Write the brief', collaborative);
+  await new Promise(resolve => setTimeout(resolve, 50));
+  assert.ok(!events.includes('start:bob:Find facts'), 'Test Case 4.1 FAILED: Delegation ran while bob was busy');
+  releaseOther();
+  await other;
+  result = await pending;
+  details = result.result.executionDetails;
+  assert.ok(events.indexOf('start:bob:Find facts') > events.indexOf('end:bob:Other work'), `Test Case 4.1 FAILED: Order ${events}`);
+  assert.strictEqual(details.individualContributions.find((entry: any) => entry.task === 'Find facts').result.result.response, 'bob: Find facts', 'Test Case 4.1 FAILED: Queued delegation result');
+  assert.strictEqual(details.finalAnswer, 'Brief with facts', 'Test Case 4.1 FAILED: Final answer');
+  logger.log('Test Case 4.1 PASSED: A delegation to a busy member waits until the member is free');
+
+  events.length = 0;
+  gate(gates, 'Long work');
+  (team as any).executeAgentTask(bob, 'Long work', 'task_long');
+  decisions.push(delegate(['bob', 'Find facts']));
+  result = await team.executeTask('Write the brief', { ...collaborative, timeout: 100 });
+  assert.strictEqual(result.success, false, 'Test Case 4.2 FAILED: Task should time out');
+  assert.match(result.error, /timed out after 100ms/, 'Test Case 4.2 FAILED: Error');
+  assert.strictEqual(events.filter(event => event === 'start:bob:Find facts').length, 0, 'Test Case 4.2 FAILED: Queued delegation should not have started');
+  logger.log('Test Case 4.2 PASSED: A queued delegation is cancelled with its task');
+
+  logger.log('\n🎉🎉🎉 Collaborative Delegation Tests PASSED! 🎉🎉🎉');
+  process.exitCode = 0;
+}
+
+runTeamDelegationTests().catch(err => {
+  logger.error('Test script encountered an error:', err.message);
+  if (err.stack) logger.error('Stack:', err.stack);
+  process.exitCode = 1;
+}).finally(() => {
+    if (process.exitCode === 0) {
+        setTimeout(() => process.exit(0), 500);
+    } else {
+        setTimeout(() => process.exit(process.exitCode || 1), 500);
+    }
+});
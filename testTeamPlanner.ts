@@ -0,0 +1,191 @@
+import * as assert from 'assert';
+import { TeamCoordinator, TeamExecutionStrategy } from './src/teams/coordinator';
+
+const logger = {
+  log: (message: string, ...args: any[]) => console.log(`[TEST_LOG] ${message}`, ...args),
+  error: (message: string, ...args: any[]) => console.error(`[TEST_ERROR] ${message}`, ...args),
+  warn: (message: string, ...args: any[]) => console.warn(`[TEST_WARN] ${message}`, ...args),
+};
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const roster = [
+  { name: 'researcher', description: 'Finds facts', task: 'Research', tools: [], capabilities: ['research'], llm: 'gpt-4o-mini' },
+  { name: 'writer', description: 'Writes drafts', task: 'Write', tools: [], capabilities: ['writing'], llm: 'gpt-4o-mini' },
+  { name: 'editor', description: 'Edits drafts', task: 'Edit', tools: [], capabilities: ['editing'], llm: 'gpt-4o-mini' }
+];
+
+type Reply = { success: boolean; response?: string; error?: string };
+
+// The team LLM answers from `plannerReplies` and members answer through `answer`; both record what they were sent
+async function createTeam(planner: Record<string, any> = {}) {
+  const registry: any = { getContextTools: () => [], getTeamTools: () => [], getAvailableTools: () => [] };
+  const team = new TeamCoordinator({ name: 'planner-test', description: 'Planner test team', agents: roster, planner } as any, registry);
+  await team.initialize();
+
+  const plannerReplies: string[] = [];
+  const plannerRequests: any[] = [];
+  (team as any).llm = {
+    complete: async (request: any) => {
+      plannerRequests.push(request);
+      return { content: plannerReplies.shift() || '', model: 'stub-model', usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 } };
+    }
+  };
+
+  const events: string[] = [];
+  const prompts = new Map<string, string>();
+  const answer: { current: (subtask: string) => Reply } = { current: subtask => ({ success: true, response: `done: ${subtask}` }) };
+  for (const member of (team as any).members.values()) {
+    member.executor = {
+      executeTask: async (prompt: string) => {
+        const subtask = prompt.match(/Your subtask: ([^\n]*)/)?.[1] || prompt.split('\n')[0];
+        prompts.set(subtask, prompt);
+        events.push(`start:${subtask}`);
+        await delay(10);
+        events.push(`end:${subtask}`);
+        const reply = answer.current(subtask);
+        return reply.success ? { success: true, result: { response: reply.response } } : { success: false, error: reply.error };
+      }
+    };
+  }
+  return { team, plannerReplies, plannerRequests, events, prompts, answer };
+}
+
+const plan = (strategy: string, subtasks: any[]) => JSON.stringify({ strategy, rationale: 'test plan', subtasks });
+const subtask = (id: string, assignee: string, dependencies: string[] = [], extra: Record<string, any> = {}) =>
+  ({ id, description: id, assignee, dependencies, ...extra });
+
+async function runTeamPlannerTests() {
+  logger.log('=== TEST: Team planner ===');
+
+  // Test Suite 1: Plan validation
+  logger.log('\n--- Test Suite 1: Plan validation ---');
+
+  let { team, plannerReplies, plannerRequests, events, prompts, answer } = await createTeam();
+  const validate = (content: string, maxSubtasks: number = 4): { plan?: any; errors: string[] } => (team as any).validatePlan(content, maxSubtasks);
+
+  let result = validate(plan('parallel', [subtask('s1', 'ghost')]));
+  assert.strictEqual(result.plan, undefined, 'Test Case 1.1 FAILED: Plan with an unknown assignee accepted');
+  assert.match(result.errors[0], /Subtask s1 is assigned to "ghost", who is not on the team \(researcher, writer, editor\)/, 'Test Case 1.1 FAILED: Error');
+  logger.log('Test Case 1.1 PASSED: Unknown assignees are rejected');
+
+  result = validate(plan('parallel', [subtask('s1', 'writer', [], { requiredCapabilities: ['research'] })]));
+  assert.deepStrictEqual(result.errors, ['Subtask s1 needs capability research, which writer lacks (held by researcher)'], 'Test Case 1.2 FAILED: Missing capability');
+  result = validate(plan('parallel', [subtask('s1', 'writer', [], { requiredCapabilities: ['translation'] })]));
+  assert.ok(result.plan, 'Test Case 1.2 FAILED: A capability nobody holds should be advisory');
+  logger.log('Test Case 1.2 PASSED: Assignees must hold required capabilities another member has');
+
+  result = validate(plan('parallel', [subtask('a', 'writer', ['b']), subtask('b', 'editor', ['a'])]));
+  assert.deepStrictEqual(result.errors, ['Subtask dependencies form a cycle: a, b'], 'Test Case 1.3 FAILED: Cycle');
+  result = validate(plan('parallel', [subtask('a', 'writer', ['a', 'z'])]));
+  assert.deepStrictEqual(result.errors, ['Subtask a depends on itself', 'Subtask a depends on unknown subtask z', 'Subtask dependencies form a cycle: a'], 'Test Case 1.3 FAILED: Bad dependencies');
+  logger.log('Test Case 1.3 PASSED: Cycles, self and unknown dependencies are rejected');
+
+  result = validate(plan('parallel', ['a', 'b', 'c', 'd', 'e'].map(id => subtask(id, 'writer'))), 4);
+  assert.deepStrictEqual(result.errors, ['At most 4 subtasks are allowed, got 5'], 'Test Case 1.4 FAILED: Too many subtasks');
+  logger.log('Test Case 1.4 PASSED: Plans over maxSubtasks are rejected');
+
+  assert.match(validate('no plan here').errors[0], /^Response is not valid JSON/, 'Test Case 1.5 FAILED: Not JSON');
+  assert.match(validate(plan('debate', [subtask('a', 'writer')])).errors[0], /^strategy must be one of/, 'Test Case 1.5 FAILED: Strategy');
+  assert.deepStrictEqual(validate(plan('parallel', [])).errors, ['subtasks must be a non-empty array'], 'Test Case 1.5 FAILED: Empty plan');
+  logger.log('Test Case 1.5 PASSED: Malformed responses, strategies and empty plans are rejected');
+
+  // Test Suite 2: Retrying with the validation errors
+  logger.log('\n--- Test Suite 2: Planner retries ---');
+
+  ({ team, plannerReplies, plannerRequests, events, prompts, answer } = await createTeam({ maxAttempts: 2 }));
+  const invalid = plan('parallel', [subtask('s1', 'ghost')]);
+  plannerReplies.push(invalid, '```json\n' + plan('sequential', [subtask('draft', 'writer'), subtask('edit', 'editor', ['draft'])]) + '\n```');
+  let teamResult: any = await team.executeTask('Write a report');
+  assert.strictEqual(teamResult.success, true, `Test Case 2.1 FAILED: Task failed: ${teamResult.error}`);
+  assert.strictEqual(plannerRequests.length, 2, 'Test Case 2.1 FAILED: Expected one retry');
+  const retryMessages = plannerRequests[1].messages;
+  assert.deepStrictEqual(retryMessages[2], { role: 'assistant', content: invalid }, 'Test Case 2.1 FAILED: Rejected plan not echoed back');
+  assert.match(retryMessages[3].content, /^That plan is invalid:\n- Subtask s1 is assigned to "ghost"/, 'Test Case 2.1 FAILED: Errors not sent back');
+  assert.strictEqual(teamResult.result.strategy, TeamExecutionStrategy.SEQUENTIAL, 'Test Case 2.1 FAILED: Planned strategy');
+  assert.deepStrictEqual(teamResult.result.executionDetails.plannedResults.map((entry: any) => entry.subtaskId), ['draft', 'edit'], 'Test Case 2.1 FAILED: Planned subtasks');
+  logger.log('Test Case 2.1 PASSED: An invalid plan is retried with its errors listed');
+
+  plannerRequests.length = 0;
+  events.length = 0;
+  plannerReplies.push(invalid, invalid);
+  teamResult = await team.executeTask('Write a report step by step');
+  assert.strictEqual(plannerRequests.length, 2, 'Test Case 2.2 FAILED: Attempts not capped at maxAttempts');
+  assert.strictEqual(teamResult.result.strategy, TeamExecutionStrategy.SEQUENTIAL, 'Test Case 2.2 FAILED: Heuristic strategy');
+  assert.strictEqual(teamResult.result.executionDetails.plan, undefined, 'Test Case 2.2 FAILED: Unplanned run should have no plan');
+  logger.log('Test Case 2.2 PASSED: After maxAttempts invalid plans the task falls back to the strategy heuristics');
+
+  // Test Suite 3: Pipeline plans
+  logger.log('\n--- Test Suite 3: Pipeline plans ---');
+
+  result = validate(plan('pipeline', [subtask('a', 'researcher'), subtask('b', 'writer'), subtask('c', 'editor', ['a'])]));
+  assert.deepStrictEqual(result.plan.subtasks.map((entry: any) => entry.dependencies), [[], ['a'], ['a']], 'Test Case 3.1 FAILED: Chaining');
+  logger.log('Test Case 3.1 PASSED: Pipeline subtasks without dependencies are chained to the one before');
+
+  events.length = 0;
+  prompts.clear();
+  plannerReplies.push(plan('pipeline', [subtask('gather', 'researcher'), subtask('draft', 'writer'), subtask('polish', 'editor')]));
+  teamResult = await team.executeTask('Write a report');
+  assert.strictEqual(teamResult.success, true, 'Test Case 3.2 FAILED: Pipeline plan');
+  assert.deepStrictEqual(events, ['start:gather', 'end:gather', 'start:draft', 'end:draft', 'start:polish', 'end:polish'], 'Test Case 3.2 FAILED: Pipeline order');
+  assert.match(prompts.get('draft')!, /Results you build on:\n\n\[gather, researcher\]: done: gather/, 'Test Case 3.2 FAILED: Previous result not passed on');
+  assert.match(prompts.get('polish')!, /\[draft, writer\]: done: draft/, 'Test Case 3.2 FAILED: Previous result not passed on');
+  logger.log('Test Case 3.2 PASSED: Pipeline plans run one subtask at a time, each building on the last');
+
+  // Test Suite 4: Running a plan
+  logger.log('\n--- Test Suite 4: Plan execution ---');
+
+  const execute = async (strategy: TeamExecutionStrategy, subtasks: any[]) => {
+    events.length = 0;
+    prompts.clear();
+    return (team as any).executePlan('task_plan', 'Write a report', { strategy, rationale: 'test plan', subtasks });
+  };
+
+  let details = await execute(TeamExecutionStrategy.PARALLEL, [
+    subtask('facts', 'researcher'),
+    subtask('outline', 'writer'),
+    subtask('draft', 'writer', ['facts', 'outline']),
+    subtask('style', 'editor')
+  ]);
+  const wave = (name: string) => events.indexOf(`start:${name}`);
+  const firstEnd = events.findIndex(event => event.startsWith('end:'));
+  assert.ok([wave('facts'), wave('outline'), wave('style')].every(index => index < firstEnd), `Test Case 4.1 FAILED: Independent subtasks not run together: ${events}`);
+  assert.ok(wave('draft') > events.indexOf('end:facts') && wave('draft') > events.indexOf('end:outline'), `Test Case 4.1 FAILED: Ran before its dependencies: ${events}`);
+  assert.match(prompts.get('draft')!, /\[facts, researcher\]: done: facts\n\n\[outline, writer\]: done: outline/, 'Test Case 4.1 FAILED: Dependency results');
+  assert.strictEqual(details.executionSummary, '4/4 planned subtasks completed by 3 agents using the parallel strategy', 'Test Case 4.1 FAILED: Summary');
+  logger.log('Test Case 4.1 PASSED: Ready subtasks run in waves once their dependencies finish');
+
+  await execute(TeamExecutionStrategy.PARALLEL, [subtask('one', 'writer'), subtask('two', 'writer')]);
+  assert.deepStrictEqual(events, ['start:one', 'end:one', 'start:two', 'end:two'], 'Test Case 4.2 FAILED: A member ran two subtasks at once');
+  logger.log('Test Case 4.2 PASSED: A member works on one subtask at a time');
+
+  answer.current = name => name === 'facts' ? { success: false, error: 'source offline' } : { success: true, response: `done: ${name}` };
+  details = await execute(TeamExecutionStrategy.PARALLEL, [
+    subtask('facts', 'researcher'),
+    subtask('outline', 'writer'),
+    subtask('draft', 'writer', ['facts', 'outline']),
+    subtask('polish', 'editor', ['draft'])
+  ]);
+  const byId = new Map<string, any>(details.plannedResults.map((entry: any) => [entry.subtaskId, entry]));
+  assert.strictEqual(byId.get('draft').error, 'Dependency facts failed', 'Test Case 4.3 FAILED: Dependent of a failed subtask');
+  assert.strictEqual(byId.get('polish').error, 'Dependency draft failed', 'Test Case 4.3 FAILED: Transitive dependent');
+  assert.ok(!prompts.has('draft') && !prompts.has('polish'), 'Test Case 4.3 FAILED: Blocked subtasks should not run');
+  assert.strictEqual(byId.get('outline').result.success, true, 'Test Case 4.3 FAILED: Unrelated subtask');
+  assert.strictEqual(details.executionSummary, '1/4 planned subtasks completed by 2 agents using the parallel strategy', 'Test Case 4.3 FAILED: Summary');
+  logger.log('Test Case 4.3 PASSED: Subtasks behind a failed dependency are recorded as failed without running');
+
+  logger.log('\n🎉🎉🎉 Team Planner Tests PASSED! 🎉🎉🎉');
+  process.exitCode = 0;
+}
+
+runTeamPlannerTests().catch(err => {
+  logger.error('Test script encountered an error:', err.message);
+  if (err.stack) logger.error('Stack:', err.stack);
+  process.exitCode = 1;
+}).finally(() => {
+    if (process.exitCode === 0) {
+        setTimeout(() => process.exit(0), 500);
+    } else {
+        setTimeout(() => process.exit(process.exitCode || 1), 500);
+    }
+});
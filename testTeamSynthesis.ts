@@ -0,0 +1,166 @@
+import * as assert from 'assert';
+import { TeamCoordinator, TeamExecutionStrategy } from './src/teams/coordinator';
+
+const logger = {
+  log: (message: string, ...args: any[]) => console.log(`[TEST_LOG] ${message}`, ...args),
+  error: (message: string, ...args: any[]) => console.error(`[TEST_ERROR] ${message}`, ...args),
+  warn: (message: string, ...args: any[]) => console.warn(`[TEST_WARN] ${message}`, ...args),
+};
+
+type LLMReply = (system: string, request: any) => string;
+
+// The team LLM answers through `llmReply`; members answer `<name>: <first prompt line>` unless `memberReply` says otherwise
+async function createTeam(config: Record<string, any>) {
+  const registry: any = { getContextTools: () => [], getTeamTools: () => [], getAvailableTools: () => [] };
+  const team = new TeamCoordinator({ name: 'synthesis-test', description: 'Synthesis test team', agents: ['alice', 'bob', 'carol'], ...config } as any, registry);
+  await team.initialize();
+
+  const llmRequests: any[] = [];
+  const llmReply: { current: LLMReply } = { current: () => '' };
+  (team as any).llm = {
+    complete: async (request: any) => {
+      llmRequests.push(request);
+      return { content: llmReply.current(request.messages[0].content, request), model: 'stub-model', usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 } };
+    }
+  };
+
+  const memberReply: { current?: (member: string, prompt: string) => any } = {};
+  for (const member of (team as any).members.values()) {
+    member.executor = {
+      executeTask: async (prompt: string) => memberReply.current?.(member.name, prompt)
+        ?? { success: true, result: { response: `${member.name}: ${prompt.split('\n')[0]}` } }
+    };
+  }
+  return { team, llmRequests, llmReply, memberReply };
+}
+
+const synthesis = (answer: string, attribution: any[] = [], conflicts: any[] = []) => JSON.stringify({ answer, conflicts, attribution });
+
+async function runTeamSynthesisTests() {
+  logger.log('=== TEST: Team synthesis ===');
+
+  // Test Suite 1: Parsing the synthesizer's response
+  logger.log('\n--- Test Suite 1: parseSynthesis ---');
+
+  let { team, llmRequests, llmReply, memberReply } = await createTeam({ synthesizer: {} });
+  const contributions = [
+    { agent: 'alice', response: 'A' },
+    { agent: 'bob', task: 'numbers', response: 'B' },
+    { agent: 'carol', response: 'C' }
+  ];
+  const parse = (content: string) => (team as any).parseSynthesis(content, contributions, 'llm');
+
+  let parsed = parse(synthesis('Merged', [
+    { agent: 'ALICE', contribution: 'intro' },
+    { agent: 'ghost', contribution: 'invented' },
+    { agent: 'alice', contribution: 'second entry' },
+    { agent: 'bob', contribution: 'figures' },
+    { agent: 'bob' }
+  ], ['alice and bob disagree on 3 vs 4', 42]));
+  assert.strictEqual(parsed.answer, 'Merged', 'Test Case 1.1 FAILED: Answer');
+  assert.deepStrictEqual(parsed.attribution.slice(0, 2), [
+    { agent: 'alice', contribution: 'intro' },
+    { agent: 'bob', contribution: 'figures' }
+  ], 'Test Case 1.1 FAILED: Attribution should name only real contributors, once each');
+  assert.deepStrictEqual(parsed.conflicts, ['alice and bob disagree on 3 vs 4'], 'Test Case 1.1 FAILED: Conflicts');
+  logger.log('Test Case 1.1 PASSED: Attribution is limited to actual contributors');
+
+  assert.deepStrictEqual(parsed.attribution[2], { agent: 'carol', contribution: 'Not used in the final answer' }, 'Test Case 1.2 FAILED: Unused contributor');
+  parsed = parse('```json\n' + synthesis('Merged') + '\n```');
+  assert.deepStrictEqual(parsed.attribution.map((entry: any) => entry.contribution), Array(3).fill('Not used in the final answer'), 'Test Case 1.2 FAILED: No attribution at all');
+  logger.log('Test Case 1.2 PASSED: Contributors the synthesizer left out are listed as unused');
+
+  assert.throws(() => parse(JSON.stringify({ answer: '  ', attribution: [] })), /Synthesis response has no answer/, 'Test Case 1.3 FAILED: Empty answer');
+  assert.throws(() => parse('I merged them nicely.'), 'Test Case 1.3 FAILED: Not JSON');
+  logger.log('Test Case 1.3 PASSED: Responses without an answer are rejected');
+
+  // Test Suite 2: Synthesizing a team task
+  logger.log('\n--- Test Suite 2: Synthesis ---');
+
+  llmReply.current = () => synthesis('One merged answer', [{ agent: 'bob', contribution: 'the core' }]);
+  let result: any = await team.executeTask('Summarize the report', { strategy: TeamExecutionStrategy.PARALLEL });
+  assert.strictEqual(result.success, true, 'Test Case 2.1 FAILED: Task failed');
+  assert.strictEqual(result.result.answer, 'One merged answer', 'Test Case 2.1 FAILED: Answer');
+  assert.strictEqual(result.result.synthesis.synthesizedBy, 'llm', 'Test Case 2.1 FAILED: Synthesized by');
+  assert.match(llmRequests[0].messages[0].content, /^You combine the contributions/, 'Test Case 2.1 FAILED: Synthesis prompt');
+  assert.match(llmRequests[0].messages[1].content, /\[alice\]:\nalice: Summarize the report\n\n\[bob\]:\nbob: Summarize the report/, 'Test Case 2.1 FAILED: Contributions not listed');
+  logger.log('Test Case 2.1 PASSED: Contributions are merged by the synthesizer LLM');
+
+  ({ team, llmRequests, llmReply, memberReply } = await createTeam({ synthesizer: { member: 'carol' } }));
+  memberReply.current = (member, prompt) => prompt.startsWith('You combine')
+    ? { success: true, result: { response: synthesis(`${member}'s merge`) } }
+    : undefined;
+  result = await team.executeTask('Summarize the report', { strategy: TeamExecutionStrategy.SEQUENTIAL });
+  assert.strictEqual(result.result.answer, "carol's merge", 'Test Case 2.2 FAILED: Member synthesis');
+  assert.strictEqual(result.result.synthesis.synthesizedBy, 'carol', 'Test Case 2.2 FAILED: Synthesized by');
+  assert.strictEqual(llmRequests.length, 0, 'Test Case 2.2 FAILED: Synthesizer LLM should not be called');
+  logger.log('Test Case 2.2 PASSED: synthesizer.member writes the synthesis');
+
+  const single = await (team as any).synthesizeContributions('task_single', 'Task', [{ agent: 'bob', task: 'numbers', response: 'Only B' }]);
+  assert.deepStrictEqual(single, { answer: 'Only B', conflicts: [], attribution: [{ agent: 'bob', contribution: 'numbers' }], synthesizedBy: 'bob' }, 'Test Case 2.3 FAILED: Single contribution');
+  logger.log('Test Case 2.3 PASSED: A single contribution is the answer as-is');
+
+  // Test Suite 3: Failed synthesis
+  logger.log('\n--- Test Suite 3: Fallback to the aggregate ---');
+
+  ({ team, llmRequests, llmReply, memberReply } = await createTeam({ synthesizer: {} }));
+  const failures: Array<[string, LLMReply]> = [
+    ['a response that is not JSON', () => 'Here is a merge, without any JSON'],
+    ['a response without an answer', () => synthesis('')],
+    ['a failed LLM call', () => { throw new Error('provider down'); }]
+  ];
+  for (const [label, reply] of failures) {
+    llmReply.current = reply;
+    result = await team.executeTask('Summarize the report', { strategy: TeamExecutionStrategy.PARALLEL });
+    assert.strictEqual(result.success, true, `Test Case 3.1 FAILED: ${label} failed the task`);
+    assert.strictEqual(result.result.answer, undefined, `Test Case 3.1 FAILED: ${label} produced an answer`);
+    assert.strictEqual(result.result.synthesis, undefined, `Test Case 3.1 FAILED: ${label} produced a synthesis`);
+    assert.match(result.result.executionDetails.aggregatedResult.aggregatedResponse, /alice: Summarize the report\n\n---\n\nbob: Summarize the report/, `Test Case 3.1 FAILED: ${label} lost the aggregate`);
+  }
+  logger.log('Test Case 3.1 PASSED: A failed synthesis leaves the aggregated contributions as the result');
+
+  ({ team, llmRequests, llmReply, memberReply } = await createTeam({ synthesizer: { member: 'carol' } }));
+  memberReply.current = (_member, prompt) => prompt.startsWith('You combine') ? { success: false, error: 'carol gave up' } : undefined;
+  result = await team.executeTask('Summarize the report', { strategy: TeamExecutionStrategy.SEQUENTIAL });
+  assert.strictEqual(result.success, true, 'Test Case 3.2 FAILED: Task failed');
+  assert.strictEqual(result.result.synthesis, undefined, 'Test Case 3.2 FAILED: Synthesis from a failed member');
+  logger.log('Test Case 3.2 PASSED: A synthesizer member that fails falls back the same way');
+
+  // Test Suite 4: Synthesis and the manager's final answer
+  logger.log('\n--- Test Suite 4: Precedence over finalAnswer ---');
+
+  ({ team, llmRequests, llmReply, memberReply } = await createTeam({ synthesizer: {}, manager: 'alice', delegation: { maxRounds: 1 } }));
+  llmReply.current = system => {
+    if (system.startsWith('You combine')) return synthesis('Synthesized answer', [{ agent: 'alice', contribution: 'plan' }, { agent: 'bob', contribution: 'facts' }]);
+    const delegated = llmRequests.filter(request => request.messages[0].content.startsWith('You are alice')).length > 1;
+    return delegated
+      ? JSON.stringify({ action: 'finalize', rationale: 'done', answer: 'Manager answer' })
+      : JSON.stringify({ action: 'delegate', rationale: 'need facts', delegations: [{ agent: 'bob', task: 'Find facts' }] });
+  };
+  result = await team.executeTask('Write the brief', { strategy: TeamExecutionStrategy.COLLABORATIVE });
+  assert.strictEqual(result.result.executionDetails.finalAnswer, 'Manager answer', 'Test Case 4.1 FAILED: Manager did not finalize');
+  assert.strictEqual(result.result.answer, 'Synthesized answer', 'Test Case 4.1 FAILED: Synthesis should take precedence');
+  assert.deepStrictEqual(result.result.synthesis.attribution.map((entry: any) => entry.agent), ['alice', 'bob'], 'Test Case 4.1 FAILED: Attribution');
+  logger.log('Test Case 4.1 PASSED: The synthesized answer takes precedence over the manager\'s');
+
+  llmRequests.length = 0;
+  result = await team.executeTask('Write the brief', { strategy: TeamExecutionStrategy.COLLABORATIVE, synthesize: false });
+  assert.strictEqual(result.result.answer, 'Manager answer', 'Test Case 4.2 FAILED: Manager answer without synthesis');
+  assert.strictEqual(result.result.synthesis, undefined, 'Test Case 4.2 FAILED: Synthesis ran while disabled');
+  logger.log('Test Case 4.2 PASSED: Without synthesis the manager\'s final answer is the answer');
+
+  logger.log('\n🎉🎉🎉 Team Synthesis Tests PASSED! 🎉🎉🎉');
+  process.exitCode = 0;
+}
+
+runTeamSynthesisTests().catch(err => {
+  logger.error('Test script encountered an error:', err.message);
+  if (err.stack) logger.error('Stack:', err.stack);
+  process.exitCode = 1;
+}).finally(() => {
+    if (process.exitCode === 0) {
+        setTimeout(() => process.exit(0), 500);
+    } else {
+        setTimeout(() => process.exit(process.exitCode || 1), 500);
+    }
+});
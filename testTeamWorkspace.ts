@@ -0,0 +1,100 @@
+import * as assert from 'assert';
+import { TeamCoordinator, TeamExecutionStrategy } from './src/teams/coordinator';
+import { TeamToolContext } from './src/types/sdk';
+
+const logger = {
+  log: (message: string, ...args: any[]) => console.log(`[TEST_LOG] ${message}`, ...args),
+  error: (message: string, ...args: any[]) => console.error(`[TEST_ERROR] ${message}`, ...args),
+  warn: (message: string, ...args: any[]) => console.warn(`[TEST_WARN] ${message}`, ...args),
+};
+
+type Behaviour = (member: string, prompt: string, team: TeamToolContext) => Promise<string>;
+
+// Members answer through `behaviour` instead of an LLM; every prompt they receive is recorded
+async function createTeam(behaviour: { current: Behaviour }) {
+  const registry: any = { getContextTools: () => [], getTeamTools: () => [], getAvailableTools: () => [] };
+  const team = new TeamCoordinator({ name: 'workspace-test', description: 'Workspace test team', agents: ['alice', 'bob'] } as any, registry);
+  await team.initialize();
+  const prompts: Array<{ member: string; prompt: string }> = [];
+  for (const member of (team as any).members.values()) {
+    member.executor = {
+      executeTask: async (prompt: string, options: { team: TeamToolContext }) => {
+        prompts.push({ member: member.name, prompt });
+        const response = await behaviour.current(member.name, prompt, options.team);
+        return { success: true, result: { response } };
+      }
+    };
+  }
+  return { team, prompts };
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function runTeamWorkspaceTests() {
+  logger.log('=== TEST: Team board and messages are scoped to one task ===');
+
+  const behaviour: { current: Behaviour } = { current: async () => 'ok' };
+  const { team, prompts } = await createTeam(behaviour);
+  const sequential = { strategy: TeamExecutionStrategy.SEQUENTIAL };
+
+  // Test Case 1: Within a task, later members see the board and messages in their brief
+  behaviour.current = async (member, prompt, context) => {
+    if (member === 'alice') {
+      context.writeBoard('finding', 'task one finding');
+      context.post('look at finding', 'bob');
+    }
+    return 'ok';
+  };
+  let result = await team.executeTask('task one', sequential);
+  assert.strictEqual(result.success, true, 'Test Case 1 FAILED: Task one');
+  const bobFirst = prompts.find(entry => entry.member === 'bob')!.prompt;
+  assert.match(bobFirst, /finding \(by alice\): task one finding/, 'Test Case 1 FAILED: Board entry in brief');
+  assert.match(bobFirst, /alice: look at finding/, 'Test Case 1 FAILED: Message in brief');
+  logger.log('Test Case 1 PASSED: Members see their own task\'s board and messages');
+
+  // Test Case 2: The next task starts with an empty board and no messages
+  prompts.length = 0;
+  const seen: Array<{ board: object; messages: number }> = [];
+  behaviour.current = async (_member, _prompt, context) => {
+    seen.push({ board: context.readBoard(), messages: context.readMessages().length });
+    return 'ok';
+  };
+  result = await team.executeTask('task two', sequential);
+  assert.strictEqual(result.success, true, 'Test Case 2 FAILED: Task two');
+  assert.deepStrictEqual(prompts.map(entry => entry.prompt), ['task two', 'task two'], 'Test Case 2 FAILED: Task one leaked into the brief');
+  assert.deepStrictEqual(seen, [{ board: {}, messages: 0 }, { board: {}, messages: 0 }], 'Test Case 2 FAILED: Task one leaked into the tools');
+  logger.log('Test Case 2 PASSED: Task two does not see task one\'s board or messages');
+
+  // Test Case 3: Concurrent tasks on one team keep separate boards (busy members are skipped, so each task runs on its own member)
+  behaviour.current = async (_member, prompt, context) => {
+    const own = prompt.split('\n')[0];
+    context.writeBoard('draft', own);
+    await delay(own === 'task A' ? 30 : 5);
+    return String(context.readBoard('draft').draft.value);
+  };
+  const [a, b] = await Promise.all([team.executeTask('task A', sequential), team.executeTask('task B', sequential)]);
+  const answers = (r: any) => r.result.executionDetails.individualResults.map((entry: any) => entry.result.result.response);
+  assert.ok(answers(a).length > 0 && answers(b).length > 0, 'Test Case 3 FAILED: Both tasks should run');
+  assert.ok(answers(a).every((answer: string) => answer === 'task A'), `Test Case 3 FAILED: Task A read another task's value: ${answers(a)}`);
+  assert.ok(answers(b).every((answer: string) => answer === 'task B'), `Test Case 3 FAILED: Task B read another task's value: ${answers(b)}`);
+  logger.log('Test Case 3 PASSED: Concurrent tasks do not overwrite each other\'s keys');
+
+  // Test Case 4: Finished tasks leave no boards behind
+  assert.strictEqual((team as any).sharedContext.workspaceData.size, 0, 'Test Case 4 FAILED: Boards kept after their tasks ended');
+  logger.log('Test Case 4 PASSED: A task\'s board is dropped when the task ends');
+
+  logger.log('\n🎉🎉🎉 Team Workspace Tests PASSED! 🎉🎉🎉');
+  process.exitCode = 0;
+}
+
+runTeamWorkspaceTests().catch(err => {
+  logger.error('Test script encountered an error:', err.message);
+  if (err.stack) logger.error('Stack:', err.stack);
+  process.exitCode = 1;
+}).finally(() => {
+    if (process.exitCode === 0) {
+        setTimeout(() => process.exit(0), 500);
+    } else {
+        setTimeout(() => process.exit(process.exitCode || 1), 500);
+    }
+});
@@ -0,0 +1,159 @@
+import * as assert from 'assert';
+import { parseYaml, yamlPath, YamlSyntaxError } from './src/utils/yaml';
+
+const logger = {
+  log: (message: string, ...args: any[]) => console.log(`[TEST_LOG] ${message}`, ...args),
+  error: (message: string, ...args: any[]) => console.error(`[TEST_ERROR] ${message}`, ...args),
+  warn: (message: string, ...args: any[]) => console.warn(`[TEST_WARN] ${message}`, ...args),
+};
+
+function expectSyntaxError(source: string, reason: RegExp, line: number, column: number, label: string) {
+  assert.throws(() => parseYaml(source), (error: any) => {
+    assert.ok(error instanceof YamlSyntaxError, `${label}: expected a YamlSyntaxError, got ${error}`);
+    assert.match(error.reason, reason, `${label}: reason`);
+    assert.strictEqual(error.line, line, `${label}: line`);
+    assert.strictEqual(error.column, column, `${label}: column`);
+    return true;
+  }, `${label}: should not parse`);
+}
+
+async function runYamlParserTests() {
+  logger.log('=== TEST: Manifest YAML parser ===');
+
+  // Test Suite 1: Values
+  logger.log('\n--- Test Suite 1: Values ---');
+
+  let [doc] = parseYaml([
+    '# manifest',
+    'kind: agent',
+    'name: writer   # trailing comment',
+    'description: Writes',
+    '  long text here',
+    'llm: { provider: openai, model: "gpt-4o", temperature: 0.2 }',
+    'tools: [readFile, writeFile]',
+    'empty:',
+    'nums: [1, -2.5, 0x1f, true, ~, null]',
+    'url: http://example.com/x',
+    "quoted: 'it''s'",
+    'escaped: "tab\\there \\u0041"',
+    'expr: @draft.result'
+  ].join('\n'));
+  assert.deepStrictEqual(doc.value, {
+    kind: 'agent',
+    name: 'writer',
+    description: 'Writes long text here',
+    llm: { provider: 'openai', model: 'gpt-4o', temperature: 0.2 },
+    tools: ['readFile', 'writeFile'],
+    empty: null,
+    nums: [1, -2.5, 31, true, null, null],
+    url: 'http://example.com/x',
+    quoted: "it's",
+    escaped: 'tab\there A',
+    expr: '@draft.result'
+  }, 'Test Case 1.1 FAILED: Scalars and flow collections');
+  logger.log('Test Case 1.1 PASSED: Scalars, comments and flow collections');
+
+  [doc] = parseYaml([
+    'literal: |',
+    '  Line one',
+    '    indented',
+    '  line three',
+    '',
+    'folded: >-',
+    '  a b',
+    '  c',
+    '',
+    '  d',
+    'kept: |+',
+    '  keep',
+    '',
+    'after: 1'
+  ].join('\n'));
+  assert.strictEqual(doc.value.literal, 'Line one\n  indented\nline three\n', 'Test Case 1.2 FAILED: Literal block');
+  assert.strictEqual(doc.value.folded, 'a b c\nd', 'Test Case 1.2 FAILED: Folded block, stripped');
+  assert.strictEqual(doc.value.kept, 'keep\n\n', 'Test Case 1.2 FAILED: Kept trailing newlines');
+  assert.strictEqual(doc.value.after, 1, 'Test Case 1.2 FAILED: Mapping continues after block scalars');
+  logger.log('Test Case 1.2 PASSED: Block scalars');
+
+  [doc] = parseYaml([
+    'steps:',
+    '- one',
+    '- - nested',
+    '  - 2',
+    '- key: v',
+    '  other: w',
+    '-',
+    '  deep: true'
+  ].join('\n'));
+  assert.deepStrictEqual(doc.value, { steps: ['one', ['nested', 2], { key: 'v', other: 'w' }, { deep: true }] }, 'Test Case 1.3 FAILED: Block sequences');
+  logger.log('Test Case 1.3 PASSED: Nested block sequences and mappings');
+
+  // Test Suite 2: Documents and JSON
+  logger.log('\n--- Test Suite 2: Documents and JSON ---');
+
+  const docs = parseYaml('kind: agent\n---\n- kind: team\n  name: t\n---\n# only a comment\n---\n{"kind": "pipeline",\n "steps": [{"name": "a"}]}\n');
+  assert.strictEqual(docs.length, 3, 'Test Case 2.1 FAILED: Empty documents are dropped');
+  assert.deepStrictEqual(docs.map(d => d.line), [1, 3, 8], 'Test Case 2.1 FAILED: Document start lines');
+  assert.deepStrictEqual(docs[1].value, [{ kind: 'team', name: 't' }], 'Test Case 2.1 FAILED: List document');
+  assert.deepStrictEqual(docs[2].value, { kind: 'pipeline', steps: [{ name: 'a' }] }, 'Test Case 2.1 FAILED: JSON document');
+  logger.log('Test Case 2.1 PASSED: Multiple documents, including JSON');
+
+  // Test Suite 3: Line map
+  logger.log('\n--- Test Suite 3: Line map ---');
+
+  [doc] = parseYaml([
+    '',
+    'kind: pipeline',
+    'name: p',
+    'steps:',
+    '  - name: fetch',
+    '    tool: webSearch',
+    '  - name: write',
+    '    agent: writer',
+    '    inputs: { topic: $topic }'
+  ].join('\n'));
+  assert.strictEqual(doc.line, 2, 'Test Case 3.1 FAILED: Document line skips blank lines');
+  assert.strictEqual(doc.lines.get('steps'), 4, 'Test Case 3.1 FAILED: Key line');
+  assert.strictEqual(doc.lines.get('steps[1]'), 7, 'Test Case 3.1 FAILED: Sequence item line');
+  assert.strictEqual(doc.lines.get('steps[1].agent'), 8, 'Test Case 3.1 FAILED: Nested key line');
+  assert.strictEqual(doc.lines.get('steps[1].inputs.topic'), 9, 'Test Case 3.1 FAILED: Flow mapping key line');
+  assert.strictEqual(doc.lines.get(yamlPath(yamlPath('steps', 0), 'tool')), 6, 'Test Case 3.1 FAILED: yamlPath lookup');
+  logger.log('Test Case 3.1 PASSED: Every value records its source line by path');
+
+  assert.strictEqual(yamlPath('', 'kind'), 'kind', 'Test Case 3.2 FAILED: Root key');
+  assert.strictEqual(yamlPath('', 2), '[2]', 'Test Case 3.2 FAILED: Root index');
+  assert.strictEqual(yamlPath('steps[2]', 'map'), 'steps[2].map', 'Test Case 3.2 FAILED: Nested key');
+  logger.log('Test Case 3.2 PASSED: yamlPath');
+
+  // Test Suite 4: Syntax errors
+  logger.log('\n--- Test Suite 4: Syntax errors ---');
+
+  expectSyntaxError('a: 1\n  b: 2\n', /Bad indentation/, 2, 3, 'Test Case 4.1 FAILED: Bad indentation');
+  expectSyntaxError('a: [1, 2\nb: 3\n', /Expected "," or "]"/, 2, 1, 'Test Case 4.1 FAILED: Unclosed flow sequence');
+  expectSyntaxError('a: "unterminated\n', /Unterminated quoted string/, 1, 4, 'Test Case 4.1 FAILED: Unterminated string');
+  expectSyntaxError('a: 1\na: 2\n', /Duplicate key "a"/, 2, 1, 'Test Case 4.1 FAILED: Duplicate key');
+  expectSyntaxError('a:\n\t- x\n', /Tabs are not allowed/, 2, 1, 'Test Case 4.1 FAILED: Tab indentation');
+  expectSyntaxError('msg: {{ $x }}\n', /must be quoted/, 1, 6, 'Test Case 4.1 FAILED: Unquoted template');
+  expectSyntaxError('- a\nb: 1\n', /Unexpected content/, 2, 1, 'Test Case 4.1 FAILED: Mixed sequence and mapping');
+  expectSyntaxError('a: &anchor 1\n', /Anchors, aliases and tags are not supported/, 1, 4, 'Test Case 4.1 FAILED: Anchor');
+  logger.log('Test Case 4.1 PASSED: Syntax errors carry reason, line and column');
+
+  const error = (() => { try { parseYaml('a: 1\na: 2\n'); } catch (e) { return e as YamlSyntaxError; } })()!;
+  assert.strictEqual(error.message, 'Duplicate key "a" at line 2, column 1', 'Test Case 4.2 FAILED: Message format');
+  logger.log('Test Case 4.2 PASSED: Error message includes the position');
+
+  logger.log('\n🎉🎉🎉 YAML Parser Tests PASSED! 🎉🎉🎉');
+  process.exitCode = 0;
+}
+
+runYamlParserTests().catch(err => {
+  logger.error('Test script encountered an error:', err.message);
+  if (err.stack) logger.error('Stack:', err.stack);
+  process.exitCode = 1;
+}).finally(() => {
+    if (process.exitCode === 0) {
+        setTimeout(() => process.exit(0), 500);
+    } else {
+        setTimeout(() => process.exit(process.exitCode || 1), 500);
+    }
+});